@@ -0,0 +1,87 @@
+/**
+ * Deal Cancel API Route
+ * POST cancels a deal with a reason, gives back the stock it took and tells the roles that
+ * were working on it
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { DealCancelSchema } from '@/lib/schemas/deal-amendment'
+import { getDealService } from '@/lib/services/deal.service'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+import { getSheetsSyncService } from '@/lib/services/sheets/sheets-sync.service'
+import { isSheetsSyncEnabled } from '@/lib/services/sheets/sheets.config'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = DealCancelSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getDealService().cancelDeal(id, parsed.data)
+
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    if (!result.success || !result.change) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: result.notFound ? 404 : 409 }
+      )
+    }
+
+    if (result.change.queuedNotifications > 0) {
+      after(async () => {
+        try {
+          await getOutboxDispatcher().dispatchPending()
+        } catch (error) {
+          console.error('Outbox dispatch after deal cancellation failed:', error)
+        }
+      })
+    }
+
+    // Failures are recorded in sheets_sync_log and retried by /api/sheets/retry
+    if (isSheetsSyncEnabled()) {
+      after(async () => {
+        try {
+          await getSheetsSyncService().syncDeal(id)
+        } catch (error) {
+          console.error('Sheets sync after deal cancellation failed:', error)
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.change,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Deal cancel API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
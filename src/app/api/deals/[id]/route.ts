@@ -0,0 +1,122 @@
+/**
+ * Deal Detail API Route
+ * GET returns a deal with its cost breakdown, notification history, sheet sync log, status
+ * history and amendments; PATCH corrects it and queues "DEAL AMENDED" for the affected roles
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { DealAmendmentSchema } from '@/lib/schemas/deal-amendment'
+import { getDealService } from '@/lib/services/deal.service'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+import { getSheetsSyncService } from '@/lib/services/sheets/sheets-sync.service'
+import { isSheetsSyncEnabled } from '@/lib/services/sheets/sheets.config'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const detail = await getDealService().getDealDetail(id)
+
+    if (!detail) {
+      return NextResponse.json(
+        { error: `Deal ${id} not found` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: detail,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Deal detail API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = DealAmendmentSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getDealService().amendDeal(id, parsed.data)
+
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    if (!result.success || !result.amendment) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: result.notFound ? 404 : 409 }
+      )
+    }
+
+    if (result.amendment.queuedNotifications > 0) {
+      after(async () => {
+        try {
+          await getOutboxDispatcher().dispatchPending()
+        } catch (error) {
+          console.error('Outbox dispatch after deal amendment failed:', error)
+        }
+      })
+    }
+
+    // Failures are recorded in sheets_sync_log and retried by /api/sheets/retry
+    if (isSheetsSyncEnabled()) {
+      after(async () => {
+        try {
+          await getSheetsSyncService().syncDeal(id)
+        } catch (error) {
+          console.error('Sheets sync after deal amendment failed:', error)
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.amendment,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Deal amendment API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
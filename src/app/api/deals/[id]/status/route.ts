@@ -0,0 +1,87 @@
+/**
+ * Deal Status API Route
+ * POST moves a deal to its next lifecycle status and queues the status message for the roles
+ * that act on it; the deal's sheet row is rewritten with its new status
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { DealStatusChangeSchema } from '@/lib/schemas/deal-status'
+import { getDealService } from '@/lib/services/deal.service'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+import { getSheetsSyncService } from '@/lib/services/sheets/sheets-sync.service'
+import { isSheetsSyncEnabled } from '@/lib/services/sheets/sheets.config'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = DealStatusChangeSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getDealService().transitionDealStatus(id, parsed.data)
+
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    if (!result.success || !result.change) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: result.notFound ? 404 : 409 }
+      )
+    }
+
+    if (result.change.queuedNotifications > 0) {
+      after(async () => {
+        try {
+          await getOutboxDispatcher().dispatchPending()
+        } catch (error) {
+          console.error('Outbox dispatch after deal status change failed:', error)
+        }
+      })
+    }
+
+    // Failures are recorded in sheets_sync_log and retried by /api/sheets/retry
+    if (isSheetsSyncEnabled()) {
+      after(async () => {
+        try {
+          await getSheetsSyncService().syncDeal(id)
+        } catch (error) {
+          console.error('Sheets sync after deal status change failed:', error)
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.change,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Deal status API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,46 @@
 /**
- * Deal Registration API Route
- * Handles deal creation with integrated WhatsApp notifications
+ * Deals API Route
+ * GET lists deals with filters and cursor pagination
+ * POST handles deal creation, queues its WhatsApp notifications and writes it to the Google Sheet;
+ * a new-material deal sends purchaseLines (one per supplier, plus at most one from stock)
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { getDealService, CreateDealRequest } from '@/lib/services/deal.service'
+import { getDealRepository } from '@/lib/repositories/deal.repository'
+import { parseDealListQuery } from '@/lib/schemas/deal-list'
+import { DealChargesSchema, DealDateSchema, DealOptionsSchema } from '@/lib/schemas/deal-registration'
+import { getBusinessDate } from '@/lib/services/messaging/digest'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+import { getSheetsSyncService } from '@/lib/services/sheets/sheets-sync.service'
+import { isSheetsSyncEnabled } from '@/lib/services/sheets/sheets.config'
+import type { PurchaseLine } from '@/types/deal-form'
+
+/**
+ * Purchase lines of a new-material deal; a single purchaseParty/quantityPurchased/purchaseRate
+ * (the request format before split purchases) becomes one supplier line
+ */
+const parsePurchaseLines = (body: Record<string, unknown>): PurchaseLine[] => {
+  if (body.materialSource !== 'new-material') {
+    return []
+  }
+
+  if (Array.isArray(body.purchaseLines)) {
+    return body.purchaseLines.map((line: Record<string, unknown> | null) => ({
+      source: line?.source === 'stock' ? 'stock' : 'supplier',
+      purchaseParty: typeof line?.purchaseParty === 'string' ? line.purchaseParty : '',
+      quantity: parseFloat(String(line?.quantity)) || 0,
+      rate: parseFloat(String(line?.rate)) || 0
+    }))
+  }
+
+  return [{
+    source: 'supplier',
+    purchaseParty: typeof body.purchaseParty === 'string' ? body.purchaseParty : '',
+    quantity: parseFloat(String(body.quantityPurchased)) || 0,
+    rate: parseFloat(String(body.purchaseRate)) || 0
+  }]
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,23 +54,58 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Validate landed cost charges (omitted rates fall back to the defaults)
+    const charges = DealChargesSchema.optional().safeParse(body.charges ?? undefined)
+    if (!charges.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: charges.error.errors.map(issue => `charges.${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate the deal date (omitted means today)
+    const date = DealDateSchema.optional().safeParse(body.date || undefined)
+    if (!date.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: date.error.errors.map(issue => `date: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate the delivery terms and material source
+    const options = DealOptionsSchema.safeParse(body)
+    if (!options.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: options.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
     // Parse deal data
     const dealData: CreateDealRequest = {
-      date: body.date ? new Date(body.date) : new Date(),
+      date: date.data ?? getBusinessDate(),
       saleParty: body.saleParty,
       quantitySold: parseFloat(body.quantitySold) || 0,
       saleRate: parseFloat(body.saleRate) || 0,
-      deliveryTerms: body.deliveryTerms,
+      deliveryTerms: options.data.deliveryTerms,
       saleComments: body.saleComments || '',
       productCode: body.productCode,
       selectedProduct: body.selectedProduct,
-      materialSource: body.materialSource,
-      purchaseParty: body.purchaseParty || '',
-      quantityPurchased: parseFloat(body.quantityPurchased) || 0,
-      purchaseRate: parseFloat(body.purchaseRate) || 0,
+      materialSource: options.data.materialSource,
+      purchaseLines: parsePurchaseLines(body),
       warehouseLocation: body.warehouseLocation || '',
       purchaseComments: body.purchaseComments || '',
-      finalComments: body.finalComments || ''
+      finalComments: body.finalComments || '',
+      charges: charges.data
     }
 
     // Get deal service
@@ -55,6 +126,16 @@ export async function POST(request: NextRequest) {
     // Create deal
     const result = await dealService.createDeal(dealData)
 
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        {
+          error: result.error || 'Validation failed',
+          validationErrors: result.validationErrors
+        },
+        { status: 400 }
+      )
+    }
+
     if (!result.success) {
       return NextResponse.json(
         {
@@ -64,14 +145,39 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Calculate metrics for response
-    const metrics = dealService.calculateDealMetrics(dealData)
+    // Send the queued notifications once the response is out; anything left
+    // pending is picked up by /api/messaging/dispatch
+    if (result.whatsappResults?.queuedCount) {
+      after(async () => {
+        try {
+          await getOutboxDispatcher().dispatchPending()
+        } catch (error) {
+          console.error('Outbox dispatch after deal creation failed:', error)
+        }
+      })
+    }
+
+    // Failures are recorded in sheets_sync_log and retried by /api/sheets/retry
+    if (isSheetsSyncEnabled()) {
+      after(async () => {
+        try {
+          await getSheetsSyncService().syncDeal(result.dealId)
+        } catch (error) {
+          console.error('Sheets sync after deal creation failed:', error)
+        }
+      })
+    }
+
+    // Calculate metrics for response (from the saved deal, which carries any stock cost)
+    const metrics = dealService.calculateDealMetrics(result.deal)
 
     return NextResponse.json({
       success: true,
       data: {
         dealId: result.dealId,
+        srNo: result.deal.srNo,
         deal: result.deal,
+        record: result.record,
         metrics,
         whatsapp: result.whatsappResults
       },
@@ -91,45 +197,37 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
-  return NextResponse.json({
-    endpoint: '/api/deals',
-    method: 'POST',
-    description: 'Create a new deal with integrated WhatsApp notifications',
-    requiredFields: [
-      'saleParty',
-      'quantitySold',
-      'saleRate',
-      'deliveryTerms',
-      'productCode',
-      'materialSource'
-    ],
-    conditionalFields: {
-      'materialSource === "new-material"': [
-        'purchaseParty',
-        'quantityPurchased',
-        'purchaseRate'
-      ]
-    },
-    optionalFields: [
-      'date',
-      'saleComments',
-      'warehouseLocation',
-      'purchaseComments',
-      'finalComments'
-    ],
-    example: {
-      saleParty: 'Customer Company Ltd',
-      quantitySold: 1000,
-      saleRate: 85,
-      deliveryTerms: 'delivered',
-      productCode: 'PP-001',
-      materialSource: 'new-material',
-      purchaseParty: 'Supplier Industries',
-      quantityPurchased: 1000,
-      purchaseRate: 80,
-      saleComments: 'Urgent delivery required',
-      finalComments: 'First time customer'
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseDealListQuery(request.nextUrl.searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
     }
-  })
-}
\ No newline at end of file
+
+    const page = await getDealRepository().listDeals(parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Deal list API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
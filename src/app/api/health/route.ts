@@ -0,0 +1,55 @@
+/**
+ * System Health API Route
+ * GET reports each component's latest stored check, its history and the last 24h of message
+ * delivery statistics. POST runs every probe first ("Test Now") and stores the results;
+ * call it on a schedule to keep the history filled.
+ */
+
+import { NextResponse } from 'next/server'
+import { getSystemHealthService } from '@/lib/services/system-health.service'
+
+export async function GET() {
+  try {
+    const report = await getSystemHealthService().getReport()
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('System health API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST() {
+  try {
+    const report = await getSystemHealthService().runChecks()
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('System health check API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Stock Lots API Route
+ * POST receives stock bought outside a deal (or opening stock) into a warehouse as a new lot
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { ReceiveStockSchema } from '@/lib/schemas/inventory'
+import { getInventoryService } from '@/lib/services/inventory.service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = ReceiveStockSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getInventoryService().receiveStock(parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.lot,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Stock receive API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Inventory API Route
+ * GET lists the active warehouses and the stock held in each, per product
+ * (optionally for one productId or warehouseId)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { StockLevelsQuerySchema } from '@/lib/schemas/inventory'
+import { getInventoryService } from '@/lib/services/inventory.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = StockLevelsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const overview = await getInventoryService().getOverview(parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      data: overview,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Inventory API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Stock Availability API Route
+ * GET returns how much of a product is in stock, in total, per warehouse and per lot; the deal
+ * form uses it to stop a from-inventory sale larger than the stock and to preview its cost
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { StockAvailabilityQuerySchema } from '@/lib/schemas/inventory'
+import { getInventoryService } from '@/lib/services/inventory.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = StockAvailabilityQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const availability = await getInventoryService().getAvailability(parsed.data.productId, parsed.data.warehouseId)
+
+    return NextResponse.json({
+      success: true,
+      data: availability,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Stock availability API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
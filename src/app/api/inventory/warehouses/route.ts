@@ -0,0 +1,75 @@
+/**
+ * Warehouses API Route
+ * GET lists the active warehouses
+ * POST adds a warehouse
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CreateWarehouseSchema } from '@/lib/schemas/inventory'
+import { getInventoryService } from '@/lib/services/inventory.service'
+
+export async function GET() {
+  try {
+    const warehouses = await getInventoryService().listWarehouses()
+
+    return NextResponse.json({
+      success: true,
+      data: warehouses,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Warehouses API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = CreateWarehouseSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getInventoryService().createWarehouse(parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.warehouse,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Warehouse create API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Circuit Breaker Action API Route
+ * POST forces a channel's circuit breaker open (maintenance mode: outbox messages stay pending)
+ * or closed (sending resumes and the failure window is cleared)
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { CircuitBreakerActionSchema } from '@/lib/schemas/circuit-breakers'
+import { getCircuitBreakerAdminService } from '@/lib/services/messaging/circuit-breaker-admin.service'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ platform: string }> }
+) {
+  try {
+    const { platform } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = CircuitBreakerActionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getCircuitBreakerAdminService().performAction(platform, parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    // Send what queued up while the breaker was open instead of waiting for the next cron run
+    if (parsed.data.action === 'force_close') {
+      after(async () => {
+        try {
+          await getOutboxDispatcher().dispatchPending()
+        } catch (error) {
+          console.error('Outbox dispatch after closing circuit breaker failed:', error)
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.breaker,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Circuit breaker action API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Circuit Breakers API Route
+ * GET returns each channel's shared circuit breaker: state, failure window and latest transitions
+ */
+
+import { NextResponse } from 'next/server'
+import { getCircuitBreakerAdminService } from '@/lib/services/messaging/circuit-breaker-admin.service'
+
+export async function GET() {
+  try {
+    const breakers = await getCircuitBreakerAdminService().listBreakers()
+
+    return NextResponse.json({
+      success: true,
+      data: breakers,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Circuit breakers API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Deal Digest Endpoint
+ * Sends the daily or weekly digest to the recipients who opted in. Called on a schedule
+ * (cron), e.g. ?period=daily every evening and ?period=weekly once a week; add dryRun=true
+ * to see the messages and recipients without sending anything.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { DigestRunSchema } from '@/lib/schemas/notification-digests'
+import { getDigestService } from '@/lib/services/messaging/digest.service'
+import { isCronRequestAuthorized } from '@/lib/services/messaging/cron-auth'
+
+async function runDigest(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', timestamp: new Date().toISOString() },
+      { status: 401 }
+    )
+  }
+
+  const parsed = DigestRunSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'query'}: ${issue.message}`)
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await getDigestService().runDigest(parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Digest API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron issues GET requests
+export async function GET(request: NextRequest) {
+  return runDigest(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runDigest(request)
+}
@@ -0,0 +1,62 @@
+/**
+ * Outbox Dispatch Endpoint
+ * Sends pending message_outbox rows. Called after each deal registration and on a
+ * schedule (cron) so nothing queued is left behind if that first attempt is cut short.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+import { isAnyChannelEnabled } from '@/lib/services/messaging/notification-channel'
+import { isCronRequestAuthorized } from '@/lib/services/messaging/cron-auth'
+
+const MAX_BATCH_SIZE = 100
+
+async function dispatch(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', timestamp: new Date().toISOString() },
+      { status: 401 }
+    )
+  }
+
+  if (!isAnyChannelEnabled()) {
+    return NextResponse.json({
+      success: true,
+      data: { claimed: 0, sent: 0, failed: 0, durationMs: 0, skipped: 'All notification channels are disabled' },
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  try {
+    const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+    const limit = Number.isNaN(requestedLimit) ? undefined : Math.min(Math.max(requestedLimit, 1), MAX_BATCH_SIZE)
+
+    const result = await getOutboxDispatcher().dispatchPending({ limit })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Outbox dispatch API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron issues GET requests
+export async function GET(request: NextRequest) {
+  return dispatch(request)
+}
+
+export async function POST(request: NextRequest) {
+  return dispatch(request)
+}
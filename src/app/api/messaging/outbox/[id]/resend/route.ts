@@ -0,0 +1,71 @@
+/**
+ * Outbox Resend API Route
+ * POST corrects the recipient number and/or text of a failed message and queues it again
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { OutboxResendSchema } from '@/lib/schemas/outbox-console'
+import { getOutboxConsoleService } from '@/lib/services/messaging/outbox-console.service'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = OutboxResendSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getOutboxConsoleService().resendMessage(id, parsed.data)
+
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: result.notFound ? 404 : 409 }
+      )
+    }
+
+    after(async () => {
+      try {
+        await getOutboxDispatcher().dispatchPending()
+      } catch (error) {
+        console.error('Outbox dispatch after resend failed:', error)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result.message,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Outbox resend API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Outbox Bulk Action API Route
+ * POST retries or dead-letters a selection of messages (each change is audited)
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { OutboxBulkActionSchema } from '@/lib/schemas/outbox-console'
+import { getOutboxConsoleService } from '@/lib/services/messaging/outbox-console.service'
+import { getOutboxDispatcher } from '@/lib/services/messaging/outbox-dispatcher'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = OutboxBulkActionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getOutboxConsoleService().performBulkAction(parsed.data)
+
+    // Send requeued messages now instead of waiting for the next cron run
+    if (result.action === 'retry' && result.updated > 0) {
+      after(async () => {
+        try {
+          await getOutboxDispatcher().dispatchPending()
+        } catch (error) {
+          console.error('Outbox dispatch after manual retry failed:', error)
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Outbox bulk action API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Outbox Console API Route
+ * GET lists messages that need attention (failed, dead-lettered, stuck, timed out)
+ * with the most recent operator actions
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { parseOutboxConsoleQuery } from '@/lib/schemas/outbox-console'
+import { getOutboxConsoleService } from '@/lib/services/messaging/outbox-console.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseOutboxConsoleQuery(request.nextUrl.searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { limit, ...filters } = parsed.data
+    const page = await getOutboxConsoleService().listMessages(filters, limit)
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Outbox console API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,17 +1,96 @@
 /**
  * WhatsApp Message Preview Endpoint
- * Generate message previews for different recipient roles
+ * Generate message previews for different recipient roles from the stored templates,
+ * or render unsaved template text from the template editor
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { generateMessage, validateDealForMessaging } from '@/lib/services/messaging/message-templates'
-import { DealData, RecipientRole } from '@/lib/services/messaging/whatsapp.types'
+import { getBusinessDate } from '@/lib/services/messaging/digest'
+import { validateDealForMessaging } from '@/lib/services/messaging/message-templates'
+import { getMessageTemplateService } from '@/lib/services/messaging/message-template.service'
+import { BUILT_IN_RECIPIENT_ROLES, DealData, RecipientRole } from '@/lib/services/messaging/whatsapp.types'
+import { getNotificationRoleRepository } from '@/lib/repositories/notification-role.repository'
+import { TemplatePreviewSchema } from '@/lib/schemas/message-templates'
+
+/**
+ * Sample deal with defaults for anything not provided
+ * Purchase defaults only apply to new material, so inventory previews have no supplier
+ * and are costed from stock instead
+ */
+const buildSampleDeal = (dealData: Partial<DealData>): DealData => {
+  const materialSource = dealData.materialSource || 'new-material'
+  const isNewMaterial = materialSource === 'new-material'
+
+  return {
+    id: dealData.id || 'PREVIEW-001',
+    srNo: dealData.srNo,
+    date: dealData.date || getBusinessDate(),
+    saleParty: dealData.saleParty || 'Sample Customer Ltd',
+    quantitySold: dealData.quantitySold || 1000,
+    saleRate: dealData.saleRate || 85,
+    deliveryTerms: dealData.deliveryTerms || 'delivered',
+    productCode: dealData.productCode || 'PP-001',
+    product: dealData.product || 'Polypropylene',
+    grade: dealData.grade || 'H110MA',
+    company: dealData.company || 'Sample Industries',
+    materialSource,
+    purchaseParty: dealData.purchaseParty || (isNewMaterial ? 'Sample Supplier' : undefined),
+    quantityPurchased: dealData.quantityPurchased || (isNewMaterial ? 1000 : undefined),
+    purchaseRate: dealData.purchaseRate || (isNewMaterial ? 80 : undefined),
+    warehouseLocation: dealData.warehouseLocation,
+    inventoryCostPerKg: dealData.inventoryCostPerKg || (isNewMaterial ? undefined : 78),
+    inventoryCostMethod: dealData.inventoryCostMethod || (isNewMaterial ? undefined : 'weighted_average'),
+    saleComments: dealData.saleComments,
+    purchaseComments: dealData.purchaseComments,
+    finalComments: dealData.finalComments,
+    specificGrade: dealData.specificGrade
+  }
+}
+
+/**
+ * Role keys that can be previewed: the built-in roles plus any added in recipient settings
+ */
+const getPreviewRoles = async (): Promise<RecipientRole[]> => {
+  try {
+    const roles = await getNotificationRoleRepository().listAll()
+    return Array.from(new Set([...BUILT_IN_RECIPIENT_ROLES, ...roles.map(role => role.key)]))
+  } catch {
+    return [...BUILT_IN_RECIPIENT_ROLES]
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { dealData, role } = body
 
+    // Live preview of unsaved template text
+    if (body.templateText !== undefined) {
+      const parsed = TemplatePreviewSchema.safeParse(body)
+
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+          },
+          { status: 400 }
+        )
+      }
+
+      const { templateText, ...sampleOptions } = parsed.data
+      const preview = getMessageTemplateService().previewTemplate(
+        templateText,
+        buildSampleDeal({ ...dealData, ...sampleOptions })
+      )
+
+      return NextResponse.json({
+        success: true,
+        data: preview,
+        timestamp: new Date().toISOString()
+      })
+    }
+
     // Validate required fields
     if (!dealData) {
       return NextResponse.json(
@@ -20,42 +99,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create sample deal if minimal data provided
-    const sampleDeal: DealData = {
-      id: dealData.id || 'PREVIEW-001',
-      date: dealData.date ? new Date(dealData.date) : new Date(),
-      saleParty: dealData.saleParty || 'Sample Customer Ltd',
-      quantitySold: dealData.quantitySold || 1000,
-      saleRate: dealData.saleRate || 85,
-      deliveryTerms: dealData.deliveryTerms || 'delivered',
-      productCode: dealData.productCode || 'PP-001',
-      product: dealData.product || 'Polypropylene',
-      grade: dealData.grade || 'H110MA',
-      company: dealData.company || 'Sample Industries',
-      materialSource: dealData.materialSource || 'new-material',
-      purchaseParty: dealData.purchaseParty || 'Sample Supplier',
-      quantityPurchased: dealData.quantityPurchased || 1000,
-      purchaseRate: dealData.purchaseRate || 80,
-      warehouseLocation: dealData.warehouseLocation,
-      saleComments: dealData.saleComments,
-      purchaseComments: dealData.purchaseComments,
-      finalComments: dealData.finalComments,
-      specificGrade: dealData.specificGrade
-    }
+    const sampleDeal = buildSampleDeal(dealData)
 
     // If specific role requested, generate for that role only
-    if (role && typeof role === 'string') {
-      const validRoles: RecipientRole[] = ['accounts', 'logistics', 'boss1', 'bossog']
+    const roles = await getPreviewRoles()
 
-      if (!validRoles.includes(role as RecipientRole)) {
+    if (role && typeof role === 'string') {
+      if (!roles.includes(role)) {
         return NextResponse.json(
-          { error: `Invalid role. Must be one of: ${validRoles.join(', ')}` },
+          { error: `Invalid role. Must be one of: ${roles.join(', ')}` },
           { status: 400 }
         )
       }
 
       try {
-        const message = generateMessage(role as RecipientRole, sampleDeal)
+        const message = await getMessageTemplateService().renderMessage(role, sampleDeal)
 
         return NextResponse.json({
           role,
@@ -75,13 +133,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate messages for all roles
-    const roles: RecipientRole[] = ['accounts', 'logistics', 'boss1', 'bossog']
     const messages: Record<string, { message: string; messageLength: number; preview: string }> = {}
     const errors: string[] = []
 
     for (const currentRole of roles) {
       try {
-        const message = generateMessage(currentRole, sampleDeal)
+        const message = await getMessageTemplateService().renderMessage(currentRole, sampleDeal)
         messages[currentRole] = {
           message,
           messageLength: message.length,
@@ -126,13 +183,18 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET() {
+  const availableRoles = await getPreviewRoles()
+
   return NextResponse.json({
     endpoint: '/api/messaging/preview',
     method: 'POST',
     description: 'Generate WhatsApp message previews for different recipient roles',
     parameters: {
       dealData: 'Deal object with required fields',
-      role: 'Optional specific role (accounts, logistics, boss1, bossog)'
+      role: 'Optional specific role (accounts, logistics, boss1, bossog or a role added in recipient settings)',
+      templateText: 'Optional unsaved template text to render instead (template editor preview)',
+      materialSource: 'With templateText: new-material or from-inventory sample deal',
+      deliveryTerms: 'With templateText: delivered or ex-warehouse sample deal'
     },
     sampleRequest: {
       dealData: {
@@ -149,6 +211,6 @@ export async function GET() {
       },
       role: 'accounts' // Optional
     },
-    availableRoles: ['accounts', 'logistics', 'boss1', 'bossog']
+    availableRoles
   })
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * Notification Recipient API Route
+ * PATCH edits a recipient (role, name, addresses, channels, active flag)
+ * DELETE removes a recipient; messages already queued for them are kept
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RecipientUpdateSchema } from '@/lib/schemas/notification-recipients'
+import { getRecipientSettingsService } from '@/lib/services/messaging/recipient-settings.service'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = RecipientUpdateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getRecipientSettingsService().updateRecipient(id, parsed.data)
+
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.recipient,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Notification recipient update API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await getRecipientSettingsService().deleteRecipient(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Notification recipient delete API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
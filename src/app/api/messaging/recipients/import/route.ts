@@ -0,0 +1,45 @@
+/**
+ * Notification Recipients Import API Route
+ * POST copies the recipients configured in WHATSAPP_PHONE_* / TELEGRAM_CHAT_* env vars
+ * into the recipients table, so switching over keeps everyone notified
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RecipientImportSchema } from '@/lib/schemas/notification-recipients'
+import { getRecipientSettingsService } from '@/lib/services/messaging/recipient-settings.service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = RecipientImportSchema.safeParse(body ?? {})
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const imported = await getRecipientSettingsService().importFromEnvironment(parsed.data.updatedBy)
+
+    return NextResponse.json({
+      success: true,
+      data: { imported },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Notification recipients import API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Notification Recipients API Route
+ * GET lists the roles, the people notified for each and which channels are switched on
+ * POST adds a recipient
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RecipientCreateSchema } from '@/lib/schemas/notification-recipients'
+import { getRecipientSettingsService } from '@/lib/services/messaging/recipient-settings.service'
+
+export async function GET() {
+  try {
+    const settings = await getRecipientSettingsService().getSettings()
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Notification recipients API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = RecipientCreateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getRecipientSettingsService().createRecipient(parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.recipient,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Notification recipient create API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
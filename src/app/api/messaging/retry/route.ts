@@ -0,0 +1,62 @@
+/**
+ * Outbox Retry Endpoint
+ * Re-sends failed message_outbox rows that are due and dead-letters the ones that
+ * cannot be retried. Called on a schedule (cron) or by tools/outbox-worker.js.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getOutboxRetryWorker } from '@/lib/services/messaging/outbox-retry-worker'
+import { isAnyChannelEnabled } from '@/lib/services/messaging/notification-channel'
+import { isCronRequestAuthorized } from '@/lib/services/messaging/cron-auth'
+
+const MAX_BATCH_SIZE = 100
+
+async function retry(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', timestamp: new Date().toISOString() },
+      { status: 401 }
+    )
+  }
+
+  if (!isAnyChannelEnabled()) {
+    return NextResponse.json({
+      success: true,
+      data: { due: 0, retried: 0, sent: 0, failed: 0, deadLettered: 0, durationMs: 0, skipped: 'All notification channels are disabled' },
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  try {
+    const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+    const limit = Number.isNaN(requestedLimit) ? undefined : Math.min(Math.max(requestedLimit, 1), MAX_BATCH_SIZE)
+
+    const result = await getOutboxRetryWorker().runOnce({ limit })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Outbox retry API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron issues GET requests
+export async function GET(request: NextRequest) {
+  return retry(request)
+}
+
+export async function POST(request: NextRequest) {
+  return retry(request)
+}
@@ -0,0 +1,55 @@
+/**
+ * Notification Role API Route
+ * PATCH edits a role's label or description, or switches the whole role on or off
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RoleUpdateSchema } from '@/lib/schemas/notification-recipients'
+import { getRecipientSettingsService } from '@/lib/services/messaging/recipient-settings.service'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const { key } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = RoleUpdateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getRecipientSettingsService().updateRole(key, parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.role,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Notification role update API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Notification Roles API Route
+ * POST adds a role; its recipients get the deal_registered_default template until
+ * a deal_registered_<key> template is added
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RoleCreateSchema } from '@/lib/schemas/notification-recipients'
+import { getRecipientSettingsService } from '@/lib/services/messaging/recipient-settings.service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = RoleCreateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getRecipientSettingsService().createRole(parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.role,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Notification role create API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
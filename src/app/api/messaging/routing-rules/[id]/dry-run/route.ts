@@ -0,0 +1,56 @@
+/**
+ * Notification Routing Rule Dry-Run API Route
+ * POST evaluates one rule (active or not) against a deal, condition by condition, alongside
+ * which recipients the deal would reach under the active rules; nothing is sent or queued
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RoutingDryRunSchema } from '@/lib/schemas/notification-routing'
+import { getNotificationRouter } from '@/lib/services/messaging/notification-router'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = RoutingDryRunSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getNotificationRouter().dryRun(parsed.data.dealData, id)
+
+    if (!result) {
+      return NextResponse.json(
+        { error: `Routing rule ${id} not found`, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Routing rule dry-run API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
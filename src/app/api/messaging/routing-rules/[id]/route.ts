@@ -0,0 +1,97 @@
+/**
+ * Notification Routing Rule API Route
+ * PATCH edits a rule (name, target, conditions, active flag)
+ * DELETE removes a rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RoutingRuleUpdateSchema } from '@/lib/schemas/notification-routing'
+import { getRoutingRuleService } from '@/lib/services/messaging/routing-rule.service'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = RoutingRuleUpdateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getRoutingRuleService().updateRule(id, parsed.data)
+
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.rule,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Routing rule update API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await getRoutingRuleService().deleteRule(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Routing rule delete API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
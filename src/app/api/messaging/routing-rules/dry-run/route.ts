@@ -0,0 +1,45 @@
+/**
+ * Notification Routing Dry-Run API Route
+ * POST shows which recipients a deal would reach under the active routing rules, and why;
+ * nothing is sent or queued
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RoutingDryRunSchema } from '@/lib/schemas/notification-routing'
+import { getNotificationRouter } from '@/lib/services/messaging/notification-router'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = RoutingDryRunSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getNotificationRouter().dryRun(parsed.data.dealData)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Routing dry-run API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
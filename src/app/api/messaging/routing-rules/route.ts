@@ -0,0 +1,75 @@
+/**
+ * Notification Routing Rules API Route
+ * GET lists the routing rules with the deal fields and operators conditions can use
+ * POST adds a rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RoutingRuleCreateSchema } from '@/lib/schemas/notification-routing'
+import { getRoutingRuleService } from '@/lib/services/messaging/routing-rule.service'
+
+export async function GET() {
+  try {
+    const catalog = await getRoutingRuleService().getCatalog()
+
+    return NextResponse.json({
+      success: true,
+      data: catalog,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Routing rules API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = RoutingRuleCreateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getRoutingRuleService().createRule(parsed.data)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.rule,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Routing rule create API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
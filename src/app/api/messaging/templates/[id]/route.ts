@@ -0,0 +1,63 @@
+/**
+ * Message Template API Route
+ * PATCH saves an edited template text, switches the template on or off and/or sets the
+ * approved WhatsApp template sent when a recipient's session window is closed
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { MessageTemplateUpdateSchema } from '@/lib/schemas/message-templates'
+import { getMessageTemplateService } from '@/lib/services/messaging/message-template.service'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = MessageTemplateUpdateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getMessageTemplateService().updateTemplate(id, parsed.data)
+
+    if (!result.success && result.validationErrors) {
+      return NextResponse.json(
+        { error: result.error, validationErrors: result.validationErrors },
+        { status: 400 }
+      )
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, timestamp: new Date().toISOString() },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.template,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Message template update API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Message Templates API Route
+ * GET lists the notification templates with their seed defaults, variables and helpers
+ */
+
+import { NextResponse } from 'next/server'
+import { getMessageTemplateService } from '@/lib/services/messaging/message-template.service'
+
+export async function GET() {
+  try {
+    const catalog = await getMessageTemplateService().getCatalog()
+
+    return NextResponse.json({
+      success: true,
+      data: catalog,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Message templates API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * WhatsApp Webhook Endpoint
+ * GET answers Meta's subscription handshake (hub.challenge)
+ * POST receives signed status callbacks and records delivered/read receipts on the outbox
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWhatsAppWebhookSettings } from '@/lib/services/messaging/whatsapp.config'
+import { getWhatsAppWebhookHandler, verifyWebhookSignature } from '@/lib/services/messaging/whatsapp-webhook'
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const { verifyToken } = getWhatsAppWebhookSettings()
+
+  if (
+    verifyToken &&
+    params.get('hub.mode') === 'subscribe' &&
+    params.get('hub.verify_token') === verifyToken
+  ) {
+    // Meta expects the challenge echoed back as plain text
+    return new NextResponse(params.get('hub.challenge') ?? '', {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain' }
+    })
+  }
+
+  return NextResponse.json(
+    { error: 'Webhook verification failed', timestamp: new Date().toISOString() },
+    { status: 403 }
+  )
+}
+
+export async function POST(request: NextRequest) {
+  // The signature covers the exact bytes Meta sent, so read the body as text first
+  const rawBody = await request.text()
+  const { appSecret } = getWhatsAppWebhookSettings()
+
+  if (appSecret) {
+    if (!verifyWebhookSignature(rawBody, request.headers.get('x-hub-signature-256'), appSecret)) {
+      return NextResponse.json(
+        { error: 'Invalid signature', timestamp: new Date().toISOString() },
+        { status: 401 }
+      )
+    }
+  } else if (process.env.NODE_ENV === 'production') {
+    console.error('WhatsApp webhook rejected: WHATSAPP_APP_SECRET is not set')
+    return NextResponse.json(
+      { error: 'Webhook signing secret is not configured', timestamp: new Date().toISOString() },
+      { status: 401 }
+    )
+  }
+
+  // Any valid JSON is acknowledged; a payload without status callbacks (even null) applies nothing
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON payload', timestamp: new Date().toISOString() },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await getWhatsAppWebhookHandler().handlePayload(payload)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    // A non-2xx response makes Meta redeliver the callback later
+    console.error('WhatsApp webhook API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
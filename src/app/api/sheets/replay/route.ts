@@ -0,0 +1,54 @@
+/**
+ * Sheets Replay API Route
+ * POST writes one deal, or every deal dated in a range, to the Google Sheet again. Existing
+ * rows are overwritten, so a replay can be repeated; large ranges are cut at SHEETS_REPLAY_LIMIT
+ * deals (truncated: true in the response).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { SheetsReplaySchema } from '@/lib/schemas/sheets-sync'
+import { getSheetsSyncService } from '@/lib/services/sheets/sheets-sync.service'
+import { isSheetsSyncEnabled } from '@/lib/services/sheets/sheets.config'
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSheetsSyncEnabled()) {
+      return NextResponse.json(
+        { error: 'Google Sheets sync is disabled', timestamp: new Date().toISOString() },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = SheetsReplaySchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          validationErrors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getSheetsSyncService().replay(parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Sheets replay API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
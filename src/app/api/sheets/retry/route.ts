@@ -0,0 +1,62 @@
+/**
+ * Sheets Sync Retry Endpoint
+ * Writes deals whose latest Google Sheets sync failed, until each succeeds or runs out of
+ * attempts (SHEETS_SYNC_MAX_ATTEMPTS). Called on a schedule (cron).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSheetsSyncService } from '@/lib/services/sheets/sheets-sync.service'
+import { isSheetsSyncEnabled } from '@/lib/services/sheets/sheets.config'
+import { isCronRequestAuthorized } from '@/lib/services/messaging/cron-auth'
+
+const MAX_BATCH_SIZE = 100
+
+async function retry(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', timestamp: new Date().toISOString() },
+      { status: 401 }
+    )
+  }
+
+  if (!isSheetsSyncEnabled()) {
+    return NextResponse.json({
+      success: true,
+      data: { requested: 0, synced: 0, failed: 0, results: [], durationMs: 0, skipped: 'Google Sheets sync is disabled' },
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  try {
+    const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+    const limit = Number.isNaN(requestedLimit) ? undefined : Math.min(Math.max(requestedLimit, 1), MAX_BATCH_SIZE)
+
+    const result = await getSheetsSyncService().retryFailed({ limit })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Sheets sync retry API error:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron issues GET requests
+export async function GET(request: NextRequest) {
+  return retry(request)
+}
+
+export async function POST(request: NextRequest) {
+  return retry(request)
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { AlertCircle, ArrowLeft, Loader2, Pencil, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AmendDealDialog } from "@/components/deals/deal-detail/amend-deal-dialog"
+import { AmendmentHistory } from "@/components/deals/deal-detail/amendment-history"
+import { DealFieldsCard } from "@/components/deals/deal-detail/deal-fields-card"
+import { DealCostBreakdown } from "@/components/deals/deal-detail/deal-cost-breakdown"
+import { DealStatusCard } from "@/components/deals/deal-detail/deal-status-card"
+import { NotificationHistory } from "@/components/deals/deal-detail/notification-history"
+import { SheetsSyncHistory } from "@/components/deals/deal-detail/sheets-sync-history"
+import { useDealDetail } from "@/lib/hooks/use-deal-detail"
+
+export default function DealDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const { detail, isLoading, error, notFound, changeStatus, amendDeal, refetch } = useDealDetail(id)
+  const [isAmending, setIsAmending] = useState(false)
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-end justify-between">
+          <div>
+            <Link href="/deals" className="inline-flex items-center text-sm text-muted-foreground hover:text-primary">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              All deals
+            </Link>
+            <h1 className="text-3xl font-bold tracking-tight mt-2">
+              Deal {detail?.record.SrNo ?? ""}
+            </h1>
+            {detail && (
+              <p className="text-muted-foreground mt-1">
+                {detail.record["Sale Party"]} · {detail.record.Product} · {detail.record.Date}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {detail && detail.record.status !== "cancelled" && (
+              <Button variant="outline" size="sm" onClick={() => setIsAmending(true)}>
+                <Pencil className="mr-1 h-4 w-4" />
+                Amend
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={refetch} disabled={isLoading}>
+              <RefreshCw className="mr-1 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {isLoading && !detail && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {notFound && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>This deal does not exist.</AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {detail && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <DealFieldsCard record={detail.record} />
+              </div>
+              <DealCostBreakdown record={detail.record} metrics={detail.metrics} />
+            </div>
+            <DealStatusCard
+              status={detail.record.status}
+              history={detail.statusHistory}
+              onChangeStatus={changeStatus}
+            />
+            <AmendmentHistory amendments={detail.amendments} />
+            <NotificationHistory notifications={detail.notifications} />
+            <SheetsSyncHistory entries={detail.sheetsSync} />
+          </>
+        )}
+
+        {detail && isAmending && (
+          <AmendDealDialog
+            record={detail.record}
+            onAmend={amendDeal}
+            onClose={() => setIsAmending(false)}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
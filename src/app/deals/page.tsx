@@ -0,0 +1,88 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ChevronLeft, ChevronRight, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { DealListFilters } from "@/components/deals/deal-list/deal-list-filters"
+import { DealListTable } from "@/components/deals/deal-list/deal-list-table"
+import { useDealList, type DealListSort } from "@/lib/hooks/use-deal-list"
+import type { DealListFilters as DealListFilterValues } from "@/types/deal-list"
+
+export default function DealListPage() {
+  const [filters, setFilters] = useState<DealListFilterValues>({})
+  const [sort, setSort] = useState<DealListSort>({ sortBy: "date", sortDirection: "desc" })
+
+  const {
+    deals,
+    isLoading,
+    error,
+    pageIndex,
+    hasNextPage,
+    hasPreviousPage,
+    totalEstimate,
+    nextPage,
+    previousPage,
+  } = useDealList(filters, sort)
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Deals</h1>
+          <p className="text-muted-foreground mt-2">
+            Search and filter registered and historical deals.
+          </p>
+        </div>
+        <Link href="/deals/register">
+          <Button>
+            <Plus className="mr-1 h-4 w-4" />
+            Register Deal
+          </Button>
+        </Link>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DealListFilters value={filters} onApply={setFilters} />
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <DealListTable
+        deals={deals}
+        sort={sort}
+        onSortChange={setSort}
+        isLoading={isLoading}
+      />
+
+      <div className="mt-4 flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          Page {pageIndex + 1}
+          {totalEstimate !== null && ` · about ${totalEstimate.toLocaleString("en-IN")} deals`}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={previousPage} disabled={!hasPreviousPage || isLoading}>
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={nextPage} disabled={!hasNextPage || isLoading}>
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
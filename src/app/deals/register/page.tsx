@@ -17,10 +17,13 @@ export default function DealRegisterPage() {
     let message = `Deal ${dealId} created successfully!`
 
     if (whatsappResult?.enabled) {
-      if (whatsappResult.success && whatsappResult.successCount > 0) {
-        message += ` Boss1 notification sent to Tanay via WhatsApp.`
-      } else if (whatsappResult.failureCount > 0) {
-        message += ` Note: WhatsApp notification failed to send.`
+      if (whatsappResult.queuedCount > 0) {
+        const perChannel = Object.entries(whatsappResult.channels ?? {})
+          .map(([platform, count]) => `${count} ${platform === "telegram" ? "Telegram" : "WhatsApp"}`)
+          .join(", ")
+        message += ` ${whatsappResult.queuedCount} notification${whatsappResult.queuedCount === 1 ? "" : "s"} queued (${perChannel}).`
+      } else {
+        message += ` Note: no notification recipients are configured.`
       }
     }
 
@@ -0,0 +1,83 @@
+"use client"
+
+import Link from "next/link"
+import { AlertCircle, Loader2, MessageSquare, RefreshCw, Stethoscope } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { cn } from "@/lib/utils"
+import { formatTimestamp } from "@/components/deals/deal-detail/format"
+import {
+  ComponentHealthCard,
+  HEALTH_STATUS_LABELS,
+  HEALTH_STATUS_STYLES,
+} from "@/components/health/component-health-card"
+import { MessageStatisticsCard } from "@/components/health/message-statistics-card"
+import { useSystemHealth } from "@/lib/hooks/use-system-health"
+
+export default function SystemHealthPage() {
+  const { report, isLoading, isChecking, error, runChecks, refetch } = useSystemHealth()
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">System Health</h1>
+          <p className="text-muted-foreground mt-2">
+            Database, messaging channels, Google Sheets and the chatbot. Test Now probes each of them and
+            records the result.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/messages">
+            <Button variant="outline">
+              <MessageSquare className="mr-1 h-4 w-4" />
+              Failed Messages
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={refetch} disabled={isLoading || isChecking}>
+            <RefreshCw className="mr-1 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={runChecks} disabled={isChecking}>
+            {isChecking
+              ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              : <Stethoscope className="mr-1 h-4 w-4" />}
+            Test Now
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && !report && (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      )}
+
+      {report && (
+        <>
+          <div className="flex items-center gap-3">
+            <span className={cn("px-3 py-1 rounded-full text-sm font-medium", HEALTH_STATUS_STYLES[report.status])}>
+              Overall: {HEALTH_STATUS_LABELS[report.status]}
+            </span>
+            <span className="text-sm text-muted-foreground">
+              {report.checkedAt ? `Last checked ${formatTimestamp(report.checkedAt)}` : "Not checked yet; press Test Now"}
+            </span>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {report.components.map(component => (
+              <ComponentHealthCard key={component.component} health={component} />
+            ))}
+          </div>
+
+          <MessageStatisticsCard statistics={report.messageStatistics} />
+        </>
+      )}
+    </div>
+  )
+}
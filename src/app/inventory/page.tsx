@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ClipboardList, PackagePlus, RefreshCw, Warehouse as WarehouseIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ReceiveStockDialog } from "@/components/inventory/receive-stock-dialog"
+import { StockLevelsTable } from "@/components/inventory/stock-levels-table"
+import { WarehouseFormDialog } from "@/components/inventory/warehouse-form-dialog"
+import { useInventory } from "@/lib/hooks/use-inventory"
+
+type OpenDialog = "warehouse" | "receive" | null
+
+export default function InventoryPage() {
+  const { overview, isLoading, error, createWarehouse, receiveStock, refetch } = useInventory()
+  const [openDialog, setOpenDialog] = useState<OpenDialog>(null)
+
+  const warehouses = overview?.warehouses ?? []
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Inventory</h1>
+          <p className="text-muted-foreground mt-2">
+            Stock on hand per product and warehouse. From-inventory deals take stock out when they are
+            registered; new-material deals that buy more than they sell add the surplus.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/deals">
+            <Button variant="outline">
+              <ClipboardList className="mr-1 h-4 w-4" />
+              Deals
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={refetch} disabled={isLoading}>
+            <RefreshCw className="mr-1 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={() => setOpenDialog("warehouse")}>
+            <WarehouseIcon className="mr-1 h-4 w-4" />
+            Add Warehouse
+          </Button>
+          <Button onClick={() => setOpenDialog("receive")} disabled={warehouses.length === 0}>
+            <PackagePlus className="mr-1 h-4 w-4" />
+            Receive Stock
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && !overview && (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      )}
+
+      {overview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Stock Levels</CardTitle>
+              <CardDescription>Average cost is weighted by the quantity left in each lot</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StockLevelsTable levels={overview.levels} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Warehouses</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {warehouses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No warehouses yet. Add one to start receiving stock.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {warehouses.map(warehouse => (
+                    <li key={warehouse.id}>
+                      <span className="font-medium">{warehouse.name}</span>
+                      {warehouse.location && <span className="text-muted-foreground"> · {warehouse.location}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {openDialog === "warehouse" && (
+        <WarehouseFormDialog
+          onSubmit={async (request) => { await createWarehouse(request) }}
+          onClose={() => setOpenDialog(null)}
+        />
+      )}
+
+      {openDialog === "receive" && (
+        <ReceiveStockDialog
+          warehouses={warehouses}
+          onSubmit={async (request) => { await receiveStock(request) }}
+          onClose={() => setOpenDialog(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, Archive, CheckCircle, FileText, RefreshCw, RotateCcw, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { OutboxConsoleFilters } from "@/components/messaging/outbox-console-filters"
+import { FailedMessageTable } from "@/components/messaging/failed-message-table"
+import { ResendMessageDialog } from "@/components/messaging/resend-message-dialog"
+import { OutboxAuditTrail } from "@/components/messaging/outbox-audit-trail"
+import { CircuitBreakerPanel } from "@/components/messaging/circuit-breaker-panel"
+import { useOutboxConsole } from "@/lib/hooks/use-outbox-console"
+import { useCircuitBreakers } from "@/lib/hooks/use-circuit-breakers"
+import type { MessageOutboxMonitoring } from "@/types"
+import type { OutboxConsoleAction, OutboxConsoleFilters as OutboxConsoleFilterValues } from "@/types/outbox-console"
+import type { CircuitBreakerAction } from "@/types/circuit-breakers"
+
+// Remember who is operating the console between visits
+const OPERATOR_STORAGE_KEY = "outbox-console-operator"
+
+export default function MessageConsolePage() {
+  const [filters, setFilters] = useState<OutboxConsoleFilterValues>({ status: "failed" })
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [editing, setEditing] = useState<MessageOutboxMonitoring | null>(null)
+  const [operator, setOperator] = useState("")
+  const [isActing, setIsActing] = useState(false)
+  const [notice, setNotice] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const { messages, actions, isLoading, error, runBulkAction, resendMessage, refetch } = useOutboxConsole(filters)
+  const breakers = useCircuitBreakers()
+
+  useEffect(() => {
+    setOperator(window.localStorage.getItem(OPERATOR_STORAGE_KEY) ?? "")
+  }, [])
+
+  const updateOperator = (value: string) => {
+    setOperator(value)
+    window.localStorage.setItem(OPERATOR_STORAGE_KEY, value)
+  }
+
+  const applyFilters = (next: OutboxConsoleFilterValues) => {
+    setSelectedIds(new Set())
+    setFilters(next)
+  }
+
+  const handleBulkAction = async (action: OutboxConsoleAction) => {
+    try {
+      setIsActing(true)
+      setNotice(null)
+      const result = await runBulkAction({
+        action,
+        ids: Array.from(selectedIds),
+        performedBy: operator.trim() || undefined,
+      })
+      const verb = action === "retry" ? "queued for retry" : "moved to dead letter"
+      setNotice({
+        type: "success",
+        text: `${result.updated} of ${result.requested} messages ${verb}` +
+          (result.skipped.length > 0 ? ` (${result.skipped.length} skipped: no longer in a state this applies to)` : "") + ".",
+      })
+      setSelectedIds(new Set())
+    } catch (err) {
+      setNotice({ type: "error", text: err instanceof Error ? err.message : "Action failed" })
+    } finally {
+      setIsActing(false)
+    }
+  }
+
+  const handleBreakerAction = async (platform: string, action: CircuitBreakerAction) => {
+    try {
+      setNotice(null)
+      const breaker = await breakers.runAction(platform, { action, performedBy: operator.trim() || undefined })
+      setNotice({
+        type: "success",
+        text: action === "force_open"
+          ? `${breaker.label} circuit breaker opened. Its messages stay pending until it is closed.`
+          : `${breaker.label} circuit breaker closed. Pending messages are being sent.`,
+      })
+      await refetch()
+    } catch (err) {
+      setNotice({ type: "error", text: err instanceof Error ? err.message : "Action failed" })
+    }
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Message Console</h1>
+          <p className="text-muted-foreground mt-2">
+            Failed, dead-lettered and stuck notifications. Retry, correct and resend, or give up on them.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/messages/templates">
+            <Button variant="outline">
+              <FileText className="mr-1 h-4 w-4" />
+              Templates
+            </Button>
+          </Link>
+          <Link href="/messages/recipients">
+            <Button variant="outline">
+              <Users className="mr-1 h-4 w-4" />
+              Recipients
+            </Button>
+          </Link>
+          <Button
+            variant="outline"
+            onClick={() => Promise.all([refetch(), breakers.refetch()])}
+            disabled={isLoading}
+          >
+            <RefreshCw className="mr-1 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {breakers.error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{breakers.error}</AlertDescription>
+        </Alert>
+      )}
+
+      <CircuitBreakerPanel
+        breakers={breakers.breakers}
+        isLoading={breakers.isLoading}
+        onAction={handleBreakerAction}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OutboxConsoleFilters value={filters} onApply={applyFilters} />
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className={notice.type === "success" ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}>
+          {notice.type === "success"
+            ? <CheckCircle className="h-4 w-4 text-green-600" />
+            : <AlertCircle className="h-4 w-4 text-red-600" />}
+          <AlertDescription className={notice.type === "success" ? "text-green-800" : "text-red-800"}>
+            {notice.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="operator">Operator</Label>
+          <Input
+            id="operator"
+            className="w-56"
+            placeholder="Your name (for the audit trail)"
+            value={operator}
+            onChange={(e) => updateOperator(e.target.value)}
+          />
+        </div>
+        <Button onClick={() => handleBulkAction("retry")} disabled={selectedIds.size === 0 || isActing}>
+          <RotateCcw className="mr-1 h-4 w-4" />
+          Retry selected ({selectedIds.size})
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => handleBulkAction("dead_letter")}
+          disabled={selectedIds.size === 0 || isActing}
+        >
+          <Archive className="mr-1 h-4 w-4" />
+          Dead-letter selected
+        </Button>
+      </div>
+
+      <FailedMessageTable
+        messages={messages}
+        selectedIds={selectedIds}
+        onSelectionChange={setSelectedIds}
+        onEdit={setEditing}
+        isLoading={isLoading}
+      />
+
+      <OutboxAuditTrail actions={actions} />
+
+      {editing?.id && (
+        <ResendMessageDialog
+          key={editing.id}
+          message={editing}
+          onResend={async (request) => {
+            await resendMessage(editing.id!, { ...request, performedBy: operator.trim() || undefined })
+            setNotice({ type: "success", text: "Message corrected and queued for resend." })
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ArrowLeft, CheckCircle, Download, Plus, Route } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RecipientFormDialog } from "@/components/messaging/recipient-form-dialog"
+import { RoleFormDialog } from "@/components/messaging/role-form-dialog"
+import { RoleRecipientsCard } from "@/components/messaging/role-recipients-card"
+import { useNotificationRecipients } from "@/lib/hooks/use-notification-recipients"
+import type { NotificationRecipient, NotificationRole } from "@/types"
+
+// Same operator name as the message console, recorded as updated_by
+const OPERATOR_STORAGE_KEY = "outbox-console-operator"
+
+type RecipientDialogState = { recipient?: NotificationRecipient; role?: string } | null
+type RoleDialogState = { role?: NotificationRole } | null
+
+export default function NotificationRecipientsPage() {
+  const [operator, setOperator] = useState("")
+  const [recipientDialog, setRecipientDialog] = useState<RecipientDialogState>(null)
+  const [roleDialog, setRoleDialog] = useState<RoleDialogState>(null)
+  const [notice, setNotice] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const {
+    settings,
+    isLoading,
+    error,
+    createRecipient,
+    updateRecipient,
+    deleteRecipient,
+    importFromEnvironment,
+    createRole,
+    updateRole,
+  } = useNotificationRecipients()
+
+  useEffect(() => {
+    setOperator(window.localStorage.getItem(OPERATOR_STORAGE_KEY) ?? "")
+  }, [])
+
+  const updateOperator = (value: string) => {
+    setOperator(value)
+    window.localStorage.setItem(OPERATOR_STORAGE_KEY, value)
+  }
+
+  const updatedBy = () => operator.trim() || undefined
+
+  // Run an action from a card and report the outcome above the list
+  const run = async (action: () => Promise<unknown>, successText: string) => {
+    try {
+      setNotice(null)
+      await action()
+      setNotice({ type: "success", text: successText })
+    } catch (err) {
+      setNotice({ type: "error", text: err instanceof Error ? err.message : "Action failed" })
+    }
+  }
+
+  const handleImport = async () => {
+    try {
+      setNotice(null)
+      const imported = await importFromEnvironment(updatedBy())
+      setNotice({
+        type: "success",
+        text: imported.length > 0
+          ? `Imported ${imported.length} recipient(s) from the environment configuration.`
+          : "Nothing to import: no new numbers are configured in the environment.",
+      })
+    } catch (err) {
+      setNotice({ type: "error", text: err instanceof Error ? err.message : "Import failed" })
+    }
+  }
+
+  const handleDelete = (recipient: NotificationRecipient) => {
+    if (!window.confirm(`Remove ${recipient.name}? They will no longer be notified of new deals.`)) return
+    run(() => deleteRecipient(recipient.id), `${recipient.name} removed.`)
+  }
+
+  const roles = settings?.roles ?? []
+  const recipients = settings?.recipients ?? []
+  const disabledChannels = Object.entries(settings?.channels ?? {})
+    .filter(([, enabled]) => !enabled)
+    .map(([channel]) => channel)
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Notification Recipients</h1>
+          <p className="text-muted-foreground mt-2">
+            Who is notified when a deal is registered. Changes apply to new deals only.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setRoleDialog({})}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add role
+          </Button>
+          <Link href="/messages/routing">
+            <Button variant="outline">
+              <Route className="mr-1 h-4 w-4" />
+              Routing rules
+            </Button>
+          </Link>
+          <Link href="/messages">
+            <Button variant="outline">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Message Console
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className={notice.type === "success" ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}>
+          {notice.type === "success"
+            ? <CheckCircle className="h-4 w-4 text-green-600" />
+            : <AlertCircle className="h-4 w-4 text-red-600" />}
+          <AlertDescription className={notice.type === "success" ? "text-green-800" : "text-red-800"}>
+            {notice.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {settings?.usingEnvironmentFallback && (
+        <Alert className="border-yellow-200 bg-yellow-50">
+          <AlertCircle className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="text-yellow-800">
+            No recipients are configured yet, so deals still go to the WHATSAPP_PHONE_* and TELEGRAM_CHAT_* numbers
+            from the environment. Import them to manage them here; once the first recipient is added only this list is used.
+            <Button size="sm" variant="outline" className="mt-2" onClick={handleImport}>
+              <Download className="mr-1 h-4 w-4" />
+              Import from environment
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {disabledChannels.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Switched off: {disabledChannels.join(", ")}. Recipients are not notified on a channel until it is enabled.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="operator">Operator</Label>
+        <Input
+          id="operator"
+          className="w-56"
+          placeholder="Your name (recorded on save)"
+          value={operator}
+          onChange={(e) => updateOperator(e.target.value)}
+        />
+      </div>
+
+      {isLoading && !settings && <p className="text-muted-foreground">Loading recipients…</p>}
+
+      {settings && roles.length === 0 && (
+        <p className="text-muted-foreground">
+          No roles found. Run the notification_recipients migration to seed the built-in roles.
+        </p>
+      )}
+
+      <div className="space-y-6">
+        {settings && roles.map(role => (
+          <RoleRecipientsCard
+            key={role.key}
+            role={role}
+            recipients={recipients.filter(recipient => recipient.role === role.key)}
+            channels={settings.channels}
+            onEditRole={() => setRoleDialog({ role })}
+            onToggleRole={() => run(
+              () => updateRole(role.key, { isActive: !role.is_active }),
+              role.is_active ? `${role.label} deactivated.` : `${role.label} activated.`
+            )}
+            onAddRecipient={() => setRecipientDialog({ role: role.key })}
+            onEditRecipient={(recipient) => setRecipientDialog({ recipient })}
+            onToggleRecipient={(recipient) => run(
+              () => updateRecipient(recipient.id, { isActive: !recipient.is_active, updatedBy: updatedBy() }),
+              recipient.is_active ? `${recipient.name} paused.` : `${recipient.name} resumed.`
+            )}
+            onDeleteRecipient={handleDelete}
+          />
+        ))}
+      </div>
+
+      {recipientDialog && (
+        <RecipientFormDialog
+          key={recipientDialog.recipient?.id ?? "new"}
+          roles={roles}
+          recipient={recipientDialog.recipient}
+          defaultRole={recipientDialog.role}
+          onSubmit={async (request) => {
+            if (recipientDialog.recipient) {
+              await updateRecipient(recipientDialog.recipient.id, { ...request, updatedBy: updatedBy() })
+              setNotice({ type: "success", text: `${request.name} saved.` })
+            } else {
+              await createRecipient({ ...request, updatedBy: updatedBy() })
+              setNotice({ type: "success", text: `${request.name} added.` })
+            }
+          }}
+          onClose={() => setRecipientDialog(null)}
+        />
+      )}
+
+      {roleDialog && (
+        <RoleFormDialog
+          key={roleDialog.role?.key ?? "new"}
+          role={roleDialog.role}
+          onSubmit={async (request) => {
+            if (roleDialog.role) {
+              await updateRole(roleDialog.role.key, { label: request.label, description: request.description })
+              setNotice({ type: "success", text: `${request.label} saved.` })
+            } else {
+              await createRole(request)
+              setNotice({ type: "success", text: `${request.label} added.` })
+            }
+          }}
+          onClose={() => setRoleDialog(null)}
+        />
+      )}
+    </div>
+  )
+}
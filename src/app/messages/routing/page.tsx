@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ArrowLeft, CheckCircle, FlaskConical, Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { RoutingRuleDialog } from "@/components/messaging/routing-rule-dialog"
+import { RoutingDryRunPanel } from "@/components/messaging/routing-dry-run-panel"
+import { useRoutingRules } from "@/lib/hooks/use-routing-rules"
+import { useNotificationRecipients } from "@/lib/hooks/use-notification-recipients"
+import { cn } from "@/lib/utils"
+import type { RoutingRule } from "@/types/notification-routing"
+
+// Same operator name as the message console, recorded as updated_by
+const OPERATOR_STORAGE_KEY = "outbox-console-operator"
+
+export default function NotificationRoutingPage() {
+  const [operator, setOperator] = useState("")
+  const [editing, setEditing] = useState<{ rule?: RoutingRule } | null>(null)
+  const [explaining, setExplaining] = useState<RoutingRule | undefined>()
+  const [notice, setNotice] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const { catalog, isLoading, error, createRule, updateRule, deleteRule, dryRun } = useRoutingRules()
+  const { settings } = useNotificationRecipients()
+
+  useEffect(() => {
+    setOperator(window.localStorage.getItem(OPERATOR_STORAGE_KEY) ?? "")
+  }, [])
+
+  const updateOperator = (value: string) => {
+    setOperator(value)
+    window.localStorage.setItem(OPERATOR_STORAGE_KEY, value)
+  }
+
+  const updatedBy = () => operator.trim() || undefined
+
+  const run = async (action: () => Promise<unknown>, successText: string) => {
+    try {
+      setNotice(null)
+      await action()
+      setNotice({ type: "success", text: successText })
+    } catch (err) {
+      setNotice({ type: "error", text: err instanceof Error ? err.message : "Action failed" })
+    }
+  }
+
+  const roles = settings?.roles ?? []
+  const recipients = settings?.recipients ?? []
+  const rules = catalog?.rules ?? []
+
+  const describeTarget = (rule: RoutingRule) => {
+    if (rule.recipient_id) {
+      return recipients.find(recipient => recipient.id === rule.recipient_id)?.name ?? "Unknown person"
+    }
+    return roles.find(role => role.key === rule.role)?.label ?? rule.role
+  }
+
+  const describeConditions = (rule: RoutingRule) => {
+    if (rule.conditions.length === 0) return "Every deal"
+    return rule.conditions.map(condition => {
+      const value = Array.isArray(condition.value) ? condition.value.join(", ") : condition.value
+      return `${catalog?.fields[condition.field].label ?? condition.field} ${catalog?.operators[condition.operator] ?? condition.operator} ${value}`
+    }).join(" and ")
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Notification Routing</h1>
+          <p className="text-muted-foreground mt-2">
+            Which deals each role or person hears about. Without rules, everyone is notified of every deal.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setEditing({})}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add rule
+          </Button>
+          <Link href="/messages/recipients">
+            <Button variant="outline">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Recipients
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className={notice.type === "success" ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}>
+          {notice.type === "success"
+            ? <CheckCircle className="h-4 w-4 text-green-600" />
+            : <AlertCircle className="h-4 w-4 text-red-600" />}
+          <AlertDescription className={notice.type === "success" ? "text-green-800" : "text-red-800"}>
+            {notice.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="operator">Operator</Label>
+        <Input
+          id="operator"
+          className="w-56"
+          placeholder="Your name (recorded on save)"
+          value={operator}
+          onChange={(e) => updateOperator(e.target.value)}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !catalog ? (
+            <p className="text-muted-foreground">Loading rules…</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Notify when</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                      No routing rules. Every recipient is notified of every deal.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rules.map(rule => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">
+                        {rule.name}
+                        {rule.description && <p className="text-xs font-normal text-muted-foreground">{rule.description}</p>}
+                      </TableCell>
+                      <TableCell>{describeTarget(rule)}</TableCell>
+                      <TableCell className="text-sm whitespace-normal">{describeConditions(rule)}</TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          onClick={() => run(
+                            () => updateRule(rule.id, { isActive: !rule.is_active, updatedBy: updatedBy() }),
+                            rule.is_active ? `${rule.name} deactivated.` : `${rule.name} activated.`
+                          )}
+                          className={cn(
+                            "px-2 py-1 rounded-full text-xs font-medium",
+                            rule.is_active ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-700"
+                          )}
+                        >
+                          {rule.is_active ? "Active" : "Inactive"}
+                        </button>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" title="Dry run this rule" onClick={() => setExplaining(rule)}>
+                          <FlaskConical className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditing({ rule })}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            if (!window.confirm(`Delete the rule "${rule.name}"?`)) return
+                            run(() => deleteRule(rule.id), `${rule.name} deleted.`)
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RoutingDryRunPanel
+        rule={explaining}
+        onDryRun={dryRun}
+        onClearRule={() => setExplaining(undefined)}
+      />
+
+      {editing && catalog && (
+        <RoutingRuleDialog
+          key={editing.rule?.id ?? "new"}
+          rule={editing.rule}
+          roles={roles}
+          recipients={recipients}
+          fields={catalog.fields}
+          operators={catalog.operators}
+          onSubmit={async (request) => {
+            if (editing.rule) {
+              await updateRule(editing.rule.id, { ...request, updatedBy: updatedBy() })
+              setNotice({ type: "success", text: `${request.name} saved.` })
+            } else {
+              await createRule({ ...request, updatedBy: updatedBy() })
+              setNotice({ type: "success", text: `${request.name} added.` })
+            }
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  )
+}
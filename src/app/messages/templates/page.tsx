@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { TemplateEditor } from "@/components/messaging/template-editor"
+import { useMessageTemplates } from "@/lib/hooks/use-message-templates"
+
+// Same operator name as the message console, recorded as updated_by
+const OPERATOR_STORAGE_KEY = "outbox-console-operator"
+
+export default function MessageTemplatesPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [operator, setOperator] = useState("")
+
+  const { catalog, isLoading, error, updateTemplate, previewTemplate } = useMessageTemplates()
+
+  useEffect(() => {
+    setOperator(window.localStorage.getItem(OPERATOR_STORAGE_KEY) ?? "")
+  }, [])
+
+  const updateOperator = (value: string) => {
+    setOperator(value)
+    window.localStorage.setItem(OPERATOR_STORAGE_KEY, value)
+  }
+
+  const templates = catalog?.templates ?? []
+  const selected = templates.find(template => template.id === selectedId) ?? templates[0]
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Message Templates</h1>
+          <p className="text-muted-foreground mt-2">
+            The text each team receives when a deal is registered. Changes apply to new notifications only.
+          </p>
+        </div>
+        <Link href="/messages">
+          <Button variant="outline">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Message Console
+          </Button>
+        </Link>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="operator">Operator</Label>
+          <Input
+            id="operator"
+            className="w-56"
+            placeholder="Your name (recorded on save)"
+            value={operator}
+            onChange={(e) => updateOperator(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {templates.map(template => (
+            <Button
+              key={template.id}
+              variant={template.id === selected?.id ? "default" : "outline"}
+              onClick={() => setSelectedId(template.id)}
+            >
+              {template.name}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading && !catalog && <p className="text-muted-foreground">Loading templates…</p>}
+
+      {catalog && templates.length === 0 && (
+        <p className="text-muted-foreground">
+          No templates found. Run the message_templates migration to seed the defaults.
+        </p>
+      )}
+
+      {catalog && selected && (
+        <TemplateEditor
+          key={selected.id}
+          template={selected}
+          defaultText={catalog.defaults[selected.name]}
+          variables={catalog.variables}
+          helpers={catalog.helpers}
+          onSave={async (request) => {
+            await updateTemplate(selected.id, { ...request, updatedBy: operator.trim() || undefined })
+          }}
+          onPreview={previewTemplate}
+        />
+      )}
+    </div>
+  )
+}
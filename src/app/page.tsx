@@ -38,6 +38,16 @@ export default function Home() {
                   Register New Deal
                 </Button>
               </Link>
+              <Link href="/deals">
+                <Button variant="outline" className="w-full mt-2">
+                  View All Deals
+                </Button>
+              </Link>
+              <Link href="/inventory">
+                <Button variant="outline" className="w-full mt-2">
+                  Inventory
+                </Button>
+              </Link>
             </CardContent>
           </Card>
 
@@ -79,9 +89,31 @@ export default function Home() {
                 Check database connectivity, messaging services, and system performance
                 in real-time.
               </p>
-              <Button variant="outline" className="w-full" disabled>
-                Coming Soon
-              </Button>
+              <Link href="/messages">
+                <Button variant="outline" className="w-full">
+                  Failed Messages
+                </Button>
+              </Link>
+              <Link href="/messages/templates">
+                <Button variant="outline" className="w-full mt-2">
+                  Message Templates
+                </Button>
+              </Link>
+              <Link href="/messages/recipients">
+                <Button variant="outline" className="w-full mt-2">
+                  Notification Recipients
+                </Button>
+              </Link>
+              <Link href="/messages/routing">
+                <Button variant="outline" className="w-full mt-2">
+                  Notification Routing
+                </Button>
+              </Link>
+              <Link href="/health">
+                <Button variant="outline" className="w-full mt-2">
+                  System Health
+                </Button>
+              </Link>
             </CardContent>
           </Card>
 
@@ -0,0 +1,256 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import type { Deal } from "@/types"
+import type { DealAmendmentRequest } from "@/types/deal-amendment"
+
+interface AmendDealDialogProps {
+  record: Deal
+  onAmend: (request: DealAmendmentRequest) => Promise<void>
+  onClose: () => void
+}
+
+// The deal's values as form inputs (numbers as strings so they can be cleared while typing)
+const toDraft = (record: Deal) => ({
+  date: record.Date ?? "",
+  quantitySold: String(record["Quantity Sold"] ?? ""),
+  saleRate: String(record["Sale Rate"] ?? ""),
+  deliveryTerms: record.delivery_terms ?? "",
+  quantityPurchased: String(record["Quantity Purchased"] ?? ""),
+  purchaseRate: String(record["Purchase Rate"] ?? ""),
+  saleComments: record.sale_comments ?? "",
+  purchaseComments: record.purchase_comments ?? "",
+  finalComments: record.final_comments ?? "",
+})
+
+type Draft = ReturnType<typeof toDraft>
+
+const NUMBER_FIELDS = ["quantitySold", "saleRate", "quantityPurchased", "purchaseRate"] as const
+const TEXT_FIELDS = ["date", "saleComments", "purchaseComments", "finalComments"] as const
+
+// Only the fields the operator changed are sent, so the amendment lists just those
+const buildRequest = (initial: Draft, draft: Draft): DealAmendmentRequest => {
+  const request: DealAmendmentRequest = {}
+
+  NUMBER_FIELDS.forEach(field => {
+    if (draft[field] !== initial[field]) request[field] = parseFloat(draft[field])
+  })
+  TEXT_FIELDS.forEach(field => {
+    if (draft[field] !== initial[field]) request[field] = draft[field].trim()
+  })
+  if (draft.deliveryTerms !== initial.deliveryTerms) {
+    request.deliveryTerms = draft.deliveryTerms as DealAmendmentRequest["deliveryTerms"]
+  }
+
+  return request
+}
+
+// Mounted while open, so each opening starts from the deal as it is now
+export function AmendDealDialog({ record, onAmend, onClose }: AmendDealDialogProps) {
+  const [initial] = useState(() => toDraft(record))
+  const [draft, setDraft] = useState(initial)
+  const [note, setNote] = useState("")
+  const [performedBy, setPerformedBy] = useState("")
+  const [notify, setNotify] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isNewMaterial = record.material_source !== "from-inventory"
+
+  const updateDraft = (key: keyof Draft, value: string) => {
+    setDraft(previous => ({ ...previous, [key]: value }))
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onAmend({
+        ...buildRequest(initial, draft),
+        note: note.trim() || undefined,
+        performedBy: performedBy.trim() || undefined,
+        notify,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Amendment failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Amend Deal {record.SrNo ?? ""}</DialogTitle>
+            <DialogDescription>
+              Changes are recorded with your name, and the teams whose messages showed a changed field are told.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="amend-date">Date</Label>
+              <Input
+                id="amend-date"
+                type="date"
+                value={draft.date}
+                onChange={(e) => updateDraft("date", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Delivery Terms</Label>
+              <Select value={draft.deliveryTerms} onValueChange={(v) => updateDraft("deliveryTerms", v)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select delivery terms" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                  <SelectItem value="ex-warehouse">Ex-Warehouse (Pickup)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="amend-quantity-sold">Quantity Sold (kg)</Label>
+              <Input
+                id="amend-quantity-sold"
+                type="number"
+                step="0.01"
+                value={draft.quantitySold}
+                onChange={(e) => updateDraft("quantitySold", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="amend-sale-rate">Sale Rate (₹/kg)</Label>
+              <Input
+                id="amend-sale-rate"
+                type="number"
+                step="0.01"
+                value={draft.saleRate}
+                onChange={(e) => updateDraft("saleRate", e.target.value)}
+              />
+            </div>
+            {isNewMaterial && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="amend-quantity-purchased">Quantity Purchased (kg)</Label>
+                  <Input
+                    id="amend-quantity-purchased"
+                    type="number"
+                    step="0.01"
+                    value={draft.quantityPurchased}
+                    onChange={(e) => updateDraft("quantityPurchased", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="amend-purchase-rate">Purchase Rate (₹/kg)</Label>
+                  <Input
+                    id="amend-purchase-rate"
+                    type="number"
+                    step="0.01"
+                    value={draft.purchaseRate}
+                    onChange={(e) => updateDraft("purchaseRate", e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="amend-sale-comments">Sale Notes</Label>
+              <Textarea
+                id="amend-sale-comments"
+                rows={3}
+                value={draft.saleComments}
+                onChange={(e) => updateDraft("saleComments", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="amend-purchase-comments">Purchase Notes</Label>
+              <Textarea
+                id="amend-purchase-comments"
+                rows={3}
+                value={draft.purchaseComments}
+                onChange={(e) => updateDraft("purchaseComments", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="amend-final-comments">Special Instructions</Label>
+              <Textarea
+                id="amend-final-comments"
+                rows={3}
+                value={draft.finalComments}
+                onChange={(e) => updateDraft("finalComments", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="amend-note">Reason (optional)</Label>
+              <Input
+                id="amend-note"
+                placeholder="Why the deal was corrected"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="amend-performed-by">Your Name (optional)</Label>
+              <Input
+                id="amend-performed-by"
+                placeholder="operator"
+                value={performedBy}
+                onChange={(e) => setPerformedBy(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <label className="inline-flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+            Notify the team
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <Save className="mr-1 h-4 w-4" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
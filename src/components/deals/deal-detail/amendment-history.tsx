@@ -0,0 +1,65 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { DealAmendment } from "@/types"
+import { AMENDABLE_DEAL_FIELD_LABELS, type DealFieldChange } from "@/types/deal-amendment"
+import { formatTimestamp } from "./format"
+
+interface AmendmentHistoryProps {
+  amendments: DealAmendment[]
+}
+
+const formatValue = (value: DealFieldChange["before"]): string => {
+  return value === null || value === "" ? "—" : String(value)
+}
+
+export function AmendmentHistory({ amendments }: AmendmentHistoryProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Amendments</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {amendments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This deal has not been amended.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {amendments.map(amendment => (
+                <TableRow key={amendment.id}>
+                  <TableCell className="align-top">{formatTimestamp(amendment.created_at)}</TableCell>
+                  <TableCell className="align-top">{amendment.performed_by}</TableCell>
+                  <TableCell className="whitespace-normal text-xs">
+                    {(amendment.changes as DealFieldChange[]).map(change => (
+                      <div key={change.field}>
+                        <span className="font-medium">{AMENDABLE_DEAL_FIELD_LABELS[change.field] ?? change.field}:</span>{" "}
+                        {formatValue(change.before)} → {formatValue(change.after)}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="max-w-[240px] whitespace-normal align-top text-xs">{amendment.note}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
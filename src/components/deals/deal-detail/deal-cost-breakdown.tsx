@@ -0,0 +1,119 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { Deal } from "@/types"
+import { getMarginBand, type DealCosting } from "@/lib/costing/deal-costing"
+import { INVENTORY_COST_METHOD_LABELS, type InventoryCostMethod } from "@/lib/costing/inventory-costing"
+import type { DealPurchaseLine } from "@/lib/services/messaging/whatsapp.types"
+import { formatQuantity, formatRupees } from "./format"
+
+interface DealCostBreakdownProps {
+  record: Deal
+  metrics: DealCosting
+}
+
+export function DealCostBreakdown({ record, metrics }: DealCostBreakdownProps) {
+  const { sale, purchase, stock, surplus, charges } = metrics
+  const marginStatus = getMarginBand(metrics.netMarginPercent)
+  const costMethod = record.inventory_cost_method
+    ? INVENTORY_COST_METHOD_LABELS[record.inventory_cost_method as InventoryCostMethod]
+    : null
+  const isFromInventory = record["Quantity Purchased"] === null
+  const purchaseLines = (record.purchase_lines as DealPurchaseLine[] | null) ?? []
+  const supplierLines = purchaseLines.filter(line => line.source === "supplier")
+  const stockDetail = record.inventory_cost_per_kg !== null
+    ? `${formatQuantity(stock.quantity)} × ${formatRupees(record.inventory_cost_per_kg)}/kg${costMethod ? ` (${costMethod})` : ""}`
+    : "Cost not recorded"
+
+  const rows: Array<{ label: string; detail?: string; amount: number; emphasis?: boolean; always?: boolean }> = [
+    {
+      label: "Sale Amount",
+      detail: `${formatQuantity(record["Quantity Sold"])} × ${formatRupees(record["Sale Rate"])}/kg`,
+      amount: metrics.saleAmount,
+      always: true,
+    },
+    { label: "Sale Freight", amount: -sale.freightAmount },
+    { label: "Sale Loading/Unloading", amount: -sale.loadingUnloadingAmount },
+    { label: "Sale Commission", detail: `${charges.sale.commissionPercent}%`, amount: -sale.commissionAmount },
+    ...(isFromInventory ? [] : [{
+      label: "Purchase Amount",
+      // A split purchase lists each supplier
+      detail: supplierLines.length > 1
+        ? supplierLines
+          .map(line => `${line.purchaseParty}: ${formatQuantity(line.quantity)} × ${formatRupees(line.rate)}/kg`)
+          .join(" · ")
+        : `${formatQuantity(record["Quantity Purchased"])} × ${formatRupees(record["Purchase Rate"])}/kg`,
+      amount: -purchase.baseAmount,
+      always: true,
+    }]),
+    ...(isFromInventory || stock.baseAmount > 0 ? [{
+      label: "Stock Cost",
+      detail: isFromInventory ? `From inventory: ${stockDetail}` : `From stock: ${stockDetail}`,
+      amount: -stock.baseAmount,
+      always: true,
+    }] : []),
+    { label: "Purchase Freight", amount: -purchase.freightAmount },
+    { label: "Purchase Loading/Unloading", amount: -purchase.loadingUnloadingAmount },
+    { label: "Purchase Commission", detail: `${charges.purchase.commissionPercent}%`, amount: -purchase.commissionAmount },
+    ...(charges.taxesCreditable ? [] : [
+      { label: "Purchase GST + TCS", detail: "Not creditable", amount: -(purchase.gstAmount + purchase.tcsAmount) },
+    ]),
+    // Purchased beyond the sale; its landed cost went into stock with it
+    {
+      label: "Surplus to Stock",
+      detail: `${formatQuantity(surplus.quantity)} at landed cost`,
+      amount: metrics.surplusLandedCost,
+    },
+    { label: "Net Profit", amount: metrics.netProfit, emphasis: true },
+  ]
+
+  // Always show sale, purchase and stock amounts; charge lines only when something was entered
+  const visibleRows = rows.filter(row => row.emphasis || row.always || row.amount !== 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cost Breakdown</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <dl className="space-y-3 text-sm">
+          {visibleRows.map(row => (
+            <div
+              key={row.label}
+              className={row.emphasis ? "flex justify-between border-t pt-3 text-base font-semibold" : "flex justify-between"}
+            >
+              <dt>
+                {row.label}
+                {row.detail && <div className="text-xs text-muted-foreground">{row.detail}</div>}
+              </dt>
+              <dd className="tabular-nums">{formatRupees(row.amount)}</dd>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <dt>Net Margin</dt>
+            <dd className="font-semibold">
+              {metrics.netMarginPercent}% · {formatRupees(metrics.netMarginPerKg)}/kg {metrics.purchaseAmount > 0 && marginStatus}
+            </dd>
+          </div>
+          <div className="flex justify-between text-muted-foreground">
+            <dt>Gross Profit</dt>
+            <dd className="tabular-nums">{formatRupees(metrics.grossProfit)} ({metrics.profitMargin}%)</dd>
+          </div>
+        </dl>
+
+        <dl className="mt-4 space-y-2 border-t pt-4 text-xs text-muted-foreground">
+          <div className="flex justify-between">
+            <dt>Sale Invoice (GST {charges.sale.gstPercent}%, TCS {charges.sale.tcsPercent}%)</dt>
+            <dd className="tabular-nums">{formatRupees(sale.invoiceAmount)}</dd>
+          </div>
+          {purchase.baseAmount > 0 && (
+            <div className="flex justify-between">
+              <dt>Purchase Invoice (GST {charges.purchase.gstPercent}%, TCS {charges.purchase.tcsPercent}%)</dt>
+              <dd className="tabular-nums">{formatRupees(purchase.invoiceAmount)}</dd>
+            </div>
+          )}
+        </dl>
+      </CardContent>
+    </Card>
+  )
+}
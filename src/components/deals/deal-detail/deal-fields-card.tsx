@@ -0,0 +1,89 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { Deal } from "@/types"
+import { formatQuantity, formatRupees, formatTimestamp } from "./format"
+
+interface DealFieldsCardProps {
+  record: Deal
+}
+
+export function DealFieldsCard({ record }: DealFieldsCardProps) {
+  const sections: Array<{ title: string; fields: Array<[string, React.ReactNode]> }> = [
+    {
+      title: "📋 Sale",
+      fields: [
+        ["Date", record.Date ?? "—"],
+        ["Sale Party", record["Sale Party"] ?? "—"],
+        ["Quantity Sold", formatQuantity(record["Quantity Sold"])],
+        ["Sale Rate", `${formatRupees(record["Sale Rate"])}/kg`],
+        ["Delivery Terms", record.delivery_terms === "ex-warehouse" ? "Ex-Warehouse (Pickup)" : record.delivery_terms ? "Delivered" : "—"],
+      ],
+    },
+    {
+      title: "🧪 Product",
+      fields: [
+        ["Product", record.Product ?? "—"],
+        ["Grade", record.Grade ?? "—"],
+        ["Company", record.Company ?? "—"],
+        ["Specific Grade", record["Specific Grade"] ?? "—"],
+      ],
+    },
+    {
+      title: "🏭 Purchase",
+      fields: [
+        ["Material Source", record.material_source === "from-inventory" ? "From Inventory" : record.material_source ? "New Material" : "—"],
+        ["Purchase Party", record["Purchase Party"] ?? "—"],
+        ["Quantity Purchased", formatQuantity(record["Quantity Purchased"])],
+        ["Purchase Rate", record["Purchase Rate"] === null ? "—" : `${formatRupees(record["Purchase Rate"])}/kg`],
+        ["Stock Cost", record.inventory_cost_per_kg === null ? "—" : `${formatRupees(record.inventory_cost_per_kg)}/kg`],
+        ["Warehouse", record.warehouse_location ?? "—"],
+      ],
+    },
+  ]
+
+  const comments: Array<[string, string | null]> = [
+    ["Sale Notes", record.sale_comments],
+    ["Purchase Notes", record.purchase_comments],
+    ["Final Comments", record.final_comments],
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Deal Details</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {sections.map(section => (
+            <div key={section.title}>
+              <h4 className="font-medium mb-2">{section.title}</h4>
+              <dl className="space-y-1 text-sm">
+                {section.fields.map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="text-right font-medium">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ))}
+        </div>
+
+        {comments.some(([, text]) => text) && (
+          <div className="space-y-2 text-sm">
+            {comments.filter(([, text]) => text).map(([label, text]) => (
+              <div key={label} className="bg-muted/50 p-3 rounded-lg border">
+                <span className="font-medium">{label}:</span> {text}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="text-xs text-muted-foreground">
+          Created {formatTimestamp(record.created_at)} · Updated {formatTimestamp(record.updated_at)}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { DealStatusTransition } from "@/types"
+import {
+  DEAL_STATUS_LABELS,
+  DEAL_STATUS_TRANSITIONS,
+  isDealStatus,
+  type DealStatus,
+  type DealStatusChangeRequest,
+} from "@/types/deal-status"
+import { formatTimestamp } from "./format"
+
+interface DealStatusCardProps {
+  status: string
+  history: DealStatusTransition[]
+  onChangeStatus: (request: DealStatusChangeRequest) => Promise<void>
+}
+
+const STATUS_STYLES: Record<DealStatus, string> = {
+  registered: "bg-gray-100 text-gray-700",
+  confirmed: "bg-blue-100 text-blue-700",
+  dispatched: "bg-indigo-100 text-indigo-700",
+  delivered: "bg-green-100 text-green-700",
+  invoiced: "bg-amber-100 text-amber-800",
+  paid: "bg-emerald-100 text-emerald-800",
+  cancelled: "bg-red-100 text-red-700",
+}
+
+export function DealStatusBadge({ status }: { status: string }) {
+  return (
+    <span className={cn("px-2 py-1 rounded-full text-xs font-medium", isDealStatus(status) ? STATUS_STYLES[status] : "bg-muted")}>
+      {isDealStatus(status) ? DEAL_STATUS_LABELS[status] : status}
+    </span>
+  )
+}
+
+export function DealStatusCard({ status, history, onChangeStatus }: DealStatusCardProps) {
+  const [note, setNote] = useState("")
+  const [performedBy, setPerformedBy] = useState("")
+  const [notify, setNotify] = useState(true)
+  const [pendingStatus, setPendingStatus] = useState<DealStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const nextStatuses = isDealStatus(status) ? DEAL_STATUS_TRANSITIONS[status] : []
+
+  const handleChange = async (next: DealStatus) => {
+    try {
+      setPendingStatus(next)
+      setError(null)
+      await onChangeStatus({
+        status: next,
+        note: note.trim() || undefined,
+        performedBy: performedBy.trim() || undefined,
+        notify,
+      })
+      setNote("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Status change failed")
+    } finally {
+      setPendingStatus(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Status
+          <DealStatusBadge status={status} />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {nextStatuses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This deal cannot change status any more.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="status-note">Note</Label>
+                <Input
+                  id="status-note"
+                  placeholder="Required when cancelling"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="status-performed-by">Your Name (optional)</Label>
+                <Input
+                  id="status-performed-by"
+                  placeholder="operator"
+                  value={performedBy}
+                  onChange={(e) => setPerformedBy(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {nextStatuses.map(next => (
+                <Button
+                  key={next}
+                  type="button"
+                  size="sm"
+                  variant={next === "cancelled" ? "destructive" : "default"}
+                  onClick={() => handleChange(next)}
+                  disabled={pendingStatus !== null}
+                >
+                  {pendingStatus === next && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                  Mark {DEAL_STATUS_LABELS[next]}
+                </Button>
+              ))}
+              <label className="ml-2 inline-flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+                Notify the team
+              </label>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map(transition => (
+                <TableRow key={transition.id}>
+                  <TableCell><DealStatusBadge status={transition.from_status} /></TableCell>
+                  <TableCell><DealStatusBadge status={transition.to_status} /></TableCell>
+                  <TableCell>{transition.performed_by}</TableCell>
+                  <TableCell>{formatTimestamp(transition.created_at)}</TableCell>
+                  <TableCell className="max-w-[320px] whitespace-normal text-xs">{transition.note}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
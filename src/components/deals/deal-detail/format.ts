@@ -0,0 +1,22 @@
+// Display helpers shared by the deal detail cards
+
+export const formatRupees = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return "—"
+  return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+}
+
+export const formatQuantity = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return "—"
+  return `${value.toLocaleString("en-IN")} kg`
+}
+
+export const formatTimestamp = (value: string | null | undefined): string => {
+  if (!value) return "—"
+  return new Date(value).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
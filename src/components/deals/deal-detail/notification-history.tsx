@@ -0,0 +1,91 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { MessageOutbox } from "@/types"
+import { formatTimestamp } from "./format"
+
+interface NotificationHistoryProps {
+  notifications: MessageOutbox[]
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  sending: "bg-blue-100 text-blue-700",
+  sent: "bg-green-100 text-green-700",
+  delivered: "bg-green-100 text-green-800",
+  read: "bg-emerald-100 text-emerald-800",
+  failed: "bg-orange-100 text-orange-700",
+  dead_letter: "bg-red-100 text-red-700",
+}
+
+export function StatusBadge({ status }: { status: string | null }) {
+  const value = status ?? "pending"
+  return (
+    <span className={cn("px-2 py-1 rounded-full text-xs font-medium", STATUS_STYLES[value] ?? "bg-muted")}>
+      {value.replace("_", " ")}
+    </span>
+  )
+}
+
+export function NotificationHistory({ notifications }: NotificationHistoryProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notifications recorded for this deal.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Delivered</TableHead>
+                <TableHead>Read</TableHead>
+                <TableHead>Error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notifications.map(message => (
+                <TableRow key={message.id}>
+                  <TableCell className="font-medium">{message.recipient_role}</TableCell>
+                  <TableCell>
+                    {message.recipient_phone}
+                    <div className="text-xs text-muted-foreground">{message.platform}</div>
+                  </TableCell>
+                  <TableCell><StatusBadge status={message.status} /></TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {message.attempts ?? 0}/{message.max_attempts ?? 3}
+                  </TableCell>
+                  <TableCell>{formatTimestamp(message.created_at)}</TableCell>
+                  <TableCell>{formatTimestamp(message.sent_at)}</TableCell>
+                  <TableCell>{formatTimestamp(message.delivered_at)}</TableCell>
+                  <TableCell>{formatTimestamp(message.read_at)}</TableCell>
+                  <TableCell className="max-w-[240px] whitespace-normal text-xs text-red-700">
+                    {message.error_type && <span className="font-medium">{message.error_type}: </span>}
+                    {message.error_message}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
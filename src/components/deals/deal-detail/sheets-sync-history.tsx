@@ -0,0 +1,60 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { SheetsSyncLog } from "@/types"
+import { StatusBadge } from "./notification-history"
+import { formatTimestamp } from "./format"
+
+interface SheetsSyncHistoryProps {
+  entries: SheetsSyncLog[]
+}
+
+export function SheetsSyncHistory({ entries }: SheetsSyncHistoryProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Google Sheets Sync</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This deal has not been synced to a sheet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sheet</TableHead>
+                <TableHead className="text-right">Row</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempted</TableHead>
+                <TableHead>Synced</TableHead>
+                <TableHead>Error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-mono text-xs">{entry.sheet_id}</TableCell>
+                  <TableCell className="text-right tabular-nums">{entry.row_number ?? "—"}</TableCell>
+                  <TableCell><StatusBadge status={entry.status} /></TableCell>
+                  <TableCell>{formatTimestamp(entry.created_at)}</TableCell>
+                  <TableCell>{formatTimestamp(entry.synced_at)}</TableCell>
+                  <TableCell className="max-w-[240px] whitespace-normal text-xs text-red-700">
+                    {entry.error_message}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { useState } from "react"
+import { Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { DealListFilters as DealListFilterValues } from "@/types/deal-list"
+import { DEAL_STATUSES, DEAL_STATUS_LABELS } from "@/types/deal-status"
+
+interface DealListFiltersProps {
+  value: DealListFilterValues
+  onApply: (filters: DealListFilterValues) => void
+}
+
+const TEXT_FILTERS: Array<{ key: keyof DealListFilterValues; label: string; placeholder: string }> = [
+  { key: "saleParty", label: "Sale Party", placeholder: "Customer name" },
+  { key: "purchaseParty", label: "Purchase Party", placeholder: "Supplier name" },
+  { key: "product", label: "Product", placeholder: "e.g. 1400MN" },
+  { key: "grade", label: "Grade", placeholder: "e.g. PP Moulding" },
+  { key: "company", label: "Company", placeholder: "e.g. IOCL" },
+]
+
+// Radix Select cannot hold an empty value, so "all" stands for "no filter"
+const ALL = "all"
+
+// Drop empty inputs so they are not sent as filters
+const normalizeFilters = (draft: Record<string, string>): DealListFilterValues => {
+  const filters: DealListFilterValues = {}
+
+  Object.entries(draft).forEach(([key, value]) => {
+    const trimmed = value.trim()
+    if (!trimmed || trimmed === ALL) return
+
+    if (key === "minRate" || key === "maxRate") {
+      const num = parseFloat(trimmed)
+      if (!isNaN(num)) filters[key] = num
+    } else {
+      (filters as Record<string, string>)[key] = trimmed
+    }
+  })
+
+  return filters
+}
+
+export function DealListFilters({ value, onApply }: DealListFiltersProps) {
+  const [draft, setDraft] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(value).map(([key, v]) => [key, String(v ?? "")]))
+  )
+
+  const updateDraft = (key: string, fieldValue: string) => {
+    setDraft(previous => ({ ...previous, [key]: fieldValue }))
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    onApply(normalizeFilters(draft))
+  }
+
+  const handleClear = () => {
+    setDraft({})
+    onApply({})
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Search SrNo, parties, product, grade or company..."
+            value={draft.search ?? ""}
+            onChange={(e) => updateDraft("search", e.target.value)}
+          />
+        </div>
+        <Button type="submit">Apply</Button>
+        <Button type="button" variant="outline" onClick={handleClear}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        {TEXT_FILTERS.map(filter => (
+          <div key={filter.key} className="space-y-1">
+            <Label htmlFor={`filter-${filter.key}`}>{filter.label}</Label>
+            <Input
+              id={`filter-${filter.key}`}
+              placeholder={filter.placeholder}
+              value={draft[filter.key] ?? ""}
+              onChange={(e) => updateDraft(filter.key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={draft.status || ALL} onValueChange={(v) => updateDraft("status", v)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All</SelectItem>
+              {DEAL_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{DEAL_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-dateFrom">Date From</Label>
+          <Input
+            id="filter-dateFrom"
+            type="date"
+            value={draft.dateFrom ?? ""}
+            onChange={(e) => updateDraft("dateFrom", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-dateTo">Date To</Label>
+          <Input
+            id="filter-dateTo"
+            type="date"
+            value={draft.dateTo ?? ""}
+            onChange={(e) => updateDraft("dateTo", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-minRate">Min Sale Rate (₹/kg)</Label>
+          <Input
+            id="filter-minRate"
+            type="number"
+            step="0.01"
+            value={draft.minRate ?? ""}
+            onChange={(e) => updateDraft("minRate", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-maxRate">Max Sale Rate (₹/kg)</Label>
+          <Input
+            id="filter-maxRate"
+            type="number"
+            step="0.01"
+            value={draft.maxRate ?? ""}
+            onChange={(e) => updateDraft("maxRate", e.target.value)}
+          />
+        </div>
+      </div>
+    </form>
+  )
+}
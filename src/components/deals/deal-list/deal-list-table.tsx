@@ -0,0 +1,122 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2 } from "lucide-react"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { Deal } from "@/types"
+import type { DealListSortField } from "@/types/deal-list"
+import { DEAL_STATUS_LABELS, isDealStatus } from "@/types/deal-status"
+import type { DealListSort } from "@/lib/hooks/use-deal-list"
+
+interface DealListTableProps {
+  deals: Deal[]
+  sort: DealListSort
+  onSortChange: (sort: DealListSort) => void
+  isLoading: boolean
+}
+
+interface Column {
+  label: string
+  sortField?: DealListSortField
+  align?: "right"
+  render: (deal: Deal) => React.ReactNode
+}
+
+const formatAmount = (value: number | null) =>
+  value === null ? "—" : value.toLocaleString("en-IN", { maximumFractionDigits: 2 })
+
+const COLUMNS: Column[] = [
+  { label: "SrNo", render: (deal) => deal.SrNo ?? "—" },
+  { label: "Date", sortField: "date", render: (deal) => deal.Date ?? "—" },
+  { label: "Sale Party", sortField: "saleParty", render: (deal) => deal["Sale Party"] ?? "—" },
+  { label: "Product", sortField: "product", render: (deal) => deal.Product ?? "—" },
+  { label: "Grade", render: (deal) => deal.Grade ?? "—" },
+  { label: "Company", render: (deal) => deal.Company ?? "—" },
+  { label: "Qty (kg)", sortField: "quantitySold", align: "right", render: (deal) => formatAmount(deal["Quantity Sold"]) },
+  { label: "Sale Rate", sortField: "saleRate", align: "right", render: (deal) => `₹${formatAmount(deal["Sale Rate"])}` },
+  { label: "Purchase Party", sortField: "purchaseParty", render: (deal) => deal["Purchase Party"] ?? "—" },
+  { label: "Purchase Rate", align: "right", render: (deal) => deal["Purchase Rate"] === null ? "—" : `₹${formatAmount(deal["Purchase Rate"])}` },
+  { label: "Status", render: (deal) => isDealStatus(deal.status) ? DEAL_STATUS_LABELS[deal.status] : deal.status },
+]
+
+export function DealListTable({ deals, sort, onSortChange, isLoading }: DealListTableProps) {
+  const router = useRouter()
+
+  const handleSort = (field: DealListSortField) => {
+    if (sort.sortBy === field) {
+      onSortChange({ sortBy: field, sortDirection: sort.sortDirection === "asc" ? "desc" : "asc" })
+    } else {
+      onSortChange({ sortBy: field, sortDirection: "desc" })
+    }
+  }
+
+  const renderSortIcon = (field: DealListSortField) => {
+    if (sort.sortBy !== field) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-40" />
+    return sort.sortDirection === "asc"
+      ? <ArrowUp className="ml-1 h-3 w-3" />
+      : <ArrowDown className="ml-1 h-3 w-3" />
+  }
+
+  return (
+    <div className="relative rounded-md border">
+      {isLoading && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {COLUMNS.map(column => (
+              <TableHead key={column.label} className={cn(column.align === "right" && "text-right")}>
+                {column.sortField ? (
+                  <button
+                    type="button"
+                    className="inline-flex items-center hover:text-primary"
+                    onClick={() => handleSort(column.sortField!)}
+                  >
+                    {column.label}
+                    {renderSortIcon(column.sortField)}
+                  </button>
+                ) : (
+                  column.label
+                )}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {deals.length === 0 && !isLoading ? (
+            <TableRow>
+              <TableCell colSpan={COLUMNS.length} className="h-24 text-center text-muted-foreground">
+                No deals match these filters.
+              </TableCell>
+            </TableRow>
+          ) : (
+            deals.map(deal => (
+              <TableRow
+                key={deal.id}
+                className="cursor-pointer"
+                onClick={() => router.push(`/deals/${deal.id}`)}
+              >
+                {COLUMNS.map(column => (
+                  <TableCell key={column.label} className={cn(column.align === "right" && "text-right tabular-nums")}>
+                    {column.render(deal)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { useForm } from "react-hook-form"
+import { format } from "date-fns"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { RefinedDealRegistrationSchema, defaultFormValues, type DealRegistrationFormData } from "@/lib/schemas/deal-registration"
 import { Button } from "@/components/ui/button"
@@ -10,9 +11,14 @@ import { BasicDealInfo } from "./form-sections/basic-deal-info"
 import { ProductInformation } from "./form-sections/product-information"
 import { MaterialSource } from "./form-sections/material-source"
 import { PurchaseDetails } from "./form-sections/purchase-details"
+import { ChargesSection } from "./form-sections/charges-section"
 import { CommentsSection } from "./form-sections/comments-section"
+import { MarginPreview } from "./margin-preview"
 import { Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { useStockAvailability } from "@/lib/hooks/use-stock-availability"
+import { calculateIssueCost } from "@/lib/costing/inventory-costing"
+import { summarizePurchaseLines } from "@/lib/costing/purchase-lines"
 import type { DealRegistrationFormProps } from "@/types/deal-form"
 
 export function DealRegistrationForm({
@@ -30,8 +36,35 @@ export function DealRegistrationForm({
 
   const watchedMaterialSource = form.watch("materialSource")
   const isPurchaseRequired = watchedMaterialSource === "new-material"
+  const isFromInventory = watchedMaterialSource === "from-inventory"
+
+  // Stock the sale takes: all of it from inventory, or the stock line of a split purchase
+  const stockQuantity = isFromInventory
+    ? form.watch("quantitySold")
+    : summarizePurchaseLines(form.watch("purchaseLines") || []).stockQuantity
+  const takesStock = isFromInventory || stockQuantity > 0
+
+  // A sale can't take more than the selected warehouse (or all warehouses) holds
+  const { availability, isLoading: isLoadingAvailability } = useStockAvailability(
+    form.watch("productCode") || undefined,
+    takesStock ? form.watch("warehouseLocation") || undefined : undefined
+  )
+  const isOversold = takesStock && !!availability && stockQuantity > availability.quantityAvailable
+  // What that stock would cost at its valuation; the server recomputes it on save
+  const inventoryCostPerKg = takesStock && availability
+    ? calculateIssueCost(availability.lots, stockQuantity, availability.costMethod)
+    : null
 
   const onSubmit = async (data: DealRegistrationFormData) => {
+    if (isOversold) {
+      if (isFromInventory) {
+        form.setError("quantitySold", { message: "Quantity sold exceeds the available stock" })
+      } else {
+        form.setError("purchaseLines", { message: "The stock line exceeds the available stock" })
+      }
+      return
+    }
+
     try {
       setIsSubmitting(true)
 
@@ -43,7 +76,8 @@ export function DealRegistrationForm({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data)
+        // The picked day as a calendar date; the Date itself would serialize as a UTC instant
+        body: JSON.stringify({ ...data, date: format(data.date, 'yyyy-MM-dd') })
       })
 
       const result = await response.json()
@@ -58,8 +92,8 @@ export function DealRegistrationForm({
 
       console.log("Deal created successfully:", result)
 
-      // Pass the real deal ID and WhatsApp results to success handler
-      onSubmitSuccess?.(result.data.dealId, result.data.whatsapp)
+      // Pass the deal number (SrNo) and WhatsApp results to success handler
+      onSubmitSuccess?.(result.data.srNo || result.data.dealId, result.data.whatsapp)
 
       // Reset form on success
       form.reset(defaultFormValues)
@@ -83,17 +117,32 @@ export function DealRegistrationForm({
         <ProductInformation form={form} />
 
         {/* Material Source Section */}
-        <MaterialSource form={form} />
+        <MaterialSource
+          form={form}
+          availability={availability}
+          isLoadingAvailability={isLoadingAvailability}
+          inventoryCostPerKg={inventoryCostPerKg}
+        />
 
         {/* Purchase Details Section */}
         <PurchaseDetails
           form={form}
           isRequired={isPurchaseRequired}
+          inventoryCostPerKg={inventoryCostPerKg}
+        />
+
+        {/* Charges & Taxes Section */}
+        <ChargesSection
+          form={form}
+          showPurchaseSide={isPurchaseRequired}
         />
 
         {/* Comments Section */}
         <CommentsSection form={form} />
 
+        {/* Live Margin Preview (sticks to the bottom while scrolling the form) */}
+        <MarginPreview form={form} inventoryCostPerKg={inventoryCostPerKg} />
+
         {/* Submit Button */}
         <div className="flex justify-between items-center pt-6">
           <Button
@@ -107,7 +156,7 @@ export function DealRegistrationForm({
 
           <Button
             type="submit"
-            disabled={isSubmitting}
+            disabled={isSubmitting || isOversold}
             className="min-w-[200px]"
           >
             {isSubmitting ? (
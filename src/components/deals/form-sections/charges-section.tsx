@@ -0,0 +1,102 @@
+"use client"
+
+import { UseFormReturn } from "react-hook-form"
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { DealRegistrationFormData } from "@/lib/schemas/deal-registration"
+import type { DealChargeRates } from "@/lib/costing/deal-costing"
+
+interface ChargesSectionProps {
+  form: UseFormReturn<DealRegistrationFormData>
+  showPurchaseSide: boolean
+}
+
+const CHARGE_FIELDS: Array<{ key: keyof DealChargeRates; label: string; step: string }> = [
+  { key: "gstPercent", label: "GST (%)", step: "0.01" },
+  { key: "tcsPercent", label: "TCS (%)", step: "0.001" },
+  { key: "freightPerKg", label: "Freight (₹/kg)", step: "0.01" },
+  { key: "loadingUnloadingPerKg", label: "Loading/Unloading (₹/kg)", step: "0.01" },
+  { key: "commissionPercent", label: "Commission (%)", step: "0.01" },
+]
+
+export function ChargesSection({ form, showPurchaseSide }: ChargesSectionProps) {
+  const renderSide = (side: "sale" | "purchase", title: string) => (
+    <div className="space-y-4">
+      <h4 className="font-medium">{title}</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {CHARGE_FIELDS.map(({ key, label, step }) => (
+          <FormField
+            key={key}
+            control={form.control}
+            name={`charges.${side}.${key}`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    step={step}
+                    {...field}
+                    value={field.value ?? 0}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🧾 Charges & Taxes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {renderSide("sale", "Sale Side")}
+          {showPurchaseSide && renderSide("purchase", "Purchase Side")}
+        </div>
+
+        {/* GST / TCS credit */}
+        <FormField
+          control={form.control}
+          name="charges.taxesCreditable"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-3 space-y-0">
+              <FormControl>
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={field.value ?? true}
+                  onChange={(e) => field.onChange(e.target.checked)}
+                />
+              </FormControl>
+              <FormLabel className="font-normal">
+                Purchase GST/TCS is claimed as input credit (excluded from landed cost)
+              </FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <div className="text-xs text-muted-foreground">
+          Freight, loading/unloading and commission reduce the net margin. GST and TCS are shown on invoice totals.
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
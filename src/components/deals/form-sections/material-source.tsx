@@ -11,14 +11,40 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { formatQuantity, formatRupees } from "@/components/deals/deal-detail/format"
 import { DealRegistrationFormData, MATERIAL_SOURCE_OPTIONS } from "@/types/deal-form"
+import type { StockAvailability } from "@/types/inventory"
+import { INVENTORY_COST_METHOD_LABELS } from "@/lib/costing/inventory-costing"
+import { summarizePurchaseLines } from "@/lib/costing/purchase-lines"
+import { useWarehouses } from "@/lib/hooks/use-warehouses"
 
 interface MaterialSourceProps {
   form: UseFormReturn<DealRegistrationFormData>
+  // Stock of the selected product (in the selected warehouse, if any)
+  availability: StockAvailability | null
+  isLoadingAvailability: boolean
+  // Cost per kg of the stock the sale takes; null when it can't cover it
+  inventoryCostPerKg: number | null
 }
 
-export function MaterialSource({ form }: MaterialSourceProps) {
+// Radix Select cannot hold an empty value, so "any" stands for "no warehouse chosen"
+const ANY = "any"
+
+export function MaterialSource({ form, availability, isLoadingAvailability, inventoryCostPerKg }: MaterialSourceProps) {
+  const { warehouses, isLoading: isLoadingWarehouses } = useWarehouses()
+
   const selectedSource = form.watch("materialSource")
+  const productId = form.watch("productCode")
+  const quantitySold = form.watch("quantitySold") || 0
+  const lines = summarizePurchaseLines(form.watch("purchaseLines") || [])
+
+  const isFromInventory = selectedSource === "from-inventory"
+  // Stock the sale takes: all of it from inventory, or the stock line of a split purchase
+  const stockQuantity = isFromInventory ? quantitySold : lines.stockQuantity
+  const takesStock = isFromInventory || stockQuantity > 0
+  const shortfall = takesStock && availability ? stockQuantity - availability.quantityAvailable : 0
+  const surplus = !isFromInventory && stockQuantity === 0 ? lines.totalQuantity - quantitySold : 0
 
   return (
     <Card>
@@ -84,12 +110,12 @@ export function MaterialSource({ form }: MaterialSourceProps) {
                 {selectedSource === "new-material" ? (
                   <div>
                     <div className="font-medium mb-1">New Material Selected</div>
-                    <div>Purchase details will be required. You'll need to specify the supplier, purchase quantity, and purchase rate.</div>
+                    <div>Purchase details will be required. Add a line per supplier with its quantity and rate; stock already held can make up the rest.</div>
                   </div>
                 ) : (
                   <div>
                     <div className="font-medium mb-1">From Inventory Selected</div>
-                    <div>Material will be taken from existing warehouse stock. Purchase details are optional.</div>
+                    <div>Material will be taken from warehouse stock, oldest lots first. Purchase details are not needed.</div>
                   </div>
                 )}
               </div>
@@ -97,6 +123,81 @@ export function MaterialSource({ form }: MaterialSourceProps) {
           </div>
         )}
 
+        {/* Warehouse: where stock is taken from, or where a purchase surplus goes */}
+        <FormField
+          control={form.control}
+          name="warehouseLocation"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Warehouse {surplus > 0 && "*"}</FormLabel>
+              <Select
+                value={field.value || ANY}
+                onValueChange={(value) => field.onChange(value === ANY ? "" : value)}
+                disabled={isLoadingWarehouses}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-full md:w-1/2">
+                    <SelectValue placeholder="Select warehouse" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={ANY}>{takesStock ? "Any warehouse" : "No warehouse"}</SelectItem>
+                  {warehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}{warehouse.location ? ` (${warehouse.location})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Stock of the selected product */}
+        {productId && (
+          <div className="bg-muted/50 p-4 rounded-lg border space-y-2 text-sm">
+            <h4 className="font-medium">Available Stock</h4>
+            {isLoadingAvailability || !availability ? (
+              <div className="text-muted-foreground">Loading stock...</div>
+            ) : (
+              <>
+                <div>
+                  <span className="font-medium">{formatQuantity(availability.quantityAvailable)}</span>
+                  {availability.averageCostPerKg !== null && (
+                    <span className="text-muted-foreground"> at an average {formatRupees(availability.averageCostPerKg)}/kg</span>
+                  )}
+                </div>
+                {availability.warehouses.length > 1 && (
+                  <ul className="text-muted-foreground">
+                    {availability.warehouses.map((level) => (
+                      <li key={level.warehouse_id}>
+                        {level.warehouse_name}: {formatQuantity(level.quantity_available)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {takesStock && inventoryCostPerKg !== null && (
+                  <div>
+                    {isFromInventory ? "This sale costs" : "The stock line costs"} {formatRupees(inventoryCostPerKg)}/kg
+                    <span className="text-muted-foreground"> ({INVENTORY_COST_METHOD_LABELS[availability.costMethod]})</span>
+                  </div>
+                )}
+                {shortfall > 0 && (
+                  <div className="text-red-600 font-medium">
+                    {isFromInventory ? "Quantity sold" : "The stock line"} is {formatQuantity(shortfall)} more than the stock available. Reduce the quantity or buy new material.
+                  </div>
+                )}
+                {surplus > 0 && (
+                  <div className="text-blue-800">
+                    {formatQuantity(surplus)} bought beyond the sale will go into stock in the selected warehouse.
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
       </CardContent>
     </Card>
   )
@@ -1,6 +1,7 @@
 "use client"
 
-import { UseFormReturn } from "react-hook-form"
+import { UseFormReturn, useFieldArray } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
 import {
   FormControl,
   FormField,
@@ -9,18 +10,24 @@ import {
   FormMessage,
 } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { SearchableDropdown } from "../searchable-dropdown"
-import { DealRegistrationFormData } from "@/types/deal-form"
+import { formatQuantity, formatRupees } from "@/components/deals/deal-detail/format"
+import type { DealRegistrationFormData } from "@/lib/schemas/deal-registration"
+import { summarizePurchaseLines } from "@/lib/costing/purchase-lines"
 import { useSuppliers } from "@/lib/hooks/use-suppliers"
 
 interface PurchaseDetailsProps {
   form: UseFormReturn<DealRegistrationFormData>
   isRequired: boolean
+  // Cost per kg of the stock line; null until the stock can cover it
+  inventoryCostPerKg: number | null
 }
 
-export function PurchaseDetails({ form, isRequired }: PurchaseDetailsProps) {
+export function PurchaseDetails({ form, isRequired, inventoryCostPerKg }: PurchaseDetailsProps) {
   const { suppliers, isLoading: isLoadingSuppliers } = useSuppliers()
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "purchaseLines" })
 
   // Transform suppliers for dropdown
   const supplierOptions = suppliers.map(supplier => ({
@@ -29,6 +36,12 @@ export function PurchaseDetails({ form, isRequired }: PurchaseDetailsProps) {
     searchText: supplier.searchText,
   }))
 
+  const purchaseLines = form.watch("purchaseLines") || []
+  const quantitySold = form.watch("quantitySold") || 0
+  const summary = summarizePurchaseLines(purchaseLines)
+  const hasStockLine = purchaseLines.some(line => line.source === "stock")
+  const linesError = form.formState.errors.purchaseLines
+
   return (
     <Card>
       <CardHeader>
@@ -43,157 +56,171 @@ export function PurchaseDetails({ form, isRequired }: PurchaseDetailsProps) {
       </CardHeader>
       <CardContent className="space-y-6">
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-
-          {/* Purchase Party (Supplier) */}
-          <FormField
-            control={form.control}
-            name="purchaseParty"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>
-                  Purchase Party (Supplier) {isRequired && "*"}
-                </FormLabel>
-                <FormControl>
-                  <SearchableDropdown
-                    value={field.value}
-                    onValueChange={field.onChange}
-                    options={supplierOptions}
-                    placeholder="Search supplier..."
-                    emptyMessage="No suppliers found."
-                    disabled={isLoadingSuppliers}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          {/* Purchase Quantity */}
-          <FormField
-            control={form.control}
-            name="quantityPurchased"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>
-                  Purchase Quantity (kg) {isRequired && "*"}
-                </FormLabel>
-                <FormControl>
-                  <Input
-                    type="number"
-                    placeholder="Enter purchase quantity"
-                    {...field}
-                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          {/* Purchase Rate */}
-          <FormField
-            control={form.control}
-            name="purchaseRate"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>
-                  Purchase Rate (₹/kg) {isRequired && "*"}
-                </FormLabel>
-                <FormControl>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    placeholder="Enter purchase rate"
-                    {...field}
-                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          {/* Warehouse Location */}
-          <FormField
-            control={form.control}
-            name="warehouseLocation"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Warehouse Location</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder="Enter warehouse location"
-                    {...field}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+        {/* One line per supplier, plus at most one from stock */}
+        {fields.map((line, index) => {
+          const isStock = purchaseLines[index]?.source === "stock"
+
+          return (
+            <div key={line.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-4 items-start">
+
+              {/* Purchase Party (Supplier) */}
+              {isStock ? (
+                <FormItem>
+                  <FormLabel>Source</FormLabel>
+                  <div className="h-9 flex items-center text-sm text-muted-foreground">
+                    From stock (warehouse selected above)
+                  </div>
+                </FormItem>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name={`purchaseLines.${index}.purchaseParty`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Purchase Party (Supplier) {isRequired && "*"}
+                      </FormLabel>
+                      <FormControl>
+                        <SearchableDropdown
+                          value={field.value}
+                          onValueChange={field.onChange}
+                          options={supplierOptions}
+                          placeholder="Search supplier..."
+                          emptyMessage="No suppliers found."
+                          disabled={isLoadingSuppliers}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Quantity */}
+              <FormField
+                control={form.control}
+                name={`purchaseLines.${index}.quantity`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Quantity (kg) {isRequired && "*"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="Enter quantity"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Rate: stock is costed from its lots */}
+              {isStock ? (
+                <FormItem>
+                  <FormLabel>Stock Cost (₹/kg)</FormLabel>
+                  <div className="h-9 flex items-center text-sm text-muted-foreground">
+                    {inventoryCostPerKg !== null ? formatRupees(inventoryCostPerKg) : "—"}
+                  </div>
+                </FormItem>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name={`purchaseLines.${index}.rate`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Purchase Rate (₹/kg) {isRequired && "*"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="Enter purchase rate"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="md:mt-6"
+                onClick={() => remove(index)}
+                disabled={fields.length === 1}
+                aria-label="Remove line"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ source: "supplier", purchaseParty: "", quantity: 0, rate: 0 })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add Supplier
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({
+              source: "stock",
+              purchaseParty: "",
+              quantity: Math.max(quantitySold - summary.supplierQuantity, 0),
+              rate: 0,
+            })}
+            disabled={hasStockLine}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Take Rest From Stock
+          </Button>
         </div>
 
+        {(linesError?.root?.message || linesError?.message) && (
+          <p className="text-destructive text-sm">{linesError.root?.message || linesError.message}</p>
+        )}
+
         {/* Purchase Calculation Display */}
-        {form.watch("quantityPurchased") > 0 && form.watch("purchaseRate") > 0 && (
+        {summary.totalQuantity > 0 && (
           <div className="bg-muted/50 p-4 rounded-lg border">
             <h4 className="font-medium mb-2">Purchase Calculation</h4>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
               <div>
                 <span className="font-medium">Quantity:</span>{" "}
-                {form.watch("quantityPurchased").toLocaleString()} kg
+                {formatQuantity(summary.totalQuantity)} of {formatQuantity(quantitySold)} sold
               </div>
               <div>
-                <span className="font-medium">Rate:</span>{" "}
-                ₹{form.watch("purchaseRate").toLocaleString()}/kg
+                <span className="font-medium">Suppliers:</span>{" "}
+                {formatQuantity(summary.supplierQuantity)}
+                {summary.supplierQuantity > 0 && ` at ${formatRupees(summary.supplierRate)}/kg`}
               </div>
               <div>
                 <span className="font-medium">Total Amount:</span>{" "}
                 <span className="text-lg font-semibold text-primary">
-                  ₹{(form.watch("quantityPurchased") * form.watch("purchaseRate")).toLocaleString()}
+                  {formatRupees(summary.supplierQuantity * summary.supplierRate)}
                 </span>
               </div>
             </div>
           </div>
         )}
 
-        {/* Deal Margin Calculation (if both sale and purchase data available) */}
-        {form.watch("quantitySold") > 0 && form.watch("saleRate") > 0 &&
-         form.watch("quantityPurchased") > 0 && form.watch("purchaseRate") > 0 && (
-          <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-            <h4 className="font-medium mb-2 text-green-800">Deal Margin Analysis</h4>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
-              <div>
-                <span className="font-medium text-green-700">Sale Amount:</span>
-                <div className="text-lg font-semibold">
-                  ₹{(form.watch("quantitySold") * form.watch("saleRate")).toLocaleString()}
-                </div>
-              </div>
-              <div>
-                <span className="font-medium text-green-700">Purchase Amount:</span>
-                <div className="text-lg font-semibold">
-                  ₹{(form.watch("quantityPurchased") * form.watch("purchaseRate")).toLocaleString()}
-                </div>
-              </div>
-              <div>
-                <span className="font-medium text-green-700">Gross Profit:</span>
-                <div className="text-lg font-semibold">
-                  ₹{((form.watch("quantitySold") * form.watch("saleRate")) -
-                     (form.watch("quantityPurchased") * form.watch("purchaseRate"))).toLocaleString()}
-                </div>
-              </div>
-              <div>
-                <span className="font-medium text-green-700">Margin %:</span>
-                <div className="text-lg font-semibold">
-                  {(((form.watch("quantitySold") * form.watch("saleRate")) -
-                     (form.watch("quantityPurchased") * form.watch("purchaseRate"))) /
-                    (form.watch("quantitySold") * form.watch("saleRate")) * 100).toFixed(2)}%
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
-
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { UseFormReturn } from "react-hook-form"
+import { AlertTriangle } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import type { DealRegistrationFormData } from "@/lib/schemas/deal-registration"
+import { calculateDealCosting, getMarginBand, hasAdditionalCharges } from "@/lib/costing/deal-costing"
+import { summarizePurchaseLines } from "@/lib/costing/purchase-lines"
+
+interface MarginPreviewProps {
+  form: UseFormReturn<DealRegistrationFormData>
+  // Cost per kg of the stock the sale takes (from inventory or a stock line); null until it is known
+  inventoryCostPerKg?: number | null
+  className?: string
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+
+export function MarginPreview({ form, inventoryCostPerKg = null, className }: MarginPreviewProps) {
+  const [quantitySold, saleRate, materialSource, purchaseLines, charges] = form.watch([
+    "quantitySold", "saleRate", "materialSource", "purchaseLines", "charges",
+  ])
+
+  // Nothing to preview until the sale side is filled in
+  if (!(quantitySold > 0) || !(saleRate > 0)) {
+    return null
+  }
+
+  const isNewMaterial = materialSource === "new-material"
+  // A stock line is costed at what the stock would cost
+  const lines = (purchaseLines || []).map(line => ({
+    ...line,
+    rate: line.source === "stock" ? inventoryCostPerKg ?? 0 : line.rate,
+  }))
+  const summary = summarizePurchaseLines(lines)
+  const hasPurchase = isNewMaterial && summary.supplierQuantity > 0 && summary.supplierRate > 0
+    && (summary.stockQuantity === 0 || inventoryCostPerKg !== null)
+  const hasCost = hasPurchase || (!isNewMaterial && inventoryCostPerKg !== null)
+  const costing = calculateDealCosting({
+    quantitySold,
+    saleRate,
+    materialSource,
+    purchaseLines: lines,
+    inventoryCostPerKg,
+    charges,
+  })
+
+  const warnings: string[] = []
+  if (hasCost && costing.netProfit < 0) {
+    warnings.push(`Negative margin: this deal loses ${formatRupees(Math.abs(costing.netProfit))}.`)
+  }
+  if (hasPurchase && summary.totalQuantity !== quantitySold) {
+    warnings.push(
+      `Sale quantity (${quantitySold.toLocaleString("en-IN")} kg) differs from purchase quantity (${summary.totalQuantity.toLocaleString("en-IN")} kg).`
+    )
+  }
+
+  return (
+    <Card className={cn("sticky bottom-4 z-10 border-2 shadow-lg", warnings.length > 0 && "border-amber-300", className)}>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">Sale Amount</div>
+            <div className="text-lg font-semibold tabular-nums">{formatRupees(costing.saleAmount)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">{isNewMaterial ? "Purchase Amount" : "Stock Cost"}</div>
+            <div className="text-lg font-semibold tabular-nums">
+              {hasCost ? formatRupees(costing.purchaseAmount) : isNewMaterial ? "—" : "From inventory"}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Gross Profit</div>
+            <div className={cn("text-lg font-semibold tabular-nums", hasCost && costing.grossProfit < 0 && "text-red-600")}>
+              {hasCost ? formatRupees(costing.grossProfit) : "—"}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Margin</div>
+            <div className="text-lg font-semibold tabular-nums">
+              {hasCost ? `${costing.netMarginPercent}% ${getMarginBand(costing.netMarginPercent)}` : "—"}
+            </div>
+          </div>
+        </div>
+
+        {/* Net figures once freight, loading or commission are entered */}
+        {hasCost && hasAdditionalCharges(costing) && (
+          <div className="text-xs text-muted-foreground">
+            After charges: net profit {formatRupees(costing.netProfit)} · {formatRupees(costing.netMarginPerKg)}/kg
+            · gross margin {costing.profitMargin}%
+          </div>
+        )}
+
+        {warnings.map(warning => (
+          <div key={warning} className="flex items-center gap-2 text-sm text-amber-800">
+            <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+            {warning}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
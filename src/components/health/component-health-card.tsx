@@ -0,0 +1,59 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { formatTimestamp } from "@/components/deals/deal-detail/format"
+import type { ComponentHealth } from "@/types/system-health"
+import { HealthSparkline } from "./health-sparkline"
+
+interface ComponentHealthCardProps {
+  health: ComponentHealth
+}
+
+export const HEALTH_STATUS_STYLES: Record<string, string> = {
+  healthy: "bg-green-100 text-green-700",
+  degraded: "bg-yellow-100 text-yellow-700",
+  down: "bg-red-100 text-red-700",
+  disabled: "bg-gray-100 text-gray-600",
+}
+
+export const HEALTH_STATUS_LABELS: Record<string, string> = {
+  healthy: "✅ Healthy",
+  degraded: "⚠️ Degraded",
+  down: "❌ Down",
+  disabled: "Disabled",
+}
+
+export function ComponentHealthCard({ health }: ComponentHealthCardProps) {
+  const status = health.latest?.status ?? "unknown"
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">{health.label}</CardTitle>
+          <span className={cn("px-2 py-1 rounded-full text-xs font-medium", HEALTH_STATUS_STYLES[status] ?? "bg-gray-100 text-gray-600")}>
+            {HEALTH_STATUS_LABELS[status] ?? "Not checked"}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {health.latest?.message && (
+          <p className={cn("text-sm", status === "disabled" ? "text-muted-foreground" : "text-red-700")}>
+            {health.latest.message}
+          </p>
+        )}
+
+        <div className="flex items-end justify-between gap-4">
+          <HealthSparkline history={health.history} />
+          <div className="text-right text-xs text-muted-foreground">
+            {typeof health.latest?.responseTimeMs === "number" && (
+              <div className="text-sm font-medium text-foreground tabular-nums">{health.latest.responseTimeMs}ms</div>
+            )}
+            <div>{formatTimestamp(health.latest?.checkedAt)}</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
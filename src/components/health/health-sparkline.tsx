@@ -0,0 +1,47 @@
+"use client"
+
+import type { HealthHistoryPoint } from "@/types/system-health"
+
+interface HealthSparklineProps {
+  history: HealthHistoryPoint[]
+  width?: number
+  height?: number
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  healthy: "#16a34a",
+  degraded: "#ca8a04",
+  down: "#dc2626",
+}
+
+// Response times as a line, each check as a dot coloured by its status
+export function HealthSparkline({ history, width = 160, height = 36 }: HealthSparklineProps) {
+  if (history.length === 0) {
+    return <p className="text-xs text-muted-foreground">No checks yet</p>
+  }
+
+  const padding = 3
+  const maxTime = Math.max(1, ...history.map(point => point.responseTimeMs ?? 0))
+  const step = history.length > 1 ? (width - padding * 2) / (history.length - 1) : 0
+  const points = history.map((point, index) => ({
+    x: padding + index * step,
+    y: height - padding - ((point.responseTimeMs ?? 0) / maxTime) * (height - padding * 2),
+    point,
+  }))
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Response time history">
+      <polyline
+        fill="none"
+        stroke="#94a3b8"
+        strokeWidth={1.5}
+        points={points.map(({ x, y }) => `${x},${y}`).join(" ")}
+      />
+      {points.map(({ x, y, point }) => (
+        <circle key={`${point.checkedAt}-${x}`} cx={x} cy={y} r={2.5} fill={STATUS_COLORS[point.status] ?? "#94a3b8"}>
+          <title>{`${point.checkedAt}: ${point.status}${point.responseTimeMs !== null ? ` (${point.responseTimeMs}ms)` : ""}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
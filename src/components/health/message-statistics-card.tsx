@@ -0,0 +1,83 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { MessageStatistics } from "@/types/system-health"
+
+interface MessageStatisticsCardProps {
+  statistics: MessageStatistics | null
+}
+
+export function MessageStatisticsCard({ statistics }: MessageStatisticsCardProps) {
+  // SUCCESS counts delivered messages; the rest are failures by error type
+  const errors = statistics
+    ? Object.entries(statistics.errorBreakdown)
+        .filter(([errorType]) => errorType !== "SUCCESS")
+        .sort(([, a], [, b]) => b - a)
+    : []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Message Delivery</CardTitle>
+        <CardDescription>
+          Notifications queued in the last {statistics?.hoursBack ?? 24} hours, all channels
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!statistics ? (
+          <p className="text-sm text-muted-foreground">Message statistics are unavailable.</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-green-600">{statistics.successRate}%</div>
+                <div className="text-xs text-muted-foreground">Success rate</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{statistics.totalMessages}</div>
+                <div className="text-xs text-muted-foreground">Queued</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{statistics.successfulMessages}</div>
+                <div className="text-xs text-muted-foreground">Sent</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-yellow-600">{statistics.pendingMessages}</div>
+                <div className="text-xs text-muted-foreground">Pending</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-600">{statistics.failedMessages}</div>
+                <div className="text-xs text-muted-foreground">Failed</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-600">{statistics.deadLetterMessages}</div>
+                <div className="text-xs text-muted-foreground">Dead letter</div>
+              </div>
+            </div>
+
+            <div className="text-sm">
+              <div className="font-medium">Errors by type</div>
+              {errors.length === 0 ? (
+                <p className="mt-1 text-muted-foreground">No errors.</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {errors.map(([errorType, count]) => (
+                    <li key={errorType} className="flex justify-between gap-4">
+                      <span className="font-mono text-xs">{errorType}</span>
+                      <span className="tabular-nums">{count}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {statistics.avgResponseTimeMs !== null && (
+                <p className="mt-3 text-xs text-muted-foreground">
+                  Average send time {Math.round(statistics.avgResponseTimeMs)}ms
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
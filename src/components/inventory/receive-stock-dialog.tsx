@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Loader2, PackagePlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SearchableDropdown } from "@/components/deals/searchable-dropdown"
+import { useProducts } from "@/lib/hooks/use-products"
+import type { Warehouse } from "@/types"
+import type { ReceiveStockRequest } from "@/types/inventory"
+
+interface ReceiveStockDialogProps {
+  warehouses: Warehouse[]
+  onSubmit: (request: ReceiveStockRequest) => Promise<void>
+  onClose: () => void
+}
+
+export function ReceiveStockDialog({ warehouses, onSubmit, onClose }: ReceiveStockDialogProps) {
+  const { products, isLoading: isLoadingProducts } = useProducts()
+
+  const [productId, setProductId] = useState("")
+  const [warehouseId, setWarehouseId] = useState(warehouses.length === 1 ? warehouses[0].id : "")
+  const [quantity, setQuantity] = useState("")
+  const [costPerKg, setCostPerKg] = useState("")
+  const [receivedAt, setReceivedAt] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [notes, setNotes] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const productOptions = products.map(product => ({
+    value: product.id,
+    label: product.displayName,
+    searchText: product.searchText,
+  }))
+
+  const parsedQuantity = parseFloat(quantity)
+  const parsedCost = parseFloat(costPerKg)
+  const isValid = !!productId && !!warehouseId && parsedQuantity > 0 && parsedCost >= 0
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onSubmit({
+        productId,
+        warehouseId,
+        quantity: parsedQuantity,
+        costPerKg: parsedCost,
+        receivedAt: receivedAt || undefined,
+        notes: notes.trim() || undefined,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Save failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Receive Stock</DialogTitle>
+            <DialogDescription>
+              Stock bought outside a deal, or opening stock. It is added as a new lot; deals take from the oldest lots first.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1">
+            <Label>Product</Label>
+            <SearchableDropdown
+              value={productId}
+              onValueChange={setProductId}
+              options={productOptions}
+              placeholder="Search product..."
+              emptyMessage="No products found."
+              disabled={isLoadingProducts}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Warehouse</Label>
+              <Select value={warehouseId} onValueChange={setWarehouseId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map(warehouse => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stock-received-at">Received on</Label>
+              <Input
+                id="stock-received-at"
+                type="date"
+                value={receivedAt}
+                onChange={(e) => setReceivedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stock-quantity">Quantity (kg)</Label>
+              <Input
+                id="stock-quantity"
+                type="number"
+                min="0"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stock-cost">Cost (₹/kg, landed)</Label>
+              <Input
+                id="stock-cost"
+                type="number"
+                min="0"
+                step="0.01"
+                value={costPerKg}
+                onChange={(e) => setCostPerKg(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="stock-notes">Notes (optional)</Label>
+            <Input
+              id="stock-notes"
+              placeholder="Supplier, invoice number..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !isValid}>
+              {isSubmitting
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <PackagePlus className="mr-1 h-4 w-4" />}
+              Receive
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
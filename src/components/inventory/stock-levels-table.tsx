@@ -0,0 +1,51 @@
+"use client"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatQuantity, formatRupees } from "@/components/deals/deal-detail/format"
+import type { StockLevel } from "@/types"
+
+interface StockLevelsTableProps {
+  levels: StockLevel[]
+}
+
+export function StockLevelsTable({ levels }: StockLevelsTableProps) {
+  if (levels.length === 0) {
+    return <p className="text-sm text-muted-foreground">No stock on hand.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Product</TableHead>
+          <TableHead>Grade</TableHead>
+          <TableHead>Company</TableHead>
+          <TableHead>Warehouse</TableHead>
+          <TableHead className="text-right">Available</TableHead>
+          <TableHead className="text-right">Lots</TableHead>
+          <TableHead className="text-right">Avg cost/kg</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {levels.map(level => (
+          <TableRow key={`${level.product_id}-${level.warehouse_id}`}>
+            <TableCell className="font-medium">{level.product}</TableCell>
+            <TableCell>{level.grade}</TableCell>
+            <TableCell>{level.company}</TableCell>
+            <TableCell>{level.warehouse_name}</TableCell>
+            <TableCell className="text-right">{formatQuantity(level.quantity_available)}</TableCell>
+            <TableCell className="text-right">{level.lot_count}</TableCell>
+            <TableCell className="text-right">{formatRupees(level.average_cost_per_kg)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { CreateWarehouseRequest } from "@/types/inventory"
+
+interface WarehouseFormDialogProps {
+  onSubmit: (request: CreateWarehouseRequest) => Promise<void>
+  onClose: () => void
+}
+
+export function WarehouseFormDialog({ onSubmit, onClose }: WarehouseFormDialogProps) {
+  const [name, setName] = useState("")
+  const [location, setLocation] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onSubmit({
+        name: name.trim(),
+        location: location.trim() || undefined,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Save failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Add Warehouse</DialogTitle>
+            <DialogDescription>
+              Deals pick the warehouse stock is taken from, or where a purchase surplus goes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="warehouse-name">Name</Label>
+              <Input
+                id="warehouse-name"
+                placeholder="Bhiwandi"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="warehouse-location">Location (optional)</Label>
+              <Input
+                id="warehouse-location"
+                placeholder="Address or city"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <Save className="mr-1 h-4 w-4" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, PauseCircle, PlayCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { formatTimestamp } from "@/components/deals/deal-detail/format"
+import type { ChannelCircuitBreakerStatus, CircuitBreakerAction } from "@/types/circuit-breakers"
+
+interface CircuitBreakerPanelProps {
+  breakers: ChannelCircuitBreakerStatus[]
+  isLoading: boolean
+  onAction: (platform: string, action: CircuitBreakerAction) => Promise<void>
+}
+
+const STATE_STYLES: Record<string, string> = {
+  CLOSED: "bg-green-100 text-green-700",
+  HALF_OPEN: "bg-yellow-100 text-yellow-700",
+  OPEN: "bg-red-100 text-red-700",
+}
+
+const describeState = (breaker: ChannelCircuitBreakerStatus): string => {
+  if (breaker.state === "CLOSED") return "Sending normally"
+  if (breaker.state === "HALF_OPEN") return "Testing recovery with the next message"
+  if (breaker.forced) return `Maintenance mode (opened by ${breaker.updatedBy ?? "operator"}); messages wait in pending`
+  return `Paused after repeated failures; retrying ${formatTimestamp(breaker.nextAttemptAt)}. Messages wait in pending`
+}
+
+export function CircuitBreakerPanel({ breakers, isLoading, onAction }: CircuitBreakerPanelProps) {
+  const [busyPlatform, setBusyPlatform] = useState<string | null>(null)
+
+  const run = async (platform: string, action: CircuitBreakerAction) => {
+    try {
+      setBusyPlatform(platform)
+      await onAction(platform, action)
+    } finally {
+      setBusyPlatform(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Circuit Breakers</CardTitle>
+        <CardDescription>
+          Shared by every server instance. Force a channel open for maintenance, or closed to resume sending at once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        {isLoading && breakers.length === 0 && (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        )}
+        {breakers.map(breaker => (
+          <div key={breaker.platform} className="space-y-3 rounded-md border p-4">
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-medium">
+                {breaker.label}
+                {!breaker.enabled && <span className="ml-2 text-xs font-normal text-muted-foreground">(switched off)</span>}
+              </div>
+              <span className={cn("px-2 py-1 rounded-full text-xs font-medium", STATE_STYLES[breaker.state])}>
+                {breaker.forced ? "OPEN (forced)" : breaker.state}
+              </span>
+            </div>
+
+            <p className="text-sm text-muted-foreground">{describeState(breaker)}</p>
+
+            <div className="text-sm">
+              <div className="font-medium">
+                Failures in the last {Math.round(breaker.monitoringWindowMs / 1000)}s: {breaker.recentFailures.length}
+              </div>
+              {breaker.recentFailures.length > 0 && (
+                <ul className="mt-1 max-h-32 space-y-1 overflow-y-auto text-xs text-muted-foreground">
+                  {[...breaker.recentFailures].reverse().map(failure => (
+                    <li key={failure.at}>
+                      <span className="font-mono">{formatTimestamp(failure.at)}</span> {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {breaker.transitions.length > 0 && (
+              <div className="text-sm">
+                <div className="font-medium">Recent changes</div>
+                <ul className="mt-1 space-y-1 text-xs text-muted-foreground">
+                  {breaker.transitions.slice(0, 5).map(transition => (
+                    <li key={transition.id}>
+                      <span className="font-mono">{formatTimestamp(transition.checked_at)}</span> {transition.error_message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => run(breaker.platform, "force_open")}
+                disabled={busyPlatform !== null || (breaker.state === "OPEN" && breaker.forced)}
+              >
+                {busyPlatform === breaker.platform
+                  ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  : <PauseCircle className="mr-1 h-4 w-4" />}
+                Force open
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => run(breaker.platform, "force_close")}
+                disabled={busyPlatform !== null || (breaker.state === "CLOSED" && breaker.recentFailures.length === 0)}
+              >
+                <PlayCircle className="mr-1 h-4 w-4" />
+                Force close
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
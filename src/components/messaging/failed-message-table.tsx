@@ -0,0 +1,161 @@
+"use client"
+
+import Link from "next/link"
+import { Loader2, Pencil } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { MessageOutboxMonitoring } from "@/types"
+import { StatusBadge } from "@/components/deals/deal-detail/notification-history"
+import { formatTimestamp } from "@/components/deals/deal-detail/format"
+
+interface FailedMessageTableProps {
+  messages: MessageOutboxMonitoring[]
+  selectedIds: Set<string>
+  onSelectionChange: (ids: Set<string>) => void
+  onEdit: (message: MessageOutboxMonitoring) => void
+  isLoading: boolean
+}
+
+const URGENCY_STYLES: Record<string, string> = {
+  DEAD_LETTER: "bg-red-100 text-red-700",
+  RETRY_NOW: "bg-orange-100 text-orange-700",
+  STUCK: "bg-yellow-100 text-yellow-800",
+  TIMEOUT: "bg-yellow-100 text-yellow-800",
+  NORMAL: "bg-gray-100 text-gray-700",
+}
+
+const RESENDABLE_STATUSES = ["failed", "dead_letter"]
+
+const formatRetryCountdown = (seconds: number | null) => {
+  if (!seconds) return null
+  if (seconds < 60) return `retry in ${seconds}s`
+  return `retry in ${Math.ceil(seconds / 60)}m`
+}
+
+export function FailedMessageTable({
+  messages,
+  selectedIds,
+  onSelectionChange,
+  onEdit,
+  isLoading,
+}: FailedMessageTableProps) {
+  const allSelected = messages.length > 0 && messages.every(message => message.id && selectedIds.has(message.id))
+
+  const toggleAll = () => {
+    onSelectionChange(allSelected ? new Set() : new Set(messages.flatMap(message => message.id ? [message.id] : [])))
+  }
+
+  const toggleOne = (id: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    onSelectionChange(next)
+  }
+
+  return (
+    <div className="relative rounded-md border">
+      {isLoading && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                aria-label="Select all messages"
+                checked={allSelected}
+                onChange={toggleAll}
+              />
+            </TableHead>
+            <TableHead>Urgency</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Recipient</TableHead>
+            <TableHead>Deal</TableHead>
+            <TableHead className="text-right">Attempts</TableHead>
+            <TableHead>Error</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {messages.length === 0 && !isLoading ? (
+            <TableRow>
+              <TableCell colSpan={10} className="h-24 text-center text-muted-foreground">
+                No messages need attention.
+              </TableCell>
+            </TableRow>
+          ) : (
+            messages.map(message => (
+              <TableRow key={message.id} data-state={message.id && selectedIds.has(message.id) ? "selected" : undefined}>
+                <TableCell>
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    aria-label="Select message"
+                    checked={!!message.id && selectedIds.has(message.id)}
+                    onChange={() => message.id && toggleOne(message.id)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <span className={cn("px-2 py-1 rounded-full text-xs font-medium", URGENCY_STYLES[message.urgency ?? "NORMAL"] ?? "bg-muted")}>
+                    {(message.urgency ?? "NORMAL").replace("_", " ")}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <StatusBadge status={message.status} />
+                  {formatRetryCountdown(message.seconds_until_retry) && (
+                    <div className="mt-1 text-xs text-muted-foreground">{formatRetryCountdown(message.seconds_until_retry)}</div>
+                  )}
+                </TableCell>
+                <TableCell className="font-medium">{message.recipient_role}</TableCell>
+                <TableCell>
+                  {message.recipient_phone}
+                  <div className="text-xs text-muted-foreground">{message.platform}</div>
+                </TableCell>
+                <TableCell>
+                  {message.deal_id ? (
+                    <Link href={`/deals/${message.deal_id}`} className="text-primary hover:underline">
+                      {message.deal_id.slice(0, 8)}
+                    </Link>
+                  ) : "—"}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {message.attempts ?? 0}/{message.max_attempts ?? 3}
+                </TableCell>
+                <TableCell className="max-w-[280px] whitespace-normal text-xs text-red-700">
+                  {message.error_type && <span className="font-medium">{message.error_type}: </span>}
+                  {message.error_message}
+                </TableCell>
+                <TableCell>{formatTimestamp(message.created_at)}</TableCell>
+                <TableCell>
+                  {RESENDABLE_STATUSES.includes(message.status ?? "") && (
+                    <Button variant="outline" size="sm" onClick={() => onEdit(message)}>
+                      <Pencil className="mr-1 h-3 w-3" />
+                      Edit &amp; Resend
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { Json } from "@/types/database.types"
+import type { MessageOutboxAudit } from "@/types"
+import { formatTimestamp } from "@/components/deals/deal-detail/format"
+
+interface OutboxAuditTrailProps {
+  actions: MessageOutboxAudit[]
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  retry: "Retry",
+  edit_resend: "Edit & resend",
+  dead_letter: "Dead-letter",
+}
+
+// Summarise what changed, e.g. "status: failed → pending"
+const describeChanges = (previous: Json | null, next: Json | null): string[] => {
+  if (!next || typeof next !== "object" || Array.isArray(next)) return []
+  const before = previous && typeof previous === "object" && !Array.isArray(previous) ? previous : {}
+
+  return Object.entries(next)
+    .filter(([key, value]) => before[key] !== value)
+    .map(([key, value]) => {
+      if (key === "message_text") return "message text edited"
+      return `${key}: ${before[key] ?? "—"} → ${value ?? "—"}`
+    })
+}
+
+export function OutboxAuditTrail({ actions }: OutboxAuditTrailProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Trail</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {actions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No manual actions recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {actions.map(action => (
+                <TableRow key={action.id}>
+                  <TableCell>{formatTimestamp(action.created_at)}</TableCell>
+                  <TableCell className="font-medium">{ACTION_LABELS[action.action] ?? action.action}</TableCell>
+                  <TableCell>{action.performed_by}</TableCell>
+                  <TableCell className="font-mono text-xs">{action.message_id.slice(0, 8)}</TableCell>
+                  <TableCell className="whitespace-normal text-xs">
+                    {describeChanges(action.previous_values, action.new_values).join(", ")}
+                  </TableCell>
+                  <TableCell className="max-w-[240px] whitespace-normal text-xs">{action.note}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
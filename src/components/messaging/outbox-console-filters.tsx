@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { OutboxConsoleFilters as OutboxConsoleFilterValues } from "@/types/outbox-console"
+import type { WhatsAppErrorType } from "@/lib/services/messaging/whatsapp.types"
+
+interface OutboxConsoleFiltersProps {
+  value: OutboxConsoleFilterValues
+  onApply: (filters: OutboxConsoleFilterValues) => void
+}
+
+// Radix Select cannot hold an empty value, so "all" stands for "no filter"
+const ALL = "all"
+
+const SELECT_FILTERS: Array<{ key: "urgency" | "status"; label: string; options: string[] }> = [
+  { key: "urgency", label: "Urgency", options: ["DEAD_LETTER", "RETRY_NOW", "STUCK", "TIMEOUT"] },
+  { key: "status", label: "Status", options: ["failed", "dead_letter", "pending", "sending"] },
+]
+
+const ERROR_TYPES: WhatsAppErrorType[] = [
+  "AUTH_ERROR",
+  "RATE_LIMIT",
+  "INVALID_RECIPIENT",
+  "NETWORK_ERROR",
+  "VALIDATION_ERROR",
+  "QUOTA_EXCEEDED",
+  "DELIVERY_FAILED",
+  "SESSION_WINDOW_CLOSED",
+  "UNKNOWN_ERROR",
+]
+
+// Drop empty inputs so they are not sent as filters
+const normalizeFilters = (draft: Record<string, string>): OutboxConsoleFilterValues => {
+  const filters: Record<string, string> = {}
+  Object.entries(draft).forEach(([key, value]) => {
+    const trimmed = value.trim()
+    if (trimmed && trimmed !== ALL) filters[key] = trimmed
+  })
+  return filters as OutboxConsoleFilterValues
+}
+
+export function OutboxConsoleFilters({ value, onApply }: OutboxConsoleFiltersProps) {
+  const [draft, setDraft] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(value).map(([key, v]) => [key, String(v ?? "")]))
+  )
+
+  const updateDraft = (key: string, fieldValue: string) => {
+    setDraft(previous => ({ ...previous, [key]: fieldValue }))
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    onApply(normalizeFilters(draft))
+  }
+
+  const handleClear = () => {
+    setDraft({})
+    onApply({})
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="filter-role">Role</Label>
+          <Input
+            id="filter-role"
+            placeholder="e.g. accounts"
+            value={draft.role ?? ""}
+            onChange={(e) => updateDraft("role", e.target.value)}
+          />
+        </div>
+        {SELECT_FILTERS.map(filter => (
+          <div key={filter.key} className="space-y-1">
+            <Label>{filter.label}</Label>
+            <Select value={draft[filter.key] || ALL} onValueChange={(v) => updateDraft(filter.key, v)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All</SelectItem>
+                {filter.options.map(option => (
+                  <SelectItem key={option} value={option}>{option.replace("_", " ")}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label>Error Type</Label>
+          <Select value={draft.errorType || ALL} onValueChange={(v) => updateDraft("errorType", v)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All</SelectItem>
+              {ERROR_TYPES.map(errorType => (
+                <SelectItem key={errorType} value={errorType}>{errorType}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-dealId">Deal ID</Label>
+          <Input
+            id="filter-dealId"
+            placeholder="Deal UUID"
+            value={draft.dealId ?? ""}
+            onChange={(e) => updateDraft("dealId", e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit">Apply</Button>
+        <Button type="button" variant="outline" onClick={handleClear}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { NotificationRecipient, NotificationRole } from "@/types"
+import type { RecipientChannel, RecipientCreateRequest, RecipientDeliveryMode } from "@/types/notification-recipients"
+
+interface RecipientFormDialogProps {
+  roles: NotificationRole[]
+  // Omitted when adding a recipient
+  recipient?: NotificationRecipient
+  defaultRole?: string
+  onSubmit: (request: RecipientCreateRequest) => Promise<void>
+  onClose: () => void
+}
+
+const CHANNEL_OPTIONS: { value: RecipientChannel; label: string }[] = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "telegram", label: "Telegram" },
+]
+
+const DELIVERY_MODE_OPTIONS: { value: RecipientDeliveryMode; label: string }[] = [
+  { value: "per_deal", label: "Every deal" },
+  { value: "per_deal_and_digest", label: "Every deal + daily/weekly digests" },
+  { value: "digest_only", label: "Daily/weekly digests only" },
+]
+
+export function RecipientFormDialog({ roles, recipient, defaultRole, onSubmit, onClose }: RecipientFormDialogProps) {
+  const [role, setRole] = useState(recipient?.role ?? defaultRole ?? roles[0]?.key ?? "")
+  const [name, setName] = useState(recipient?.name ?? "")
+  const [whatsappPhone, setWhatsappPhone] = useState(recipient?.whatsapp_phone ?? "")
+  const [telegramChatId, setTelegramChatId] = useState(recipient?.telegram_chat_id ?? "")
+  const [channels, setChannels] = useState<RecipientChannel[]>(
+    (recipient?.channels as RecipientChannel[] | undefined) ?? ["whatsapp"]
+  )
+  const [deliveryMode, setDeliveryMode] = useState<RecipientDeliveryMode>(
+    (recipient?.delivery_mode as RecipientDeliveryMode | undefined) ?? "per_deal"
+  )
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleChannel = (channel: RecipientChannel) => {
+    setChannels(current => current.includes(channel)
+      ? current.filter(existing => existing !== channel)
+      : [...current, channel])
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onSubmit({
+        role,
+        name: name.trim(),
+        whatsappPhone: whatsappPhone.trim() || null,
+        telegramChatId: telegramChatId.trim() || null,
+        channels,
+        deliveryMode,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Save failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{recipient ? "Edit Recipient" : "Add Recipient"}</DialogTitle>
+            <DialogDescription>
+              They receive the role&apos;s deal notification on each channel ticked below.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="recipient-name">Name</Label>
+              <Input
+                id="recipient-name"
+                placeholder="Priya (Accounts)"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={setRole}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(option => (
+                    <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="recipient-whatsapp">WhatsApp Number</Label>
+            <Input
+              id="recipient-whatsapp"
+              placeholder="+919876543210"
+              value={whatsappPhone}
+              onChange={(e) => setWhatsappPhone(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="recipient-telegram">Telegram Chat ID</Label>
+            <Input
+              id="recipient-telegram"
+              placeholder="-1001234567890 or @channelname"
+              value={telegramChatId}
+              onChange={(e) => setTelegramChatId(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Notify on</Label>
+            <div className="flex gap-4">
+              {CHANNEL_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    checked={channels.includes(option.value)}
+                    onChange={() => toggleChannel(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Deliver</Label>
+            <Select value={deliveryMode} onValueChange={(value) => setDeliveryMode(value as RecipientDeliveryMode)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIVERY_MODE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim() || !role || channels.length === 0}>
+              {isSubmitting
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <Save className="mr-1 h-4 w-4" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
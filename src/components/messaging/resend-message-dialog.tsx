@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { MessageOutboxMonitoring } from "@/types"
+import type { OutboxResendRequest } from "@/types/outbox-console"
+
+interface ResendMessageDialogProps {
+  message: MessageOutboxMonitoring
+  onResend: (request: OutboxResendRequest) => Promise<void>
+  onClose: () => void
+}
+
+// Mount with key={message.id} so the draft resets for each message
+export function ResendMessageDialog({ message, onResend, onClose }: ResendMessageDialogProps) {
+  const [recipientPhone, setRecipientPhone] = useState(message.recipient_phone ?? "")
+  const [messageText, setMessageText] = useState(message.message_text ?? "")
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onResend({
+        recipientPhone: recipientPhone.trim(),
+        messageText,
+        note: note.trim() || undefined,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Resend failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Edit &amp; Resend</DialogTitle>
+            <DialogDescription>
+              {message.recipient_role} message
+              {message.error_type && ` · last error ${message.error_type}`}.
+              Changes are recorded in the audit trail.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1">
+            <Label htmlFor="resend-phone">{message.platform === "telegram" ? "Chat ID" : "Recipient Number"}</Label>
+            <Input
+              id="resend-phone"
+              placeholder={message.platform === "telegram" ? "-1001234567890" : "+919876543210"}
+              value={recipientPhone}
+              onChange={(e) => setRecipientPhone(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="resend-text">Message</Label>
+            <Textarea
+              id="resend-text"
+              rows={12}
+              className="font-mono text-xs"
+              value={messageText}
+              onChange={(e) => setMessageText(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="resend-note">Note (optional)</Label>
+            <Input
+              id="resend-note"
+              placeholder="Why the message was changed"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <Send className="mr-1 h-4 w-4" />}
+              Resend
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { NotificationRole } from "@/types"
+import type { RoleCreateRequest } from "@/types/notification-recipients"
+
+interface RoleFormDialogProps {
+  // Omitted when adding a role; a role's key can't be changed once created
+  role?: NotificationRole
+  onSubmit: (request: RoleCreateRequest) => Promise<void>
+  onClose: () => void
+}
+
+export function RoleFormDialog({ role, onSubmit, onClose }: RoleFormDialogProps) {
+  const [key, setKey] = useState(role?.key ?? "")
+  const [label, setLabel] = useState(role?.label ?? "")
+  const [description, setDescription] = useState(role?.description ?? "")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onSubmit({
+        key: key.trim(),
+        label: label.trim(),
+        description: description.trim() || null,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Save failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{role ? "Edit Role" : "Add Role"}</DialogTitle>
+            <DialogDescription>
+              {role
+                ? `Messages for this role use the deal_registered_${role.key} template.`
+                : "New roles use the deal_registered_default template until one is added for them."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="role-key">Key</Label>
+              <Input
+                id="role-key"
+                placeholder="sales"
+                value={key}
+                disabled={!!role}
+                onChange={(e) => setKey(e.target.value.toLowerCase())}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="role-label">Label</Label>
+              <Input
+                id="role-label"
+                placeholder="Sales"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="role-description">Description (optional)</Label>
+            <Input
+              id="role-description"
+              placeholder="What this team needs to know about a deal"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !key.trim() || !label.trim()}>
+              {isSubmitting
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <Save className="mr-1 h-4 w-4" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { Pencil, Trash2, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { NotificationRecipient, NotificationRole } from "@/types"
+import type { RecipientChannel } from "@/types/notification-recipients"
+
+interface RoleRecipientsCardProps {
+  role: NotificationRole
+  recipients: NotificationRecipient[]
+  channels: Record<RecipientChannel, boolean>
+  onEditRole: () => void
+  onToggleRole: () => void
+  onAddRecipient: () => void
+  onEditRecipient: (recipient: NotificationRecipient) => void
+  onToggleRecipient: (recipient: NotificationRecipient) => void
+  onDeleteRecipient: (recipient: NotificationRecipient) => void
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  whatsapp: "WhatsApp",
+  telegram: "Telegram",
+}
+
+const DELIVERY_MODE_LABELS: Record<string, string> = {
+  per_deal_and_digest: "+ digests",
+  digest_only: "Digests only",
+}
+
+export function RoleRecipientsCard({
+  role,
+  recipients,
+  channels,
+  onEditRole,
+  onToggleRole,
+  onAddRecipient,
+  onEditRecipient,
+  onToggleRecipient,
+  onDeleteRecipient,
+}: RoleRecipientsCardProps) {
+  return (
+    <Card className={cn(!role.is_active && "opacity-70")}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span>
+            {role.label} <span className="font-mono text-xs font-normal text-muted-foreground">{role.key}</span>
+          </span>
+          <span className={`text-xs font-normal ${role.is_active ? "text-green-700" : "text-muted-foreground"}`}>
+            {role.is_active ? "Active" : "Inactive (nobody in this role is notified)"}
+          </span>
+        </CardTitle>
+        {role.description && <CardDescription>{role.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>WhatsApp</TableHead>
+              <TableHead>Telegram</TableHead>
+              <TableHead>Notify on</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {recipients.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-16 text-center text-muted-foreground">
+                  Nobody is notified for this role.
+                </TableCell>
+              </TableRow>
+            ) : (
+              recipients.map(recipient => (
+                <TableRow key={recipient.id}>
+                  <TableCell className="font-medium">{recipient.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{recipient.whatsapp_phone ?? "—"}</TableCell>
+                  <TableCell className="font-mono text-xs">{recipient.telegram_chat_id ?? "—"}</TableCell>
+                  <TableCell className="space-x-1">
+                    {recipient.channels.map(channel => (
+                      <span
+                        key={channel}
+                        title={channels[channel as RecipientChannel] ? undefined : "This channel is switched off"}
+                        className={cn(
+                          "px-2 py-1 rounded-full text-xs font-medium",
+                          channels[channel as RecipientChannel] ? "bg-blue-100 text-blue-700" : "bg-gray-100 text-gray-500 line-through"
+                        )}
+                      >
+                        {CHANNEL_LABELS[channel] ?? channel}
+                      </span>
+                    ))}
+                    {DELIVERY_MODE_LABELS[recipient.delivery_mode] && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                        {DELIVERY_MODE_LABELS[recipient.delivery_mode]}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <button
+                      type="button"
+                      onClick={() => onToggleRecipient(recipient)}
+                      className={cn(
+                        "px-2 py-1 rounded-full text-xs font-medium",
+                        recipient.is_active ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-700"
+                      )}
+                      title={recipient.is_active ? "Click to pause notifications" : "Click to resume notifications"}
+                    >
+                      {recipient.is_active ? "Active" : "Paused"}
+                    </button>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => onEditRecipient(recipient)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onDeleteRecipient(recipient)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={onAddRecipient}>
+            <UserPlus className="mr-1 h-4 w-4" />
+            Add recipient
+          </Button>
+          <Button variant="outline" size="sm" onClick={onEditRole}>
+            Edit role
+          </Button>
+          <Button variant="outline" size="sm" onClick={onToggleRole}>
+            {role.is_active ? "Deactivate role" : "Activate role"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,230 @@
+"use client"
+
+import { useState } from "react"
+import { FlaskConical, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type {
+  RoutingDryRunRequest,
+  RoutingDryRunResult,
+  RoutingRule,
+} from "@/types/notification-routing"
+
+interface RoutingDryRunPanelProps {
+  // When set, the dry run also explains how this rule evaluates
+  rule?: RoutingRule
+  onDryRun: (request: RoutingDryRunRequest, ruleId?: string) => Promise<RoutingDryRunResult>
+  onClearRule: () => void
+}
+
+type DealDraft = RoutingDryRunRequest["dealData"]
+
+const TEXT_FIELDS: Array<{ key: "saleParty" | "product" | "company" | "specificGrade"; label: string }> = [
+  { key: "saleParty", label: "Customer" },
+  { key: "product", label: "Product" },
+  { key: "company", label: "Company" },
+  { key: "specificGrade", label: "Specific grade" },
+]
+
+const NUMBER_FIELDS: Array<{ key: "quantitySold" | "saleRate" | "purchaseRate"; label: string }> = [
+  { key: "quantitySold", label: "Quantity (kg)" },
+  { key: "saleRate", label: "Sale rate (₹/kg)" },
+  // Stands for the stock cost when the material comes from inventory
+  { key: "purchaseRate", label: "Purchase rate / stock cost (₹/kg)" },
+]
+
+export function RoutingDryRunPanel({ rule, onDryRun, onClearRule }: RoutingDryRunPanelProps) {
+  const [deal, setDeal] = useState<DealDraft>({
+    quantitySold: 1000,
+    saleRate: 85,
+    purchaseRate: 80,
+    deliveryTerms: "delivered",
+    materialSource: "new-material",
+  })
+  const [result, setResult] = useState<RoutingDryRunResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateDeal = (patch: Partial<DealDraft>) => setDeal(current => ({ ...current, ...patch }))
+
+  const run = async () => {
+    try {
+      setIsRunning(true)
+      setError(null)
+      const isNewMaterial = deal.materialSource === "new-material"
+      setResult(await onDryRun({
+        dealData: {
+          ...deal,
+          quantityPurchased: isNewMaterial ? deal.quantitySold : undefined,
+          purchaseRate: isNewMaterial ? deal.purchaseRate : undefined,
+          inventoryCostPerKg: isNewMaterial ? undefined : deal.purchaseRate,
+        },
+      }, rule?.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Dry run failed")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dry Run</CardTitle>
+        <CardDescription>
+          Who a deal like this would reach. Nothing is sent.
+          {rule && (
+            <>
+              {" "}Explaining <span className="font-medium">{rule.name}</span>{" "}
+              <button type="button" className="underline" onClick={onClearRule}>(clear)</button>
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {NUMBER_FIELDS.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`dry-run-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`dry-run-${field.key}`}
+                type="number"
+                min={0}
+                value={deal[field.key] ?? ""}
+                onChange={(e) => updateDeal({ [field.key]: e.target.value === "" ? undefined : Number(e.target.value) })}
+              />
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label>Delivery terms</Label>
+            <Select
+              value={deal.deliveryTerms}
+              onValueChange={(v) => updateDeal({ deliveryTerms: v as DealDraft["deliveryTerms"] })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="delivered">Delivered</SelectItem>
+                <SelectItem value="ex-warehouse">Ex-warehouse</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Material source</Label>
+            <Select
+              value={deal.materialSource}
+              onValueChange={(v) => updateDeal({ materialSource: v as DealDraft["materialSource"] })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new-material">New material</SelectItem>
+                <SelectItem value="from-inventory">From inventory</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {TEXT_FIELDS.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`dry-run-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`dry-run-${field.key}`}
+                value={deal[field.key] ?? ""}
+                onChange={(e) => updateDeal({ [field.key]: e.target.value || undefined })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={run} disabled={isRunning}>
+          {isRunning ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <FlaskConical className="mr-1 h-4 w-4" />}
+          Run
+        </Button>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result?.rule && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p className="font-medium">
+              {result.rule.name}: {result.rule.matched ? "matches" : "does not match"} this deal
+            </p>
+            <ul className="list-disc pl-5">
+              {result.rule.conditions.map((condition, index) => (
+                <li key={index} className={condition.matched ? "text-green-700" : "text-red-600"}>
+                  {condition.condition.field} {condition.condition.operator}{" "}
+                  {Array.isArray(condition.condition.value) ? condition.condition.value.join(", ") : condition.condition.value}
+                  {" "}(deal: {condition.actual ?? "not set"})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {result.notifiedCount} notified, {result.skippedCount} skipped · deal value ₹{result.facts.saleAmount}
+              {result.facts.netMarginPercent !== null && ` · net margin ${result.facts.netMarginPercent}%`}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Why</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.decisions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                      No recipients are configured on an enabled channel.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  result.decisions.map(decision => (
+                    <TableRow key={`${decision.recipientId ?? decision.role}-${decision.platform}`}>
+                      <TableCell>{decision.name ?? decision.recipient}</TableCell>
+                      <TableCell>{decision.role}</TableCell>
+                      <TableCell>{decision.platform}</TableCell>
+                      <TableCell>
+                        <span className={cn(
+                          "px-2 py-1 rounded-full text-xs font-medium",
+                          decision.notified ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-700"
+                        )}>
+                          {decision.notified ? "Notified" : "Skipped"}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-normal">{decision.reason}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,245 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Plus, Save, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { NotificationRecipient, NotificationRole } from "@/types"
+import type {
+  RoutingCondition,
+  RoutingField,
+  RoutingFieldDefinition,
+  RoutingOperator,
+  RoutingRule,
+  RoutingRuleCreateRequest,
+} from "@/types/notification-routing"
+
+interface RoutingRuleDialogProps {
+  // Omitted when adding a rule
+  rule?: RoutingRule
+  roles: NotificationRole[]
+  recipients: NotificationRecipient[]
+  fields: Record<RoutingField, RoutingFieldDefinition>
+  operators: Record<RoutingOperator, string>
+  onSubmit: (request: RoutingRuleCreateRequest) => Promise<void>
+  onClose: () => void
+}
+
+// Conditions are edited as text and converted when the rule is saved
+interface ConditionDraft {
+  field: RoutingField
+  operator: RoutingOperator
+  value: string
+}
+
+const NUMERIC_OPERATORS: RoutingOperator[] = ["gt", "gte", "lt", "lte"]
+const LIST_OPERATORS: RoutingOperator[] = ["in", "not_in"]
+
+const toDraft = (condition: RoutingCondition): ConditionDraft => ({
+  field: condition.field,
+  operator: condition.operator,
+  value: Array.isArray(condition.value) ? condition.value.join(", ") : String(condition.value),
+})
+
+const fromDraft = (draft: ConditionDraft, fields: Record<RoutingField, RoutingFieldDefinition>): RoutingCondition => {
+  if (LIST_OPERATORS.includes(draft.operator)) {
+    return { ...draft, value: draft.value.split(",").map(option => option.trim()).filter(Boolean) }
+  }
+  if (NUMERIC_OPERATORS.includes(draft.operator) || fields[draft.field].type === "number") {
+    return { ...draft, value: Number(draft.value) }
+  }
+  return { ...draft, value: draft.value.trim() }
+}
+
+// Target Select values: "role:<key>" or "recipient:<id>"
+const toTargetValue = (rule?: RoutingRule) => {
+  if (rule?.recipient_id) return `recipient:${rule.recipient_id}`
+  if (rule?.role) return `role:${rule.role}`
+  return ""
+}
+
+export function RoutingRuleDialog({ rule, roles, recipients, fields, operators, onSubmit, onClose }: RoutingRuleDialogProps) {
+  const [name, setName] = useState(rule?.name ?? "")
+  const [description, setDescription] = useState(rule?.description ?? "")
+  const [target, setTarget] = useState(toTargetValue(rule))
+  const [conditions, setConditions] = useState<ConditionDraft[]>(
+    rule?.conditions.map(toDraft) ?? [{ field: "saleAmount", operator: "gt", value: "" }]
+  )
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateCondition = (index: number, patch: Partial<ConditionDraft>) => {
+    setConditions(current => current.map((condition, i) => i === index ? { ...condition, ...patch } : condition))
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    const [targetType, targetId] = target.split(":")
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onSubmit({
+        name: name.trim(),
+        description: description.trim() || null,
+        role: targetType === "role" ? targetId : null,
+        recipientId: targetType === "recipient" ? targetId : null,
+        conditions: conditions.map(condition => fromDraft(condition, fields)),
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Save failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{rule ? "Edit Routing Rule" : "Add Routing Rule"}</DialogTitle>
+            <DialogDescription>
+              The role or person is only notified of deals matching one of their rules. All conditions of a rule must hold.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="Boss OG: large deals"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Applies to</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose a role or person" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(role => (
+                    <SelectItem key={role.key} value={`role:${role.key}`}>Role: {role.label}</SelectItem>
+                  ))}
+                  {recipients.map(recipient => (
+                    <SelectItem key={recipient.id} value={`recipient:${recipient.id}`}>
+                      Person: {recipient.name} ({recipient.role})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="rule-description">Description (optional)</Label>
+            <Input
+              id="rule-description"
+              placeholder="Why this rule exists"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conditions</Label>
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={condition.field}
+                  onValueChange={(v) => updateCondition(index, { field: v as RoutingField })}
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(fields).map(([field, definition]) => (
+                      <SelectItem key={field} value={field}>{definition.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(v) => updateCondition(index, { operator: v as RoutingOperator })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(operators).map(([operator, label]) => (
+                      <SelectItem key={operator} value={operator}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="flex-1"
+                  placeholder={LIST_OPERATORS.includes(condition.operator)
+                    ? "Comma-separated values"
+                    : fields[condition.field].options?.join(" or ") ?? "Value"}
+                  value={condition.value}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setConditions(current => current.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setConditions(current => [...current, { field: "company", operator: "in", value: "" }])}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add condition
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Margins and profit are only known for deals with a cost; conditions on them never match inventory deals without a stock cost.
+              For “either X or Y”, add a second rule for the same role.
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim() || !target}>
+              {isSubmitting
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <Save className="mr-1 h-4 w-4" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,290 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Loader2, RotateCcw, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { MessageTemplate } from "@/types"
+import type {
+  MessageTemplateUpdateRequest,
+  TemplatePreviewRequest,
+  TemplatePreviewResult,
+} from "@/types/message-templates"
+
+interface TemplateEditorProps {
+  template: MessageTemplate
+  defaultText?: string
+  variables: Record<string, string>
+  helpers: string[]
+  onSave: (request: MessageTemplateUpdateRequest) => Promise<void>
+  onPreview: (request: TemplatePreviewRequest) => Promise<TemplatePreviewResult>
+}
+
+// Wait for a pause in typing before rendering the preview
+const PREVIEW_DELAY_MS = 400
+
+// Stored parameters are a JSON array of expressions; edited one per line
+const toParamLines = (params: unknown) =>
+  Array.isArray(params) ? params.filter(param => typeof param === "string").join("\n") : ""
+
+// Mount with key={template.id} so the draft resets when another template is selected
+export function TemplateEditor({ template, defaultText, variables, helpers, onSave, onPreview }: TemplateEditorProps) {
+  const [draft, setDraft] = useState(template.template_text)
+  const [materialSource, setMaterialSource] = useState<"new-material" | "from-inventory">("new-material")
+  const [deliveryTerms, setDeliveryTerms] = useState<"delivered" | "ex-warehouse">("delivered")
+  const [preview, setPreview] = useState<TemplatePreviewResult | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [notice, setNotice] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [whatsappTemplateId, setWhatsappTemplateId] = useState(template.whatsapp_template_id ?? "")
+  const [whatsappLanguage, setWhatsappLanguage] = useState(template.whatsapp_template_language)
+  const [whatsappParams, setWhatsappParams] = useState(toParamLines(template.whatsapp_template_params))
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const isDirty = draft !== template.template_text
+  const isFallbackDirty = whatsappTemplateId !== (template.whatsapp_template_id ?? "")
+    || whatsappLanguage !== template.whatsapp_template_language
+    || whatsappParams !== toParamLines(template.whatsapp_template_params)
+
+  const saveFallback = () => save(
+    {
+      whatsappTemplateId: whatsappTemplateId.trim() || null,
+      whatsappTemplateLanguage: whatsappLanguage.trim(),
+      whatsappTemplateParams: whatsappParams.split("\n").map(param => param.trim()).filter(Boolean),
+    },
+    whatsappTemplateId.trim()
+      ? "WhatsApp template saved. It is sent when a recipient has not messaged in 24 hours."
+      : "WhatsApp template removed; messages outside the session window will fail."
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const result = await onPreview({ templateText: draft, materialSource, deliveryTerms })
+        if (!cancelled) {
+          setPreview(result)
+          setPreviewError(null)
+        }
+      } catch (err) {
+        if (!cancelled) setPreviewError(err instanceof Error ? err.message : "Preview failed")
+      }
+    }, PREVIEW_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [draft, materialSource, deliveryTerms, onPreview])
+
+  // Insert {{name}} at the cursor
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current
+    const tag = `{{${name}}}`
+    if (!textarea) {
+      setDraft(current => current + tag)
+      return
+    }
+
+    const { selectionStart, selectionEnd } = textarea
+    setDraft(current => current.slice(0, selectionStart) + tag + current.slice(selectionEnd))
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(selectionStart + tag.length, selectionStart + tag.length)
+    })
+  }
+
+  const save = async (request: MessageTemplateUpdateRequest, successText: string) => {
+    try {
+      setIsSaving(true)
+      setNotice(null)
+      await onSave(request)
+      setNotice({ type: "success", text: successText })
+    } catch (err) {
+      setNotice({ type: "error", text: err instanceof Error ? err.message : "Save failed" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const hasErrors = (preview?.validationErrors.length ?? 0) > 0
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="font-mono text-base">{template.name}</span>
+            <span className={`text-xs font-normal ${template.is_active ? "text-green-700" : "text-muted-foreground"}`}>
+              {template.is_active ? "Active" : "Inactive (default text is used)"}
+            </span>
+          </CardTitle>
+          <CardDescription>
+            Platform: {template.platform}
+            {template.updated_at && ` · last edited ${new Date(template.updated_at).toLocaleString("en-IN")}`}
+            {template.updated_by && ` by ${template.updated_by}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            ref={textareaRef}
+            rows={24}
+            className="font-mono text-xs"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+
+          {notice && (
+            <p className={`text-sm ${notice.type === "success" ? "text-green-700" : "text-red-600"}`}>{notice.text}</p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={() => save({ templateText: draft }, "Template saved. New notifications use it within a minute.")}
+              disabled={!isDirty || hasErrors || isSaving}
+            >
+              {isSaving ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Save className="mr-1 h-4 w-4" />}
+              Save
+            </Button>
+            <Button variant="outline" onClick={() => setDraft(template.template_text)} disabled={!isDirty || isSaving}>
+              Discard changes
+            </Button>
+            {defaultText && (
+              <Button variant="outline" onClick={() => setDraft(defaultText)} disabled={draft === defaultText || isSaving}>
+                <RotateCcw className="mr-1 h-4 w-4" />
+                Reset to default
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => save(
+                { isActive: !template.is_active },
+                template.is_active ? "Template deactivated; the default text is used." : "Template activated."
+              )}
+              disabled={isSaving}
+            >
+              {template.is_active ? "Deactivate" : "Activate"}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Variables (click to insert)</Label>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(variables).map(([name, description]) => (
+                <button
+                  key={name}
+                  type="button"
+                  title={description}
+                  onClick={() => insertVariable(name)}
+                  className="rounded border bg-muted px-2 py-0.5 font-mono text-xs hover:bg-muted/70"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Helpers: {helpers.map(helper => `{{${helper} variable}}`).join(", ")}.
+              Conditions: {"{{#if isNewMaterial}} … {{else}} … {{/if}}"} and {"{{#unless variable}} … {{/unless}}"}.
+            </p>
+          </div>
+
+          {template.platform !== "telegram" && (
+            <div className="space-y-2 rounded-md border p-3">
+              <Label>WhatsApp template (outside the 24-hour window)</Label>
+              <p className="text-xs text-muted-foreground">
+                WhatsApp only delivers this text to people who messaged the business in the last 24 hours.
+                Otherwise the approved template named here is sent, with one expression per line filling {"{{1}}"}, {"{{2}}"}, … of its body.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  className="col-span-2"
+                  placeholder="Template name, e.g. deal_registered"
+                  value={whatsappTemplateId}
+                  onChange={(e) => setWhatsappTemplateId(e.target.value)}
+                />
+                <Input
+                  placeholder="Language, e.g. en"
+                  value={whatsappLanguage}
+                  onChange={(e) => setWhatsappLanguage(e.target.value)}
+                />
+              </div>
+              <Textarea
+                rows={4}
+                className="font-mono text-xs"
+                placeholder={"saleParty\nformatNumber quantitySold\nformatCurrency saleAmount"}
+                value={whatsappParams}
+                onChange={(e) => setWhatsappParams(e.target.value)}
+              />
+              <Button variant="outline" size="sm" onClick={saveFallback} disabled={!isFallbackDirty || isSaving}>
+                <Save className="mr-1 h-4 w-4" />
+                Save WhatsApp template
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Live Preview</CardTitle>
+          <CardDescription>Rendered against a sample deal</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Material source</Label>
+              <Select value={materialSource} onValueChange={(v) => setMaterialSource(v as typeof materialSource)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new-material">New material</SelectItem>
+                  <SelectItem value="from-inventory">From inventory</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Delivery terms</Label>
+              <Select value={deliveryTerms} onValueChange={(v) => setDeliveryTerms(v as typeof deliveryTerms)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                  <SelectItem value="ex-warehouse">Ex-warehouse</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {previewError && <p className="text-sm text-red-600">{previewError}</p>}
+
+          {hasErrors ? (
+            <ul className="list-disc pl-5 text-sm text-red-600">
+              {preview!.validationErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          ) : (
+            <>
+              <pre className="whitespace-pre-wrap rounded-md border bg-muted/40 p-4 text-sm">{preview?.message ?? ""}</pre>
+              {preview && (
+                <p className={`text-xs ${preview.messageLength > 4096 ? "text-red-600" : "text-muted-foreground"}`}>
+                  {preview.messageLength} / 4096 characters
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
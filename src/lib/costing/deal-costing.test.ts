@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateDealCosting,
+  DEFAULT_PURCHASE_CHARGES,
+  DEFAULT_SALE_CHARGES,
+  getMarginBand,
+  hasAdditionalCharges,
+  resolveDealCharges
+} from './deal-costing'
+
+// 1,000 kg bought at ₹90 and sold at ₹100
+const newMaterialDeal = {
+  quantitySold: 1000,
+  saleRate: 100,
+  materialSource: 'new-material' as const,
+  quantityPurchased: 1000,
+  purchaseRate: 90
+}
+
+// TCS, freight, loading/unloading and commission on both sides
+const withCharges = {
+  sale: { tcsPercent: 1, freightPerKg: 2, commissionPercent: 1 },
+  purchase: { tcsPercent: 0.1, freightPerKg: 1, loadingUnloadingPerKg: 0.5 }
+}
+
+describe('resolveDealCharges', () => {
+  it('uses the default rates when no charges are given', () => {
+    expect(resolveDealCharges()).toEqual({
+      sale: DEFAULT_SALE_CHARGES,
+      purchase: DEFAULT_PURCHASE_CHARGES,
+      taxesCreditable: true
+    })
+  })
+
+  it('keeps the defaults for rates left undefined or NaN', () => {
+    const charges = resolveDealCharges({
+      sale: { gstPercent: 5, freightPerKg: undefined, commissionPercent: Number.NaN },
+      taxesCreditable: false
+    })
+
+    expect(charges.sale).toEqual({ ...DEFAULT_SALE_CHARGES, gstPercent: 5 })
+    expect(charges.purchase).toEqual(DEFAULT_PURCHASE_CHARGES)
+    expect(charges.taxesCreditable).toBe(false)
+  })
+})
+
+describe('calculateDealCosting', () => {
+  it('adds GST to the invoices without reducing the margin', () => {
+    const costing = calculateDealCosting(newMaterialDeal)
+
+    expect(costing.sale).toMatchObject({ baseAmount: 100000, gstAmount: 18000, tcsAmount: 0, invoiceAmount: 118000 })
+    expect(costing.purchase).toMatchObject({ baseAmount: 90000, gstAmount: 16200, invoiceAmount: 106200 })
+    expect(costing.saleAmount).toBe(100000)
+    expect(costing.purchaseAmount).toBe(90000)
+    expect(costing.grossProfit).toBe(10000)
+    expect(costing.profitMargin).toBe(10)
+    expect(costing.netProfit).toBe(10000)
+    expect(costing.netMarginPerKg).toBe(10)
+    expect(hasAdditionalCharges(costing)).toBe(false)
+  })
+
+  it('computes TCS on the GST-inclusive amount', () => {
+    const costing = calculateDealCosting({ ...newMaterialDeal, charges: withCharges })
+
+    expect(costing.sale.tcsAmount).toBe(1180)
+    expect(costing.sale.invoiceAmount).toBe(119180)
+    expect(costing.purchase.tcsAmount).toBe(106.2)
+    expect(costing.purchase.invoiceAmount).toBe(106306.2)
+  })
+
+  it('takes freight, loading/unloading and commission off the net margin only', () => {
+    const costing = calculateDealCosting({ ...newMaterialDeal, charges: withCharges })
+
+    expect(costing.sale).toMatchObject({ freightAmount: 2000, loadingUnloadingAmount: 0, commissionAmount: 1000, chargesAmount: 3000 })
+    expect(costing.purchase).toMatchObject({ freightAmount: 1000, loadingUnloadingAmount: 500, commissionAmount: 0, chargesAmount: 1500 })
+    expect(costing.grossProfit).toBe(10000)
+    expect(costing.netRevenue).toBe(97000)
+    expect(costing.landedCost).toBe(91500)
+    expect(costing.netProfit).toBe(5500)
+    expect(costing.netMarginPercent).toBe(5.5)
+    expect(costing.netMarginPerKg).toBe(5.5)
+    expect(hasAdditionalCharges(costing)).toBe(true)
+  })
+
+  it('adds purchase GST and TCS to the landed cost when taxes are not creditable', () => {
+    const costing = calculateDealCosting({
+      ...newMaterialDeal,
+      charges: { ...withCharges, taxesCreditable: false }
+    })
+
+    expect(costing.landedCost).toBe(107806.2)
+    expect(costing.netProfit).toBe(-10806.2)
+    expect(costing.netMarginPercent).toBe(-10.81)
+    expect(costing.netMarginPerKg).toBe(-10.81)
+    expect(costing.grossProfit).toBe(10000)
+  })
+
+  it('costs a from-inventory sale at the stock cost, with no purchase charges', () => {
+    const costing = calculateDealCosting({
+      quantitySold: 500,
+      saleRate: 120,
+      materialSource: 'from-inventory',
+      inventoryCostPerKg: 95.5,
+      charges: { purchase: { freightPerKg: 5, commissionPercent: 2 }, taxesCreditable: false }
+    })
+
+    expect(costing.purchase.baseAmount).toBe(0)
+    expect(costing.purchase.chargesAmount).toBe(0)
+    expect(costing.stock).toMatchObject({ quantity: 500, rate: 95.5, baseAmount: 47750, gstAmount: 0, chargesAmount: 0 })
+    expect(costing.purchaseAmount).toBe(47750)
+    expect(costing.grossProfit).toBe(12250)
+    expect(costing.profitMargin).toBe(20.42)
+    expect(costing.landedCost).toBe(47750)
+    expect(costing.netProfit).toBe(12250)
+    expect(costing.netMarginPerKg).toBe(24.5)
+  })
+
+  it('gives a from-inventory sale without a stock cost no cost', () => {
+    const costing = calculateDealCosting({
+      quantitySold: 500,
+      saleRate: 120,
+      materialSource: 'from-inventory',
+      inventoryCostPerKg: null
+    })
+
+    expect(costing.purchaseAmount).toBe(0)
+    expect(costing.grossProfit).toBe(60000)
+    expect(costing.profitMargin).toBe(100)
+  })
+
+  it('ignores the purchase fields of a from-inventory sale', () => {
+    const costing = calculateDealCosting({
+      ...newMaterialDeal,
+      materialSource: 'from-inventory',
+      inventoryCostPerKg: 80
+    })
+
+    expect(costing.purchase.baseAmount).toBe(0)
+    expect(costing.purchaseAmount).toBe(80000)
+  })
+
+  it('charges a purchase beyond the sale only for the quantity sold', () => {
+    const charges = { ...withCharges, taxesCreditable: false }
+    const exact = calculateDealCosting({ ...newMaterialDeal, charges })
+    const costing = calculateDealCosting({ ...newMaterialDeal, quantityPurchased: 1200, charges })
+
+    // The supplier invoices all 1,200 kg
+    expect(costing.purchase).toMatchObject({ quantity: 1200, baseAmount: 108000, invoiceAmount: 127567.44, chargesAmount: 1800 })
+    expect(costing.surplus).toMatchObject({ quantity: 200, baseAmount: 18000, chargesAmount: 300 })
+    expect(costing.surplusLandedCost).toBe(21561.24)
+
+    expect(costing.purchaseAmount).toBe(exact.purchaseAmount)
+    expect(costing.grossProfit).toBe(exact.grossProfit)
+    expect(costing.landedCost).toBe(exact.landedCost)
+    expect(costing.netProfit).toBe(exact.netProfit)
+    expect(costing.landedCost + costing.surplusLandedCost).toBe(129367.44)
+  })
+
+  it('costs a split purchase at the suppliers blended rate plus the stock cost', () => {
+    const costing = calculateDealCosting({
+      quantitySold: 1000,
+      saleRate: 100,
+      materialSource: 'new-material',
+      purchaseLines: [
+        { source: 'supplier', quantity: 500, rate: 90 },
+        { source: 'supplier', quantity: 300, rate: 95 },
+        { source: 'stock', quantity: 200, rate: 80 }
+      ]
+    })
+
+    expect(costing.purchase.quantity).toBe(800)
+    expect(costing.purchase.baseAmount).toBe(73500)
+    expect(costing.stock.baseAmount).toBe(16000)
+    expect(costing.purchaseAmount).toBe(89500)
+    expect(costing.grossProfit).toBe(10500)
+  })
+
+  it('puts the suppliers surplus beyond the sale into stock at their blended rate', () => {
+    const costing = calculateDealCosting({
+      quantitySold: 1000,
+      saleRate: 100,
+      materialSource: 'new-material',
+      purchaseLines: [
+        { source: 'supplier', quantity: 700, rate: 90 },
+        { source: 'supplier', quantity: 500, rate: 96 }
+      ],
+      charges: withCharges
+    })
+
+    expect(costing.purchase).toMatchObject({ quantity: 1200, baseAmount: 111000, chargesAmount: 1800 })
+    expect(costing.surplus).toMatchObject({ quantity: 200, rate: 92.5, baseAmount: 18500, chargesAmount: 300 })
+    expect(costing.purchaseAmount).toBe(92500)
+    expect(costing.grossProfit).toBe(7500)
+    expect(costing.landedCost).toBe(94000)
+    expect(costing.surplusLandedCost).toBe(18800)
+  })
+
+  it('returns zero margins rather than NaN for a zero quantity', () => {
+    const costing = calculateDealCosting({
+      quantitySold: 0,
+      saleRate: 100,
+      materialSource: 'new-material',
+      quantityPurchased: 0,
+      purchaseRate: 90
+    })
+
+    expect(costing.saleAmount).toBe(0)
+    expect(costing.grossProfit).toBe(0)
+    expect(costing.profitMargin).toBe(0)
+    expect(costing.netProfit).toBe(0)
+    expect(costing.netMarginPercent).toBe(0)
+    expect(costing.netMarginPerKg).toBe(0)
+  })
+})
+
+describe('getMarginBand', () => {
+  it('bands margins at 15% and 10%', () => {
+    expect(getMarginBand(15)).toBe('🟢')
+    expect(getMarginBand(14.99)).toBe('🟡')
+    expect(getMarginBand(10)).toBe('🟡')
+    expect(getMarginBand(9.99)).toBe('🔴')
+    expect(getMarginBand(-5)).toBe('🔴')
+  })
+})
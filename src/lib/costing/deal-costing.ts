@@ -0,0 +1,279 @@
+/**
+ * Deal Costing
+ * Shared landed-cost calculation used by the registration form, the deals API
+ * and the WhatsApp templates, so every surface shows the same numbers.
+ *
+ * Per side (sale / purchase):
+ *   base        = quantity × rate
+ *   GST         = base × GST%
+ *   TCS         = (base + GST) × TCS%
+ *   invoice     = base + GST + TCS
+ *   charges     = freight + loading/unloading (₹/kg × quantity) + commission (% of base)
+ *
+ * Margin:
+ *   gross profit = sale base − (purchase base − surplus base + stock cost)
+ *   net profit   = (sale base − sale charges) − (purchase base + purchase charges + stock cost
+ *                  − surplus landed cost)
+ *
+ * GST and TCS are creditable by default, so they appear on the invoice totals but
+ * do not reduce the margin. Set taxesCreditable to false to add purchase-side
+ * GST/TCS to the landed cost instead.
+ *
+ * Stock a deal takes (all of a from-inventory sale, or the stock line of a split purchase)
+ * is costed at the stock's cost per kg (see inventory-costing), with no further charges
+ * or taxes. A purchase split across suppliers is costed at their blended rate.
+ *
+ * Buying more than the sale puts the surplus into stock at the purchase's landed cost per kg,
+ * so its share of the purchase (with its charges and any non-creditable taxes) goes with it
+ * and the deal is charged only for the quantity sold. The purchase invoice stays whole.
+ */
+
+import { summarizePurchaseLines } from './purchase-lines'
+
+// Type aliases (not interfaces) so charges can be stored in a JSONB column
+export type DealChargeRates = {
+  gstPercent: number
+  tcsPercent: number
+  freightPerKg: number
+  loadingUnloadingPerKg: number
+  commissionPercent: number
+}
+
+export type DealCharges = {
+  sale: DealChargeRates
+  purchase: DealChargeRates
+  taxesCreditable: boolean
+}
+
+export type DealChargesInput = {
+  sale?: Partial<DealChargeRates>
+  purchase?: Partial<DealChargeRates>
+  taxesCreditable?: boolean
+}
+
+// One source of a new-material sale
+export type PurchaseLineCost = {
+  source: 'supplier' | 'stock'
+  quantity: number
+  // ₹/kg; a stock line carries the stock's cost per kg
+  rate: number
+}
+
+export interface DealCostingInput {
+  quantitySold: number
+  saleRate: number
+  materialSource: 'new-material' | 'from-inventory'
+  quantityPurchased?: number
+  purchaseRate?: number
+  // New material from several sources; takes the place of quantityPurchased/purchaseRate
+  purchaseLines?: PurchaseLineCost[]
+  // From-inventory only; without it the deal has no cost
+  inventoryCostPerKg?: number | null
+  charges?: DealChargesInput
+}
+
+export interface SideCosting {
+  quantity: number
+  rate: number
+  baseAmount: number
+  gstAmount: number
+  tcsAmount: number
+  invoiceAmount: number
+  freightAmount: number
+  loadingUnloadingAmount: number
+  commissionAmount: number
+  chargesAmount: number
+}
+
+export interface DealCosting {
+  charges: DealCharges
+  sale: SideCosting
+  // Material bought from suppliers
+  purchase: SideCosting
+  // Material taken from stock, at its cost
+  stock: SideCosting
+  // Purchased material beyond the sale, which goes into stock instead of to the deal
+  surplus: SideCosting
+  // Base amounts (quantity × rate), kept under the names the templates have always used;
+  // purchaseAmount includes the stock's cost
+  saleAmount: number
+  purchaseAmount: number
+  grossProfit: number
+  profitMargin: number
+  // After freight, loading/unloading and commission on both sides
+  netRevenue: number
+  landedCost: number
+  // What the surplus costs landed (its stock lot's cost); not part of landedCost
+  surplusLandedCost: number
+  netProfit: number
+  netMarginPercent: number
+  netMarginPerKg: number
+}
+
+export const DEFAULT_SALE_CHARGES: DealChargeRates = {
+  gstPercent: 18, // Polymers (HSN 3901-3914)
+  tcsPercent: 0,
+  freightPerKg: 0,
+  loadingUnloadingPerKg: 0,
+  commissionPercent: 0
+}
+
+export const DEFAULT_PURCHASE_CHARGES: DealChargeRates = {
+  gstPercent: 18,
+  tcsPercent: 0,
+  freightPerKg: 0,
+  loadingUnloadingPerKg: 0,
+  commissionPercent: 0
+}
+
+// Stock was landed when it was received; taking it out adds nothing
+const NO_CHARGES: DealChargeRates = {
+  gstPercent: 0,
+  tcsPercent: 0,
+  freightPerKg: 0,
+  loadingUnloadingPerKg: 0,
+  commissionPercent: 0
+}
+
+/**
+ * Fill in missing charge rates with defaults
+ */
+export const resolveDealCharges = (charges?: DealChargesInput): DealCharges => {
+  return {
+    sale: { ...DEFAULT_SALE_CHARGES, ...stripUndefined(charges?.sale) },
+    purchase: { ...DEFAULT_PURCHASE_CHARGES, ...stripUndefined(charges?.purchase) },
+    taxesCreditable: charges?.taxesCreditable ?? true
+  }
+}
+
+/**
+ * Calculate the full landed cost and margin of a deal
+ */
+export const calculateDealCosting = (input: DealCostingInput): DealCosting => {
+  const charges = resolveDealCharges(input.charges)
+
+  const sale = calculateSide(input.quantitySold, input.saleRate, charges.sale)
+  const { purchase, stock, surplus } = calculateSourcing(input, charges)
+  const materialCost = purchase.baseAmount - surplus.baseAmount + stock.baseAmount
+
+  const grossProfit = sale.baseAmount - materialCost
+  const profitMargin = sale.baseAmount > 0 ? (grossProfit / sale.baseAmount) * 100 : 0
+
+  const purchaseTaxCost = charges.taxesCreditable ? 0 : purchase.gstAmount + purchase.tcsAmount
+  const surplusTaxCost = charges.taxesCreditable ? 0 : surplus.gstAmount + surplus.tcsAmount
+  const surplusLandedCost = surplus.baseAmount + surplus.chargesAmount + surplusTaxCost
+  const netRevenue = sale.baseAmount - sale.chargesAmount
+  const landedCost = materialCost + purchase.chargesAmount - surplus.chargesAmount + purchaseTaxCost - surplusTaxCost
+  const netProfit = netRevenue - landedCost
+  const netMarginPercent = sale.baseAmount > 0 ? (netProfit / sale.baseAmount) * 100 : 0
+  const netMarginPerKg = input.quantitySold > 0 ? netProfit / input.quantitySold : 0
+
+  return {
+    charges,
+    sale,
+    purchase,
+    stock,
+    surplus,
+    saleAmount: round2(sale.baseAmount),
+    purchaseAmount: round2(materialCost),
+    grossProfit: round2(grossProfit),
+    profitMargin: round2(profitMargin),
+    netRevenue: round2(netRevenue),
+    landedCost: round2(landedCost),
+    surplusLandedCost: round2(surplusLandedCost),
+    netProfit: round2(netProfit),
+    netMarginPercent: round2(netMarginPercent),
+    netMarginPerKg: round2(netMarginPerKg)
+  }
+}
+
+/**
+ * Margin band shown in messages and the UI: 🟢 15%+, 🟡 10%+, 🔴 below
+ */
+export const getMarginBand = (marginPercent: number): '🟢' | '🟡' | '🔴' => {
+  return marginPercent >= 15 ? '🟢' : marginPercent >= 10 ? '🟡' : '🔴'
+}
+
+/**
+ * Whether any freight, loading/unloading or commission was entered
+ */
+export const hasAdditionalCharges = (costing: DealCosting): boolean => {
+  return costing.sale.chargesAmount > 0 || costing.purchase.chargesAmount > 0
+}
+
+/**
+ * What the deal's material costs: supplier purchases (with purchase charges) and stock,
+ * and the part of the purchase that goes into stock instead
+ */
+const calculateSourcing = (
+  input: DealCostingInput,
+  charges: DealCharges
+): { purchase: SideCosting; stock: SideCosting; surplus: SideCosting } => {
+  if (input.materialSource === 'from-inventory') {
+    const costPerKg = input.inventoryCostPerKg
+    return {
+      purchase: calculateSide(0, 0, charges.purchase),
+      stock: costPerKg != null ? calculateSide(input.quantitySold, costPerKg, NO_CHARGES) : calculateSide(0, 0, NO_CHARGES),
+      surplus: calculateSide(0, 0, charges.purchase)
+    }
+  }
+
+  if (!input.purchaseLines?.length) {
+    const quantityPurchased = input.quantityPurchased || 0
+    const purchaseRate = input.purchaseRate || 0
+    return {
+      purchase: calculateSide(quantityPurchased, purchaseRate, charges.purchase),
+      stock: calculateSide(0, 0, NO_CHARGES),
+      surplus: calculateSide(surplusQuantity(quantityPurchased, input.quantitySold), purchaseRate, charges.purchase)
+    }
+  }
+
+  const lines = summarizePurchaseLines(input.purchaseLines)
+  return {
+    purchase: calculateSide(lines.supplierQuantity, lines.supplierRate, charges.purchase),
+    stock: calculateSide(lines.stockQuantity, lines.stockRate, NO_CHARGES),
+    // Lines with a surplus take nothing from stock, so the surplus is the suppliers'
+    surplus: calculateSide(
+      Math.min(surplusQuantity(lines.totalQuantity, input.quantitySold), lines.supplierQuantity),
+      lines.supplierRate,
+      charges.purchase
+    )
+  }
+}
+
+// Kg bought beyond the sale (quantities are stored to 2 decimal places)
+const surplusQuantity = (quantityBought: number, quantitySold: number): number => {
+  return Math.max(round2(quantityBought - quantitySold), 0)
+}
+
+const calculateSide = (quantity: number, rate: number, rates: DealChargeRates): SideCosting => {
+  const baseAmount = quantity * rate
+  const gstAmount = baseAmount * (rates.gstPercent / 100)
+  const tcsAmount = (baseAmount + gstAmount) * (rates.tcsPercent / 100)
+  const freightAmount = quantity * rates.freightPerKg
+  const loadingUnloadingAmount = quantity * rates.loadingUnloadingPerKg
+  const commissionAmount = baseAmount * (rates.commissionPercent / 100)
+
+  return {
+    quantity,
+    rate,
+    baseAmount: round2(baseAmount),
+    gstAmount: round2(gstAmount),
+    tcsAmount: round2(tcsAmount),
+    invoiceAmount: round2(baseAmount + gstAmount + tcsAmount),
+    freightAmount: round2(freightAmount),
+    loadingUnloadingAmount: round2(loadingUnloadingAmount),
+    commissionAmount: round2(commissionAmount),
+    chargesAmount: round2(freightAmount + loadingUnloadingAmount + commissionAmount)
+  }
+}
+
+// Money (₹) and percentages are both reported to 2 decimal places
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+const stripUndefined = <T extends object>(value?: Partial<T>): Partial<T> => {
+  if (!value) return {}
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && v !== null && !Number.isNaN(v))
+  ) as Partial<T>
+}
@@ -0,0 +1,67 @@
+/**
+ * Inventory Costing
+ * Cost per kg of the stock a from-inventory sale takes, shared by the registration form
+ * and DealService so both preview the same margin. The cost saved on the deal is worked out
+ * the same way by consume_deal_stock(), from the lots the stock is actually taken from; a
+ * deal priced from lots that have changed since is refused and priced again.
+ *
+ *   weighted_average  every kg costs the average of the lots it can come from
+ *   fifo              the quantity is costed lot by lot, oldest first (the order
+ *                     consume_deal_stock() takes stock in)
+ *
+ * Lot costs are already landed (purchase rate plus purchase-side charges), so the
+ * result is used as-is for the purchase side of the deal.
+ */
+
+export type InventoryCostMethod = 'weighted_average' | 'fifo'
+
+export const INVENTORY_COST_METHOD_LABELS: Record<InventoryCostMethod, string> = {
+  weighted_average: 'Weighted average',
+  fifo: 'FIFO'
+}
+
+export interface CostedLot {
+  quantityAvailable: number
+  costPerKg: number
+}
+
+/**
+ * Cost per kg of taking quantity from lots (oldest first)
+ * Null when the lots hold less than the quantity
+ */
+export const calculateIssueCost = (
+  lots: CostedLot[],
+  quantity: number,
+  method: InventoryCostMethod
+): number | null => {
+  const wanted = toHundredths(quantity)
+  const available = lots.reduce((sum, lot) => sum + toHundredths(lot.quantityAvailable), 0)
+  if (!(wanted > 0) || available < wanted) {
+    return null
+  }
+
+  if (method === 'weighted_average') {
+    const value = lots.reduce((sum, lot) => sum + toHundredths(lot.quantityAvailable) * toHundredths(lot.costPerKg), 0)
+    return divideToRate(value, available)
+  }
+
+  let remaining = wanted
+  let value = 0
+  for (const lot of lots) {
+    if (remaining <= 0) break
+    const take = Math.min(toHundredths(lot.quantityAvailable), remaining)
+    value += take * toHundredths(lot.costPerKg)
+    remaining -= take
+  }
+
+  return divideToRate(value, wanted)
+}
+
+// Quantities (kg) and rates (₹/kg) are stored to 2 decimal places; they are costed as whole
+// hundredths so the result is exactly the cost Postgres works out for the same lots
+const toHundredths = (value: number): number => Math.round(value * 100)
+
+// value (hundredths of kg × hundredths of ₹) over quantity (hundredths of kg) as ₹/kg, half up
+const divideToRate = (value: number, quantity: number): number => {
+  return Math.floor((2 * value + quantity) / (2 * quantity)) / 100
+}
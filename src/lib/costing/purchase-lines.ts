@@ -0,0 +1,86 @@
+/**
+ * Purchase Lines
+ * A new-material sale can be sourced from several suppliers, and part of it from stock.
+ * The checks here are shared by the registration form and DealService, so the form flags
+ * the same problems the API rejects.
+ *
+ * The lines must cover the quantity sold. Buying more than the sale puts the surplus into
+ * stock; stock only makes up what the suppliers don't cover, in a single line.
+ */
+
+import type { PurchaseLineCost } from './deal-costing'
+
+export interface PurchaseLinesSummary {
+  supplierQuantity: number
+  // Supplier rate weighted by quantity; 0 without supplier lines
+  supplierRate: number
+  stockQuantity: number
+  stockRate: number
+  totalQuantity: number
+}
+
+// A problem with the lines; path is relative to the lines array (e.g. [1, "rate"])
+export interface PurchaseLineIssue {
+  path: Array<string | number>
+  message: string
+}
+
+type CheckedLine = PurchaseLineCost & { purchaseParty?: string }
+
+export const summarizePurchaseLines = (lines: PurchaseLineCost[]): PurchaseLinesSummary => {
+  const supplier = blend(lines.filter(line => line.source === 'supplier'))
+  const stock = blend(lines.filter(line => line.source === 'stock'))
+
+  return {
+    supplierQuantity: supplier.quantity,
+    supplierRate: supplier.rate,
+    stockQuantity: stock.quantity,
+    stockRate: stock.rate,
+    totalQuantity: round2(supplier.quantity + stock.quantity)
+  }
+}
+
+/**
+ * Problems with the lines of a new-material sale of quantitySold kg
+ */
+export const checkPurchaseLines = (lines: CheckedLine[], quantitySold: number): PurchaseLineIssue[] => {
+  const issues: PurchaseLineIssue[] = []
+
+  lines.forEach((line, index) => {
+    if (line.source === 'supplier' && !line.purchaseParty) {
+      issues.push({ path: [index, 'purchaseParty'], message: 'Select a supplier' })
+    }
+    if (!(line.quantity > 0)) {
+      issues.push({ path: [index, 'quantity'], message: 'Quantity must be positive' })
+    }
+    if (line.source === 'supplier' && !(line.rate > 0)) {
+      issues.push({ path: [index, 'rate'], message: 'Purchase rate must be positive' })
+    }
+  })
+
+  if (!lines.some(line => line.source === 'supplier')) {
+    issues.push({ path: [], message: 'Add at least one supplier; a sale entirely from stock is a from-inventory deal' })
+  }
+  if (lines.filter(line => line.source === 'stock').length > 1) {
+    issues.push({ path: [], message: 'Take stock in a single line' })
+  }
+
+  const summary = summarizePurchaseLines(lines)
+  if (summary.totalQuantity < quantitySold) {
+    issues.push({ path: [], message: `The lines cover ${summary.totalQuantity} kg of the ${quantitySold} kg sold` })
+  } else if (summary.stockQuantity > 0 && summary.totalQuantity > quantitySold) {
+    const stockNeeded = round2(Math.max(quantitySold - summary.supplierQuantity, 0))
+    issues.push({ path: [], message: `Take at most ${stockNeeded} kg from stock; the suppliers cover the rest` })
+  }
+
+  return issues
+}
+
+const blend = (lines: PurchaseLineCost[]): { quantity: number; rate: number } => {
+  const quantity = lines.reduce((sum, line) => sum + line.quantity, 0)
+  const amount = lines.reduce((sum, line) => sum + line.quantity * line.rate, 0)
+  return { quantity: round2(quantity), rate: quantity > 0 ? amount / quantity : 0 }
+}
+
+// Quantities (kg) are stored to 2 decimal places
+const round2 = (value: number): number => Math.round(value * 100) / 100
@@ -0,0 +1,66 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { ChannelCircuitBreakerStatus, CircuitBreakerActionRequest } from "@/types/circuit-breakers"
+
+export interface UseCircuitBreakersReturn {
+  breakers: ChannelCircuitBreakerStatus[]
+  isLoading: boolean
+  error: string | null
+  runAction: (platform: string, request: CircuitBreakerActionRequest) => Promise<ChannelCircuitBreakerStatus>
+  refetch: () => Promise<void>
+}
+
+// Throws with the API's validation or error message when the request failed
+const readResult = async <T,>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.validationErrors?.join(", ") || result.error || fallback)
+  }
+  return result.data as T
+}
+
+export function useCircuitBreakers(): UseCircuitBreakersReturn {
+  const [breakers, setBreakers] = useState<ChannelCircuitBreakerStatus[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchBreakers = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/messaging/circuit-breakers")
+      setBreakers(await readResult<ChannelCircuitBreakerStatus[]>(response, "Failed to fetch circuit breakers"))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch circuit breakers"
+      setError(errorMessage)
+      console.error("Error fetching circuit breakers:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBreakers()
+  }, [fetchBreakers])
+
+  const runAction = async (platform: string, request: CircuitBreakerActionRequest) => {
+    const response = await fetch(`/api/messaging/circuit-breakers/${encodeURIComponent(platform)}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    const breaker = await readResult<ChannelCircuitBreakerStatus>(response, "Action failed")
+    setBreakers(current => current.map(existing => existing.platform === breaker.platform ? breaker : existing))
+    return breaker
+  }
+
+  return {
+    breakers,
+    isLoading,
+    error,
+    runAction,
+    refetch: fetchBreakers,
+  }
+}
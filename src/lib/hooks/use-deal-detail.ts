@@ -0,0 +1,95 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { DealDetail } from "@/lib/services/deal.service"
+import type { DealStatusChangeRequest } from "@/types/deal-status"
+import type { DealAmendmentRequest } from "@/types/deal-amendment"
+
+export interface UseDealDetailReturn {
+  detail: DealDetail | null
+  isLoading: boolean
+  error: string | null
+  notFound: boolean
+  changeStatus: (request: DealStatusChangeRequest) => Promise<void>
+  amendDeal: (request: DealAmendmentRequest) => Promise<void>
+  refetch: () => Promise<void>
+}
+
+// Throws with the API's validation or error message when the request failed
+const readResult = async (response: Response, fallback: string): Promise<void> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.validationErrors?.join(", ") || result.error || fallback)
+  }
+}
+
+export function useDealDetail(dealId: string): UseDealDetailReturn {
+  const [detail, setDetail] = useState<DealDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notFound, setNotFound] = useState(false)
+
+  const fetchDetail = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setNotFound(false)
+
+      const response = await fetch(`/api/deals/${encodeURIComponent(dealId)}`)
+      const result = await response.json()
+
+      if (response.status === 404) {
+        setNotFound(true)
+        setDetail(null)
+        return
+      }
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to fetch deal")
+      }
+
+      setDetail(result.data as DealDetail)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch deal"
+      setError(errorMessage)
+      console.error("Error fetching deal:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [dealId])
+
+  useEffect(() => {
+    fetchDetail()
+  }, [fetchDetail])
+
+  // Throws with the API's validation or error message when the move is refused
+  const changeStatus = async (request: DealStatusChangeRequest) => {
+    const response = await fetch(`/api/deals/${encodeURIComponent(dealId)}/status`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    await readResult(response, "Status change failed")
+    await fetchDetail()
+  }
+
+  const amendDeal = async (request: DealAmendmentRequest) => {
+    const response = await fetch(`/api/deals/${encodeURIComponent(dealId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    await readResult(response, "Amendment failed")
+    await fetchDetail()
+  }
+
+  return {
+    detail,
+    isLoading,
+    error,
+    notFound,
+    changeStatus,
+    amendDeal,
+    refetch: fetchDetail,
+  }
+}
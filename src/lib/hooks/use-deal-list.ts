@@ -0,0 +1,133 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import type { Deal } from "@/types"
+import {
+  DEAL_LIST_PAGE_SIZE,
+  type DealListFilters,
+  type DealListPage,
+  type DealListSortField,
+  type SortDirection,
+} from "@/types/deal-list"
+
+export interface DealListSort {
+  sortBy: DealListSortField
+  sortDirection: SortDirection
+}
+
+export interface UseDealListReturn {
+  deals: Deal[]
+  isLoading: boolean
+  error: string | null
+  pageIndex: number
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+  totalEstimate: number | null
+  nextPage: () => void
+  previousPage: () => void
+  refetch: () => Promise<void>
+}
+
+const buildQueryString = (
+  filters: DealListFilters,
+  sort: DealListSort,
+  limit: number,
+  cursor?: string
+): string => {
+  const params = new URLSearchParams()
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value))
+  })
+  params.set("sortBy", sort.sortBy)
+  params.set("sortDirection", sort.sortDirection)
+  params.set("limit", String(limit))
+  if (cursor) params.set("cursor", cursor)
+
+  return params.toString()
+}
+
+export function useDealList(
+  filters: DealListFilters,
+  sort: DealListSort,
+  pageSize: number = DEAL_LIST_PAGE_SIZE
+): UseDealListReturn {
+  const [deals, setDeals] = useState<Deal[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [totalEstimate, setTotalEstimate] = useState<number | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  // cursors[i] is the cursor that loads page i (page 0 has none).
+  // The stack belongs to one query: changing filters or sort starts again from page 0.
+  const queryKey = useMemo(() => buildQueryString(filters, sort, pageSize), [filters, sort, pageSize])
+  const [pagination, setPagination] = useState<{ queryKey: string; cursors: Array<string | undefined> }>({
+    queryKey,
+    cursors: [undefined],
+  })
+  const cursors = pagination.queryKey === queryKey ? pagination.cursors : [undefined]
+
+  const pageIndex = cursors.length - 1
+  const currentCursor = cursors[pageIndex]
+
+  const fetchDeals = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch(
+        `/api/deals?${buildQueryString(filters, sort, pageSize, currentCursor)}`,
+        { signal }
+      )
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.validationErrors?.join(", ") || result.error || "Failed to fetch deals")
+      }
+
+      const page = result.data as DealListPage
+      setDeals(page.deals)
+      setNextCursor(page.nextCursor)
+      if (page.totalEstimate !== null) {
+        setTotalEstimate(page.totalEstimate)
+      }
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch deals"
+      setError(errorMessage)
+      console.error("Error fetching deals:", err)
+    } finally {
+      if (!signal?.aborted) setIsLoading(false)
+    }
+  }, [filters, sort, pageSize, currentCursor])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    fetchDeals(controller.signal)
+    return () => controller.abort()
+  }, [fetchDeals])
+
+  const nextPage = () => {
+    if (nextCursor) setPagination({ queryKey, cursors: [...cursors, nextCursor] })
+  }
+
+  const previousPage = () => {
+    if (cursors.length > 1) setPagination({ queryKey, cursors: cursors.slice(0, -1) })
+  }
+
+  const refetch = async () => {
+    await fetchDeals()
+  }
+
+  return {
+    deals,
+    isLoading,
+    error,
+    pageIndex,
+    hasNextPage: !!nextCursor,
+    hasPreviousPage: pageIndex > 0,
+    totalEstimate,
+    nextPage,
+    previousPage,
+    refetch,
+  }
+}
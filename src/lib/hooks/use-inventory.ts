@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { StockLot, Warehouse } from "@/types"
+import type { CreateWarehouseRequest, InventoryOverview, ReceiveStockRequest } from "@/types/inventory"
+
+export interface UseInventoryReturn {
+  overview: InventoryOverview | null
+  isLoading: boolean
+  error: string | null
+  createWarehouse: (request: CreateWarehouseRequest) => Promise<Warehouse>
+  receiveStock: (request: ReceiveStockRequest) => Promise<StockLot>
+  refetch: () => Promise<void>
+}
+
+// Throws with the API's validation or error message when the request failed
+const readResult = async <T,>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.validationErrors?.join(", ") || result.error || fallback)
+  }
+  return result.data as T
+}
+
+const sendJson = (url: string, method: string, body: unknown) =>
+  fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+
+export function useInventory(): UseInventoryReturn {
+  const [overview, setOverview] = useState<InventoryOverview | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/inventory")
+      setOverview(await readResult<InventoryOverview>(response, "Failed to fetch inventory"))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch inventory"
+      setError(errorMessage)
+      console.error("Error fetching inventory:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchOverview()
+  }, [fetchOverview])
+
+  const createWarehouse = async (request: CreateWarehouseRequest) => {
+    const response = await sendJson("/api/inventory/warehouses", "POST", request)
+    const warehouse = await readResult<Warehouse>(response, "Failed to add warehouse")
+    await fetchOverview()
+    return warehouse
+  }
+
+  const receiveStock = async (request: ReceiveStockRequest) => {
+    const response = await sendJson("/api/inventory/lots", "POST", request)
+    const lot = await readResult<StockLot>(response, "Failed to receive stock")
+    await fetchOverview()
+    return lot
+  }
+
+  return {
+    overview,
+    isLoading,
+    error,
+    createWarehouse,
+    receiveStock,
+    refetch: fetchOverview,
+  }
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { MessageTemplate } from "@/types"
+import type {
+  MessageTemplateCatalog,
+  MessageTemplateUpdateRequest,
+  TemplatePreviewRequest,
+  TemplatePreviewResult,
+} from "@/types/message-templates"
+
+export interface UseMessageTemplatesReturn {
+  catalog: MessageTemplateCatalog | null
+  isLoading: boolean
+  error: string | null
+  updateTemplate: (id: string, request: MessageTemplateUpdateRequest) => Promise<MessageTemplate>
+  previewTemplate: (request: TemplatePreviewRequest) => Promise<TemplatePreviewResult>
+  refetch: () => Promise<void>
+}
+
+// Throws with the API's validation or error message when the request failed
+const readResult = async <T,>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.validationErrors?.join(", ") || result.error || fallback)
+  }
+  return result.data as T
+}
+
+export function useMessageTemplates(): UseMessageTemplatesReturn {
+  const [catalog, setCatalog] = useState<MessageTemplateCatalog | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/messaging/templates")
+      setCatalog(await readResult<MessageTemplateCatalog>(response, "Failed to fetch templates"))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch templates"
+      setError(errorMessage)
+      console.error("Error fetching message templates:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  const updateTemplate = async (id: string, request: MessageTemplateUpdateRequest) => {
+    const response = await fetch(`/api/messaging/templates/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    const template = await readResult<MessageTemplate>(response, "Save failed")
+    setCatalog(current => current && {
+      ...current,
+      templates: current.templates.map(existing => existing.id === template.id ? template : existing),
+    })
+    return template
+  }
+
+  // Stable so the editor can re-run its preview effect on every keystroke
+  const previewTemplate = useCallback(async (request: TemplatePreviewRequest) => {
+    const response = await fetch("/api/messaging/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    return readResult<TemplatePreviewResult>(response, "Preview failed")
+  }, [])
+
+  return {
+    catalog,
+    isLoading,
+    error,
+    updateTemplate,
+    previewTemplate,
+    refetch: fetchTemplates,
+  }
+}
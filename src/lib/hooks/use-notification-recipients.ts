@@ -0,0 +1,127 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { NotificationRecipient, NotificationRole } from "@/types"
+import type {
+  RecipientCreateRequest,
+  RecipientImportResult,
+  RecipientSettings,
+  RecipientUpdateRequest,
+  RoleCreateRequest,
+  RoleUpdateRequest,
+} from "@/types/notification-recipients"
+
+export interface UseNotificationRecipientsReturn {
+  settings: RecipientSettings | null
+  isLoading: boolean
+  error: string | null
+  createRecipient: (request: RecipientCreateRequest) => Promise<NotificationRecipient>
+  updateRecipient: (id: string, request: RecipientUpdateRequest) => Promise<NotificationRecipient>
+  deleteRecipient: (id: string) => Promise<void>
+  importFromEnvironment: (updatedBy?: string) => Promise<NotificationRecipient[]>
+  createRole: (request: RoleCreateRequest) => Promise<NotificationRole>
+  updateRole: (key: string, request: RoleUpdateRequest) => Promise<NotificationRole>
+  refetch: () => Promise<void>
+}
+
+// Throws with the API's validation or error message when the request failed
+const readResult = async <T,>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.validationErrors?.join(", ") || result.error || fallback)
+  }
+  return result.data as T
+}
+
+const sendJson = (url: string, method: string, body: unknown) =>
+  fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+
+export function useNotificationRecipients(): UseNotificationRecipientsReturn {
+  const [settings, setSettings] = useState<RecipientSettings | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/messaging/recipients")
+      setSettings(await readResult<RecipientSettings>(response, "Failed to fetch recipients"))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch recipients"
+      setError(errorMessage)
+      console.error("Error fetching notification recipients:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  const createRecipient = async (request: RecipientCreateRequest) => {
+    const response = await sendJson("/api/messaging/recipients", "POST", request)
+    const recipient = await readResult<NotificationRecipient>(response, "Failed to add recipient")
+    await fetchSettings()
+    return recipient
+  }
+
+  const updateRecipient = async (id: string, request: RecipientUpdateRequest) => {
+    const response = await sendJson(`/api/messaging/recipients/${encodeURIComponent(id)}`, "PATCH", request)
+    const recipient = await readResult<NotificationRecipient>(response, "Failed to save recipient")
+    setSettings(current => current && {
+      ...current,
+      recipients: current.recipients.map(existing => existing.id === recipient.id ? recipient : existing),
+    })
+    return recipient
+  }
+
+  const deleteRecipient = async (id: string) => {
+    const response = await fetch(`/api/messaging/recipients/${encodeURIComponent(id)}`, { method: "DELETE" })
+    await readResult<{ id: string }>(response, "Failed to delete recipient")
+    await fetchSettings()
+  }
+
+  const importFromEnvironment = async (updatedBy?: string) => {
+    const response = await sendJson("/api/messaging/recipients/import", "POST", { updatedBy })
+    const { imported } = await readResult<RecipientImportResult>(response, "Import failed")
+    await fetchSettings()
+    return imported
+  }
+
+  const createRole = async (request: RoleCreateRequest) => {
+    const response = await sendJson("/api/messaging/roles", "POST", request)
+    const role = await readResult<NotificationRole>(response, "Failed to add role")
+    setSettings(current => current && { ...current, roles: [...current.roles, role] })
+    return role
+  }
+
+  const updateRole = async (key: string, request: RoleUpdateRequest) => {
+    const response = await sendJson(`/api/messaging/roles/${encodeURIComponent(key)}`, "PATCH", request)
+    const role = await readResult<NotificationRole>(response, "Failed to save role")
+    setSettings(current => current && {
+      ...current,
+      roles: current.roles.map(existing => existing.key === role.key ? role : existing),
+    })
+    return role
+  }
+
+  return {
+    settings,
+    isLoading,
+    error,
+    createRecipient,
+    updateRecipient,
+    deleteRecipient,
+    importFromEnvironment,
+    createRole,
+    updateRole,
+    refetch: fetchSettings,
+  }
+}
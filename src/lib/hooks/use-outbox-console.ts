@@ -0,0 +1,99 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { MessageOutboxAudit, MessageOutboxMonitoring } from "@/types"
+import type {
+  OutboxBulkActionRequest,
+  OutboxBulkActionResult,
+  OutboxConsoleFilters,
+  OutboxConsolePage,
+  OutboxResendRequest,
+} from "@/types/outbox-console"
+
+export interface UseOutboxConsoleReturn {
+  messages: MessageOutboxMonitoring[]
+  actions: MessageOutboxAudit[]
+  isLoading: boolean
+  error: string | null
+  runBulkAction: (request: OutboxBulkActionRequest) => Promise<OutboxBulkActionResult>
+  resendMessage: (id: string, request: OutboxResendRequest) => Promise<void>
+  refetch: () => Promise<void>
+}
+
+const buildQueryString = (filters: OutboxConsoleFilters): string => {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value))
+  })
+  return params.toString()
+}
+
+// Throws with the API's validation or error message when the request failed
+const readResult = async <T,>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.validationErrors?.join(", ") || result.error || fallback)
+  }
+  return result.data as T
+}
+
+export function useOutboxConsole(filters: OutboxConsoleFilters): UseOutboxConsoleReturn {
+  const [messages, setMessages] = useState<MessageOutboxMonitoring[]>([])
+  const [actions, setActions] = useState<MessageOutboxAudit[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/messaging/outbox?${buildQueryString(filters)}`)
+      const page = await readResult<OutboxConsolePage>(response, "Failed to fetch messages")
+
+      setMessages(page.messages)
+      setActions(page.actions)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch messages"
+      setError(errorMessage)
+      console.error("Error fetching outbox messages:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    fetchMessages()
+  }, [fetchMessages])
+
+  const runBulkAction = async (request: OutboxBulkActionRequest) => {
+    const response = await fetch("/api/messaging/outbox/actions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    const result = await readResult<OutboxBulkActionResult>(response, "Action failed")
+    await fetchMessages()
+    return result
+  }
+
+  const resendMessage = async (id: string, request: OutboxResendRequest) => {
+    const response = await fetch(`/api/messaging/outbox/${encodeURIComponent(id)}/resend`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    await readResult(response, "Resend failed")
+    await fetchMessages()
+  }
+
+  return {
+    messages,
+    actions,
+    isLoading,
+    error,
+    runBulkAction,
+    resendMessage,
+    refetch: fetchMessages,
+  }
+}
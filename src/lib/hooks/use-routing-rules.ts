@@ -0,0 +1,106 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type {
+  RoutingDryRunRequest,
+  RoutingDryRunResult,
+  RoutingRule,
+  RoutingRuleCatalog,
+  RoutingRuleCreateRequest,
+  RoutingRuleUpdateRequest,
+} from "@/types/notification-routing"
+
+export interface UseRoutingRulesReturn {
+  catalog: RoutingRuleCatalog | null
+  isLoading: boolean
+  error: string | null
+  createRule: (request: RoutingRuleCreateRequest) => Promise<RoutingRule>
+  updateRule: (id: string, request: RoutingRuleUpdateRequest) => Promise<RoutingRule>
+  deleteRule: (id: string) => Promise<void>
+  dryRun: (request: RoutingDryRunRequest, ruleId?: string) => Promise<RoutingDryRunResult>
+  refetch: () => Promise<void>
+}
+
+// Throws with the API's validation or error message when the request failed
+const readResult = async <T,>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.validationErrors?.join(", ") || result.error || fallback)
+  }
+  return result.data as T
+}
+
+const sendJson = (url: string, method: string, body: unknown) =>
+  fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+
+export function useRoutingRules(): UseRoutingRulesReturn {
+  const [catalog, setCatalog] = useState<RoutingRuleCatalog | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/messaging/routing-rules")
+      setCatalog(await readResult<RoutingRuleCatalog>(response, "Failed to fetch routing rules"))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch routing rules"
+      setError(errorMessage)
+      console.error("Error fetching routing rules:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const createRule = async (request: RoutingRuleCreateRequest) => {
+    const response = await sendJson("/api/messaging/routing-rules", "POST", request)
+    const rule = await readResult<RoutingRule>(response, "Failed to add rule")
+    setCatalog(current => current && { ...current, rules: [...current.rules, rule] })
+    return rule
+  }
+
+  const updateRule = async (id: string, request: RoutingRuleUpdateRequest) => {
+    const response = await sendJson(`/api/messaging/routing-rules/${encodeURIComponent(id)}`, "PATCH", request)
+    const rule = await readResult<RoutingRule>(response, "Failed to save rule")
+    setCatalog(current => current && {
+      ...current,
+      rules: current.rules.map(existing => existing.id === rule.id ? rule : existing),
+    })
+    return rule
+  }
+
+  const deleteRule = async (id: string) => {
+    const response = await fetch(`/api/messaging/routing-rules/${encodeURIComponent(id)}`, { method: "DELETE" })
+    await readResult<{ id: string }>(response, "Failed to delete rule")
+    setCatalog(current => current && { ...current, rules: current.rules.filter(rule => rule.id !== id) })
+  }
+
+  const dryRun = async (request: RoutingDryRunRequest, ruleId?: string) => {
+    const url = ruleId
+      ? `/api/messaging/routing-rules/${encodeURIComponent(ruleId)}/dry-run`
+      : "/api/messaging/routing-rules/dry-run"
+    const response = await sendJson(url, "POST", request)
+    return readResult<RoutingDryRunResult>(response, "Dry run failed")
+  }
+
+  return {
+    catalog,
+    isLoading,
+    error,
+    createRule,
+    updateRule,
+    deleteRule,
+    dryRun,
+    refetch: fetchRules,
+  }
+}
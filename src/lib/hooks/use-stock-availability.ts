@@ -0,0 +1,65 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { StockAvailability } from "@/types/inventory"
+
+export interface UseStockAvailabilityReturn {
+  // null until a product is selected and its stock has loaded
+  availability: StockAvailability | null
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * Stock of the selected product, reloaded whenever the product or warehouse changes
+ */
+export function useStockAvailability(productId?: string, warehouseId?: string): UseStockAvailabilityReturn {
+  const [availability, setAvailability] = useState<StockAvailability | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setAvailability(null)
+    setError(null)
+    if (!productId) {
+      return
+    }
+
+    // Ignore the answer for a product that is no longer selected
+    let cancelled = false
+    const params = new URLSearchParams({ productId })
+    if (warehouseId) params.set("warehouseId", warehouseId)
+
+    const fetchAvailability = async () => {
+      try {
+        setIsLoading(true)
+
+        const response = await fetch(`/api/inventory/stock?${params}`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch stock")
+        }
+
+        if (!cancelled) setAvailability(result.data as StockAvailability)
+      } catch (err) {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : "Failed to fetch stock")
+        console.error("Error fetching stock availability:", err)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchAvailability()
+    return () => {
+      cancelled = true
+    }
+  }, [productId, warehouseId])
+
+  return {
+    availability,
+    isLoading,
+    error,
+  }
+}
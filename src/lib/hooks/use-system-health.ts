@@ -0,0 +1,72 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { SystemHealthReport } from "@/types/system-health"
+
+export interface UseSystemHealthReturn {
+  report: SystemHealthReport | null
+  isLoading: boolean
+  isChecking: boolean
+  error: string | null
+  runChecks: () => Promise<void>
+  refetch: () => Promise<void>
+}
+
+// Throws with the API's error message when the request failed
+const readResult = async <T,>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || fallback)
+  }
+  return result.data as T
+}
+
+export function useSystemHealth(): UseSystemHealthReturn {
+  const [report, setReport] = useState<SystemHealthReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/health")
+      setReport(await readResult<SystemHealthReport>(response, "Failed to fetch system health"))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch system health"
+      setError(errorMessage)
+      console.error("Error fetching system health:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  const runChecks = async () => {
+    try {
+      setIsChecking(true)
+      setError(null)
+
+      const response = await fetch("/api/health", { method: "POST" })
+      setReport(await readResult<SystemHealthReport>(response, "Health check failed"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Health check failed")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return {
+    report,
+    isLoading,
+    isChecking,
+    error,
+    runChecks,
+    refetch: fetchReport,
+  }
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { Warehouse } from "@/types"
+
+export interface UseWarehousesReturn {
+  warehouses: Warehouse[]
+  isLoading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+export function useWarehouses(): UseWarehousesReturn {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchWarehouses = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/inventory/warehouses")
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to fetch warehouses")
+      }
+
+      setWarehouses(result.data as Warehouse[])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch warehouses"
+      setError(errorMessage)
+      console.error("Error fetching warehouses:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchWarehouses()
+  }, [fetchWarehouses])
+
+  return {
+    warehouses,
+    isLoading,
+    error,
+    refetch: fetchWarehouses,
+  }
+}
@@ -238,6 +238,10 @@ export class ChatbotRepository {
       query = query.gte('sale_amount', params.min_value);
     }
 
+    if (params.status) {
+      query = query.eq('status', params.status);
+    }
+
     const { data, error } = await query;
 
     if (error) {
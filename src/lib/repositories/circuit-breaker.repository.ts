@@ -0,0 +1,105 @@
+/**
+ * Circuit Breaker Repository
+ * Shared circuit breaker state in circuit_breakers; every change goes through a function that
+ * locks the breaker's row and writes transitions to health_checks
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { CircuitBreaker } from '@/types'
+
+export class CircuitBreakerRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Current state; an OPEN breaker whose timeout has passed comes back HALF_OPEN
+   */
+  async get(service: string, timeoutMs: number): Promise<CircuitBreaker> {
+    const { data, error } = await this.supabase.rpc('get_circuit_breaker', {
+      p_service: service,
+      p_timeout_ms: timeoutMs
+    })
+
+    if (error || !data) {
+      console.error('Failed to get circuit breaker:', error)
+      throw new Error('Failed to get circuit breaker')
+    }
+
+    return data
+  }
+
+  /**
+   * Add a failure to the window (opens the breaker at the threshold)
+   */
+  async recordFailure(
+    service: string,
+    errorMessage: string,
+    failureThreshold: number,
+    windowMs: number
+  ): Promise<CircuitBreaker> {
+    const { data, error } = await this.supabase.rpc('record_circuit_breaker_failure', {
+      p_service: service,
+      p_error: errorMessage,
+      p_failure_threshold: failureThreshold,
+      p_window_ms: windowMs
+    })
+
+    if (error || !data) {
+      console.error('Failed to record circuit breaker failure:', error)
+      throw new Error('Failed to record circuit breaker failure')
+    }
+
+    return data
+  }
+
+  /**
+   * Record a success (closes a HALF_OPEN breaker)
+   */
+  async recordSuccess(service: string): Promise<CircuitBreaker> {
+    const { data, error } = await this.supabase.rpc('record_circuit_breaker_success', {
+      p_service: service
+    })
+
+    if (error || !data) {
+      console.error('Failed to record circuit breaker success:', error)
+      throw new Error('Failed to record circuit breaker success')
+    }
+
+    return data
+  }
+
+  /**
+   * Force a breaker OPEN or CLOSED
+   */
+  async setState(
+    service: string,
+    state: 'OPEN' | 'CLOSED',
+    performedBy?: string,
+    note?: string
+  ): Promise<CircuitBreaker> {
+    const { data, error } = await this.supabase.rpc('set_circuit_breaker_state', {
+      p_service: service,
+      p_state: state,
+      p_performed_by: performedBy,
+      p_note: note
+    })
+
+    if (error || !data) {
+      console.error('Failed to set circuit breaker state:', error)
+      throw new Error('Failed to set circuit breaker state')
+    }
+
+    return data
+  }
+}
+
+/**
+ * Singleton circuit breaker repository instance
+ */
+let globalCircuitBreakerRepository: CircuitBreakerRepository | null = null
+
+export const getCircuitBreakerRepository = (): CircuitBreakerRepository => {
+  if (!globalCircuitBreakerRepository) {
+    globalCircuitBreakerRepository = new CircuitBreakerRepository()
+  }
+  return globalCircuitBreakerRepository
+}
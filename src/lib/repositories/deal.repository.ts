@@ -0,0 +1,455 @@
+/**
+ * Deal Repository
+ * Persistence for registered deals in deals_unified
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { Deal, DealAmendment, DealInsert, DealStatusTransition, DealUpdate, Customer, Supplier, Product, Warehouse } from '@/types'
+import type { DealFieldChange } from '@/types/deal-amendment'
+import type { DealStatus } from '@/types/deal-status'
+import type { DealListCursor, DealListPage, DealListQuery, DealListSortField } from '@/types/deal-list'
+import { decodeDealListCursor, encodeDealListCursor } from '@/lib/schemas/deal-list'
+import type { NewOutboxMessage } from './message-outbox.repository'
+import { DealStockAdjustment, DealStockMovement, InsufficientStockError, isInsufficientStockError } from './inventory.repository'
+
+export interface DealReferenceIds {
+  saleParty: string
+  // Supplier of each supplier purchase line
+  purchaseParties?: string[]
+  productCode: string
+  warehouse?: string
+}
+
+export interface DealReferences {
+  customer: Customer | null
+  // In the order of purchaseParties
+  suppliers: (Supplier | null)[]
+  product: Product | null
+  warehouse: Warehouse | null
+}
+
+/**
+ * A deal changed status between reading it and moving it
+ */
+export class DealStatusConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DealStatusConflictError'
+  }
+}
+
+// Raised by transition_deal_status() when the deal is no longer in the expected status
+const STATUS_CONFLICT_HINT = 'status_conflict'
+
+/**
+ * A deal changed between reading it and amending it
+ */
+export class DealAmendmentConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DealAmendmentConflictError'
+  }
+}
+
+// Raised by amend_deal() when the deal's updated_at is not the one the app read
+const AMENDMENT_CONFLICT_HINT = 'amendment_conflict'
+
+/**
+ * The stock a from-inventory deal took cost something other than the deal was priced at
+ */
+export class DealStockCostChangedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DealStockCostChangedError'
+  }
+}
+
+// Raised by create_deal_with_notifications() when the stock's cost changed after it was read
+const STOCK_COST_CHANGED_HINT = 'stock_cost_changed'
+
+export interface DealAmendmentWrite {
+  // updated_at of the deal as read; the amendment is refused if it has changed since
+  expectedUpdatedAt: string | null
+  patch: DealUpdate
+  changes: DealFieldChange[]
+  performedBy: string
+  note: string | null
+  messages: NewOutboxMessage[]
+  stock: DealStockAdjustment | null
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const SORT_COLUMNS = {
+  date: 'Date',
+  saleParty: 'Sale Party',
+  purchaseParty: 'Purchase Party',
+  product: 'Product',
+  quantitySold: 'Quantity Sold',
+  saleRate: 'Sale Rate',
+  createdAt: 'created_at'
+} as const satisfies Record<DealListSortField, keyof Deal>
+
+/**
+ * Escape LIKE wildcards so user input matches literally
+ */
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`)
+
+/**
+ * Quote a value or identifier for PostgREST logic filters (or/and)
+ */
+const quoteFilterValue = (value: string | number): string => {
+  return `"${String(value).replace(/["\\]/g, match => `\\${match}`)}"`
+}
+
+export class DealRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Resolve the customer, suppliers and product the form refers to.
+   * The form sends record IDs; API clients may send names instead.
+   */
+  async resolveReferences(ids: DealReferenceIds): Promise<DealReferences> {
+    const [customer, suppliers, product, warehouse] = await Promise.all([
+      this.findParty('customers', ids.saleParty),
+      Promise.all((ids.purchaseParties || []).map(party => this.findParty('suppliers', party))),
+      this.findProduct(ids.productCode),
+      ids.warehouse ? this.findWarehouse(ids.warehouse) : Promise.resolve(null)
+    ])
+
+    return { customer, suppliers, product, warehouse }
+  }
+
+  /**
+   * Allocate the next SrNo via allocate_deal_srno(), which is safe under concurrent calls.
+   * A number allocated for an insert that later fails is not reused.
+   */
+  async allocateSrNo(dealDate: string, resetPerFinancialYear: boolean): Promise<string> {
+    const { data, error } = await this.supabase.rpc('allocate_deal_srno', {
+      p_deal_date: dealDate,
+      p_reset_per_financial_year: resetPerFinancialYear
+    })
+
+    if (error || !data) {
+      console.error('Failed to allocate deal SrNo:', error)
+      throw new Error('Failed to allocate deal number')
+    }
+
+    return data
+  }
+
+  /**
+   * Insert a deal, its pending notifications and its stock movement in one transaction
+   * (create_deal_with_notifications), so a stored deal always has its outbox rows and
+   * never sells stock that isn't there. Throws DealStockCostChangedError, saving nothing, when
+   * the stock costs other than stock.consume.cost_per_kg, which the messages quote.
+   */
+  async createDealWithNotifications(
+    deal: DealInsert,
+    messages: NewOutboxMessage[],
+    stock: DealStockMovement | null = null
+  ): Promise<Deal> {
+    const { data, error } = await this.supabase.rpc('create_deal_with_notifications', {
+      p_deal: deal,
+      p_messages: messages,
+      p_stock: stock
+    })
+
+    if (error && isInsufficientStockError(error)) {
+      throw new InsufficientStockError(error.message)
+    }
+
+    if (error && error.hint === STOCK_COST_CHANGED_HINT) {
+      throw new DealStockCostChangedError(error.message)
+    }
+
+    if (error || !data) {
+      console.error('Failed to create deal with notifications:', error)
+      throw new Error(`Failed to save deal: ${error?.message ?? 'no row returned'}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Move a deal to a new status, record the transition and queue its notifications in one
+   * transaction (transition_deal_status). Throws DealStatusConflictError when the deal is no
+   * longer in fromStatus, i.e. someone else moved it first.
+   */
+  async transitionStatus(
+    dealId: string,
+    fromStatus: DealStatus,
+    toStatus: DealStatus,
+    performedBy: string,
+    note: string | null,
+    messages: NewOutboxMessage[]
+  ): Promise<Deal> {
+    const { data, error } = await this.supabase.rpc('transition_deal_status', {
+      p_deal_id: dealId,
+      p_from_status: fromStatus,
+      p_to_status: toStatus,
+      p_performed_by: performedBy,
+      p_note: note ?? undefined,
+      p_messages: messages
+    })
+
+    if (error && error.hint === STATUS_CONFLICT_HINT) {
+      throw new DealStatusConflictError(error.message)
+    }
+
+    if (error || !data) {
+      console.error('Failed to change deal status:', error)
+      throw new Error(`Failed to change deal status: ${error?.message ?? 'no row returned'}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Amend a deal, record the diff, adjust its stock and queue its notifications in one
+   * transaction (amend_deal). Throws DealAmendmentConflictError when the deal changed since it
+   * was read, and InsufficientStockError when a from-inventory deal now sells more than is left.
+   */
+  async amendDeal(dealId: string, amendment: DealAmendmentWrite): Promise<Deal> {
+    const { data, error } = await this.supabase.rpc('amend_deal', {
+      p_deal_id: dealId,
+      p_expected_updated_at: amendment.expectedUpdatedAt ?? undefined,
+      p_patch: amendment.patch,
+      p_changes: amendment.changes,
+      p_performed_by: amendment.performedBy,
+      p_note: amendment.note ?? undefined,
+      p_messages: amendment.messages,
+      p_stock: amendment.stock
+    })
+
+    if (error && error.hint === AMENDMENT_CONFLICT_HINT) {
+      throw new DealAmendmentConflictError(error.message)
+    }
+
+    if (error && isInsufficientStockError(error)) {
+      throw new InsufficientStockError(error.message)
+    }
+
+    if (error || !data) {
+      console.error('Failed to amend deal:', error)
+      throw new Error(`Failed to amend deal: ${error?.message ?? 'no row returned'}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Corrections made to a deal, oldest first
+   */
+  async listAmendments(dealId: string): Promise<DealAmendment[]> {
+    const { data, error } = await this.supabase
+      .from('deal_amendments')
+      .select('*')
+      .eq('deal_id', dealId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list deal amendments:', error)
+      throw new Error('Failed to list deal amendments')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Status changes of a deal, oldest first
+   */
+  async listStatusTransitions(dealId: string): Promise<DealStatusTransition[]> {
+    const { data, error } = await this.supabase
+      .from('deal_status_transitions')
+      .select('*')
+      .eq('deal_id', dealId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list deal status transitions:', error)
+      throw new Error('Failed to list deal status transitions')
+    }
+
+    return data || []
+  }
+
+  async getDealById(id: string): Promise<Deal | null> {
+    if (!UUID_PATTERN.test(id)) {
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from('deals_unified')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to get deal:', error)
+      throw new Error('Failed to get deal')
+    }
+
+    return data
+  }
+
+  /**
+   * Every deal dated between two business dates (YYYY-MM-DD, inclusive), oldest first
+   */
+  async listDealsBetween(dateFrom: string, dateTo: string): Promise<Deal[]> {
+    const { data, error } = await this.supabase
+      .from('deals_unified')
+      .select('*')
+      .gte('Date', dateFrom)
+      .lte('Date', dateTo)
+      .order('Date', { ascending: true })
+      .order('SrNo', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list deals for period:', error)
+      throw new Error('Failed to list deals for period')
+    }
+
+    return data || []
+  }
+
+  /**
+   * List deals with filters and keyset (cursor) pagination.
+   * Keyset pagination keeps deep pages as fast as the first one over 34k+ rows.
+   */
+  async listDeals(query: DealListQuery): Promise<DealListPage> {
+    const column = SORT_COLUMNS[query.sortBy]
+    const ascending = query.sortDirection === 'asc'
+    const cursor = query.cursor ? decodeDealListCursor(query.cursor) : null
+
+    let request = this.supabase
+      .from('deals_unified')
+      .select('*', { count: cursor ? undefined : 'estimated' })
+
+    if (query.search) {
+      const pattern = quoteFilterValue(`%${escapeLike(query.search)}%`)
+      request = request.or(
+        ['SrNo', 'Sale Party', 'Purchase Party', 'Product', 'Grade', 'Company']
+          .map(searchColumn => `${quoteFilterValue(searchColumn)}.ilike.${pattern}`)
+          .join(',')
+      )
+    }
+
+    if (query.saleParty) request = request.ilike('Sale Party', `%${escapeLike(query.saleParty)}%`)
+    if (query.purchaseParty) request = request.ilike('Purchase Party', `%${escapeLike(query.purchaseParty)}%`)
+    if (query.product) request = request.ilike('Product', `%${escapeLike(query.product)}%`)
+    if (query.grade) request = request.ilike('Grade', `%${escapeLike(query.grade)}%`)
+    if (query.company) request = request.ilike('Company', `%${escapeLike(query.company)}%`)
+    if (query.dateFrom) request = request.gte('Date', query.dateFrom)
+    if (query.dateTo) request = request.lte('Date', query.dateTo)
+    if (query.minRate !== undefined) request = request.gte('Sale Rate', query.minRate)
+    if (query.maxRate !== undefined) request = request.lte('Sale Rate', query.maxRate)
+    if (query.status) request = request.eq('status', query.status)
+
+    if (cursor) {
+      request = request.or(this.buildCursorFilter(column, ascending, cursor))
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error, count } = await request
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending })
+      .limit(query.limit + 1)
+
+    if (error) {
+      console.error('Failed to list deals:', error)
+      throw new Error('Failed to list deals')
+    }
+
+    const rows = data || []
+    const hasMore = rows.length > query.limit
+    const deals = hasMore ? rows.slice(0, query.limit) : rows
+    const last = deals[deals.length - 1]
+
+    return {
+      deals,
+      hasMore,
+      nextCursor: hasMore && last ? encodeDealListCursor({ value: last[column], id: last.id }) : null,
+      totalEstimate: count ?? null
+    }
+  }
+
+  /**
+   * Rows strictly after the cursor in (column, id) order, with NULLs sorted last
+   */
+  private buildCursorFilter(column: string, ascending: boolean, cursor: DealListCursor): string {
+    const op = ascending ? 'gt' : 'lt'
+    const col = quoteFilterValue(column)
+
+    if (cursor.value === null) {
+      return `and(${col}.is.null,id.${op}.${cursor.id})`
+    }
+
+    const value = quoteFilterValue(cursor.value)
+    return `${col}.${op}.${value},and(${col}.eq.${value},id.${op}.${cursor.id}),${col}.is.null`
+  }
+
+  private async findParty(table: 'customers' | 'suppliers', idOrName: string): Promise<Customer | Supplier | null> {
+    const column = UUID_PATTERN.test(idOrName) ? 'id' : 'Name'
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .select('*')
+      .eq(column, idOrName)
+      .maybeSingle()
+
+    if (error) {
+      console.error(`Failed to resolve ${table} reference:`, error)
+      throw new Error(`Failed to resolve ${table} reference`)
+    }
+
+    return data
+  }
+
+  private async findWarehouse(idOrName: string): Promise<Warehouse | null> {
+    const column = UUID_PATTERN.test(idOrName) ? 'id' : 'name'
+
+    const { data, error } = await this.supabase
+      .from('warehouses')
+      .select('*')
+      .eq(column, idOrName)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to resolve warehouse reference:', error)
+      throw new Error('Failed to resolve warehouse reference')
+    }
+
+    return data
+  }
+
+  private async findProduct(idOrCode: string): Promise<Product | null> {
+    const column = UUID_PATTERN.test(idOrCode) ? 'id' : 'Product'
+
+    const { data, error } = await this.supabase
+      .from('products')
+      .select('*')
+      .eq(column, idOrCode)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to resolve product reference:', error)
+      throw new Error('Failed to resolve product reference')
+    }
+
+    return data
+  }
+}
+
+/**
+ * Singleton deal repository instance
+ */
+let globalDealRepository: DealRepository | null = null
+
+export const getDealRepository = (): DealRepository => {
+  if (!globalDealRepository) {
+    globalDealRepository = new DealRepository()
+  }
+  return globalDealRepository
+}
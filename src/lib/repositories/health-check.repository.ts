@@ -0,0 +1,80 @@
+/**
+ * Health Check Repository
+ * Read/write access to the health_checks log
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { HealthCheck, HealthCheckInsert } from '@/types'
+
+export class HealthCheckRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Latest entries of the given check types, newest first
+   */
+  async listRecent(checkTypes: string[], limit: number = 20): Promise<HealthCheck[]> {
+    const { data, error } = await this.supabase
+      .from('health_checks')
+      .select('*')
+      .in('check_type', checkTypes)
+      .order('checked_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to list health checks:', error)
+      throw new Error('Failed to list health checks')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Latest entries of one check type, newest first
+   */
+  async listHistory(checkType: string, limit: number): Promise<HealthCheck[]> {
+    return await this.listRecent([checkType], limit)
+  }
+
+  /**
+   * Store probe results
+   */
+  async recordMany(entries: HealthCheckInsert[]): Promise<void> {
+    if (entries.length === 0) return
+
+    const { error } = await this.supabase
+      .from('health_checks')
+      .insert(entries)
+
+    if (error) {
+      console.error('Failed to record health checks:', error)
+      throw new Error('Failed to record health checks')
+    }
+  }
+
+  /**
+   * Read one deal to confirm the database answers; throws when it doesn't
+   */
+  async pingDatabase(): Promise<void> {
+    const { error } = await this.supabase
+      .from('deals_unified')
+      .select('id')
+      .limit(1)
+
+    if (error) {
+      console.error('Database ping failed:', error)
+      throw new Error(`Database ping failed: ${error.message}`)
+    }
+  }
+}
+
+/**
+ * Singleton health check repository instance
+ */
+let globalHealthCheckRepository: HealthCheckRepository | null = null
+
+export const getHealthCheckRepository = (): HealthCheckRepository => {
+  if (!globalHealthCheckRepository) {
+    globalHealthCheckRepository = new HealthCheckRepository()
+  }
+  return globalHealthCheckRepository
+}
@@ -0,0 +1,252 @@
+/**
+ * Inventory Repository
+ * Read/write access to warehouses, stock_lots and stock_movements, and the stock_levels view
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { StockLevel, StockLot, Warehouse, WarehouseInsert } from '@/types'
+import type { InventoryCostMethod } from '@/lib/costing/inventory-costing'
+
+// Type aliases (not interfaces) so they can be passed to create_deal_with_notifications as JSON
+export type DealStockConsumption = {
+  product_id: string
+  // null takes stock from any warehouse
+  warehouse_id: string | null
+  quantity: number
+  // How the deal pays for the stock; consume_deal_stock() costs it FIFO when omitted
+  cost_method?: InventoryCostMethod
+  // Cost per kg the deal was priced at; create_deal_with_notifications() refuses the deal
+  // if the stock it takes costs anything else
+  cost_per_kg?: number
+}
+
+export type DealStockReceipt = {
+  product_id: string
+  warehouse_id: string
+  quantity: number
+  cost_per_kg: number
+}
+
+// Stock a deal moves when it is saved: a from-inventory sale or a new-material surplus
+export type DealStockMovement = { consume: DealStockConsumption } | { receive: DealStockReceipt }
+
+// Stock an amended from-inventory deal moves: more taken, or some given back to its lots
+export type DealStockAdjustment = { consume: DealStockConsumption } | { return: { quantity: number } }
+
+export interface NewStockLot {
+  productId: string
+  warehouseId: string
+  quantity: number
+  costPerKg: number
+  receivedAt?: string
+  notes?: string
+  createdBy: string
+}
+
+/**
+ * A from-inventory deal asked for more stock than its product has left
+ */
+export class InsufficientStockError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InsufficientStockError'
+  }
+}
+
+// Raised by consume_deal_stock()
+const INSUFFICIENT_STOCK_HINT = 'insufficient_stock'
+
+/**
+ * Whether a Supabase error is consume_deal_stock() running short
+ */
+export const isInsufficientStockError = (error: { hint?: string }): boolean => {
+  return error.hint === INSUFFICIENT_STOCK_HINT
+}
+
+export class InventoryRepository {
+  private supabase = supabaseAdmin
+
+  async listWarehouses(includeInactive = false): Promise<Warehouse[]> {
+    let request = this.supabase
+      .from('warehouses')
+      .select('*')
+
+    if (!includeInactive) {
+      request = request.eq('is_active', true)
+    }
+
+    const { data, error } = await request.order('name', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list warehouses:', error)
+      throw new Error('Failed to list warehouses')
+    }
+
+    return data || []
+  }
+
+  async getWarehouseById(id: string): Promise<Warehouse | null> {
+    const { data, error } = await this.supabase
+      .from('warehouses')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to get warehouse:', error)
+      throw new Error('Failed to get warehouse')
+    }
+
+    return data
+  }
+
+  /**
+   * Warehouse with this name, ignoring case
+   */
+  async findWarehouseByName(name: string): Promise<Warehouse | null> {
+    const { data, error } = await this.supabase
+      .from('warehouses')
+      .select('*')
+      .ilike('name', name.replace(/[\\%_]/g, match => `\\${match}`))
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to find warehouse:', error)
+      throw new Error('Failed to find warehouse')
+    }
+
+    return data
+  }
+
+  async createWarehouse(warehouse: WarehouseInsert): Promise<Warehouse> {
+    const { data, error } = await this.supabase
+      .from('warehouses')
+      .insert(warehouse)
+      .select()
+      .single()
+
+    if (error || !data) {
+      console.error('Failed to create warehouse:', error)
+      throw new Error('Failed to create warehouse')
+    }
+
+    return data
+  }
+
+  /**
+   * Stock on hand per product and warehouse, optionally for one product or warehouse
+   */
+  async listStockLevels(filters: { productId?: string; warehouseId?: string } = {}): Promise<StockLevel[]> {
+    let request = this.supabase
+      .from('stock_levels')
+      .select('*')
+
+    if (filters.productId) request = request.eq('product_id', filters.productId)
+    if (filters.warehouseId) request = request.eq('warehouse_id', filters.warehouseId)
+
+    const { data, error } = await request
+      .order('product', { ascending: true })
+      .order('warehouse_name', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list stock levels:', error)
+      throw new Error('Failed to list stock levels')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Lots of a product with stock left, oldest first (the order consume_deal_stock() takes them in)
+   */
+  async listAvailableLots(productId: string, warehouseId?: string): Promise<StockLot[]> {
+    let request = this.supabase
+      .from('stock_lots')
+      .select('*')
+      .eq('product_id', productId)
+      .gt('quantity_available', 0)
+
+    if (warehouseId) request = request.eq('warehouse_id', warehouseId)
+
+    const { data, error } = await request
+      .order('received_at', { ascending: true })
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list stock lots:', error)
+      throw new Error('Failed to list stock lots')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Stock a deal has taken and not given back (kg); 0 for deals registered before stock tracking
+   */
+  async getDealStockTaken(dealId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('stock_movements')
+      .select('quantity')
+      .eq('deal_id', dealId)
+      .in('movement_type', ['deal_out', 'deal_return'])
+
+    if (error) {
+      console.error('Failed to get deal stock movements:', error)
+      throw new Error('Failed to get deal stock movements')
+    }
+
+    const taken = (data || []).reduce((sum, movement) => sum - movement.quantity, 0)
+    return Math.round(taken * 100) / 100
+  }
+
+  async productExists(productId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('products')
+      .select('id')
+      .eq('id', productId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to get product:', error)
+      throw new Error('Failed to get product')
+    }
+
+    return !!data
+  }
+
+  /**
+   * Add a lot and its receipt movement (receive_stock_lot)
+   */
+  async receiveLot(lot: NewStockLot): Promise<StockLot> {
+    const { data, error } = await this.supabase.rpc('receive_stock_lot', {
+      p_product_id: lot.productId,
+      p_warehouse_id: lot.warehouseId,
+      p_quantity: lot.quantity,
+      p_cost_per_kg: lot.costPerKg,
+      p_received_at: lot.receivedAt,
+      p_notes: lot.notes,
+      p_created_by: lot.createdBy
+    })
+
+    if (error || !data) {
+      console.error('Failed to receive stock lot:', error)
+      throw new Error('Failed to receive stock lot')
+    }
+
+    return data
+  }
+}
+
+/**
+ * Singleton inventory repository instance
+ */
+let globalInventoryRepository: InventoryRepository | null = null
+
+export const getInventoryRepository = (): InventoryRepository => {
+  if (!globalInventoryRepository) {
+    globalInventoryRepository = new InventoryRepository()
+  }
+  return globalInventoryRepository
+}
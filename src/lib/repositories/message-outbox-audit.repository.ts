@@ -0,0 +1,59 @@
+/**
+ * Message Outbox Audit Repository
+ * Read access to message_outbox_audit (rows are written by the console RPCs)
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { MessageOutboxAudit } from '@/types'
+
+export class MessageOutboxAuditRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Most recent operator actions across all messages, newest first
+   */
+  async listRecent(limit: number = 50): Promise<MessageOutboxAudit[]> {
+    const { data, error } = await this.supabase
+      .from('message_outbox_audit')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to list outbox audit trail:', error)
+      throw new Error('Failed to list outbox audit trail')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Operator actions on one message, newest first
+   */
+  async listByMessageId(messageId: string): Promise<MessageOutboxAudit[]> {
+    const { data, error } = await this.supabase
+      .from('message_outbox_audit')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Failed to list message audit trail:', error)
+      throw new Error('Failed to list message audit trail')
+    }
+
+    return data || []
+  }
+}
+
+/**
+ * Singleton message outbox audit repository instance
+ */
+let globalMessageOutboxAuditRepository: MessageOutboxAuditRepository | null = null
+
+export const getMessageOutboxAuditRepository = (): MessageOutboxAuditRepository => {
+  if (!globalMessageOutboxAuditRepository) {
+    globalMessageOutboxAuditRepository = new MessageOutboxAuditRepository()
+  }
+  return globalMessageOutboxAuditRepository
+}
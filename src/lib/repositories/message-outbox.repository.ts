@@ -0,0 +1,380 @@
+/**
+ * Message Outbox Repository
+ * Read/write access to the message_outbox table
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { MessageOutbox, MessageOutboxInsert, MessageOutboxMonitoring, MessageOutboxUpdate } from '@/types'
+import type { OutboxConsoleFilters } from '@/types/outbox-console'
+import type { MessageStatistics } from '@/types/system-health'
+import type { Database } from '@/types/database.types'
+
+/**
+ * A message to enqueue alongside a deal (deal_id is filled in by the database)
+ */
+export type NewOutboxMessage = Pick<
+  MessageOutboxInsert,
+  'platform' | 'recipient_phone' | 'recipient_role' | 'recipient_id' | 'message_text' | 'whatsapp_template' | 'max_attempts' | 'created_by'
+>
+
+/**
+ * A failed message that is due for another attempt (row of get_messages_pending_retry)
+ */
+export type PendingRetryMessage = Database['public']['Functions']['get_messages_pending_retry']['Returns'][number]
+
+export interface ClaimOptions {
+  platform?: string
+  limit?: number
+  staleAfterSeconds?: number
+}
+
+export interface OperatorActionOptions {
+  performedBy?: string
+  note?: string
+}
+
+export class MessageOutboxRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * All notifications for a deal, oldest first
+   */
+  async listByDealId(dealId: string): Promise<MessageOutbox[]> {
+    const { data, error } = await this.supabase
+      .from('message_outbox')
+      .select('*')
+      .eq('deal_id', dealId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list deal messages:', error)
+      throw new Error('Failed to list deal messages')
+    }
+
+    return data || []
+  }
+
+  /**
+   * A single message by id, or null if it does not exist
+   */
+  async getById(id: string): Promise<MessageOutbox | null> {
+    const { data, error } = await this.supabase
+      .from('message_outbox')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch outbox message:', error)
+      throw new Error('Failed to fetch outbox message')
+    }
+
+    return data
+  }
+
+  /**
+   * Messages that need attention (failed, dead-lettered, stuck or timed out), newest first
+   */
+  async listNeedingAttention(filters: OutboxConsoleFilters, limit: number): Promise<MessageOutboxMonitoring[]> {
+    let query = this.supabase
+      .from('message_outbox_monitoring')
+      .select('*')
+      .or('urgency.neq.NORMAL,status.eq.failed')
+
+    if (filters.role) query = query.eq('recipient_role', filters.role)
+    if (filters.errorType) query = query.eq('error_type', filters.errorType)
+    if (filters.dealId) query = query.eq('deal_id', filters.dealId)
+    if (filters.urgency) query = query.eq('urgency', filters.urgency)
+    if (filters.status) query = query.eq('status', filters.status)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to list messages needing attention:', error)
+      throw new Error('Failed to list messages needing attention')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Operator retry: failed/dead_letter -> pending with extraAttempts more attempts (audited)
+   * Returns the messages that were requeued
+   */
+  async requeue(ids: string[], extraAttempts: number, options: OperatorActionOptions = {}): Promise<MessageOutbox[]> {
+    const { data, error } = await this.supabase.rpc('requeue_outbox_messages', {
+      p_ids: ids,
+      p_extra_attempts: extraAttempts,
+      p_performed_by: options.performedBy,
+      p_note: options.note
+    })
+
+    if (error) {
+      console.error('Failed to requeue outbox messages:', error)
+      throw new Error('Failed to requeue outbox messages')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Operator edit and resend: correct the recipient and/or text, then requeue (audited)
+   */
+  async resend(
+    id: string,
+    changes: { recipientPhone?: string; messageText?: string },
+    extraAttempts: number,
+    options: OperatorActionOptions = {}
+  ): Promise<MessageOutbox> {
+    const { data, error } = await this.supabase.rpc('resend_outbox_message', {
+      p_id: id,
+      p_recipient_phone: changes.recipientPhone,
+      p_message_text: changes.messageText,
+      p_extra_attempts: extraAttempts,
+      p_performed_by: options.performedBy,
+      p_note: options.note
+    })
+
+    if (error || !data) {
+      console.error('Failed to resend outbox message:', error)
+      throw new Error('Failed to resend outbox message')
+    }
+
+    return data
+  }
+
+  /**
+   * Operator give-up: pending/failed -> dead_letter (audited)
+   * Returns the messages that were dead-lettered
+   */
+  async deadLetter(ids: string[], options: OperatorActionOptions = {}): Promise<MessageOutbox[]> {
+    const { data, error } = await this.supabase.rpc('dead_letter_outbox_messages', {
+      p_ids: ids,
+      p_performed_by: options.performedBy,
+      p_note: options.note
+    })
+
+    if (error) {
+      console.error('Failed to dead-letter outbox messages:', error)
+      throw new Error('Failed to dead-letter outbox messages')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Claim a batch of pending messages (status -> sending, attempts + 1)
+   */
+  async claimPending(options: ClaimOptions = {}): Promise<MessageOutbox[]> {
+    const { data, error } = await this.supabase.rpc('claim_outbox_messages', {
+      p_platform: options.platform ?? 'whatsapp',
+      p_limit: options.limit ?? 20,
+      p_stale_after_seconds: options.staleAfterSeconds ?? 300
+    })
+
+    if (error) {
+      console.error('Failed to claim outbox messages:', error)
+      throw new Error('Failed to claim outbox messages')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Failed messages whose next_retry_at has passed, oldest first
+   */
+  async listPendingRetry(limit: number = 20): Promise<PendingRetryMessage[]> {
+    const { data, error } = await this.supabase
+      .rpc('get_messages_pending_retry')
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to list messages pending retry:', error)
+      throw new Error('Failed to list messages pending retry')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Claim a failed message for another attempt (status -> sending, attempts + 1)
+   * Returns null when another worker claimed it first
+   */
+  async claimForRetry(message: Pick<PendingRetryMessage, 'id' | 'attempts'>): Promise<MessageOutbox | null> {
+    const { data, error } = await this.supabase
+      .from('message_outbox')
+      .update({
+        status: 'sending',
+        attempts: message.attempts + 1
+      })
+      .eq('id', message.id)
+      .eq('status', 'failed')
+      .eq('attempts', message.attempts)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to claim message for retry:', error)
+      throw new Error('Failed to claim message for retry')
+    }
+
+    return data
+  }
+
+  /**
+   * Move failed messages that can no longer be retried to dead_letter
+   */
+  async deadLetterExhausted(nonRetryableErrorTypes: string[]): Promise<number> {
+    const { data, error } = await this.supabase.rpc('dead_letter_exhausted_messages', {
+      p_non_retryable_error_types: nonRetryableErrorTypes
+    })
+
+    if (error) {
+      console.error('Failed to dead-letter exhausted messages:', error)
+      throw new Error('Failed to dead-letter exhausted messages')
+    }
+
+    return data ?? 0
+  }
+
+  /**
+   * Messages queued in a time range that are currently failed or dead-lettered
+   */
+  async listFailedCreatedBetween(from: Date, to: Date): Promise<Pick<MessageOutbox, 'id' | 'error_type'>[]> {
+    const { data, error } = await this.supabase
+      .from('message_outbox')
+      .select('id, error_type')
+      .in('status', ['failed', 'dead_letter'])
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString())
+
+    if (error) {
+      console.error('Failed to list failed messages for period:', error)
+      throw new Error('Failed to list failed messages for period')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Delivery totals, success rate and counts by error type over the last hoursBack hours
+   */
+  async getStatistics(hoursBack: number): Promise<MessageStatistics> {
+    const { data, error } = await this.supabase.rpc('get_message_statistics', { p_hours_back: hoursBack })
+
+    const row = data?.[0]
+    if (error || !row) {
+      console.error('Failed to get message statistics:', error)
+      throw new Error('Failed to get message statistics')
+    }
+
+    return {
+      hoursBack,
+      totalMessages: Number(row.total_messages),
+      successfulMessages: Number(row.successful_messages),
+      failedMessages: Number(row.failed_messages),
+      pendingMessages: Number(row.pending_messages),
+      deadLetterMessages: Number(row.dead_letter_messages),
+      successRate: Number(row.success_rate),
+      avgResponseTimeMs: row.avg_response_time_ms === null ? null : Number(row.avg_response_time_ms),
+      errorBreakdown: (row.error_breakdown as Record<string, number> | null) ?? {}
+    }
+  }
+
+  /**
+   * Apply a delivery/read receipt to the message with this external (Meta) message id
+   * Returns the updated message, or null when no message matches
+   */
+  async applyDeliveryStatus(
+    externalMessageId: string,
+    status: string,
+    statusAt: Date,
+    error?: { code?: string; message?: string; type?: string }
+  ): Promise<MessageOutbox | null> {
+    const { data, error: rpcError } = await this.supabase.rpc('apply_outbox_delivery_status', {
+      p_external_message_id: externalMessageId,
+      p_status: status,
+      p_status_at: statusAt.toISOString(),
+      p_error_code: error?.code,
+      p_error_message: error?.message,
+      p_error_type: error?.type
+    })
+
+    if (rpcError) {
+      console.error('Failed to apply delivery status:', rpcError)
+      throw new Error('Failed to apply delivery status')
+    }
+
+    return data?.[0] ?? null
+  }
+
+  /**
+   * Hand a claimed message back to the queue without using up an attempt
+   */
+  async releaseClaim(message: Pick<MessageOutbox, 'id' | 'attempts'>): Promise<void> {
+    const { error } = await this.supabase
+      .from('message_outbox')
+      .update({
+        status: 'pending',
+        attempts: Math.max(0, (message.attempts ?? 1) - 1),
+        next_retry_at: null
+      })
+      .eq('id', message.id)
+      .eq('status', 'sending')
+
+    if (error) {
+      console.error('Failed to release outbox message:', error)
+      throw new Error('Failed to release outbox message')
+    }
+  }
+
+  /**
+   * Schedule the retry of (or dead-letter, or requeue as a template) a message a status
+   * callback reported failed; a no-op when a duplicate callback already handled it
+   */
+  async scheduleReportedFailure(
+    id: string,
+    update: Pick<MessageOutboxUpdate, 'status' | 'next_retry_at' | 'error_details'>
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('message_outbox')
+      .update(update)
+      .eq('id', id)
+      .eq('status', 'failed')
+      .is('next_retry_at', null)
+
+    if (error) {
+      console.error('Failed to schedule failed outbox message:', error)
+      throw new Error('Failed to schedule failed outbox message')
+    }
+  }
+
+  /**
+   * Record the outcome of a send attempt
+   */
+  async updateMessage(id: string, update: MessageOutboxUpdate): Promise<void> {
+    const { error } = await this.supabase
+      .from('message_outbox')
+      .update(update)
+      .eq('id', id)
+
+    if (error) {
+      console.error('Failed to update outbox message:', error)
+      throw new Error('Failed to update outbox message')
+    }
+  }
+}
+
+/**
+ * Singleton message outbox repository instance
+ */
+let globalMessageOutboxRepository: MessageOutboxRepository | null = null
+
+export const getMessageOutboxRepository = (): MessageOutboxRepository => {
+  if (!globalMessageOutboxRepository) {
+    globalMessageOutboxRepository = new MessageOutboxRepository()
+  }
+  return globalMessageOutboxRepository
+}
@@ -0,0 +1,102 @@
+/**
+ * Message Template Repository
+ * Data access for the editable notification templates in message_templates
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { MessageTemplate, MessageTemplateUpdate } from '@/types'
+
+/**
+ * The fields operators can change from the template editor
+ */
+export type MessageTemplatePatch = Pick<
+  MessageTemplateUpdate,
+  | 'template_text'
+  | 'variables'
+  | 'is_active'
+  | 'whatsapp_template_id'
+  | 'whatsapp_template_language'
+  | 'whatsapp_template_params'
+  | 'updated_by'
+>
+
+export class MessageTemplateRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Every template, active or not, by name
+   */
+  async listAll(): Promise<MessageTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('message_templates')
+      .select('*')
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list message templates:', error)
+      throw new Error('Failed to list message templates')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Active templates only (what notifications are rendered from)
+   */
+  async listActive(): Promise<MessageTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('message_templates')
+      .select('*')
+      .eq('is_active', true)
+
+    if (error) {
+      console.error('Failed to list active message templates:', error)
+      throw new Error('Failed to list active message templates')
+    }
+
+    return data || []
+  }
+
+  async getById(id: string): Promise<MessageTemplate | null> {
+    const { data, error } = await this.supabase
+      .from('message_templates')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to load message template:', error)
+      throw new Error('Failed to load message template')
+    }
+
+    return data
+  }
+
+  async update(id: string, patch: MessageTemplatePatch): Promise<MessageTemplate> {
+    const { data, error } = await this.supabase
+      .from('message_templates')
+      .update(patch)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to update message template:', error)
+      throw new Error('Failed to update message template')
+    }
+
+    return data
+  }
+}
+
+/**
+ * Singleton message template repository instance
+ */
+let globalMessageTemplateRepository: MessageTemplateRepository | null = null
+
+export const getMessageTemplateRepository = (): MessageTemplateRepository => {
+  if (!globalMessageTemplateRepository) {
+    globalMessageTemplateRepository = new MessageTemplateRepository()
+  }
+  return globalMessageTemplateRepository
+}
@@ -0,0 +1,60 @@
+/**
+ * Notification Digest Repository
+ * Read/write access to notification_digests (one row per digest sent to a recipient)
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { NotificationDigest, NotificationDigestInsert } from '@/types'
+
+export class NotificationDigestRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Digests already delivered for a period
+   */
+  async listSent(period: string, periodStart: string): Promise<NotificationDigest[]> {
+    const { data, error } = await this.supabase
+      .from('notification_digests')
+      .select('*')
+      .eq('period', period)
+      .eq('period_start', periodStart)
+      .eq('status', 'sent')
+
+    if (error) {
+      console.error('Failed to list sent digests:', error)
+      throw new Error('Failed to list sent digests')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Record a send attempt; a retry of a failed digest replaces its row
+   */
+  async record(digest: NotificationDigestInsert): Promise<NotificationDigest> {
+    const { data, error } = await this.supabase
+      .from('notification_digests')
+      .upsert(digest, { onConflict: 'period,period_start,recipient_id,platform' })
+      .select()
+      .single()
+
+    if (error || !data) {
+      console.error('Failed to record digest:', error)
+      throw new Error('Failed to record digest')
+    }
+
+    return data
+  }
+}
+
+/**
+ * Singleton notification digest repository instance
+ */
+let globalNotificationDigestRepository: NotificationDigestRepository | null = null
+
+export const getNotificationDigestRepository = (): NotificationDigestRepository => {
+  if (!globalNotificationDigestRepository) {
+    globalNotificationDigestRepository = new NotificationDigestRepository()
+  }
+  return globalNotificationDigestRepository
+}
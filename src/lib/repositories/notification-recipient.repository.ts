@@ -0,0 +1,147 @@
+/**
+ * Notification Recipient Repository
+ * Read/write access to notification_recipients
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { NotificationRecipient, NotificationRecipientInsert, NotificationRecipientUpdate } from '@/types'
+
+export class NotificationRecipientRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Every recipient, grouped by role
+   */
+  async listAll(): Promise<NotificationRecipient[]> {
+    const { data, error } = await this.supabase
+      .from('notification_recipients')
+      .select('*')
+      .order('role', { ascending: true })
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list notification recipients:', error)
+      throw new Error('Failed to list notification recipients')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Active recipients whose role is also active (who deal notifications go to)
+   */
+  async listActive(): Promise<NotificationRecipient[]> {
+    const { data: roles, error: rolesError } = await this.supabase
+      .from('notification_roles')
+      .select('key')
+      .eq('is_active', true)
+
+    if (rolesError) {
+      console.error('Failed to list active notification roles:', rolesError)
+      throw new Error('Failed to list active notification recipients')
+    }
+
+    const { data, error } = await this.supabase
+      .from('notification_recipients')
+      .select('*')
+      .eq('is_active', true)
+      .in('role', (roles || []).map(role => role.key))
+      .order('role', { ascending: true })
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list active notification recipients:', error)
+      throw new Error('Failed to list active notification recipients')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Whether any recipient has been configured yet (active or not)
+   */
+  async hasAny(): Promise<boolean> {
+    const { count, error } = await this.supabase
+      .from('notification_recipients')
+      .select('id', { count: 'exact', head: true })
+
+    if (error) {
+      console.error('Failed to count notification recipients:', error)
+      throw new Error('Failed to count notification recipients')
+    }
+
+    return (count ?? 0) > 0
+  }
+
+  async getById(id: string): Promise<NotificationRecipient | null> {
+    const { data, error } = await this.supabase
+      .from('notification_recipients')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to load notification recipient:', error)
+      throw new Error('Failed to load notification recipient')
+    }
+
+    return data
+  }
+
+  async create(recipients: NotificationRecipientInsert[]): Promise<NotificationRecipient[]> {
+    const { data, error } = await this.supabase
+      .from('notification_recipients')
+      .insert(recipients)
+      .select()
+
+    if (error) {
+      console.error('Failed to create notification recipients:', error)
+      throw new Error('Failed to create notification recipients')
+    }
+
+    return data || []
+  }
+
+  async update(id: string, patch: NotificationRecipientUpdate): Promise<NotificationRecipient> {
+    const { data, error } = await this.supabase
+      .from('notification_recipients')
+      .update(patch)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to update notification recipient:', error)
+      throw new Error('Failed to update notification recipient')
+    }
+
+    return data
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('notification_recipients')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      console.error('Failed to delete notification recipient:', error)
+      throw new Error('Failed to delete notification recipient')
+    }
+
+    return (data || []).length > 0
+  }
+}
+
+/**
+ * Singleton notification recipient repository instance
+ */
+let globalNotificationRecipientRepository: NotificationRecipientRepository | null = null
+
+export const getNotificationRecipientRepository = (): NotificationRecipientRepository => {
+  if (!globalNotificationRecipientRepository) {
+    globalNotificationRecipientRepository = new NotificationRecipientRepository()
+  }
+  return globalNotificationRecipientRepository
+}
@@ -0,0 +1,83 @@
+/**
+ * Notification Role Repository
+ * Read/write access to notification_roles
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { NotificationRole, NotificationRoleInsert, NotificationRoleUpdate } from '@/types'
+
+export class NotificationRoleRepository {
+  private supabase = supabaseAdmin
+
+  async listAll(): Promise<NotificationRole[]> {
+    const { data, error } = await this.supabase
+      .from('notification_roles')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list notification roles:', error)
+      throw new Error('Failed to list notification roles')
+    }
+
+    return data || []
+  }
+
+  async getByKey(key: string): Promise<NotificationRole | null> {
+    const { data, error } = await this.supabase
+      .from('notification_roles')
+      .select('*')
+      .eq('key', key)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to load notification role:', error)
+      throw new Error('Failed to load notification role')
+    }
+
+    return data
+  }
+
+  async create(role: NotificationRoleInsert): Promise<NotificationRole> {
+    const { data, error } = await this.supabase
+      .from('notification_roles')
+      .insert(role)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to create notification role:', error)
+      throw new Error('Failed to create notification role')
+    }
+
+    return data
+  }
+
+  async update(key: string, patch: Pick<NotificationRoleUpdate, 'label' | 'description' | 'is_active'>): Promise<NotificationRole> {
+    const { data, error } = await this.supabase
+      .from('notification_roles')
+      .update(patch)
+      .eq('key', key)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to update notification role:', error)
+      throw new Error('Failed to update notification role')
+    }
+
+    return data
+  }
+}
+
+/**
+ * Singleton notification role repository instance
+ */
+let globalNotificationRoleRepository: NotificationRoleRepository | null = null
+
+export const getNotificationRoleRepository = (): NotificationRoleRepository => {
+  if (!globalNotificationRoleRepository) {
+    globalNotificationRoleRepository = new NotificationRoleRepository()
+  }
+  return globalNotificationRoleRepository
+}
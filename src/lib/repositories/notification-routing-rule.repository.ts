@@ -0,0 +1,117 @@
+/**
+ * Notification Routing Rule Repository
+ * Read/write access to notification_routing_rules
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type {
+  NotificationRoutingRule,
+  NotificationRoutingRuleInsert,
+  NotificationRoutingRuleUpdate
+} from '@/types'
+
+export class NotificationRoutingRuleRepository {
+  private supabase = supabaseAdmin
+
+  async listAll(): Promise<NotificationRoutingRule[]> {
+    const { data, error } = await this.supabase
+      .from('notification_routing_rules')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list routing rules:', error)
+      throw new Error('Failed to list routing rules')
+    }
+
+    return data || []
+  }
+
+  async listActive(): Promise<NotificationRoutingRule[]> {
+    const { data, error } = await this.supabase
+      .from('notification_routing_rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list active routing rules:', error)
+      throw new Error('Failed to list active routing rules')
+    }
+
+    return data || []
+  }
+
+  async getById(id: string): Promise<NotificationRoutingRule | null> {
+    const { data, error } = await this.supabase
+      .from('notification_routing_rules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to load routing rule:', error)
+      throw new Error('Failed to load routing rule')
+    }
+
+    return data
+  }
+
+  async create(rule: NotificationRoutingRuleInsert): Promise<NotificationRoutingRule> {
+    const { data, error } = await this.supabase
+      .from('notification_routing_rules')
+      .insert(rule)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to create routing rule:', error)
+      throw new Error('Failed to create routing rule')
+    }
+
+    return data
+  }
+
+  async update(id: string, patch: NotificationRoutingRuleUpdate): Promise<NotificationRoutingRule> {
+    const { data, error } = await this.supabase
+      .from('notification_routing_rules')
+      .update(patch)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to update routing rule:', error)
+      throw new Error('Failed to update routing rule')
+    }
+
+    return data
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('notification_routing_rules')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      console.error('Failed to delete routing rule:', error)
+      throw new Error('Failed to delete routing rule')
+    }
+
+    return (data || []).length > 0
+  }
+}
+
+/**
+ * Singleton notification routing rule repository instance
+ */
+let globalNotificationRoutingRuleRepository: NotificationRoutingRuleRepository | null = null
+
+export const getNotificationRoutingRuleRepository = (): NotificationRoutingRuleRepository => {
+  if (!globalNotificationRoutingRuleRepository) {
+    globalNotificationRoutingRuleRepository = new NotificationRoutingRuleRepository()
+  }
+  return globalNotificationRoutingRuleRepository
+}
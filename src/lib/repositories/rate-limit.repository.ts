@@ -0,0 +1,62 @@
+/**
+ * Rate Limit Repository
+ * Token buckets in rate_limit_buckets, shared by every instance sending messages
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+
+export interface RateLimitTokenResult {
+  allowed: boolean
+  remaining: number
+  waitMs: number
+}
+
+export class RateLimitRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * Take a token from a bucket holding capacity tokens per window
+   */
+  async acquireToken(key: string, capacity: number, windowMs: number): Promise<RateLimitTokenResult> {
+    const { data, error } = await this.supabase.rpc('acquire_rate_limit_token', {
+      p_key: key,
+      p_capacity: capacity,
+      p_window_ms: windowMs
+    })
+
+    const row = data?.[0]
+    if (error || !row) {
+      console.error('Failed to acquire rate limit token:', error)
+      throw new Error('Failed to acquire rate limit token')
+    }
+
+    return { allowed: row.allowed, remaining: row.remaining, waitMs: row.wait_ms }
+  }
+
+  /**
+   * Refill a bucket (deletes it; the next token request recreates it full)
+   */
+  async resetBucket(key: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('rate_limit_buckets')
+      .delete()
+      .eq('key', key)
+
+    if (error) {
+      console.error('Failed to reset rate limit bucket:', error)
+      throw new Error('Failed to reset rate limit bucket')
+    }
+  }
+}
+
+/**
+ * Singleton rate limit repository instance
+ */
+let globalRateLimitRepository: RateLimitRepository | null = null
+
+export const getRateLimitRepository = (): RateLimitRepository => {
+  if (!globalRateLimitRepository) {
+    globalRateLimitRepository = new RateLimitRepository()
+  }
+  return globalRateLimitRepository
+}
@@ -0,0 +1,89 @@
+/**
+ * Sheets Sync Log Repository
+ * Read/write access to the sheets_sync_log table
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/server'
+import type { SheetsSyncLog, SheetsSyncLogInsert } from '@/types'
+
+export interface SheetsSyncRetryCandidate {
+  dealId: string
+  failedAttempts: number
+  lastError: string | null
+  lastAttemptAt: string
+}
+
+export class SheetsSyncLogRepository {
+  private supabase = supabaseAdmin
+
+  /**
+   * All sync attempts for a deal, oldest first
+   */
+  async listByDealId(dealId: string): Promise<SheetsSyncLog[]> {
+    const { data, error } = await this.supabase
+      .from('sheets_sync_log')
+      .select('*')
+      .eq('deal_id', dealId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to list sheets sync log:', error)
+      throw new Error('Failed to list sheets sync log')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Record the outcome of one sync attempt
+   */
+  async record(entry: SheetsSyncLogInsert): Promise<SheetsSyncLog> {
+    const { data, error } = await this.supabase
+      .from('sheets_sync_log')
+      .insert(entry)
+      .select()
+      .single()
+
+    if (error || !data) {
+      console.error('Failed to record sheets sync attempt:', error)
+      throw new Error('Failed to record sheets sync attempt')
+    }
+
+    return data
+  }
+
+  /**
+   * Deals whose latest attempt failed and that have failed fewer than maxAttempts times
+   * since they last synced, oldest failure first
+   */
+  async listRetryCandidates(maxAttempts: number, limit: number): Promise<SheetsSyncRetryCandidate[]> {
+    const { data, error } = await this.supabase.rpc('get_sheets_sync_retry_candidates', {
+      p_max_attempts: maxAttempts,
+      p_limit: limit
+    })
+
+    if (error) {
+      console.error('Failed to list sheets sync retry candidates:', error)
+      throw new Error('Failed to list sheets sync retry candidates')
+    }
+
+    return (data || []).map(row => ({
+      dealId: row.deal_id,
+      failedAttempts: row.failed_attempts,
+      lastError: row.last_error,
+      lastAttemptAt: row.last_attempt_at
+    }))
+  }
+}
+
+/**
+ * Singleton sheets sync log repository instance
+ */
+let globalSheetsSyncLogRepository: SheetsSyncLogRepository | null = null
+
+export const getSheetsSyncLogRepository = (): SheetsSyncLogRepository => {
+  if (!globalSheetsSyncLogRepository) {
+    globalSheetsSyncLogRepository = new SheetsSyncLogRepository()
+  }
+  return globalSheetsSyncLogRepository
+}
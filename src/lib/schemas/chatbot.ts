@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DealStatusSchema } from './deal-status';
 
 // Message Validation Schema
 export const messageSchema = z.object({
@@ -83,7 +84,7 @@ export const queryDealsSchema = z.object({
   date_range: z.string().optional(),
   customer: z.string().optional(),
   product: z.string().optional(),
-  status: z.string().optional(),
+  status: DealStatusSchema.optional(),
   min_value: z.number().optional(),
   profit_analysis: z.boolean().optional(),
   payment_status: z.string().optional(),
@@ -0,0 +1,8 @@
+import { z } from "zod"
+
+// POST /api/messaging/circuit-breakers/[platform]
+export const CircuitBreakerActionSchema = z.object({
+  action: z.enum(["force_open", "force_close"]),
+  performedBy: z.string().trim().min(1).max(100).optional(),
+  note: z.string().trim().max(500).optional(),
+})
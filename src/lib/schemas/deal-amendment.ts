@@ -0,0 +1,28 @@
+import { z } from "zod"
+import { DeliveryTermsSchema } from "./deal-registration"
+
+const performedBy = z.string().trim().min(1).max(100).optional()
+const notes = z.string().trim().max(1000).nullable().optional()
+
+// PATCH /api/deals/[id]
+export const DealAmendmentSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be formatted as YYYY-MM-DD").optional(),
+  quantitySold: z.number().positive("Quantity sold must be positive").optional(),
+  saleRate: z.number().positive("Sale rate must be positive").optional(),
+  deliveryTerms: DeliveryTermsSchema.optional(),
+  quantityPurchased: z.number().positive("Quantity purchased must be positive").optional(),
+  purchaseRate: z.number().positive("Purchase rate must be positive").optional(),
+  saleComments: notes,
+  purchaseComments: notes,
+  finalComments: notes,
+  performedBy,
+  note: z.string().trim().max(500).optional(),
+  notify: z.boolean().optional(),
+})
+
+// POST /api/deals/[id]/cancel
+export const DealCancelSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for cancelling the deal").max(500),
+  performedBy,
+  notify: z.boolean().optional(),
+})
@@ -0,0 +1,70 @@
+import { z } from "zod"
+import {
+  DEAL_LIST_MAX_PAGE_SIZE,
+  DEAL_LIST_PAGE_SIZE,
+  type DealListCursor,
+} from "@/types/deal-list"
+import { DealStatusSchema } from "./deal-status"
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be formatted as YYYY-MM-DD")
+
+// Query string schema for GET /api/deals
+export const DealListQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  saleParty: z.string().trim().min(1).optional(),
+  purchaseParty: z.string().trim().min(1).optional(),
+  product: z.string().trim().min(1).optional(),
+  grade: z.string().trim().min(1).optional(),
+  company: z.string().trim().min(1).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+  minRate: z.coerce.number().nonnegative().optional(),
+  maxRate: z.coerce.number().nonnegative().optional(),
+  status: DealStatusSchema.optional(),
+  sortBy: z.enum(["date", "saleParty", "purchaseParty", "product", "quantitySold", "saleRate", "createdAt"]).default("date"),
+  sortDirection: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(DEAL_LIST_MAX_PAGE_SIZE).default(DEAL_LIST_PAGE_SIZE),
+  cursor: z.string().min(1).optional(),
+}).refine(
+  (query) => !query.dateFrom || !query.dateTo || query.dateFrom <= query.dateTo,
+  { message: "dateFrom must be on or before dateTo", path: ["dateFrom"] }
+).refine(
+  (query) => query.minRate === undefined || query.maxRate === undefined || query.minRate <= query.maxRate,
+  { message: "minRate must not exceed maxRate", path: ["minRate"] }
+).refine(
+  (query) => !query.cursor || decodeDealListCursor(query.cursor) !== null,
+  { message: "Invalid cursor", path: ["cursor"] }
+)
+
+export type DealListQueryInput = z.input<typeof DealListQuerySchema>
+
+// Parse URLSearchParams, dropping empty values so "?product=" means "no filter"
+export const parseDealListQuery = (searchParams: URLSearchParams) => {
+  const raw: Record<string, string> = {}
+  searchParams.forEach((value, key) => {
+    if (value !== "") raw[key] = value
+  })
+  return DealListQuerySchema.safeParse(raw)
+}
+
+// Cursors are opaque base64url-encoded JSON
+export const encodeDealListCursor = (cursor: DealListCursor): string => {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+export const decodeDealListCursor = (cursor: string): DealListCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    if (
+      parsed &&
+      typeof parsed.id === "string" &&
+      /^[0-9a-f-]{36}$/i.test(parsed.id) &&
+      (parsed.value === null || typeof parsed.value === "string" || typeof parsed.value === "number")
+    ) {
+      return { value: parsed.value, id: parsed.id }
+    }
+    return null
+  } catch {
+    return null
+  }
+}
@@ -1,4 +1,7 @@
 import { z } from "zod"
+import { format } from "date-fns"
+import { DEFAULT_PURCHASE_CHARGES, DEFAULT_SALE_CHARGES } from "@/lib/costing/deal-costing"
+import { checkPurchaseLines, summarizePurchaseLines } from "@/lib/costing/purchase-lines"
 
 // Enum definitions for form options
 export const DeliveryTermsSchema = z.enum(["delivered", "ex-warehouse"], {
@@ -9,6 +12,38 @@ export const MaterialSourceSchema = z.enum(["new-material", "from-inventory"], {
   required_error: "Please select material source",
 })
 
+// Charge rates for one side of the deal (sale or purchase)
+export const DealChargeRatesSchema = z.object({
+  gstPercent: z.number().min(0, "GST cannot be negative").max(100, "GST cannot exceed 100%"),
+  tcsPercent: z.number().min(0, "TCS cannot be negative").max(100, "TCS cannot exceed 100%"),
+  freightPerKg: z.number().min(0, "Freight cannot be negative"),
+  loadingUnloadingPerKg: z.number().min(0, "Loading/unloading cannot be negative"),
+  commissionPercent: z.number().min(0, "Commission cannot be negative").max(100, "Commission cannot exceed 100%"),
+})
+
+// One supplier or stock line of a new-material sale; checked as a whole by checkPurchaseLines
+export const PurchaseLineSchema = z.object({
+  source: z.enum(["supplier", "stock"]),
+  purchaseParty: z.string(),
+  quantity: z.number().min(0, "Quantity cannot be negative"),
+  rate: z.number().min(0, "Rate cannot be negative"),
+})
+
+export const DealChargesSchema = z.object({
+  sale: DealChargeRatesSchema.partial().optional(),
+  purchase: DealChargeRatesSchema.partial().optional(),
+  taxesCreditable: z.boolean().optional(),
+})
+
+// Deal date as sent to POST /api/deals: the calendar day (YYYY-MM-DD), never a timestamp
+export const DealDateSchema = z.string().date("Date must be a calendar date (YYYY-MM-DD)")
+
+// Delivery terms and material source as sent to POST /api/deals; the deals_unified CHECKs reject anything else
+export const DealOptionsSchema = z.object({
+  deliveryTerms: DeliveryTermsSchema,
+  materialSource: MaterialSourceSchema,
+})
+
 // Main deal registration schema
 export const DealRegistrationSchema = z.object({
   // Basic Deal Information
@@ -35,29 +70,41 @@ export const DealRegistrationSchema = z.object({
   // Material Source
   materialSource: MaterialSourceSchema,
 
-  // Purchase Details
-  purchaseParty: z.string().optional(),
-  quantityPurchased: z.number().positive("Purchase quantity must be positive").optional(),
-  purchaseRate: z.number().positive("Purchase rate must be positive").optional(),
+  // Purchase Details: one line per supplier, plus at most one from stock
+  purchaseLines: z.array(PurchaseLineSchema),
+  // Warehouse ID (the form) or name (API clients)
   warehouseLocation: z.string().optional(),
 
   // Comments
   purchaseComments: z.string().optional(),
   finalComments: z.string().optional(),
+
+  // Landed cost charges
+  charges: DealChargesSchema.optional(),
 })
 
 // Refined schema with conditional validation
-export const RefinedDealRegistrationSchema = DealRegistrationSchema.refine(
+export const RefinedDealRegistrationSchema = DealRegistrationSchema.superRefine(
+  (data, ctx) => {
+    // New material needs purchase lines that cover the sale
+    if (data.materialSource !== "new-material") return;
+    checkPurchaseLines(data.purchaseLines, data.quantitySold).forEach(issue => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: ["purchaseLines", ...issue.path] })
+    })
+  }
+).refine(
   (data) => {
-    // If material source is "new-material", purchase details are required
-    if (data.materialSource === "new-material") {
-      return data.purchaseParty && data.quantityPurchased && data.purchaseRate;
+    // Material bought beyond the sale goes into stock, so it needs a warehouse
+    if (data.materialSource !== "new-material") return true;
+    const lines = summarizePurchaseLines(data.purchaseLines)
+    if (lines.stockQuantity === 0 && lines.totalQuantity > data.quantitySold) {
+      return !!data.warehouseLocation;
     }
     return true;
   },
   {
-    message: "Purchase details are required when material source is 'New Material'",
-    path: ["purchaseParty"], // This will show the error on purchaseParty field
+    message: "Select the warehouse the surplus goes to",
+    path: ["warehouseLocation"],
   }
 )
 
@@ -74,9 +121,7 @@ export const FieldSchemas = {
   saleComments: z.string(),
   productCode: z.string().min(1, "Required"),
   materialSource: MaterialSourceSchema,
-  purchaseParty: z.string(),
-  quantityPurchased: z.number().positive("Must be positive"),
-  purchaseRate: z.number().positive("Must be positive"),
+  purchaseLines: z.array(PurchaseLineSchema),
   warehouseLocation: z.string(),
   purchaseComments: z.string(),
   finalComments: z.string(),
@@ -89,12 +134,16 @@ export const defaultFormValues: Partial<DealRegistrationFormData> = {
   materialSource: "new-material",
   quantitySold: 0,
   saleRate: 0,
-  quantityPurchased: 0,
-  purchaseRate: 0,
+  purchaseLines: [{ source: "supplier", purchaseParty: "", quantity: 0, rate: 0 }],
   saleComments: "",
   purchaseComments: "",
   finalComments: "",
   warehouseLocation: "",
+  charges: {
+    sale: { ...DEFAULT_SALE_CHARGES },
+    purchase: { ...DEFAULT_PURCHASE_CHARGES },
+    taxesCreditable: true,
+  },
 }
 
 // Helper functions for form validation
@@ -112,20 +161,23 @@ export const validateField = (fieldName: keyof typeof FieldSchemas, value: any)
 
 // Transform form data to database format
 export const transformToDatabaseFormat = (formData: DealRegistrationFormData) => {
+  const purchase = summarizePurchaseLines(formData.purchaseLines)
+  const suppliers = formData.purchaseLines.filter(line => line.source === "supplier").map(line => line.purchaseParty)
+
   return {
-    Date: formData.date.toISOString().split('T')[0], // Format as YYYY-MM-DD
+    Date: format(formData.date, "yyyy-MM-dd"), // The picked day in local time
     "Sale Party": formData.saleParty,
     "Quantity Sold": formData.quantitySold,
     "Sale Rate": formData.saleRate,
-    "Purchase Party": formData.purchaseParty || null,
-    "Quantity Purchased": formData.quantityPurchased || null,
-    "Purchase Rate": formData.purchaseRate || null,
+    "Purchase Party": suppliers.join(", ") || null,
+    "Quantity Purchased": purchase.supplierQuantity || null,
+    "Purchase Rate": purchase.supplierRate || null,
     // These will be populated from product selection
     Product: "", // Will be set when product is selected
     Grade: "", // Will be set when product is selected
     Company: "", // Will be set when product is selected
     "Specific Grade": "", // Will be set when product is selected
-    // Generate SrNo - this should be handled by the service layer
+    // SrNo is allocated server-side by allocate_deal_srno() when the deal is saved
     SrNo: "", // Will be generated server-side
   }
 }
@@ -158,9 +210,7 @@ export const validateFormStep = (step: string, data: Partial<DealRegistrationFor
 
     case "purchase":
       return z.object({
-        purchaseParty: FieldSchemas.purchaseParty.optional(),
-        quantityPurchased: FieldSchemas.quantityPurchased.optional(),
-        purchaseRate: FieldSchemas.purchaseRate.optional(),
+        purchaseLines: FieldSchemas.purchaseLines.optional(),
         warehouseLocation: FieldSchemas.warehouseLocation.optional(),
       }).safeParse(data)
 
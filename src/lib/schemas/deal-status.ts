@@ -0,0 +1,12 @@
+import { z } from "zod"
+import { DEAL_STATUSES, type DealStatus } from "@/types/deal-status"
+
+export const DealStatusSchema = z.enum(DEAL_STATUSES as [DealStatus, ...DealStatus[]])
+
+// POST /api/deals/[id]/status
+export const DealStatusChangeSchema = z.object({
+  status: DealStatusSchema,
+  performedBy: z.string().trim().min(1).max(100).optional(),
+  note: z.string().trim().max(500).optional(),
+  notify: z.boolean().optional(),
+})
@@ -0,0 +1,31 @@
+import { z } from "zod"
+
+const BusinessDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+
+// POST /api/inventory/warehouses
+export const CreateWarehouseSchema = z.object({
+  name: z.string().trim().min(1, "Warehouse name is required").max(100),
+  location: z.string().trim().max(200).optional(),
+})
+
+// POST /api/inventory/lots
+export const ReceiveStockSchema = z.object({
+  productId: z.string().uuid("Select a product"),
+  warehouseId: z.string().uuid("Select a warehouse"),
+  quantity: z.number().positive("Quantity must be positive"),
+  costPerKg: z.number().min(0, "Cost cannot be negative"),
+  receivedAt: BusinessDate.optional(),
+  notes: z.string().trim().max(500).optional(),
+})
+
+// GET /api/inventory?productId=&warehouseId=
+export const StockLevelsQuerySchema = z.object({
+  productId: z.string().uuid().optional(),
+  warehouseId: z.string().uuid().optional(),
+})
+
+// GET /api/inventory/stock?productId=&warehouseId=
+export const StockAvailabilityQuerySchema = z.object({
+  productId: z.string().uuid(),
+  warehouseId: z.string().uuid().optional(),
+})
@@ -0,0 +1,34 @@
+import { z } from "zod"
+
+// WhatsApp and Telegram both cap a text message at 4096 characters; the template is
+// a little longer than its output, so leave room for the tags
+const MAX_TEMPLATE_LENGTH = 8000
+
+// PATCH /api/messaging/templates/[id]
+export const MessageTemplateUpdateSchema = z.object({
+  templateText: z.string().trim().min(1, "Template cannot be empty").max(MAX_TEMPLATE_LENGTH).optional(),
+  isActive: z.boolean().optional(),
+  // WhatsApp template names are lower-case with underscores; languages look like en or en_US
+  whatsappTemplateId: z.string().trim()
+    .regex(/^[a-z0-9_]+$/, "Use the template name as approved in WhatsApp Manager (a-z, 0-9, _)")
+    .max(512)
+    .nullable()
+    .optional(),
+  whatsappTemplateLanguage: z.string().trim().regex(/^[a-z]{2,3}(_[A-Z]{2})?$/, "Invalid language code").optional(),
+  whatsappTemplateParams: z.array(z.string().trim().min(1, "Parameter cannot be empty").max(200)).max(20).optional(),
+  updatedBy: z.string().trim().min(1).max(100).optional(),
+}).refine(
+  (update) => update.templateText !== undefined
+    || update.isActive !== undefined
+    || update.whatsappTemplateId !== undefined
+    || update.whatsappTemplateLanguage !== undefined
+    || update.whatsappTemplateParams !== undefined,
+  { message: "Nothing to update: provide templateText, isActive and/or the WhatsApp template fields" }
+)
+
+// POST /api/messaging/preview with template text from the editor
+export const TemplatePreviewSchema = z.object({
+  templateText: z.string().max(MAX_TEMPLATE_LENGTH),
+  materialSource: z.enum(["new-material", "from-inventory"]).optional(),
+  deliveryTerms: z.enum(["delivered", "ex-warehouse"]).optional(),
+})
@@ -0,0 +1,9 @@
+import { z } from "zod"
+
+// GET/POST /api/messaging/digest?period=daily&date=2024-10-21&dryRun=true (query parameters,
+// so a cron schedule can call it)
+export const DigestRunSchema = z.object({
+  period: z.enum(["daily", "weekly"]),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  dryRun: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+})
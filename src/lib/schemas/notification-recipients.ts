@@ -0,0 +1,54 @@
+import { z } from "zod"
+
+const updatedBy = z.string().trim().min(1).max(100).optional()
+
+// Same formats the outbox console accepts when editing a recipient
+const whatsappPhone = z.string().trim().regex(/^\+\d{10,15}$/, "Phone number must be + followed by 10-15 digits")
+const telegramChatId = z.string().trim().regex(/^(-?\d{5,20}|@[A-Za-z][A-Za-z0-9_]{4,31})$/, "Chat ID must be numeric or an @channelname of 5-32 characters")
+
+// Lower-case key used in outbox rows and template names (deal_registered_<key>)
+export const RoleKeySchema = z.string().trim()
+  .regex(/^[a-z][a-z0-9_]*$/, "Role key must start with a letter and use only a-z, 0-9 and _")
+  .max(20)
+
+const recipientFields = {
+  role: RoleKeySchema,
+  name: z.string().trim().min(1, "Name is required").max(100),
+  whatsappPhone: whatsappPhone.nullable().optional(),
+  telegramChatId: telegramChatId.nullable().optional(),
+  channels: z.array(z.enum(["whatsapp", "telegram"])).min(1, "Choose at least one channel").max(2),
+  deliveryMode: z.enum(["per_deal", "per_deal_and_digest", "digest_only"]).optional(),
+  isActive: z.boolean().optional(),
+  updatedBy,
+}
+
+// POST /api/messaging/recipients
+export const RecipientCreateSchema = z.object(recipientFields)
+
+// PATCH /api/messaging/recipients/[id]
+export const RecipientUpdateSchema = z.object(recipientFields).partial().refine(
+  (update) => Object.entries(update).some(([key, value]) => key !== "updatedBy" && value !== undefined),
+  { message: "Nothing to update" }
+)
+
+// POST /api/messaging/recipients/import
+export const RecipientImportSchema = z.object({
+  updatedBy,
+})
+
+// POST /api/messaging/roles
+export const RoleCreateSchema = z.object({
+  key: RoleKeySchema,
+  label: z.string().trim().min(1, "Label is required").max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+})
+
+// PATCH /api/messaging/roles/[key]
+export const RoleUpdateSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  isActive: z.boolean().optional(),
+}).refine(
+  (update) => update.label !== undefined || update.description !== undefined || update.isActive !== undefined,
+  { message: "Nothing to update: provide label, description and/or isActive" }
+)
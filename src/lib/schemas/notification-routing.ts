@@ -0,0 +1,78 @@
+import { z } from "zod"
+import { ROUTING_FIELD_NAMES, ROUTING_OPERATOR_NAMES } from "@/types/notification-routing"
+import { getBusinessDate } from "@/lib/services/messaging/digest"
+import { DealDateSchema } from "./deal-registration"
+
+const updatedBy = z.string().trim().min(1).max(100).optional()
+
+const NUMERIC_OPERATORS = ["gt", "gte", "lt", "lte"]
+const LIST_OPERATORS = ["in", "not_in"]
+
+// One condition; the value's shape must suit the operator
+export const RoutingConditionSchema = z.object({
+  field: z.enum(ROUTING_FIELD_NAMES),
+  operator: z.enum(ROUTING_OPERATOR_NAMES),
+  value: z.union([
+    z.number(),
+    z.string().trim().min(1).max(200),
+    z.array(z.string().trim().min(1).max(200)).min(1).max(50),
+  ]),
+}).superRefine((condition, ctx) => {
+  if (NUMERIC_OPERATORS.includes(condition.operator) && typeof condition.value !== "number") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `${condition.operator} needs a number` })
+  }
+  if (LIST_OPERATORS.includes(condition.operator) && !Array.isArray(condition.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `${condition.operator} needs a list of values` })
+  }
+  if (!LIST_OPERATORS.includes(condition.operator) && Array.isArray(condition.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `${condition.operator} needs a single value` })
+  }
+})
+
+export const RoutingConditionsSchema = z.array(RoutingConditionSchema).max(20)
+
+const ruleFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  role: z.string().trim().min(1).max(20).nullable().optional(),
+  recipientId: z.string().uuid("recipientId must be a UUID").nullable().optional(),
+  conditions: RoutingConditionsSchema,
+  isActive: z.boolean().optional(),
+  updatedBy,
+}
+
+// POST /api/messaging/routing-rules
+export const RoutingRuleCreateSchema = z.object(ruleFields).refine(
+  (rule) => !!rule.role !== !!rule.recipientId,
+  { message: "A rule applies to either a role or a recipient", path: ["role"] }
+)
+
+// PATCH /api/messaging/routing-rules/[id]
+export const RoutingRuleUpdateSchema = z.object(ruleFields).partial().refine(
+  (update) => Object.entries(update).some(([key, value]) => key !== "updatedBy" && value !== undefined),
+  { message: "Nothing to update" }
+)
+
+// The deal a dry run routes; fields that routing doesn't use are optional
+export const RoutingDryRunSchema = z.object({
+  dealData: z.object({
+    id: z.string().min(1).default("DRY-RUN"),
+    srNo: z.string().optional(),
+    date: DealDateSchema.default(() => getBusinessDate()),
+    saleParty: z.string().default(""),
+    quantitySold: z.number().nonnegative(),
+    saleRate: z.number().nonnegative(),
+    deliveryTerms: z.enum(["delivered", "ex-warehouse"]),
+    productCode: z.string().default(""),
+    product: z.string().optional(),
+    grade: z.string().optional(),
+    company: z.string().optional(),
+    specificGrade: z.string().optional(),
+    materialSource: z.enum(["new-material", "from-inventory"]),
+    purchaseParty: z.string().optional(),
+    quantityPurchased: z.number().nonnegative().optional(),
+    purchaseRate: z.number().nonnegative().optional(),
+    warehouseLocation: z.string().optional(),
+    inventoryCostPerKg: z.number().nonnegative().optional(),
+  }),
+})
@@ -0,0 +1,41 @@
+import { z } from "zod"
+import { OUTBOX_CONSOLE_MAX_PAGE_SIZE, OUTBOX_CONSOLE_PAGE_SIZE } from "@/types/outbox-console"
+
+const performedBy = z.string().trim().min(1).max(100).optional()
+const note = z.string().trim().max(500).optional()
+
+// Query string schema for GET /api/messaging/outbox
+export const OutboxConsoleQuerySchema = z.object({
+  role: z.string().trim().min(1).optional(),
+  errorType: z.string().trim().min(1).optional(),
+  dealId: z.string().uuid("dealId must be a UUID").optional(),
+  urgency: z.enum(["DEAD_LETTER", "RETRY_NOW", "STUCK", "TIMEOUT", "NORMAL"]).optional(),
+  status: z.enum(["pending", "sending", "sent", "delivered", "read", "failed", "dead_letter"]).optional(),
+  limit: z.coerce.number().int().min(1).max(OUTBOX_CONSOLE_MAX_PAGE_SIZE).default(OUTBOX_CONSOLE_PAGE_SIZE),
+})
+
+// Parse URLSearchParams, dropping empty values so "?role=" means "no filter"
+export const parseOutboxConsoleQuery = (searchParams: URLSearchParams) => {
+  const raw: Record<string, string> = {}
+  searchParams.forEach((value, key) => {
+    if (value !== "") raw[key] = value
+  })
+  return OutboxConsoleQuerySchema.safeParse(raw)
+}
+
+// POST /api/messaging/outbox/actions
+export const OutboxBulkActionSchema = z.object({
+  action: z.enum(["retry", "dead_letter"]),
+  ids: z.array(z.string().uuid()).min(1, "Select at least one message").max(OUTBOX_CONSOLE_MAX_PAGE_SIZE),
+  performedBy,
+  note,
+})
+
+// POST /api/messaging/outbox/[id]/resend
+export const OutboxResendSchema = z.object({
+  // Phone number (WhatsApp) or chat ID (Telegram); checked against the message's platform by the service
+  recipientPhone: z.string().trim().min(1).max(32).optional(),
+  messageText: z.string().trim().min(1, "Message cannot be empty").max(4096, "Messages are limited to 4096 characters").optional(),
+  performedBy,
+  note,
+})
@@ -0,0 +1,18 @@
+import { z } from "zod"
+
+const BusinessDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+
+// POST /api/sheets/replay: { dealId } or { dateFrom, dateTo }
+export const SheetsReplaySchema = z
+  .object({
+    dealId: z.string().uuid().optional(),
+    dateFrom: BusinessDate.optional(),
+    dateTo: BusinessDate.optional(),
+  })
+  .refine(body => body.dealId || (body.dateFrom && body.dateTo), {
+    message: "Provide a dealId, or both dateFrom and dateTo",
+  })
+  .refine(body => !body.dateFrom || !body.dateTo || body.dateFrom <= body.dateTo, {
+    message: "dateFrom must not be after dateTo",
+    path: ["dateTo"],
+  })
@@ -10,6 +10,7 @@ import type {
   AnalyzeFinancialsParams,
   GetMarketInsightsParams
 } from '@/types/chatbot';
+import { DEAL_STATUSES } from '@/types/deal-status';
 
 const POLYMER_TRADING_AGENT_INSTRUCTIONS = `
 You are a Polymer Trading Intelligence Assistant with access to all company data.
@@ -134,7 +135,7 @@ export class ChatbotService {
               date_range: { type: 'string', description: 'Date range for deals' },
               customer: { type: 'string', description: 'Filter by customer' },
               product: { type: 'string', description: 'Filter by product' },
-              status: { type: 'string', description: 'Filter by deal status' },
+              status: { type: 'string', enum: DEAL_STATUSES, description: 'Filter by deal lifecycle status' },
               min_value: { type: 'number', description: 'Minimum deal value' },
               profit_analysis: { type: 'boolean', description: 'Include profit analysis' },
               payment_status: { type: 'string', description: 'Filter by payment status' },
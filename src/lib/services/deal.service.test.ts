@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Customer, Deal, DealInsert, Product, Supplier } from '@/types'
+import type { StockAvailability } from '@/types/inventory'
+import { DealReferences, DealRepository, DealStockCostChangedError } from '@/lib/repositories/deal.repository'
+import type { DealStockMovement } from '@/lib/repositories/inventory.repository'
+import type { NewOutboxMessage } from '@/lib/repositories/message-outbox.repository'
+import type { MessageTemplateService } from '@/lib/services/messaging/message-template.service'
+import type { NotificationRouter } from '@/lib/services/messaging/notification-router'
+import type { DealData } from '@/lib/services/messaging/whatsapp.types'
+import type { InventoryService } from './inventory.service'
+import { CreateDealRequest, DealService } from './deal.service'
+
+const references: DealReferences = {
+  customer: { id: 'customer-1', Name: 'Acme Plastics' } as Customer,
+  suppliers: [{ id: 'supplier-1', Name: 'Reliance' } as Supplier],
+  product: { id: 'product-1', Product: 'PP', Grade: 'H110MA', Company: 'Group Polymers', 'Specific Grade': 'Homopolymer' } as Product,
+  warehouse: null
+}
+
+const createRequest = (overrides: Partial<CreateDealRequest> = {}): CreateDealRequest => ({
+  date: '2024-10-10',
+  saleParty: 'customer-1',
+  quantitySold: 1000,
+  saleRate: 100,
+  deliveryTerms: 'delivered',
+  saleComments: '',
+  productCode: 'product-1',
+  materialSource: 'new-material',
+  purchaseLines: [{ source: 'supplier', purchaseParty: 'supplier-1', quantity: 1000, rate: 90 }],
+  warehouseLocation: '',
+  purchaseComments: '',
+  finalComments: '',
+  ...overrides
+})
+
+const fromInventory = createRequest({ materialSource: 'from-inventory', quantitySold: 50, purchaseLines: [] })
+
+const lot = (quantityAvailable: number, costPerKg: number) => ({ quantityAvailable, costPerKg })
+
+interface ServiceOptions {
+  // The lots each read of the stock finds, the last one repeated
+  lotReads?: ReturnType<typeof lot>[][]
+  // What the stock costs when each save takes it; a deal priced at anything else is refused
+  stockCosts?: number[]
+}
+
+/**
+ * A deal service over a repository that resolves every reference and saves the row as given,
+ * recording the date each deal number was allocated for, each save attempt and the boss's messages
+ */
+const createService = ({ lotReads = [[]], stockCosts = [] }: ServiceOptions = {}) => {
+  const srNoDates: string[] = []
+  const saved: { deal: DealInsert; messages: NewOutboxMessage[]; stock: DealStockMovement | null }[] = []
+
+  const dealRepository = {
+    resolveReferences: async () => references,
+    allocateSrNo: async (dealDate: string) => {
+      srNoDates.push(dealDate)
+      return String(srNoDates.length)
+    },
+    createDealWithNotifications: async (deal: DealInsert, messages: NewOutboxMessage[], stock: DealStockMovement | null) => {
+      const stockCost = stockCosts[Math.min(saved.length, stockCosts.length - 1)]
+      saved.push({ deal, messages, stock })
+      if (stock && 'consume' in stock && stock.consume.cost_per_kg !== stockCost) {
+        throw new DealStockCostChangedError(`The stock now costs ${stockCost} per kg`)
+      }
+      return { ...deal, created_at: '2024-10-10T04:30:00Z' } as Deal
+    }
+  } as unknown as DealRepository
+
+  let reads = 0
+  const inventoryService = {
+    getAvailability: async (): Promise<Partial<StockAvailability>> => {
+      const lots = lotReads[Math.min(reads++, lotReads.length - 1)]
+      return {
+        quantityAvailable: lots.reduce((sum, { quantityAvailable }) => sum + quantityAvailable, 0),
+        lots: lots as StockAvailability['lots'],
+        costMethod: 'fifo'
+      }
+    }
+  } as unknown as InventoryService
+
+  const notificationRouter = {
+    resolveTargets: async () => [{ role: 'boss1', platform: 'whatsapp', recipient: '+919800000001' }]
+  } as unknown as NotificationRouter
+
+  const messageTemplateService = {
+    renderMessage: async (_role: string, deal: DealData) => `Stock cost ₹${deal.inventoryCostPerKg}/kg`,
+    renderWhatsAppTemplate: async () => null
+  } as unknown as MessageTemplateService
+
+  const service = new DealService(
+    dealRepository,
+    undefined,
+    undefined,
+    messageTemplateService,
+    notificationRouter,
+    inventoryService
+  )
+
+  return { service, srNoDates, saved }
+}
+
+describe('DealService.createDeal', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('keeps a deal dated the first of the month on that day', async () => {
+    const { service, srNoDates, saved } = createService()
+
+    const result = await service.createDeal(createRequest({ date: '2025-04-01' }))
+
+    expect(result.success).toBe(true)
+    expect(saved[0].deal.Date).toBe('2025-04-01')
+    expect(result.deal.date).toBe('2025-04-01')
+    // 1 April opens a financial year, so the deal is numbered in that year's sequence
+    expect(srNoDates).toEqual(['2025-04-01'])
+  })
+
+  it('prices a deal and its messages again when its stock costs more by the time it is saved', async () => {
+    vi.stubEnv('FEATURE_WHATSAPP_MESSAGING', 'true')
+    // Another sale takes the ₹80 lot between the first read and the save
+    const { service, srNoDates, saved } = createService({
+      lotReads: [[lot(100, 80), lot(100, 100)], [lot(100, 100)]],
+      stockCosts: [100]
+    })
+
+    const result = await service.createDeal(fromInventory)
+
+    expect(result.success).toBe(true)
+    expect(saved.map(attempt => attempt.deal.inventory_cost_per_kg)).toEqual([80, 100])
+    expect(saved[1].stock).toMatchObject({ consume: { quantity: 50, cost_method: 'fifo', cost_per_kg: 100 } })
+    expect(saved[1].messages.map(message => message.message_text)).toEqual(['Stock cost ₹100/kg'])
+    expect(result.deal.inventoryCostPerKg).toBe(100)
+    // Both attempts are the same deal
+    expect(saved[1].deal.id).toBe(saved[0].deal.id)
+    expect(srNoDates).toHaveLength(1)
+  })
+
+  it('gives up on a deal whose stock keeps changing cost', async () => {
+    const { service, saved } = createService({ lotReads: [[lot(100, 80)]], stockCosts: [90] })
+
+    const result = await service.createDeal(fromInventory)
+
+    expect(result.success).toBe(false)
+    expect(result.validationErrors).toEqual(['The stock now costs 90 per kg'])
+    expect(saved).toHaveLength(3)
+  })
+})
@@ -3,12 +3,55 @@
  * Handles deal creation with integrated WhatsApp notifications
  */
 
-import { DealFormState } from '@/types/deal-form'
-import { DealData } from '@/lib/services/messaging/whatsapp.types'
-import { getGlobalWhatsAppService } from '@/lib/services/messaging/whatsapp.service'
-import { isWhatsAppEnabled } from '@/lib/services/messaging/whatsapp.config'
+import { randomUUID } from 'crypto'
+import { DealFormState, WhatsAppResult } from '@/types/deal-form'
+import type { Deal, DealAmendment, DealInsert, DealStatusTransition, DealUpdate, MessageOutbox, Product, SheetsSyncLog, Warehouse } from '@/types'
+import type {
+  AmendableDealField,
+  DealAmendmentRequest,
+  DealAmendmentResult,
+  DealCancelRequest,
+  DealFieldChange
+} from '@/types/deal-amendment'
+import {
+  DEAL_STATUS_LABELS,
+  DEAL_STATUS_TRANSITIONS,
+  DealStatus,
+  DealStatusChangeRequest,
+  DealStatusChangeResult,
+  isDealStatus
+} from '@/types/deal-status'
+import { BuiltInRecipientRole, DealData, DealPurchaseLine, isBuiltInRecipientRole } from '@/lib/services/messaging/whatsapp.types'
+import { calculateDealCosting, resolveDealCharges, DealChargesInput, DealCosting } from '@/lib/costing/deal-costing'
+import { calculateIssueCost, InventoryCostMethod } from '@/lib/costing/inventory-costing'
+import { checkPurchaseLines, summarizePurchaseLines } from '@/lib/costing/purchase-lines'
+import {
+  DealAmendmentConflictError,
+  DealReferences,
+  DealRepository,
+  DealStatusConflictError,
+  DealStockCostChangedError,
+  getDealRepository
+} from '@/lib/repositories/deal.repository'
+import { DealStockAdjustment, DealStockMovement, InsufficientStockError } from '@/lib/repositories/inventory.repository'
+import { MessageOutboxRepository, NewOutboxMessage, getMessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import { SheetsSyncLogRepository, getSheetsSyncLogRepository } from '@/lib/repositories/sheets-sync-log.repository'
+import { InventoryService, getInventoryCostMethod, getInventoryService } from '@/lib/services/inventory.service'
+import { getBusinessDate } from '@/lib/services/messaging/digest'
+import { MessageTemplateService, getMessageTemplateService } from '@/lib/services/messaging/message-template.service'
+import { renderDealAmendmentMessage, renderDealStatusMessage } from '@/lib/services/messaging/message-templates'
+import { isAnyChannelEnabled } from '@/lib/services/messaging/notification-channel'
+import { NotificationRouter, getNotificationRouter } from '@/lib/services/messaging/notification-router'
+import { createRetryPolicy } from '@/lib/services/messaging/retry-policy'
 
-export interface CreateDealRequest extends DealFormState {
+/**
+ * Whether SrNo restarts every financial year (FY25-26/0001) instead of continuing the historical series
+ */
+export const isFinancialYearSrNoEnabled = () => process.env.DEAL_SRNO_RESET_PER_FINANCIAL_YEAR === 'true'
+
+export interface CreateDealRequest extends Omit<DealFormState, 'date'> {
+  // Calendar date (YYYY-MM-DD), stored as sent
+  date: string
   // Additional fields that might be needed
   id?: string
 }
@@ -17,90 +60,329 @@ export interface CreateDealResult {
   success: boolean
   dealId: string
   deal: DealData
-  whatsappResults?: {
-    enabled: boolean
-    success: boolean
-    successCount: number
-    failureCount: number
-    errors: Array<{
-      recipient: string
-      role: string
-      error: string
-    }>
-  }
+  record?: Deal
+  whatsappResults?: WhatsAppResult
+  error?: string
+  validationErrors?: string[]
+}
+
+export interface DealDetail {
+  record: Deal
+  metrics: DealCosting
+  notifications: MessageOutbox[]
+  sheetsSync: SheetsSyncLog[]
+  statusHistory: DealStatusTransition[]
+  amendments: DealAmendment[]
+}
+
+export interface AmendDealResult {
+  success: boolean
+  amendment?: DealAmendmentResult
+  error?: string
+  validationErrors?: string[]
+  notFound?: boolean
+}
+
+export interface ChangeDealStatusResult {
+  success: boolean
+  change?: DealStatusChangeResult
   error?: string
+  validationErrors?: string[]
+  notFound?: boolean
+}
+
+// Times a deal is priced from stock whose cost keeps changing before it is refused
+const MAX_STOCK_PRICING_ATTEMPTS = 3
+
+// Roles told when a deal reaches a status: the ones that act on it next
+const STATUS_NOTIFIED_ROLES: Partial<Record<DealStatus, string[]>> = {
+  confirmed: ['logistics'],
+  dispatched: ['accounts'],
+  delivered: ['accounts'],
+  invoiced: ['boss1'],
+  paid: ['boss1', 'bossog'],
+  cancelled: ['accounts', 'logistics', 'boss1']
+}
+
+// deals_unified column behind each amendable field
+const AMENDABLE_FIELD_COLUMNS = {
+  date: 'Date',
+  quantitySold: 'Quantity Sold',
+  saleRate: 'Sale Rate',
+  deliveryTerms: 'delivery_terms',
+  quantityPurchased: 'Quantity Purchased',
+  purchaseRate: 'Purchase Rate',
+  saleComments: 'sale_comments',
+  purchaseComments: 'purchase_comments',
+  finalComments: 'final_comments'
+} as const satisfies Record<AmendableDealField, keyof Deal>
+
+// Roles whose registration message shows each field, and so are told when it changes
+const AMENDMENT_NOTIFIED_ROLES: Record<AmendableDealField, BuiltInRecipientRole[]> = {
+  date: ['accounts', 'logistics', 'boss1', 'bossog'],
+  quantitySold: ['accounts', 'logistics', 'boss1', 'bossog'],
+  saleRate: ['accounts', 'boss1', 'bossog'],
+  deliveryTerms: ['accounts', 'logistics', 'boss1'],
+  quantityPurchased: ['accounts', 'logistics'],
+  purchaseRate: ['accounts', 'boss1', 'bossog'],
+  saleComments: ['accounts'],
+  purchaseComments: ['accounts'],
+  finalComments: ['logistics']
+}
+
+// Fields shown by the generic template that configured roles receive
+const GENERIC_TEMPLATE_FIELDS: AmendableDealField[] = ['date', 'quantitySold', 'saleRate', 'deliveryTerms']
+
+type DealMetricsInput = Pick<
+  DealData,
+  | 'quantitySold' | 'saleRate' | 'materialSource' | 'quantityPurchased' | 'purchaseRate' | 'purchaseLines'
+  | 'inventoryCostPerKg' | 'charges'
+>
+
+interface InventoryCost {
+  costPerKg: number
+  method: InventoryCostMethod
+}
+
+interface StockPlan {
+  stock: DealStockMovement | null
+  // Cost of the stock the deal takes (a from-inventory sale or a stock purchase line)
+  inventoryCost: InventoryCost | null
+  errors: string[]
 }
 
 export class DealService {
+  private readonly dealRepository: DealRepository
+  private readonly messageOutboxRepository: MessageOutboxRepository
+  private readonly sheetsSyncLogRepository: SheetsSyncLogRepository
+  private readonly messageTemplateService: MessageTemplateService
+  private readonly notificationRouter: NotificationRouter
+  private readonly inventoryService: InventoryService
+
+  constructor(
+    dealRepository?: DealRepository,
+    messageOutboxRepository?: MessageOutboxRepository,
+    sheetsSyncLogRepository?: SheetsSyncLogRepository,
+    messageTemplateService?: MessageTemplateService,
+    notificationRouter?: NotificationRouter,
+    inventoryService?: InventoryService
+  ) {
+    this.dealRepository = dealRepository || getDealRepository()
+    this.messageOutboxRepository = messageOutboxRepository || getMessageOutboxRepository()
+    this.sheetsSyncLogRepository = sheetsSyncLogRepository || getSheetsSyncLogRepository()
+    this.messageTemplateService = messageTemplateService || getMessageTemplateService()
+    this.notificationRouter = notificationRouter || getNotificationRouter()
+    this.inventoryService = inventoryService || getInventoryService()
+  }
+
+  /**
+   * Load a deal with its cost breakdown, notification history and sheet sync log
+   */
+  async getDealDetail(dealId: string): Promise<DealDetail | null> {
+    const record = await this.dealRepository.getDealById(dealId)
+    if (!record) {
+      return null
+    }
+
+    const [notifications, sheetsSync, statusHistory, amendments] = await Promise.all([
+      this.messageOutboxRepository.listByDealId(dealId),
+      this.sheetsSyncLogRepository.listByDealId(dealId),
+      this.dealRepository.listStatusTransitions(dealId),
+      this.dealRepository.listAmendments(dealId)
+    ])
+
+    return {
+      record,
+      metrics: this.calculateDealMetrics(this.convertRecordToDealData(record)),
+      notifications,
+      sheetsSync,
+      statusHistory,
+      amendments
+    }
+  }
+
+  /**
+   * Move a deal to its next status, recording who moved it and queuing a status message for
+   * the roles that act on the new status. Only the moves in DEAL_STATUS_TRANSITIONS are
+   * allowed, and cancelling needs a reason.
+   */
+  async transitionDealStatus(dealId: string, request: DealStatusChangeRequest): Promise<ChangeDealStatusResult> {
+    const record = await this.dealRepository.getDealById(dealId)
+    if (!record) {
+      return { success: false, notFound: true, error: `Deal ${dealId} not found` }
+    }
+
+    const previousStatus: DealStatus = isDealStatus(record.status) ? record.status : 'registered'
+    const allowed = DEAL_STATUS_TRANSITIONS[previousStatus]
+    if (!allowed.includes(request.status)) {
+      const next = allowed.length > 0
+        ? `it can move to ${allowed.map(status => DEAL_STATUS_LABELS[status]).join(' or ')}`
+        : 'it cannot change status any more'
+      return {
+        success: false,
+        error: `Cannot move a deal from ${DEAL_STATUS_LABELS[previousStatus]} to ${DEAL_STATUS_LABELS[request.status]}; ${next}`
+      }
+    }
+
+    if (request.status === 'cancelled' && !request.note) {
+      return { success: false, error: 'Validation failed', validationErrors: ['note: Give a reason for cancelling the deal'] }
+    }
+
+    const performedBy = request.performedBy || 'operator'
+    const dealData: DealData = { ...this.convertRecordToDealData(record), status: request.status }
+    const messages = request.notify !== false && isAnyChannelEnabled()
+      ? await this.buildStatusMessages(dealData, previousStatus, performedBy, request.note)
+      : []
+
+    try {
+      const deal = await this.dealRepository.transitionStatus(
+        dealId,
+        previousStatus,
+        request.status,
+        performedBy,
+        request.note || null,
+        messages
+      )
+
+      return { success: true, change: { deal, previousStatus, queuedNotifications: messages.length } }
+    } catch (error) {
+      // Someone else moved the deal since it was read
+      if (error instanceof DealStatusConflictError) {
+        return { success: false, error: `Deal ${dealId} changed status meanwhile; reload it and try again` }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Convert a deals_unified row (registered or imported) to DealData format
+   */
+  convertRecordToDealData(record: Deal): DealData {
+    // Imported deals have no material_source; a purchase party means it was bought in
+    const materialSource = (record.material_source as DealData['materialSource'] | null)
+      ?? (record['Purchase Party'] ? 'new-material' : 'from-inventory')
+
+    return {
+      id: record.id,
+      srNo: record.SrNo ?? undefined,
+      date: record.Date ?? getBusinessDate(record.created_at ? new Date(record.created_at) : undefined),
+      saleParty: record['Sale Party'] ?? '',
+      quantitySold: record['Quantity Sold'] ?? 0,
+      saleRate: record['Sale Rate'] ?? 0,
+      deliveryTerms: (record.delivery_terms as DealData['deliveryTerms'] | null) ?? 'delivered',
+      saleComments: record.sale_comments ?? undefined,
+      productCode: record.Product ?? '',
+      product: record.Product ?? undefined,
+      grade: record.Grade ?? undefined,
+      company: record.Company ?? undefined,
+      specificGrade: record['Specific Grade'] ?? undefined,
+      materialSource,
+      purchaseParty: record['Purchase Party'] ?? undefined,
+      quantityPurchased: record['Quantity Purchased'] ?? undefined,
+      purchaseRate: record['Purchase Rate'] ?? undefined,
+      purchaseLines: (record.purchase_lines as DealPurchaseLine[] | null) ?? undefined,
+      warehouseLocation: record.warehouse_location ?? undefined,
+      inventoryCostPerKg: record.inventory_cost_per_kg ?? undefined,
+      inventoryCostMethod: (record.inventory_cost_method as InventoryCostMethod | null) ?? undefined,
+      purchaseComments: record.purchase_comments ?? undefined,
+      finalComments: record.final_comments ?? undefined,
+      charges: (record.charges as DealChargesInput | null) ?? undefined,
+      status: isDealStatus(record.status) ? record.status : undefined
+    }
+  }
+
   /**
    * Create a new deal with integrated WhatsApp notifications
+   * A from-inventory deal (or a stock purchase line) takes its quantity out of stock, and a
+   * new-material deal that buys more than it sells puts the surplus into stock, in the same
+   * transaction as the deal
    */
   async createDeal(dealRequest: CreateDealRequest): Promise<CreateDealResult> {
     try {
-      // Generate deal ID
-      const dealId = `DEAL-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`
+      // Resolve the customer/suppliers/product/warehouse the form refers to
+      const references = await this.dealRepository.resolveReferences({
+        saleParty: dealRequest.saleParty,
+        purchaseParties: getSupplierLines(dealRequest).map(line => line.purchaseParty),
+        productCode: dealRequest.productCode,
+        warehouse: dealRequest.warehouseLocation || undefined
+      })
+
+      const referenceErrors = this.validateReferences(dealRequest, references)
+      if (referenceErrors.length > 0) {
+        return validationFailure(referenceErrors)
+      }
+
+      // The ID is generated up front so messages can reference it
+      const dealId = randomUUID()
+      let srNo: string | null = null
+
+      // A deal that takes stock is priced, and its messages rendered, from the lots as read
+      // here; if another deal changes them first, nothing is saved and the deal is priced again
+      for (let attempt = 1; ; attempt++) {
+        const stockPlan = await this.planStockMovement(dealRequest, references)
+        if (stockPlan.errors.length > 0) {
+          return validationFailure(stockPlan.errors)
+        }
 
-      // Convert form data to DealData format
-      const dealData: DealData = this.convertFormDataToDealData(dealRequest, dealId)
+        const purchaseLines = this.resolvePurchaseLines(dealRequest, references, stockPlan.inventoryCost)
+        const dealInsert = this.convertFormDataToDealInsert(dealRequest, references, purchaseLines)
+        dealInsert.id = dealId
 
-      // TODO: Save deal to database
-      // In a real implementation, you would save to Supabase here
-      console.log('Saving deal to database:', dealData)
+        // Allocate the human-facing deal number once; pricing the deal again keeps it
+        if (srNo === null) {
+          srNo = await this.dealRepository.allocateSrNo(dealInsert.Date!, isFinancialYearSrNoEnabled())
+        }
+        dealInsert.SrNo = srNo
+
+        // Convert form data to DealData format
+        const dealData: DealData = this.convertFormDataToDealData(dealRequest, dealId, references, purchaseLines)
+        dealData.srNo = srNo
 
-      // Send WhatsApp notifications if enabled
-      let whatsappResults = undefined
+        if (stockPlan.inventoryCost) {
+          dealInsert.inventory_cost_per_kg = stockPlan.inventoryCost.costPerKg
+          dealInsert.inventory_cost_method = stockPlan.inventoryCost.method
+          dealData.inventoryCostPerKg = stockPlan.inventoryCost.costPerKg
+          dealData.inventoryCostMethod = stockPlan.inventoryCost.method
+        }
 
-      if (isWhatsAppEnabled()) {
+        // Save the deal and queue its notifications in one transaction;
+        // the outbox dispatcher sends them outside the request
+        const notificationsEnabled = isAnyChannelEnabled()
+        const messages = notificationsEnabled ? await this.buildOutboxMessages(dealData) : []
+        let record: Deal
         try {
-          const whatsAppService = getGlobalWhatsAppService()
-          const results = await whatsAppService.sendDealNotifications(dealData)
-
-          whatsappResults = {
-            enabled: true,
-            success: results.successCount > 0,
-            successCount: results.successCount,
-            failureCount: results.failureCount,
-            errors: results.errors.map(error => ({
-              recipient: error.recipient || 'unknown',
-              role: 'unknown', // Would need to extract from error
-              error: error.message
-            }))
+          record = await this.dealRepository.createDealWithNotifications(dealInsert, messages, stockPlan.stock)
+        } catch (error) {
+          if (error instanceof DealStockCostChangedError && attempt < MAX_STOCK_PRICING_ATTEMPTS) {
+            continue
           }
+          throw error
+        }
 
-          console.log('WhatsApp notifications sent:', whatsappResults)
-        } catch (whatsappError) {
-          console.error('WhatsApp notification failed:', whatsappError)
-
-          whatsappResults = {
-            enabled: true,
-            success: false,
-            successCount: 0,
-            failureCount: 4, // Assuming 4 recipients
-            errors: [{
-              recipient: 'all',
-              role: 'all',
-              error: whatsappError instanceof Error ? whatsappError.message : 'Unknown WhatsApp error'
-            }]
+        return {
+          success: true,
+          dealId: record.id,
+          deal: dealData,
+          record,
+          whatsappResults: {
+            enabled: notificationsEnabled,
+            queuedCount: messages.length,
+            roles: messages.map(message => message.recipient_role),
+            channels: messages.reduce<Record<string, number>>((counts, message) => {
+              const platform = message.platform ?? 'whatsapp'
+              counts[platform] = (counts[platform] ?? 0) + 1
+              return counts
+            }, {})
           }
         }
-      } else {
-        whatsappResults = {
-          enabled: false,
-          success: false,
-          successCount: 0,
-          failureCount: 0,
-          errors: []
-        }
       }
 
-      return {
-        success: true,
-        dealId,
-        deal: dealData,
-        whatsappResults
+    } catch (error) {
+      // Another deal took the stock, or kept changing its cost, between the availability check and the save
+      if (error instanceof InsufficientStockError || error instanceof DealStockCostChangedError) {
+        return validationFailure([error.message])
       }
 
-    } catch (error) {
       console.error('Deal creation failed:', error)
 
       return {
@@ -112,30 +394,441 @@ export class DealService {
     }
   }
 
+  /**
+   * One outbox message per configured recipient and chosen channel that the routing rules
+   * send this deal to (recipients without an address are skipped); WhatsApp messages carry
+   * the approved template to send if the recipient's session window has closed
+   */
+  private async buildOutboxMessages(dealData: DealData): Promise<NewOutboxMessage[]> {
+    const maxAttempts = createRetryPolicy().maxAttempts
+    const targets = await this.notificationRouter.resolveTargets(dealData)
+
+    return Promise.all(targets.map(async target => ({
+      platform: target.platform,
+      recipient_phone: target.recipient,
+      recipient_role: target.role,
+      recipient_id: target.recipientId ?? null,
+      message_text: await this.messageTemplateService.renderMessage(target.role, dealData, target.platform),
+      whatsapp_template: target.platform === 'whatsapp'
+        ? await this.messageTemplateService.renderWhatsAppTemplate(target.role, dealData)
+        : null,
+      max_attempts: maxAttempts,
+      created_by: 'deal_registration'
+    })))
+  }
+
+  /**
+   * Cancel a deal (see transitionDealStatus); the stock it took goes back to its lots
+   */
+  async cancelDeal(dealId: string, request: DealCancelRequest): Promise<ChangeDealStatusResult> {
+    return await this.transitionDealStatus(dealId, {
+      status: 'cancelled',
+      note: request.reason,
+      performedBy: request.performedBy,
+      notify: request.notify
+    })
+  }
+
+  /**
+   * Correct a deal's date, quantities, rates, delivery terms or notes. The changed fields are
+   * recorded with who changed them, and each role whose message showed a changed field gets a
+   * "DEAL AMENDED" message listing those fields. A from-inventory deal takes more stock or
+   * gives some back when its quantity changes; the quantities of a purchase that moved stock,
+   * and the purchase of a split purchase, can't be amended.
+   */
+  async amendDeal(dealId: string, request: DealAmendmentRequest): Promise<AmendDealResult> {
+    const record = await this.dealRepository.getDealById(dealId)
+    if (!record) {
+      return { success: false, notFound: true, error: `Deal ${dealId} not found` }
+    }
+
+    if (record.status === 'cancelled') {
+      return { success: false, error: 'Cancelled deals cannot be amended' }
+    }
+
+    const changes = diffDealFields(record, request)
+    if (changes.length === 0) {
+      return { success: false, error: 'Validation failed', validationErrors: ['Nothing to amend: no field differs from the deal'] }
+    }
+
+    const patch: DealUpdate = {}
+    for (const change of changes) {
+      Object.assign(patch, { [AMENDABLE_FIELD_COLUMNS[change.field]]: change.after })
+    }
+
+    const errors = this.checkPurchaseAmendment(record, changes, patch)
+    if (errors.length > 0) {
+      return { success: false, error: 'Validation failed', validationErrors: errors }
+    }
+
+    const stock = await this.planStockAdjustment(record, changes)
+    const performedBy = request.performedBy || 'operator'
+    const dealData = this.convertRecordToDealData({ ...record, ...patch })
+    const messages = request.notify !== false && isAnyChannelEnabled()
+      ? await this.buildAmendmentMessages(dealData, changes, performedBy, request.note)
+      : []
+
+    try {
+      const deal = await this.dealRepository.amendDeal(dealId, {
+        expectedUpdatedAt: record.updated_at,
+        patch,
+        changes,
+        performedBy,
+        note: request.note || null,
+        messages,
+        stock
+      })
+
+      return { success: true, amendment: { deal, changes, queuedNotifications: messages.length } }
+    } catch (error) {
+      // Someone else amended or moved the deal since it was read
+      if (error instanceof DealAmendmentConflictError) {
+        return { success: false, error: `Deal ${dealId} changed meanwhile; reload it and try again` }
+      }
+      if (error instanceof InsufficientStockError) {
+        return { success: false, error: 'Validation failed', validationErrors: [error.message] }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Checks on amended purchase fields; updates the single supplier line in the patch so the
+   * purchase lines keep matching the summary columns
+   */
+  private checkPurchaseAmendment(record: Deal, changes: DealFieldChange[], patch: DealUpdate): string[] {
+    const changed = new Set(changes.map(change => change.field))
+    const purchaseChanged = changed.has('quantityPurchased') || changed.has('purchaseRate')
+
+    if (record.material_source === 'from-inventory') {
+      return purchaseChanged ? ['Quantity purchased and purchase rate only apply to new-material deals'] : []
+    }
+
+    // Imported deals have no purchase lines to keep in step
+    const lines = record.purchase_lines as DealPurchaseLine[] | null
+    if (!lines || !(purchaseChanged || changed.has('quantitySold'))) {
+      return []
+    }
+
+    const supplierLines = lines.filter(line => line.source === 'supplier')
+    if (supplierLines.length !== 1 || lines.some(line => line.source === 'stock')) {
+      return ['The purchase and quantity of a deal bought from several sources cannot be amended; cancel it and register it again']
+    }
+
+    const [line] = supplierLines
+    const quantitySold = patch['Quantity Sold'] ?? record['Quantity Sold'] ?? 0
+    const quantityPurchased = patch['Quantity Purchased'] ?? line.quantity
+    if (changed.has('quantitySold') || changed.has('quantityPurchased')) {
+      if (line.quantity !== record['Quantity Sold']) {
+        return ['The quantities of a deal whose purchase surplus went into stock cannot be amended; cancel it and register it again']
+      }
+      if (quantityPurchased !== quantitySold) {
+        return [`Quantity purchased (${quantityPurchased} kg) must match quantity sold (${quantitySold} kg)`]
+      }
+    }
+
+    patch.purchase_lines = [{ ...line, quantity: quantityPurchased, rate: patch['Purchase Rate'] ?? line.rate }]
+    return []
+  }
+
+  /**
+   * Stock a from-inventory deal takes or gives back when its quantity changes; deals registered
+   * before stock tracking took none, so theirs doesn't move. amend_deal() re-costs the deal from
+   * its movements afterwards.
+   */
+  private async planStockAdjustment(record: Deal, changes: DealFieldChange[]): Promise<DealStockAdjustment | null> {
+    const quantityChange = changes.find(change => change.field === 'quantitySold')
+    if (!quantityChange || record.material_source !== 'from-inventory' || !record.product_id) {
+      return null
+    }
+
+    const taken = await this.inventoryService.getDealStockTaken(record.id)
+    if (taken <= 0) {
+      return null
+    }
+
+    const delta = round2(Number(quantityChange.after) - Number(quantityChange.before))
+    return delta > 0
+      ? {
+        consume: {
+          product_id: record.product_id,
+          warehouse_id: record.warehouse_id,
+          quantity: delta,
+          // Costed as the rest of the deal's stock was
+          cost_method: (record.inventory_cost_method as InventoryCostMethod | null) ?? getInventoryCostMethod()
+        }
+      }
+      : { return: { quantity: -delta } }
+  }
+
+  /**
+   * One amendment message per recipient whose role's message showed a changed field, listing
+   * only those fields
+   */
+  private async buildAmendmentMessages(
+    dealData: DealData,
+    changes: DealFieldChange[],
+    performedBy: string,
+    note?: string
+  ): Promise<NewOutboxMessage[]> {
+    const maxAttempts = createRetryPolicy().maxAttempts
+    const targets = await this.notificationRouter.resolveTargets(dealData)
+    const messages: NewOutboxMessage[] = []
+
+    for (const target of targets) {
+      const roleChanges = changes.filter(change => isBuiltInRecipientRole(target.role)
+        ? AMENDMENT_NOTIFIED_ROLES[change.field].includes(target.role)
+        : GENERIC_TEMPLATE_FIELDS.includes(change.field))
+      if (roleChanges.length === 0) continue
+
+      messages.push({
+        platform: target.platform,
+        recipient_phone: target.recipient,
+        recipient_role: target.role,
+        recipient_id: target.recipientId ?? null,
+        message_text: renderDealAmendmentMessage(dealData, { changes: roleChanges, performedBy, note }),
+        whatsapp_template: null,
+        max_attempts: maxAttempts,
+        created_by: 'deal_amendment'
+      })
+    }
+
+    return messages
+  }
+
+  /**
+   * One status message per recipient of the roles notified of the new status, on the channels
+   * the routing rules choose for the deal
+   */
+  private async buildStatusMessages(
+    dealData: DealData,
+    previousStatus: DealStatus,
+    performedBy: string,
+    note?: string
+  ): Promise<NewOutboxMessage[]> {
+    const roles = STATUS_NOTIFIED_ROLES[dealData.status!] ?? []
+    if (roles.length === 0) {
+      return []
+    }
+
+    const maxAttempts = createRetryPolicy().maxAttempts
+    const targets = await this.notificationRouter.resolveTargets(dealData)
+    const messageText = renderDealStatusMessage(dealData, { previousStatus, performedBy, note })
+
+    return targets
+      .filter(target => roles.includes(target.role))
+      .map(target => ({
+        platform: target.platform,
+        recipient_phone: target.recipient,
+        recipient_role: target.role,
+        recipient_id: target.recipientId ?? null,
+        message_text: messageText,
+        whatsapp_template: null,
+        max_attempts: maxAttempts,
+        created_by: 'deal_status'
+      }))
+  }
+
+  /**
+   * Stock the deal moves when it is saved: a from-inventory sale, or the stock line of a split
+   * purchase, takes its quantity from the product's lots (only the chosen warehouse's, when one
+   * is chosen) and is costed from them; suppliers selling more than the sale put the surplus
+   * into the chosen warehouse at the purchase's landed cost per kg
+   */
+  private async planStockMovement(dealData: CreateDealRequest, references: DealReferences): Promise<StockPlan> {
+    const { product, warehouse } = references
+    if (!product) {
+      return { stock: null, inventoryCost: null, errors: [] }
+    }
+
+    if (dealData.materialSource === 'from-inventory') {
+      return await this.planStockDraw(product, warehouse, dealData.quantitySold)
+    }
+
+    const lines = summarizePurchaseLines(dealData.purchaseLines)
+    if (lines.stockQuantity > 0) {
+      return await this.planStockDraw(product, warehouse, lines.stockQuantity)
+    }
+
+    const surplus = round2(lines.totalQuantity - dealData.quantitySold)
+    if (surplus <= 0) {
+      return { stock: null, inventoryCost: null, errors: [] }
+    }
+    if (!warehouse) {
+      return { stock: null, inventoryCost: null, errors: [`Select a warehouse for the ${surplus} kg purchased beyond the sale`] }
+    }
+
+    const { surplusLandedCost } = this.calculateDealMetrics(dealData)
+    return {
+      stock: {
+        receive: {
+          product_id: product.id,
+          warehouse_id: warehouse.id,
+          quantity: surplus,
+          cost_per_kg: round2(surplusLandedCost / surplus)
+        }
+      },
+      inventoryCost: null,
+      errors: []
+    }
+  }
+
+  /**
+   * Take quantity kg of the product from stock, costed by the configured method
+   * The cost is worked out from the lots as they are now; the deal is only saved if the stock
+   * it actually takes (costed by consume_deal_stock()) costs the same
+   */
+  private async planStockDraw(product: Product, warehouse: Warehouse | null, quantity: number): Promise<StockPlan> {
+    const availability = await this.inventoryService.getAvailability(product.id, warehouse?.id)
+    if (availability.quantityAvailable < quantity) {
+      const where = warehouse ? ` in ${warehouse.name}` : ''
+      return {
+        stock: null,
+        inventoryCost: null,
+        errors: [`Insufficient stock of ${product.Product}${where}: ${availability.quantityAvailable} kg available, ${quantity} kg needed`]
+      }
+    }
+
+    const costPerKg = calculateIssueCost(availability.lots, quantity, availability.costMethod)
+    return {
+      stock: {
+        consume: {
+          product_id: product.id,
+          warehouse_id: warehouse?.id ?? null,
+          quantity,
+          cost_method: availability.costMethod,
+          cost_per_kg: costPerKg ?? undefined
+        }
+      },
+      inventoryCost: costPerKg === null ? null : { costPerKg, method: availability.costMethod },
+      errors: []
+    }
+  }
+
+  /**
+   * Purchase lines as stored on the deal: suppliers by name and ID, stock at its cost
+   */
+  private resolvePurchaseLines(
+    dealData: CreateDealRequest,
+    references: DealReferences,
+    inventoryCost: InventoryCost | null
+  ): DealPurchaseLine[] {
+    if (dealData.materialSource !== 'new-material') {
+      return []
+    }
+
+    let supplierIndex = 0
+    return dealData.purchaseLines.map(line => {
+      if (line.source === 'stock') {
+        return { source: 'stock', quantity: line.quantity, rate: inventoryCost?.costPerKg ?? 0 }
+      }
+
+      const supplier = references.suppliers[supplierIndex++]
+      return {
+        source: 'supplier',
+        purchaseParty: supplier?.Name ?? line.purchaseParty,
+        supplierId: supplier?.id,
+        quantity: line.quantity,
+        rate: line.rate
+      }
+    })
+  }
+
+  /**
+   * Check that every referenced customer/supplier/product/warehouse exists
+   */
+  private validateReferences(dealData: CreateDealRequest, references: DealReferences): string[] {
+    const errors: string[] = []
+
+    if (!references.customer) errors.push(`Unknown sale party: ${dealData.saleParty}`)
+    if (!references.product) errors.push(`Unknown product: ${dealData.productCode}`)
+    getSupplierLines(dealData).forEach((line, index) => {
+      if (!references.suppliers[index]) errors.push(`Unknown purchase party: ${line.purchaseParty}`)
+    })
+    if (dealData.warehouseLocation && !references.warehouse) {
+      errors.push(`Unknown warehouse: ${dealData.warehouseLocation}`)
+    }
+
+    return errors
+  }
+
+  /**
+   * Convert form data to a deals_unified row, storing names alongside the source IDs
+   */
+  private convertFormDataToDealInsert(
+    formData: CreateDealRequest,
+    references: DealReferences,
+    purchaseLines: DealPurchaseLine[]
+  ): DealInsert {
+    const isNewMaterial = formData.materialSource === 'new-material'
+    const purchase = summarizePurchase(purchaseLines)
+
+    return {
+      Date: formData.date,
+      'Sale Party': references.customer?.Name ?? formData.saleParty,
+      'Quantity Sold': formData.quantitySold,
+      'Sale Rate': formData.saleRate,
+      Product: references.product?.Product ?? null,
+      Grade: references.product?.Grade ?? null,
+      Company: references.product?.Company ?? null,
+      'Specific Grade': references.product?.['Specific Grade'] ?? null,
+      // The single-purchase columns summarize the lines; supplier_id is the first supplier's
+      'Purchase Party': purchase.purchaseParty || null,
+      'Quantity Purchased': purchase.quantityPurchased || null,
+      'Purchase Rate': purchase.purchaseRate || null,
+      purchase_lines: isNewMaterial ? purchaseLines : null,
+      customer_id: references.customer?.id ?? null,
+      supplier_id: purchaseLines.find(line => line.supplierId)?.supplierId ?? null,
+      product_id: references.product?.id ?? null,
+      delivery_terms: formData.deliveryTerms,
+      material_source: formData.materialSource,
+      // create_deal_with_notifications inserts every column, so the default doesn't apply
+      status: 'registered',
+      warehouse_id: references.warehouse?.id ?? null,
+      warehouse_location: references.warehouse?.name ?? null,
+      sale_comments: formData.saleComments || null,
+      purchase_comments: formData.purchaseComments || null,
+      final_comments: formData.finalComments || null,
+      // Store the resolved rates so later default changes don't alter this deal's margin
+      charges: resolveDealCharges(formData.charges)
+    }
+  }
+
   /**
    * Convert form data to WhatsApp DealData format
    */
-  private convertFormDataToDealData(formData: CreateDealRequest, dealId: string): DealData {
+  private convertFormDataToDealData(
+    formData: CreateDealRequest,
+    dealId: string,
+    references: DealReferences,
+    purchaseLines: DealPurchaseLine[]
+  ): DealData {
+    const isNewMaterial = formData.materialSource === 'new-material'
+    const purchase = summarizePurchase(purchaseLines)
+
     return {
       id: dealId,
       date: formData.date,
-      saleParty: formData.saleParty,
+      saleParty: references.customer?.Name ?? formData.saleParty,
       quantitySold: formData.quantitySold,
       saleRate: formData.saleRate,
       deliveryTerms: formData.deliveryTerms,
       saleComments: formData.saleComments || undefined,
-      productCode: formData.productCode,
-      product: formData.selectedProduct?.Product,
-      grade: formData.selectedProduct?.grade,
-      company: formData.selectedProduct?.company,
-      specificGrade: formData.selectedProduct?.specific_grade,
+      productCode: references.product?.Product ?? formData.productCode,
+      product: references.product?.Product,
+      grade: references.product?.Grade,
+      company: references.product?.Company,
+      specificGrade: references.product?.['Specific Grade'],
       materialSource: formData.materialSource,
-      purchaseParty: formData.materialSource === 'new-material' ? formData.purchaseParty : undefined,
-      quantityPurchased: formData.materialSource === 'new-material' ? formData.quantityPurchased : undefined,
-      purchaseRate: formData.materialSource === 'new-material' ? formData.purchaseRate : undefined,
-      warehouseLocation: formData.warehouseLocation || undefined,
+      purchaseParty: isNewMaterial ? purchase.purchaseParty : undefined,
+      quantityPurchased: isNewMaterial ? purchase.quantityPurchased : undefined,
+      purchaseRate: isNewMaterial ? purchase.purchaseRate : undefined,
+      purchaseLines: isNewMaterial ? purchaseLines : undefined,
+      warehouseLocation: references.warehouse?.name,
       purchaseComments: formData.purchaseComments || undefined,
-      finalComments: formData.finalComments || undefined
+      finalComments: formData.finalComments || undefined,
+      charges: resolveDealCharges(formData.charges),
+      status: 'registered'
     }
   }
 
@@ -153,14 +846,11 @@ export class DealService {
     if (!dealData.productCode) errors.push('Product code is required')
     if (!dealData.materialSource) errors.push('Material source is required')
 
-    // Conditional validation for new material
+    // Conditional validation for new material: the lines must cover the sale
     if (dealData.materialSource === 'new-material') {
-      if (!dealData.purchaseParty) errors.push('Purchase party is required for new material')
-      if (!dealData.quantityPurchased || dealData.quantityPurchased <= 0) {
-        errors.push('Valid purchase quantity is required for new material')
-      }
-      if (!dealData.purchaseRate || dealData.purchaseRate <= 0) {
-        errors.push('Valid purchase rate is required for new material')
+      for (const issue of checkPurchaseLines(dealData.purchaseLines, dealData.quantitySold)) {
+        const [index] = issue.path
+        errors.push(typeof index === 'number' ? `Purchase line ${index + 1}: ${issue.message}` : issue.message)
       }
     }
 
@@ -168,25 +858,69 @@ export class DealService {
   }
 
   /**
-   * Calculate deal metrics
+   * Calculate deal metrics (landed cost and net margin)
    */
-  calculateDealMetrics(dealData: CreateDealRequest) {
-    const saleAmount = dealData.quantitySold * dealData.saleRate
-    const purchaseAmount = dealData.materialSource === 'new-material'
-      ? (dealData.quantityPurchased || 0) * (dealData.purchaseRate || 0)
-      : 0
-    const grossProfit = saleAmount - purchaseAmount
-    const profitMargin = saleAmount > 0 ? (grossProfit / saleAmount) * 100 : 0
+  calculateDealMetrics(dealData: DealMetricsInput): DealCosting {
+    return calculateDealCosting(dealData)
+  }
+}
 
-    return {
-      saleAmount,
-      purchaseAmount,
-      grossProfit,
-      profitMargin: Math.round(profitMargin * 100) / 100
+/**
+ * Supplier lines of a new-material deal, in order
+ */
+const getSupplierLines = (dealData: CreateDealRequest) => {
+  return dealData.materialSource === 'new-material'
+    ? dealData.purchaseLines.filter(line => line.source === 'supplier')
+    : []
+}
+
+/**
+ * The single-purchase fields for a deal's lines: supplier names, quantity bought and blended rate
+ */
+const summarizePurchase = (purchaseLines: DealPurchaseLine[]) => {
+  const summary = summarizePurchaseLines(purchaseLines)
+  return {
+    purchaseParty: purchaseLines
+      .filter(line => line.source === 'supplier')
+      .map(line => line.purchaseParty)
+      .join(', '),
+    quantityPurchased: summary.supplierQuantity,
+    purchaseRate: round2(summary.supplierRate)
+  }
+}
+
+/**
+ * Fields of the request that differ from the deal, with their old and new values
+ * (an empty note is stored as null)
+ */
+const diffDealFields = (record: Deal, request: DealAmendmentRequest): DealFieldChange[] => {
+  const changes: DealFieldChange[] = []
+
+  for (const field of Object.keys(AMENDABLE_FIELD_COLUMNS) as AmendableDealField[]) {
+    const requested = request[field]
+    if (requested === undefined) continue
+
+    const before = record[AMENDABLE_FIELD_COLUMNS[field]] ?? null
+    const after = requested === '' ? null : requested
+    if (after !== before) {
+      changes.push({ field, before, after })
     }
   }
+
+  return changes
 }
 
+const validationFailure = (validationErrors: string[]): CreateDealResult => ({
+  success: false,
+  dealId: '',
+  deal: {} as DealData,
+  error: 'Validation failed',
+  validationErrors
+})
+
+// Quantities (kg) and rates (₹/kg) are stored to 2 decimal places
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
 /**
  * Singleton deal service instance
  */
@@ -199,6 +933,6 @@ export const getDealService = (): DealService => {
   return globalDealService
 }
 
-export const createDealService = (): DealService => {
-  return new DealService()
+export const createDealService = (dealRepository?: DealRepository): DealService => {
+  return new DealService(dealRepository)
 }
\ No newline at end of file
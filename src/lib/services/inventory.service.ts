@@ -0,0 +1,151 @@
+/**
+ * Inventory Service
+ * Warehouses and the stock lots held in them. Deals move stock themselves when they are
+ * saved (see DealService); this service covers stock received outside a deal and the
+ * availability the deal form and the inventory page show.
+ */
+
+import type { StockLot, Warehouse } from '@/types'
+import type { CreateWarehouseRequest, InventoryOverview, ReceiveStockRequest, StockAvailability } from '@/types/inventory'
+import type { InventoryCostMethod } from '@/lib/costing/inventory-costing'
+import { InventoryRepository, getInventoryRepository } from '@/lib/repositories/inventory.repository'
+
+/**
+ * How from-inventory sales are costed: weighted average of the stock (default) or FIFO
+ */
+export const getInventoryCostMethod = (): InventoryCostMethod =>
+  process.env.INVENTORY_COST_METHOD === 'fifo' ? 'fifo' : 'weighted_average'
+
+export interface WarehouseResult {
+  success: boolean
+  warehouse?: Warehouse
+  error?: string
+  validationErrors?: string[]
+}
+
+export interface ReceiveStockResult {
+  success: boolean
+  lot?: StockLot
+  error?: string
+  validationErrors?: string[]
+}
+
+export class InventoryService {
+  private readonly inventoryRepository: InventoryRepository
+
+  constructor(inventoryRepository?: InventoryRepository) {
+    this.inventoryRepository = inventoryRepository || getInventoryRepository()
+  }
+
+  async listWarehouses(): Promise<Warehouse[]> {
+    return await this.inventoryRepository.listWarehouses()
+  }
+
+  async createWarehouse(request: CreateWarehouseRequest): Promise<WarehouseResult> {
+    if (await this.inventoryRepository.findWarehouseByName(request.name)) {
+      return { success: false, error: 'Validation failed', validationErrors: [`Warehouse ${request.name} already exists`] }
+    }
+
+    const warehouse = await this.inventoryRepository.createWarehouse({
+      name: request.name,
+      location: request.location || null
+    })
+
+    return { success: true, warehouse }
+  }
+
+  /**
+   * Active warehouses and the stock held in each, optionally for one product or warehouse
+   */
+  async getOverview(filters: { productId?: string; warehouseId?: string } = {}): Promise<InventoryOverview> {
+    const [warehouses, levels] = await Promise.all([
+      this.inventoryRepository.listWarehouses(),
+      this.inventoryRepository.listStockLevels(filters)
+    ])
+
+    return { warehouses, levels }
+  }
+
+  /**
+   * Stock of one product, in total, per warehouse and per lot
+   * With a warehouse, only that warehouse's stock counts towards the total
+   */
+  async getAvailability(productId: string, warehouseId?: string | null): Promise<StockAvailability> {
+    const [levels, lots] = await Promise.all([
+      this.inventoryRepository.listStockLevels({ productId, warehouseId: warehouseId ?? undefined }),
+      this.inventoryRepository.listAvailableLots(productId, warehouseId ?? undefined)
+    ])
+
+    const quantityAvailable = levels.reduce((sum, level) => sum + (level.quantity_available ?? 0), 0)
+    const totalCost = levels.reduce(
+      (sum, level) => sum + (level.quantity_available ?? 0) * (level.average_cost_per_kg ?? 0),
+      0
+    )
+
+    return {
+      productId,
+      quantityAvailable: round2(quantityAvailable),
+      averageCostPerKg: quantityAvailable > 0 ? round2(totalCost / quantityAvailable) : null,
+      warehouses: levels,
+      lots: lots.map(lot => ({
+        id: lot.id,
+        warehouseId: lot.warehouse_id,
+        receivedAt: lot.received_at,
+        quantityAvailable: lot.quantity_available,
+        costPerKg: lot.cost_per_kg
+      })),
+      costMethod: getInventoryCostMethod()
+    }
+  }
+
+  /**
+   * Stock a deal has taken and not given back (kg)
+   */
+  async getDealStockTaken(dealId: string): Promise<number> {
+    return await this.inventoryRepository.getDealStockTaken(dealId)
+  }
+
+  /**
+   * Add stock bought outside a deal (or opening stock) as a new lot
+   */
+  async receiveStock(request: ReceiveStockRequest): Promise<ReceiveStockResult> {
+    const [warehouse, productExists] = await Promise.all([
+      this.inventoryRepository.getWarehouseById(request.warehouseId),
+      this.inventoryRepository.productExists(request.productId)
+    ])
+
+    const errors: string[] = []
+    if (!productExists) errors.push(`Unknown product: ${request.productId}`)
+    if (!warehouse || !warehouse.is_active) errors.push(`Unknown warehouse: ${request.warehouseId}`)
+    if (errors.length > 0) {
+      return { success: false, error: 'Validation failed', validationErrors: errors }
+    }
+
+    const lot = await this.inventoryRepository.receiveLot({
+      productId: request.productId,
+      warehouseId: request.warehouseId,
+      quantity: request.quantity,
+      costPerKg: request.costPerKg,
+      receivedAt: request.receivedAt,
+      notes: request.notes,
+      createdBy: 'inventory_api'
+    })
+
+    return { success: true, lot }
+  }
+}
+
+// Quantities (kg) and rates (₹/kg) are stored to 2 decimal places
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Singleton inventory service instance
+ */
+let globalInventoryService: InventoryService | null = null
+
+export const getInventoryService = (): InventoryService => {
+  if (!globalInventoryService) {
+    globalInventoryService = new InventoryService()
+  }
+  return globalInventoryService
+}
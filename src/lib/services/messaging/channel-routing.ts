@@ -0,0 +1,24 @@
+/**
+ * Notification Channel Routing
+ * Resolves the channel service that sends a given outbox row.
+ * Who is notified on which channel is decided by recipient-directory.ts.
+ */
+
+import { NotificationChannel } from './notification-channel'
+import { getGlobalWhatsAppService } from './whatsapp.service'
+import { getGlobalTelegramService } from './telegram.service'
+
+/**
+ * The service that sends messages for a platform
+ * Throws if the channel's configuration is invalid
+ */
+export const getNotificationChannel = (platform: string): NotificationChannel => {
+  switch (platform) {
+    case 'whatsapp':
+      return getGlobalWhatsAppService()
+    case 'telegram':
+      return getGlobalTelegramService()
+    default:
+      throw new Error(`Unsupported notification platform: ${platform}`)
+  }
+}
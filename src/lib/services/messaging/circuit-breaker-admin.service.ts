@@ -0,0 +1,126 @@
+/**
+ * Circuit Breaker Admin Service
+ * Operator controls for the channels' shared circuit breakers: inspect the state and failure
+ * window, force a breaker open (maintenance mode) or closed. Changes are recorded in
+ * health_checks by the store, and every instance picks them up on its next state read.
+ */
+
+import type { ChannelCircuitBreakerStatus, CircuitBreakerActionRequest } from '@/types/circuit-breakers'
+import { HealthCheckRepository, getHealthCheckRepository } from '@/lib/repositories/health-check.repository'
+import { CHANNEL_PLATFORMS, ChannelPlatform, isChannelEnabled, isChannelPlatform } from './notification-channel'
+import { DEFAULT_CIRCUIT_BREAKER_CONFIG } from './circuit-breaker'
+import {
+  CircuitBreakerPolicy,
+  CircuitBreakerSnapshot,
+  CircuitBreakerStore,
+  getGlobalCircuitBreakerStore
+} from './circuit-breaker-store'
+import { WhatsAppLogger } from './whatsapp.types'
+
+export interface CircuitBreakerActionResult {
+  success: boolean
+  breaker?: ChannelCircuitBreakerStatus
+  error?: string
+  notFound?: boolean
+}
+
+const CHANNEL_LABELS: Record<ChannelPlatform, string> = {
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram'
+}
+const TRANSITIONS_LIMIT = 10
+
+// The channels' breakers use the default timing; only the failure threshold is configured per channel
+const BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: DEFAULT_CIRCUIT_BREAKER_CONFIG.failureThreshold,
+  monitoringWindowMs: DEFAULT_CIRCUIT_BREAKER_CONFIG.monitoringWindowMs,
+  timeoutMs: DEFAULT_CIRCUIT_BREAKER_CONFIG.timeoutMs
+}
+
+export class CircuitBreakerAdminService {
+  private readonly store: CircuitBreakerStore
+  private readonly healthCheckRepository: HealthCheckRepository
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    store?: CircuitBreakerStore,
+    healthCheckRepository?: HealthCheckRepository,
+    logger?: WhatsAppLogger
+  ) {
+    this.store = store || getGlobalCircuitBreakerStore()
+    this.healthCheckRepository = healthCheckRepository || getHealthCheckRepository()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[CircuitBreakerAdmin] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[CircuitBreakerAdmin] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[CircuitBreakerAdmin] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[CircuitBreakerAdmin] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Every channel's breaker with its failure window and latest transitions
+   */
+  async listBreakers(): Promise<ChannelCircuitBreakerStatus[]> {
+    return await Promise.all(CHANNEL_PLATFORMS.map(async platform => {
+      return await this.toStatus(platform, await this.store.getState(platform, BREAKER_POLICY))
+    }))
+  }
+
+  /**
+   * Force a channel's breaker open or closed
+   * Goes to the store directly: if it can't be reached the change fails rather than applying
+   * to this instance only
+   */
+  async performAction(platform: string, request: CircuitBreakerActionRequest): Promise<CircuitBreakerActionResult> {
+    if (!isChannelPlatform(platform)) {
+      return { success: false, notFound: true, error: `Unknown channel: ${platform}` }
+    }
+
+    const change = { performedBy: request.performedBy ?? 'operator', note: request.note }
+    const snapshot = await this.store.setState(platform, request.action === 'force_open' ? 'OPEN' : 'CLOSED', change)
+
+    this.logger.info('Circuit breaker changed by operator', {
+      platform,
+      action: request.action,
+      performedBy: change.performedBy,
+      note: change.note
+    })
+
+    return { success: true, breaker: await this.toStatus(platform, snapshot) }
+  }
+
+  private async toStatus(platform: ChannelPlatform, snapshot: CircuitBreakerSnapshot): Promise<ChannelCircuitBreakerStatus> {
+    const transitions = await this.healthCheckRepository.listRecent([`circuit_breaker_${platform}`], TRANSITIONS_LIMIT)
+    const nextAttemptAt = snapshot.state === 'OPEN' && !snapshot.forced && snapshot.openedAt
+      ? new Date(snapshot.openedAt.getTime() + BREAKER_POLICY.timeoutMs).toISOString()
+      : null
+
+    return {
+      platform,
+      label: CHANNEL_LABELS[platform],
+      enabled: isChannelEnabled(platform),
+      state: snapshot.state,
+      forced: snapshot.forced,
+      recentFailures: snapshot.recentFailures,
+      monitoringWindowMs: BREAKER_POLICY.monitoringWindowMs,
+      openedAt: snapshot.openedAt?.toISOString() ?? null,
+      nextAttemptAt,
+      stateChangedAt: snapshot.stateChangedAt.toISOString(),
+      updatedBy: snapshot.updatedBy,
+      transitions
+    }
+  }
+}
+
+/**
+ * Singleton circuit breaker admin service instance
+ */
+let globalCircuitBreakerAdminService: CircuitBreakerAdminService | null = null
+
+export const getCircuitBreakerAdminService = (): CircuitBreakerAdminService => {
+  if (!globalCircuitBreakerAdminService) {
+    globalCircuitBreakerAdminService = new CircuitBreakerAdminService()
+  }
+  return globalCircuitBreakerAdminService
+}
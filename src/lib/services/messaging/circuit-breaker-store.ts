@@ -0,0 +1,231 @@
+/**
+ * Circuit Breaker Storage
+ * Where the circuit breakers keep their state. By default it is the circuit_breakers table,
+ * so every instance agrees on whether a channel is open and failures from all of them count
+ * towards one threshold. CIRCUIT_BREAKER_STORE=memory keeps it per process instead.
+ */
+
+import type { CircuitBreaker } from '@/types'
+import { CircuitBreakerRepository, getCircuitBreakerRepository } from '@/lib/repositories/circuit-breaker.repository'
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN'
+
+export type CircuitBreakerStoreKind = 'memory' | 'supabase'
+
+export type CircuitBreakerFailure = {
+  at: string
+  error: string
+}
+
+export interface CircuitBreakerSnapshot {
+  service: string
+  state: CircuitState
+  // Opened by an operator: no recovery test until it is closed by hand
+  forced: boolean
+  // Failures in the monitoring window, oldest first
+  recentFailures: CircuitBreakerFailure[]
+  openedAt: Date | null
+  stateChangedAt: Date
+  updatedBy: string | null
+}
+
+export interface CircuitBreakerPolicy {
+  failureThreshold: number
+  monitoringWindowMs: number
+  timeoutMs: number
+}
+
+export interface CircuitBreakerStateChange {
+  performedBy?: string
+  note?: string
+}
+
+export interface CircuitBreakerStore {
+  readonly kind: CircuitBreakerStoreKind
+  /**
+   * Current state; an OPEN breaker (not forced) whose timeout has passed moves to HALF_OPEN
+   */
+  getState(service: string, policy: CircuitBreakerPolicy): Promise<CircuitBreakerSnapshot>
+  /**
+   * Add a failure to the window; opens a CLOSED breaker at the threshold and reopens a HALF_OPEN one
+   */
+  recordFailure(service: string, error: string, policy: CircuitBreakerPolicy): Promise<CircuitBreakerSnapshot>
+  /**
+   * Record a success; closes a HALF_OPEN breaker
+   */
+  recordSuccess(service: string): Promise<CircuitBreakerSnapshot>
+  /**
+   * Force OPEN (maintenance) or CLOSED (clears the failure window)
+   */
+  setState(service: string, state: 'OPEN' | 'CLOSED', change?: CircuitBreakerStateChange): Promise<CircuitBreakerSnapshot>
+}
+
+export const createClosedSnapshot = (service: string): CircuitBreakerSnapshot => ({
+  service,
+  state: 'CLOSED',
+  forced: false,
+  recentFailures: [],
+  openedAt: null,
+  stateChangedAt: new Date(),
+  updatedBy: null
+})
+
+/**
+ * State per service, local to this process
+ */
+export class MemoryCircuitBreakerStore implements CircuitBreakerStore {
+  readonly kind = 'memory' as const
+  private breakers = new Map<string, CircuitBreakerSnapshot>()
+
+  async getState(service: string, policy: CircuitBreakerPolicy): Promise<CircuitBreakerSnapshot> {
+    const breaker = this.get(service)
+
+    if (
+      breaker.state === 'OPEN' &&
+      !breaker.forced &&
+      breaker.openedAt &&
+      Date.now() - breaker.openedAt.getTime() >= policy.timeoutMs
+    ) {
+      return this.transition(breaker, 'HALF_OPEN', false, 'system')
+    }
+
+    return { ...breaker }
+  }
+
+  async recordFailure(service: string, error: string, policy: CircuitBreakerPolicy): Promise<CircuitBreakerSnapshot> {
+    const breaker = this.get(service)
+    const cutoff = Date.now() - policy.monitoringWindowMs
+
+    breaker.recentFailures = [
+      ...breaker.recentFailures.filter(failure => new Date(failure.at).getTime() > cutoff),
+      { at: new Date().toISOString(), error }
+    ]
+
+    if (breaker.state === 'HALF_OPEN') {
+      return this.transition(breaker, 'OPEN', false, 'system')
+    }
+    if (breaker.state === 'CLOSED' && breaker.recentFailures.length >= policy.failureThreshold) {
+      return this.transition(breaker, 'OPEN', false, 'system')
+    }
+
+    return { ...breaker }
+  }
+
+  async recordSuccess(service: string): Promise<CircuitBreakerSnapshot> {
+    const breaker = this.get(service)
+
+    if (breaker.state === 'HALF_OPEN') {
+      return this.transition(breaker, 'CLOSED', false, 'system')
+    }
+
+    return { ...breaker }
+  }
+
+  async setState(
+    service: string,
+    state: 'OPEN' | 'CLOSED',
+    change: CircuitBreakerStateChange = {}
+  ): Promise<CircuitBreakerSnapshot> {
+    return this.transition(this.get(service), state, state === 'OPEN', change.performedBy ?? 'operator')
+  }
+
+  private get(service: string): CircuitBreakerSnapshot {
+    let breaker = this.breakers.get(service)
+    if (!breaker) {
+      breaker = createClosedSnapshot(service)
+      this.breakers.set(service, breaker)
+    }
+    return breaker
+  }
+
+  private transition(
+    breaker: CircuitBreakerSnapshot,
+    state: CircuitState,
+    forced: boolean,
+    performedBy: string
+  ): CircuitBreakerSnapshot {
+    const now = new Date()
+    breaker.state = state
+    breaker.forced = forced
+    breaker.stateChangedAt = now
+    breaker.updatedBy = performedBy
+
+    if (state === 'OPEN') {
+      breaker.openedAt = now
+    }
+    if (state === 'CLOSED') {
+      breaker.recentFailures = []
+    }
+
+    return { ...breaker }
+  }
+}
+
+/**
+ * State in circuit_breakers, shared by every instance
+ */
+export class SupabaseCircuitBreakerStore implements CircuitBreakerStore {
+  readonly kind = 'supabase' as const
+  private readonly repository: CircuitBreakerRepository
+
+  constructor(repository?: CircuitBreakerRepository) {
+    this.repository = repository || getCircuitBreakerRepository()
+  }
+
+  async getState(service: string, policy: CircuitBreakerPolicy): Promise<CircuitBreakerSnapshot> {
+    return toSnapshot(await this.repository.get(service, policy.timeoutMs))
+  }
+
+  async recordFailure(service: string, error: string, policy: CircuitBreakerPolicy): Promise<CircuitBreakerSnapshot> {
+    return toSnapshot(
+      await this.repository.recordFailure(service, error, policy.failureThreshold, policy.monitoringWindowMs)
+    )
+  }
+
+  async recordSuccess(service: string): Promise<CircuitBreakerSnapshot> {
+    return toSnapshot(await this.repository.recordSuccess(service))
+  }
+
+  async setState(
+    service: string,
+    state: 'OPEN' | 'CLOSED',
+    change: CircuitBreakerStateChange = {}
+  ): Promise<CircuitBreakerSnapshot> {
+    return toSnapshot(await this.repository.setState(service, state, change.performedBy, change.note))
+  }
+}
+
+const toSnapshot = (row: CircuitBreaker): CircuitBreakerSnapshot => ({
+  service: row.service,
+  state: row.state as CircuitState,
+  forced: row.forced,
+  recentFailures: (row.recent_failures as CircuitBreakerFailure[] | null) ?? [],
+  openedAt: row.opened_at ? new Date(row.opened_at) : null,
+  stateChangedAt: new Date(row.state_changed_at),
+  updatedBy: row.updated_by
+})
+
+/**
+ * Storage selected with CIRCUIT_BREAKER_STORE (supabase unless set to memory)
+ */
+export const getCircuitBreakerStoreKind = (): CircuitBreakerStoreKind => {
+  return process.env.CIRCUIT_BREAKER_STORE === 'memory' ? 'memory' : 'supabase'
+}
+
+export const createCircuitBreakerStore = (
+  kind: CircuitBreakerStoreKind = getCircuitBreakerStoreKind()
+): CircuitBreakerStore => {
+  return kind === 'memory' ? new MemoryCircuitBreakerStore() : new SupabaseCircuitBreakerStore()
+}
+
+/**
+ * Singleton store shared by the channels' breakers and the admin controls
+ */
+let globalCircuitBreakerStore: CircuitBreakerStore | null = null
+
+export const getGlobalCircuitBreakerStore = (): CircuitBreakerStore => {
+  if (!globalCircuitBreakerStore) {
+    globalCircuitBreakerStore = createCircuitBreakerStore()
+  }
+  return globalCircuitBreakerStore
+}
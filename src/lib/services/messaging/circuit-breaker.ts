@@ -2,80 +2,136 @@
  * WhatsApp Circuit Breaker
  * Protects against cascading failures by stopping requests when error threshold is reached
  * Three states: CLOSED (normal), OPEN (blocking), HALF_OPEN (testing recovery)
+ * State lives in a CircuitBreakerStore shared by every instance; each instance reuses the
+ * state it last read for syncIntervalMs
  */
 
-import { WhatsAppLogger, CircuitBreakerState } from './whatsapp.types'
+import { WhatsAppLogger } from './whatsapp.types'
+import {
+  CircuitBreakerFailure,
+  CircuitBreakerPolicy,
+  CircuitBreakerSnapshot,
+  CircuitBreakerStateChange,
+  CircuitBreakerStore,
+  CircuitBreakerStoreKind,
+  CircuitState,
+  MemoryCircuitBreakerStore,
+  createClosedSnapshot,
+  getGlobalCircuitBreakerStore
+} from './circuit-breaker-store'
 
 export interface CircuitBreakerConfig {
+  serviceName: string
   failureThreshold: number
   timeoutMs: number
   monitoringWindowMs: number
   minimumRequestThreshold: number
+  // How long a state read from the store is reused before reading it again
+  syncIntervalMs: number
+  // Errors that show the service answered (e.g. a rejected recipient) can be excluded
+  isFailure: (error: unknown) => boolean
 }
 
 export interface CircuitBreakerMetrics {
-  state: 'CLOSED' | 'OPEN' | 'HALF_OPEN'
-  failures: number
-  successes: number
-  requests: number
+  service: string
+  store: CircuitBreakerStoreKind
+  state: CircuitState
+  forced: boolean
+  failures: number // In the monitoring window, across instances
+  successes: number // This instance
+  requests: number // This instance
   failureRate: number
+  recentFailures: CircuitBreakerFailure[]
+  monitoringWindowMs: number
   nextAttemptTime?: Date
   stateChangedAt: Date
   timeInCurrentState: number
+  updatedBy: string | null
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  serviceName: 'WhatsApp', // Used in error messages and, lower-cased, as the store key
+  failureThreshold: 10, // Number of failures before opening
+  timeoutMs: 300000, // 5 minutes before attempting recovery
+  monitoringWindowMs: 60000, // 1 minute monitoring window
+  minimumRequestThreshold: 5, // Minimum requests before failure rate calculation
+  syncIntervalMs: 5000,
+  isFailure: () => true
 }
 
 export class WhatsAppCircuitBreaker {
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED'
+  private snapshot: CircuitBreakerSnapshot
+  private syncedAt = 0
   private failures = 0
   private successes = 0
   private requests = 0
-  private lastFailureTime = 0
-  private stateChangedAt = Date.now()
   private readonly config: CircuitBreakerConfig
   private readonly logger: WhatsAppLogger
+  private readonly store: CircuitBreakerStore
+  // Used while the shared store is unreachable, so this instance still protects itself
+  private readonly fallbackStore = new MemoryCircuitBreakerStore()
 
   constructor(
     config: Partial<CircuitBreakerConfig> = {},
-    logger: WhatsAppLogger
+    logger: WhatsAppLogger,
+    store?: CircuitBreakerStore
   ) {
     this.config = {
-      failureThreshold: 10, // Number of failures before opening
-      timeoutMs: 300000, // 5 minutes before attempting recovery
-      monitoringWindowMs: 60000, // 1 minute monitoring window
-      minimumRequestThreshold: 5, // Minimum requests before failure rate calculation
+      ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
       ...config
     }
     this.logger = logger
+    this.store = store || getGlobalCircuitBreakerStore()
+    this.snapshot = createClosedSnapshot(this.service)
   }
 
   /**
    * Execute an operation with circuit breaker protection
    */
   async execute<T>(operation: () => Promise<T>): Promise<T> {
-    // Check if circuit is open
-    if (this.state === 'OPEN') {
-      if (this.shouldAttemptReset()) {
-        this.transitionTo('HALF_OPEN')
-      } else {
-        throw new CircuitBreakerOpenError(
-          'Circuit breaker is OPEN - WhatsApp service unavailable',
-          this.getNextAttemptTime()
-        )
-      }
+    const snapshot = await this.getState()
+
+    if (snapshot.state === 'OPEN') {
+      throw new CircuitBreakerOpenError(
+        `Circuit breaker is OPEN - ${this.config.serviceName} service unavailable`,
+        this.getNextAttemptTime(snapshot)
+      )
     }
 
     try {
       const result = await operation()
-      this.onSuccess()
+      await this.onSuccess()
       return result
     } catch (error) {
-      this.onFailure()
+      if (this.config.isFailure(error)) {
+        await this.onFailure(error)
+      } else {
+        await this.onSuccess()
+      }
       throw error
     }
   }
 
   /**
-   * Get current circuit breaker metrics
+   * Whether calls are currently blocked
+   * An open breaker is re-read every time, so a close (by hand or by another instance) shows up at once
+   */
+  async isOpen(): Promise<boolean> {
+    return (await this.getState(this.snapshot.state === 'OPEN')).state === 'OPEN'
+  }
+
+  /**
+   * Current state, read from the store when the last read is older than syncIntervalMs
+   */
+  async getState(refresh: boolean = false): Promise<CircuitBreakerSnapshot> {
+    if (!refresh && Date.now() - this.syncedAt < this.config.syncIntervalMs) {
+      return this.snapshot
+    }
+    return await this.sync(store => store.getState(this.service, this.policy))
+  }
+
+  /**
+   * Get current circuit breaker metrics (as of the last state read)
    */
   getMetrics(): CircuitBreakerMetrics {
     const now = Date.now()
@@ -84,96 +140,126 @@ export class WhatsAppCircuitBreaker {
       : 0
 
     return {
-      state: this.state,
-      failures: this.failures,
+      service: this.service,
+      store: this.store.kind,
+      state: this.snapshot.state,
+      forced: this.snapshot.forced,
+      failures: this.snapshot.recentFailures.length,
       successes: this.successes,
       requests: this.requests,
       failureRate: Math.round(failureRate * 100) / 100,
-      nextAttemptTime: this.state === 'OPEN' ? this.getNextAttemptTime() : undefined,
-      stateChangedAt: new Date(this.stateChangedAt),
-      timeInCurrentState: now - this.stateChangedAt
+      recentFailures: this.snapshot.recentFailures,
+      monitoringWindowMs: this.config.monitoringWindowMs,
+      nextAttemptTime: this.snapshot.state === 'OPEN' ? this.getNextAttemptTime(this.snapshot) : undefined,
+      stateChangedAt: this.snapshot.stateChangedAt,
+      timeInCurrentState: now - this.snapshot.stateChangedAt.getTime(),
+      updatedBy: this.snapshot.updatedBy
     }
   }
 
   /**
-   * Force reset the circuit breaker (for testing/manual intervention)
+   * Force close the circuit breaker and clear its failures (manual intervention)
    */
-  reset(): void {
-    this.logger.info('Circuit breaker manually reset')
-    this.transitionTo('CLOSED')
+  async reset(change: CircuitBreakerStateChange = {}): Promise<CircuitBreakerSnapshot> {
+    this.logger.info('Circuit breaker manually reset', { service: this.service, ...change })
     this.resetCounters()
+    return await this.sync(store => store.setState(this.service, 'CLOSED', change))
   }
 
   /**
-   * Force open the circuit breaker (for maintenance)
+   * Force open the circuit breaker (maintenance); it stays open until reset
    */
-  forceOpen(): void {
-    this.logger.warn('Circuit breaker manually opened')
-    this.transitionTo('OPEN')
+  async forceOpen(change: CircuitBreakerStateChange = {}): Promise<CircuitBreakerSnapshot> {
+    this.logger.warn('Circuit breaker manually opened', { service: this.service, ...change })
+    return await this.sync(store => store.setState(this.service, 'OPEN', change))
+  }
+
+  private get service(): string {
+    return this.config.serviceName.toLowerCase()
+  }
+
+  private get policy(): CircuitBreakerPolicy {
+    return {
+      failureThreshold: this.config.failureThreshold,
+      monitoringWindowMs: this.config.monitoringWindowMs,
+      timeoutMs: this.config.timeoutMs
+    }
   }
 
-  private onSuccess(): void {
+  private async onSuccess(): Promise<void> {
     this.successes++
     this.requests++
 
-    if (this.state === 'HALF_OPEN') {
+    if (this.snapshot.state === 'HALF_OPEN') {
       this.logger.info('Circuit breaker test request succeeded, closing circuit')
-      this.transitionTo('CLOSED')
-      this.resetCounters()
+      await this.sync(store => store.recordSuccess(this.service))
     }
-
-    this.cleanOldMetrics()
   }
 
-  private onFailure(): void {
+  private async onFailure(error: unknown): Promise<void> {
     this.failures++
     this.requests++
-    this.lastFailureTime = Date.now()
 
-    const failureRate = this.failures / this.requests
+    const message = error instanceof Error ? error.message : String(error)
+    const previousState = this.snapshot.state
+    const snapshot = await this.sync(store => store.recordFailure(this.service, message, this.policy))
 
     this.logger.warn('Circuit breaker recorded failure', {
-      failures: this.failures,
+      failures: snapshot.recentFailures.length,
       requests: this.requests,
-      failureRate: Math.round(failureRate * 100) / 100
+      state: snapshot.state
     })
 
-    if (this.state === 'HALF_OPEN') {
+    if (previousState === 'HALF_OPEN' && snapshot.state === 'OPEN') {
       this.logger.error('Circuit breaker test request failed, reopening circuit')
-      this.transitionTo('OPEN')
-    } else if (
-      this.state === 'CLOSED' &&
-      this.failures >= this.config.failureThreshold
-    ) {
+    } else if (previousState === 'CLOSED' && snapshot.state === 'OPEN') {
       this.logger.error('Circuit breaker failure threshold reached, opening circuit', {
         threshold: this.config.failureThreshold,
-        failures: this.failures,
+        failures: snapshot.recentFailures.length,
         timeoutMinutes: this.config.timeoutMs / 60000
       })
-      this.transitionTo('OPEN')
     }
-
-    this.cleanOldMetrics()
   }
 
-  private shouldAttemptReset(): boolean {
-    return Date.now() - this.lastFailureTime >= this.config.timeoutMs
+  private getNextAttemptTime(snapshot: CircuitBreakerSnapshot): Date | undefined {
+    if (snapshot.forced || !snapshot.openedAt) {
+      return undefined
+    }
+    return new Date(snapshot.openedAt.getTime() + this.config.timeoutMs)
   }
 
-  private getNextAttemptTime(): Date {
-    return new Date(this.lastFailureTime + this.config.timeoutMs)
-  }
+  /**
+   * Apply an operation to the store and adopt the state it returns
+   */
+  private async sync(
+    operation: (store: CircuitBreakerStore) => Promise<CircuitBreakerSnapshot>
+  ): Promise<CircuitBreakerSnapshot> {
+    let snapshot: CircuitBreakerSnapshot
+
+    try {
+      snapshot = await operation(this.store)
+    } catch (error) {
+      this.logger.warn('Circuit breaker store unavailable, using this instance\'s state', {
+        service: this.service,
+        store: this.store.kind,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      snapshot = await operation(this.fallbackStore)
+    }
 
-  private transitionTo(newState: 'CLOSED' | 'OPEN' | 'HALF_OPEN'): void {
-    const oldState = this.state
-    this.state = newState
-    this.stateChangedAt = Date.now()
+    if (snapshot.state !== this.snapshot.state) {
+      this.logger.info('Circuit breaker state transition', {
+        service: this.service,
+        from: this.snapshot.state,
+        to: snapshot.state,
+        forced: snapshot.forced,
+        timestamp: snapshot.stateChangedAt.toISOString()
+      })
+    }
 
-    this.logger.info('Circuit breaker state transition', {
-      from: oldState,
-      to: newState,
-      timestamp: new Date(this.stateChangedAt).toISOString()
-    })
+    this.snapshot = snapshot
+    this.syncedAt = Date.now()
+    return snapshot
   }
 
   private resetCounters(): void {
@@ -181,15 +267,6 @@ export class WhatsAppCircuitBreaker {
     this.successes = 0
     this.requests = 0
   }
-
-  private cleanOldMetrics(): void {
-    // In a production environment, you might want to maintain a sliding window
-    // For now, we reset counters periodically to prevent overflow
-    if (this.requests > 1000) {
-      this.logger.debug('Resetting circuit breaker counters to prevent overflow')
-      this.resetCounters()
-    }
-  }
 }
 
 /**
@@ -0,0 +1,15 @@
+/**
+ * Cron Endpoint Authorization
+ * Shared by the outbox dispatch and retry routes
+ */
+
+/**
+ * Cron callers send `Authorization: Bearer $CRON_SECRET`; without a secret only development is open
+ */
+export const isCronRequestAuthorized = (request: Request): boolean => {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production'
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
@@ -0,0 +1,200 @@
+/**
+ * Digest Service
+ * Sends the daily or weekly deal digest: one summary per role, delivered to each recipient
+ * who opted in on each of their channels. Every send is recorded in notification_digests,
+ * so running the job again only retries the recipients it failed to reach.
+ */
+
+import type {
+  DigestDelivery,
+  DigestPeriod,
+  DigestRunRequest,
+  DigestRunResult,
+  DigestSummary
+} from '@/types/notification-digests'
+import { DealRepository, getDealRepository } from '@/lib/repositories/deal.repository'
+import { MessageOutboxRepository, getMessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import {
+  NotificationDigestRepository,
+  getNotificationDigestRepository
+} from '@/lib/repositories/notification-digest.repository'
+import {
+  NotificationRecipientRepository,
+  getNotificationRecipientRepository
+} from '@/lib/repositories/notification-recipient.repository'
+import { NotificationRoleRepository, getNotificationRoleRepository } from '@/lib/repositories/notification-role.repository'
+import { SendMessageResult, WhatsAppLogger, WhatsAppServiceError } from './whatsapp.types'
+import { getNotificationChannel } from './channel-routing'
+import { NotificationTarget, getDigestTargets } from './recipient-directory'
+import { DigestWindow, buildDigestSummary, formatDigestMessage, getBusinessDate, getDigestWindow } from './digest'
+
+export class DigestService {
+  private readonly dealRepository: DealRepository
+  private readonly outboxRepository: MessageOutboxRepository
+  private readonly digestRepository: NotificationDigestRepository
+  private readonly recipientRepository: NotificationRecipientRepository
+  private readonly roleRepository: NotificationRoleRepository
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    dealRepository?: DealRepository,
+    outboxRepository?: MessageOutboxRepository,
+    digestRepository?: NotificationDigestRepository,
+    recipientRepository?: NotificationRecipientRepository,
+    roleRepository?: NotificationRoleRepository,
+    logger?: WhatsAppLogger
+  ) {
+    this.dealRepository = dealRepository || getDealRepository()
+    this.outboxRepository = outboxRepository || getMessageOutboxRepository()
+    this.digestRepository = digestRepository || getNotificationDigestRepository()
+    this.recipientRepository = recipientRepository || getNotificationRecipientRepository()
+    this.roleRepository = roleRepository || getNotificationRoleRepository()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[Digest] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[Digest] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[Digest] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[Digest] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Build the digest for the period ending on request.date (default today) and send it
+   * With dryRun, the messages are built but nothing is sent or recorded
+   */
+  async runDigest(request: DigestRunRequest): Promise<DigestRunResult> {
+    const window = getDigestWindow(request.period, request.date ?? getBusinessDate())
+
+    const [deals, failedMessages, targets, roles] = await Promise.all([
+      this.dealRepository.listDealsBetween(window.periodStart, window.periodEnd),
+      this.outboxRepository.listFailedCreatedBetween(window.from, window.to),
+      getDigestTargets(this.recipientRepository),
+      this.roleRepository.listAll()
+    ])
+
+    const summary = buildDigestSummary(request.period, window, deals, failedMessages)
+    const roleLabels = new Map(roles.map(role => [role.key, role.label]))
+    const messages = Object.fromEntries(
+      Array.from(new Set(targets.map(target => target.role)))
+        .map(role => [role, formatDigestMessage(summary, roleLabels.get(role) ?? role)])
+    )
+
+    const deliveries: DigestDelivery[] = []
+
+    if (request.dryRun) {
+      deliveries.push(...targets.map(target => this.toDelivery(target, 'dry_run')))
+    } else {
+      const alreadySent = new Set(
+        (await this.digestRepository.listSent(request.period, window.periodStart))
+          .map(digest => `${digest.recipient_id}:${digest.platform}`)
+      )
+
+      // One at a time so each channel's rate limiter paces the run
+      for (const target of targets) {
+        if (alreadySent.has(`${target.recipientId}:${target.platform}`)) {
+          deliveries.push(this.toDelivery(target, 'already_sent'))
+          continue
+        }
+        deliveries.push(await this.sendDigest(target, messages[target.role], request.period, window, summary))
+      }
+    }
+
+    const result: DigestRunResult = {
+      summary,
+      messages,
+      deliveries,
+      sent: deliveries.filter(delivery => delivery.status === 'sent').length,
+      failed: deliveries.filter(delivery => delivery.status === 'failed').length,
+      dryRun: request.dryRun ?? false
+    }
+
+    this.logger.info('Digest run completed', {
+      period: request.period,
+      periodStart: window.periodStart,
+      periodEnd: window.periodEnd,
+      deals: summary.dealCount,
+      recipients: targets.length,
+      sent: result.sent,
+      failed: result.failed,
+      dryRun: result.dryRun
+    })
+
+    return result
+  }
+
+  private async sendDigest(
+    target: NotificationTarget,
+    messageText: string,
+    period: DigestPeriod,
+    window: DigestWindow,
+    summary: DigestSummary
+  ): Promise<DigestDelivery> {
+    let result: SendMessageResult
+
+    try {
+      result = await getNotificationChannel(target.platform).sendMessage(target.recipient, messageText, undefined, target.role)
+    } catch (error) {
+      // Configuration errors are thrown before a send is attempted
+      result = {
+        success: false,
+        recipient: target.recipient,
+        role: target.role,
+        error: error instanceof WhatsAppServiceError
+          ? error
+          : new WhatsAppServiceError(error instanceof Error ? error.message : 'Unknown channel error', 'UNKNOWN_ERROR')
+      }
+    }
+
+    await this.digestRepository.record({
+      period,
+      period_start: window.periodStart,
+      period_end: window.periodEnd,
+      recipient_id: target.recipientId!,
+      role: target.role,
+      platform: target.platform,
+      recipient_address: target.recipient,
+      message_text: messageText,
+      summary,
+      status: result.success ? 'sent' : 'failed',
+      external_message_id: result.externalMessageId ?? null,
+      error_type: result.success ? null : result.error?.type ?? 'UNKNOWN_ERROR',
+      error_message: result.success ? null : result.error?.message ?? 'Unknown error',
+      sent_at: result.success ? new Date().toISOString() : null
+    })
+
+    if (!result.success) {
+      this.logger.warn('Digest failed', {
+        recipient: target.name,
+        platform: target.platform,
+        errorType: result.error?.type,
+        error: result.error?.message
+      })
+      return this.toDelivery(target, 'failed', result.error?.message)
+    }
+
+    return this.toDelivery(target, 'sent')
+  }
+
+  private toDelivery(target: NotificationTarget, status: DigestDelivery['status'], error?: string): DigestDelivery {
+    return {
+      role: target.role,
+      platform: target.platform,
+      recipientId: target.recipientId!,
+      name: target.name ?? target.recipient,
+      status,
+      error
+    }
+  }
+}
+
+/**
+ * Singleton digest service instance
+ */
+let globalDigestService: DigestService | null = null
+
+export const getDigestService = (): DigestService => {
+  if (!globalDigestService) {
+    globalDigestService = new DigestService()
+  }
+  return globalDigestService
+}
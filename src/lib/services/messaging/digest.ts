@@ -0,0 +1,213 @@
+/**
+ * Deal Digests
+ * Aggregates a period's deals into the daily or weekly digest and formats it as one message.
+ * Periods are business dates in India time; profit figures come from the shared costing
+ * module and only cover new-material deals (inventory deals have no purchase cost).
+ */
+
+import type { Deal, MessageOutbox } from '@/types'
+import type { DigestCustomer, DigestDeal, DigestPeriod, DigestSummary } from '@/types/notification-digests'
+import { calculateDealCosting, type DealChargesInput, type PurchaseLineCost } from '@/lib/costing/deal-costing'
+import { TEMPLATE_HELPERS } from './template-engine'
+
+export const DIGEST_TIME_ZONE = 'Asia/Kolkata'
+
+// India has no daylight saving, so business days always start at this offset
+const BUSINESS_UTC_OFFSET = '+05:30'
+
+const TOP_CUSTOMER_COUNT = 5
+const WORST_MARGIN_COUNT = 3
+
+export interface DigestWindow {
+  periodStart: string
+  periodEnd: string
+  // Instants bounding the period, end exclusive (for created_at filters)
+  from: Date
+  to: Date
+}
+
+/**
+ * Today's business date (YYYY-MM-DD) in India time
+ */
+export const getBusinessDate = (now: Date = new Date()): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: DIGEST_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(now)
+}
+
+/**
+ * The day (daily) or the seven days (weekly) ending on a business date
+ */
+export const getDigestWindow = (period: DigestPeriod, endDate: string): DigestWindow => {
+  const periodStart = addDays(endDate, period === 'weekly' ? -6 : 0)
+
+  return {
+    periodStart,
+    periodEnd: endDate,
+    from: new Date(`${periodStart}T00:00:00${BUSINESS_UTC_OFFSET}`),
+    to: new Date(`${addDays(endDate, 1)}T00:00:00${BUSINESS_UTC_OFFSET}`)
+  }
+}
+
+/**
+ * Totals, top customers, worst-margin deals and failed notifications for a period
+ */
+export const buildDigestSummary = (
+  period: DigestPeriod,
+  window: DigestWindow,
+  deals: Deal[],
+  failedMessages: Pick<MessageOutbox, 'error_type'>[]
+): DigestSummary => {
+  const customers = new Map<string, DigestCustomer>()
+  const costed: DigestDeal[] = []
+  let quantityKg = 0
+  let revenue = 0
+  let costedRevenue = 0
+  let grossProfit = 0
+
+  for (const deal of deals) {
+    const quantitySold = deal['Quantity Sold'] ?? 0
+    const saleAmount = quantitySold * (deal['Sale Rate'] ?? 0)
+    const saleParty = deal['Sale Party'] || 'Unknown customer'
+
+    quantityKg += quantitySold
+    revenue += saleAmount
+
+    const customer = customers.get(saleParty) ?? { name: saleParty, dealCount: 0, quantityKg: 0, revenue: 0 }
+    customer.dealCount++
+    customer.quantityKg += quantitySold
+    customer.revenue += saleAmount
+    customers.set(saleParty, customer)
+
+    if (!hasCost(deal)) continue
+
+    const isFromInventory = deal.material_source === 'from-inventory'
+    const costing = calculateDealCosting({
+      quantitySold,
+      saleRate: deal['Sale Rate'] ?? 0,
+      materialSource: isFromInventory ? 'from-inventory' : 'new-material',
+      quantityPurchased: deal['Quantity Purchased'] ?? quantitySold,
+      purchaseRate: deal['Purchase Rate'] ?? 0,
+      purchaseLines: (deal.purchase_lines as PurchaseLineCost[] | null) ?? undefined,
+      inventoryCostPerKg: deal.inventory_cost_per_kg,
+      charges: (deal.charges as DealChargesInput | null) ?? undefined
+    })
+
+    costedRevenue += costing.saleAmount
+    grossProfit += costing.grossProfit
+    costed.push({
+      id: deal.id,
+      srNo: deal.SrNo,
+      date: deal.Date,
+      saleParty,
+      product: deal.Product,
+      quantityKg: quantitySold,
+      netMarginPercent: costing.netMarginPercent,
+      netProfit: costing.netProfit
+    })
+  }
+
+  const byErrorType: Record<string, number> = {}
+  for (const message of failedMessages) {
+    const type = message.error_type ?? 'UNKNOWN_ERROR'
+    byErrorType[type] = (byErrorType[type] ?? 0) + 1
+  }
+
+  return {
+    period,
+    periodStart: window.periodStart,
+    periodEnd: window.periodEnd,
+    dealCount: deals.length,
+    quantityKg: round2(quantityKg),
+    revenue: round2(revenue),
+    costedDealCount: costed.length,
+    grossProfit: round2(grossProfit),
+    grossMarginPercent: costedRevenue > 0 ? round2((grossProfit / costedRevenue) * 100) : null,
+    topCustomers: Array.from(customers.values())
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, TOP_CUSTOMER_COUNT)
+      .map(customer => ({ ...customer, quantityKg: round2(customer.quantityKg), revenue: round2(customer.revenue) })),
+    worstMarginDeals: costed
+      .sort((a, b) => a.netMarginPercent - b.netMarginPercent)
+      .slice(0, WORST_MARGIN_COUNT),
+    failedNotifications: { count: failedMessages.length, byErrorType }
+  }
+}
+
+/**
+ * Digest message for a role (WhatsApp *bold* markup, like the deal notifications)
+ */
+export const formatDigestMessage = (summary: DigestSummary, roleLabel: string): string => {
+  const title = summary.period === 'weekly'
+    ? `📊 *WEEKLY DIGEST* ${formatDate(summary.periodStart)} – ${formatDate(summary.periodEnd)}`
+    : `📊 *DAILY DIGEST* ${formatDate(summary.periodEnd)}`
+
+  const lines = [title, `For: ${roleLabel}`, '']
+
+  if (summary.dealCount === 0) {
+    lines.push('No deals registered.')
+  } else {
+    lines.push(
+      `Deals: ${summary.dealCount}`,
+      `Tonnage: ${formatTonnes(summary.quantityKg)}`,
+      `Revenue: ${formatCurrency(summary.revenue)}`,
+      summary.costedDealCount > 0
+        ? `Gross profit: ${formatCurrency(summary.grossProfit)} (${summary.grossMarginPercent ?? 0}% on ${summary.costedDealCount} costed deal${summary.costedDealCount === 1 ? '' : 's'})`
+        : 'Gross profit: n/a (no costed deals)',
+      '',
+      '🏆 *Top customers*',
+      ...summary.topCustomers.map((customer, index) =>
+        `${index + 1}. ${customer.name}: ${formatCurrency(customer.revenue)} (${customer.dealCount} deal${customer.dealCount === 1 ? '' : 's'}, ${formatTonnes(customer.quantityKg)})`
+      )
+    )
+
+    if (summary.worstMarginDeals.length > 0) {
+      lines.push(
+        '',
+        '⚠️ *Lowest margins*',
+        ...summary.worstMarginDeals.map((deal, index) =>
+          `${index + 1}. #${deal.srNo || deal.id.slice(0, 8)} ${deal.saleParty}${deal.product ? ` · ${deal.product}` : ''}: ${deal.netMarginPercent}% (${formatCurrency(deal.netProfit)})`
+        )
+      )
+    }
+  }
+
+  const failed = summary.failedNotifications
+  lines.push(
+    '',
+    failed.count === 0
+      ? '✅ All deal notifications went out'
+      : `❗ Failed notifications: ${failed.count} (${Object.entries(failed.byErrorType).map(([type, count]) => `${type} ${count}`).join(', ')})`,
+    '',
+    '---',
+    'Polymer Trading System'
+  )
+
+  return lines.join('\n')
+}
+
+// Historical rows have no material_source; a purchase rate means the material was bought for the deal.
+// Inventory deals are costed from their stock, when they recorded its cost.
+const hasCost = (deal: Deal): boolean => {
+  if (deal.material_source) {
+    return deal.material_source === 'new-material' || deal.inventory_cost_per_kg !== null
+  }
+  return (deal['Purchase Rate'] ?? 0) > 0
+}
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+const formatCurrency = (amount: number): string => TEMPLATE_HELPERS.formatCurrency(amount)
+
+const formatDate = (date: string): string => TEMPLATE_HELPERS.formatDate(date)
+
+const formatTonnes = (quantityKg: number): string => `${TEMPLATE_HELPERS.formatDecimal(quantityKg / 1000)} MT`
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
@@ -6,17 +6,71 @@
 // Core service
 export { WhatsAppService, getGlobalWhatsAppService, createWhatsAppService } from './whatsapp.service'
 
+// Telegram channel
+export { TelegramService, getGlobalTelegramService, createTelegramService } from './telegram.service'
+export { telegramConfig, isTelegramEnabled, getTelegramRecipients } from './telegram.config'
+
+// Channel abstraction, recipients and routing rules
+export { CHANNEL_PLATFORMS, getEnabledChannels, isAnyChannelEnabled, isChannelEnabled } from './notification-channel'
+export type { NotificationChannel, ChannelPlatform, ChannelConnectionResult } from './notification-channel'
+export { getNotificationChannel } from './channel-routing'
+export {
+  getChannelRouting,
+  getDigestTargets,
+  getEnvironmentTargets,
+  getNotificationTargets,
+  getRecipientAddress
+} from './recipient-directory'
+export type { NotificationTarget } from './recipient-directory'
+export { RecipientSettingsService, getRecipientSettingsService } from './recipient-settings.service'
+export { NotificationRouter, getNotificationRouter } from './notification-router'
+export { RoutingRuleService, getRoutingRuleService } from './routing-rule.service'
+export { ROUTING_FIELDS, ROUTING_OPERATORS, buildRoutingFacts, evaluateCondition, evaluateRule } from './routing-rules'
+
+// Outbox dispatch
+export { OutboxDispatcher, getOutboxDispatcher } from './outbox-dispatcher'
+export { OutboxRetryWorker, getOutboxRetryWorker } from './outbox-retry-worker'
+export { RetryPolicy, createRetryPolicy, NON_RETRYABLE_ERROR_TYPES } from './retry-policy'
+
+// Daily and weekly digests
+export { DigestService, getDigestService } from './digest.service'
+export { buildDigestSummary, formatDigestMessage, getDigestWindow } from './digest'
+
+// Meta error codes and template fallback
+export { SESSION_WINDOW_ERROR_CODE, classifyMetaError, createWhatsAppApiError } from './whatsapp-errors'
+
+// Delivery and read receipts
+export { WhatsAppWebhookHandler, getWhatsAppWebhookHandler, verifyWebhookSignature } from './whatsapp-webhook'
+
 // Configuration
-export { whatsAppConfig, validateWhatsAppConfig, isWhatsAppEnabled } from './whatsapp.config'
+export { whatsAppConfig, validateWhatsAppConfig, isWhatsAppEnabled, getWhatsAppRecipients, getWhatsAppRetrySettings, getWhatsAppWebhookSettings } from './whatsapp.config'
 
 // Message templates
 export { generateMessage, generateAllMessages, messageTemplates } from './message-templates'
+export { DEFAULT_TEMPLATES, TEMPLATE_VARIABLES, getTemplateName, renderDealMessage, renderDealStatusMessage, renderDealAmendmentMessage, buildTemplateContext } from './message-templates'
+export { MessageTemplateService, getMessageTemplateService } from './message-template.service'
+export { renderTemplate, validateTemplate, extractTemplateVariables, TemplateSyntaxError, TEMPLATE_HELPERS } from './template-engine'
 
 // Rate limiting
 export { WhatsAppRateLimiter, getGlobalRateLimiter } from './rate-limiter'
+export {
+  MemoryRateLimiterStore,
+  SupabaseRateLimiterStore,
+  createRateLimiterStore,
+  getGlobalRateLimiterStore
+} from './rate-limiter-store'
+export type { RateLimiterStore, RateLimiterStoreKind, RateLimitDecision } from './rate-limiter-store'
 
 // Circuit breaker
-export { WhatsAppCircuitBreaker, getGlobalCircuitBreaker } from './circuit-breaker'
+export { WhatsAppCircuitBreaker, getGlobalCircuitBreaker, DEFAULT_CIRCUIT_BREAKER_CONFIG } from './circuit-breaker'
+export {
+  MemoryCircuitBreakerStore,
+  SupabaseCircuitBreakerStore,
+  createCircuitBreakerStore,
+  getGlobalCircuitBreakerStore
+} from './circuit-breaker-store'
+export type { CircuitBreakerStore, CircuitBreakerSnapshot, CircuitState } from './circuit-breaker-store'
+export { CircuitBreakerAdminService, getCircuitBreakerAdminService } from './circuit-breaker-admin.service'
 
 // Types
 export type {
@@ -26,14 +80,23 @@ export type {
   SendMessageResult,
   BulkSendResult,
   WhatsAppMessage,
+  WhatsAppTextMessage,
+  WhatsAppTemplateMessage,
+  WhatsAppTemplate,
+  WhatsAppTemplateComponent,
+  WhatsAppTemplateParameter,
+  SendMessageOptions,
   WhatsAppResponse,
   WhatsAppError,
   WhatsAppLogger,
+  WhatsAppWebhookPayload,
+  WhatsAppStatusUpdate,
   MessageTemplate,
   ValidationResult,
   TestMessageRequest,
   TestMessageResponse
 } from './whatsapp.types'
+export type { TelegramConfig } from './telegram.types'
 
 // Error classes
 export {
@@ -0,0 +1,253 @@
+/**
+ * Message Template Service
+ * Renders deal notifications from the operator-edited copies in message_templates,
+ * falling back to the seed defaults in message-templates.ts, and validates edits.
+ */
+
+import type { MessageTemplate } from '@/types'
+import type { Json } from '@/types/database.types'
+import type {
+  MessageTemplateCatalog,
+  MessageTemplateUpdateRequest,
+  TemplatePreviewResult
+} from '@/types/message-templates'
+import { MessageTemplateRepository, getMessageTemplateRepository } from '@/lib/repositories/message-template.repository'
+import {
+  BUILT_IN_RECIPIENT_ROLES,
+  DealData,
+  RecipientRole,
+  WhatsAppLogger,
+  WhatsAppTemplate,
+  isBuiltInRecipientRole
+} from './whatsapp.types'
+import { ChannelPlatform } from './notification-channel'
+import { TEMPLATE_HELPERS, extractTemplateVariables, validateTemplate } from './template-engine'
+import {
+  DEFAULT_DEAL_TEMPLATE,
+  DEFAULT_TEMPLATES,
+  DEFAULT_TEMPLATE_NAME,
+  TEMPLATE_VARIABLES,
+  getDefaultTemplateText,
+  getTemplateName,
+  renderDealMessage
+} from './message-templates'
+
+export interface UpdateTemplateResult {
+  success: boolean
+  template?: MessageTemplate
+  error?: string
+  validationErrors?: string[]
+  notFound?: boolean
+}
+
+// Edits reach new notifications within this long on every server instance
+const TEMPLATE_CACHE_TTL_MS = 60_000
+
+// Meta rejects template parameters that are empty or contain newlines, tabs or runs of spaces
+const toTemplateParameterText = (text: string): string => text.replace(/\s+/g, ' ').trim() || '-'
+
+const parseTemplateParams = (value: Json): string[] | null =>
+  Array.isArray(value) && value.every(param => typeof param === 'string') ? value as string[] : null
+
+export class MessageTemplateService {
+  private readonly repository: MessageTemplateRepository
+  private readonly logger: WhatsAppLogger
+  private readonly cacheTtlMs: number
+  private cache: { templates: MessageTemplate[]; loadedAt: number } | null = null
+
+  constructor(
+    repository?: MessageTemplateRepository,
+    logger?: WhatsAppLogger,
+    cacheTtlMs: number = TEMPLATE_CACHE_TTL_MS
+  ) {
+    this.repository = repository || getMessageTemplateRepository()
+    this.cacheTtlMs = cacheTtlMs
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[Templates] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[Templates] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[Templates] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[Templates] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Message text for a role on a channel
+   * Uses the role's own template; roles added in settings fall back to deal_registered_default.
+   * A stored template that fails to render (or can't be loaded) falls back to the seed
+   * default, so a bad edit never stops deal notifications from being queued
+   */
+  async renderMessage(role: RecipientRole, deal: DealData, platform: ChannelPlatform = 'whatsapp'): Promise<string> {
+    const template = await this.findRoleTemplate(role, platform)
+
+    if (template) {
+      try {
+        return renderDealMessage(template.template_text, deal)
+      } catch (error) {
+        this.logger.error('Stored template failed to render, using default', {
+          template: template.name,
+          error: error instanceof Error ? error.message : error
+        })
+      }
+    }
+
+    return renderDealMessage(getDefaultTemplateText(role), deal)
+  }
+
+  /**
+   * Approved WhatsApp template sent instead of the text when the recipient's 24-hour session
+   * window is closed, with its body parameters rendered from the deal
+   * Null when the role's template names no WhatsApp template (or its parameters fail to render)
+   */
+  async renderWhatsAppTemplate(role: RecipientRole, deal: DealData): Promise<WhatsAppTemplate | null> {
+    const template = await this.findRoleTemplate(role, 'whatsapp')
+    if (!template?.whatsapp_template_id) {
+      return null
+    }
+
+    try {
+      const params = parseTemplateParams(template.whatsapp_template_params)
+      if (!params) {
+        throw new Error('whatsapp_template_params must be an array of expressions')
+      }
+
+      return {
+        name: template.whatsapp_template_id,
+        language: { code: template.whatsapp_template_language },
+        components: params.length > 0
+          ? [{
+              type: 'body',
+              parameters: params.map(param => ({
+                type: 'text',
+                text: toTemplateParameterText(renderDealMessage(`{{${param}}}`, deal))
+              }))
+            }]
+          : []
+      }
+    } catch (error) {
+      this.logger.error('WhatsApp template parameters failed to render, no fallback for this message', {
+        template: template.name,
+        whatsappTemplate: template.whatsapp_template_id,
+        error: error instanceof Error ? error.message : error
+      })
+      return null
+    }
+  }
+
+  /**
+   * Templates with their seed defaults, variables and helpers for the editor
+   */
+  async getCatalog(): Promise<MessageTemplateCatalog> {
+    const templates = await this.repository.listAll()
+
+    return {
+      templates,
+      defaults: {
+        ...Object.fromEntries(BUILT_IN_RECIPIENT_ROLES.map(role => [getTemplateName(role), DEFAULT_TEMPLATES[role]])),
+        [DEFAULT_TEMPLATE_NAME]: DEFAULT_DEAL_TEMPLATE
+      },
+      variables: TEMPLATE_VARIABLES,
+      helpers: Object.keys(TEMPLATE_HELPERS)
+    }
+  }
+
+  /**
+   * Save an edit; template text and WhatsApp template parameters must parse and only use
+   * known variables
+   */
+  async updateTemplate(id: string, request: MessageTemplateUpdateRequest): Promise<UpdateTemplateResult> {
+    const current = await this.repository.getById(id)
+    if (!current) {
+      return { success: false, notFound: true, error: `Template ${id} not found` }
+    }
+
+    const knownVariables = Object.keys(TEMPLATE_VARIABLES)
+    const validationErrors = [
+      ...(request.templateText !== undefined ? validateTemplate(request.templateText, knownVariables) : []),
+      ...(request.whatsappTemplateParams ?? []).flatMap((param, index) =>
+        validateTemplate(`{{${param}}}`, knownVariables).map(error => `whatsappTemplateParams.${index}: ${error}`)
+      )
+    ]
+    if (validationErrors.length > 0) {
+      return { success: false, error: 'Validation failed', validationErrors }
+    }
+
+    const template = await this.repository.update(id, {
+      template_text: request.templateText,
+      variables: request.templateText !== undefined ? extractTemplateVariables(request.templateText) : undefined,
+      is_active: request.isActive,
+      whatsapp_template_id: request.whatsappTemplateId,
+      whatsapp_template_language: request.whatsappTemplateLanguage,
+      whatsapp_template_params: request.whatsappTemplateParams,
+      updated_by: request.updatedBy ?? 'operator'
+    })
+
+    this.invalidateCache()
+    this.logger.info('Template updated', { template: template.name, isActive: template.is_active })
+
+    return { success: true, template }
+  }
+
+  /**
+   * Render unsaved template text against a deal (the editor's live preview)
+   */
+  previewTemplate(templateText: string, deal: DealData): TemplatePreviewResult {
+    const validationErrors = validateTemplate(templateText, Object.keys(TEMPLATE_VARIABLES))
+    const message = validationErrors.length === 0 ? renderDealMessage(templateText, deal) : ''
+
+    return { message, messageLength: message.length, validationErrors }
+  }
+
+  invalidateCache(): void {
+    this.cache = null
+  }
+
+  /**
+   * Active template for a role: its own, or deal_registered_default for roles added in settings
+   */
+  private async findRoleTemplate(role: RecipientRole, platform: ChannelPlatform): Promise<MessageTemplate | null> {
+    return await this.findActiveTemplate(getTemplateName(role), platform)
+      ?? (isBuiltInRecipientRole(role) ? null : await this.findActiveTemplate(DEFAULT_TEMPLATE_NAME, platform))
+  }
+
+  /**
+   * Active template for a name on a channel: a channel-specific row wins over one for 'both'
+   */
+  private async findActiveTemplate(name: string, platform: ChannelPlatform): Promise<MessageTemplate | null> {
+    const templates = await this.getActiveTemplates()
+    const candidates = templates.filter(template => template.name === name)
+
+    return candidates.find(template => template.platform === platform)
+      ?? candidates.find(template => template.platform === 'both')
+      ?? null
+  }
+
+  private async getActiveTemplates(): Promise<MessageTemplate[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtlMs) {
+      return this.cache.templates
+    }
+
+    try {
+      const templates = await this.repository.listActive()
+      this.cache = { templates, loadedAt: Date.now() }
+      return templates
+    } catch (error) {
+      this.logger.warn('Could not load templates, using defaults', {
+        error: error instanceof Error ? error.message : error
+      })
+      return this.cache?.templates ?? []
+    }
+  }
+}
+
+/**
+ * Singleton message template service instance
+ */
+let globalMessageTemplateService: MessageTemplateService | null = null
+
+export const getMessageTemplateService = (): MessageTemplateService => {
+  if (!globalMessageTemplateService) {
+    globalMessageTemplateService = new MessageTemplateService()
+  }
+  return globalMessageTemplateService
+}
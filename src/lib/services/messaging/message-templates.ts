@@ -1,122 +1,272 @@
-import { DealData, MessageTemplate, RecipientRole } from './whatsapp.types'
+import { BuiltInRecipientRole, DealData, MessageTemplate, RecipientRole, isBuiltInRecipientRole } from './whatsapp.types'
+import { calculateDealCosting, getMarginBand, hasAdditionalCharges, type DealCosting } from '@/lib/costing/deal-costing'
+import { INVENTORY_COST_METHOD_LABELS } from '@/lib/costing/inventory-costing'
+import { DEAL_STATUS_LABELS, type DealStatus } from '@/types/deal-status'
+import { AMENDABLE_DEAL_FIELD_LABELS, type DealFieldChange } from '@/types/deal-amendment'
+import { TEMPLATE_HELPERS, TemplateContext, renderTemplate } from './template-engine'
 
 /**
  * WhatsApp Message Templates for Different Roles
- * Each role receives customized messages with relevant information
+ * Each role receives customized messages with relevant information.
+ *
+ * The texts below are the seed defaults for message_templates (one row per role, see
+ * getTemplateName). Operators edit the stored copies; these are used when a role has no
+ * active row or the stored text cannot be rendered.
  */
 
+const formatCurrency = (amount: number): string => TEMPLATE_HELPERS.formatCurrency(amount)
+
+const formatNumber = (num: number): string => TEMPLATE_HELPERS.formatNumber(num)
+
+const formatDate = (date: Date): string => TEMPLATE_HELPERS.formatDate(date)
+
 /**
- * Format currency amount for display
+ * Calculate deal metrics (landed cost, net margin) with the shared costing module
  */
-const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-IN', {
-    style: 'currency',
-    currency: 'INR',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(amount)
+const calculateDealMetrics = (deal: DealData): DealCosting => {
+  return calculateDealCosting(deal)
 }
 
 /**
- * Format number with Indian number system
+ * Get the human-facing deal number (SrNo), falling back to the record ID
  */
-const formatNumber = (num: number): string => {
-  return new Intl.NumberFormat('en-IN').format(num)
+const getDealNumber = (deal: DealData): string => {
+  return deal.srNo || deal.id
 }
 
 /**
- * Format date for display
+ * Get product display string
  */
-const formatDate = (date: Date): string => {
-  return new Intl.DateTimeFormat('en-IN', {
-    day: '2-digit',
-    month: 'short',
-    year: 'numeric'
-  }).format(date)
+const getProductDisplay = (deal: DealData): string => {
+  if (deal.product && deal.grade && deal.company) {
+    return `${deal.product} - ${deal.grade} (${deal.company})`
+  }
+  return deal.productCode || 'Product details pending'
 }
 
 /**
- * Calculate deal metrics
+ * Get the GST/TCS invoice totals and any freight, loading or commission lines
  */
-const calculateDealMetrics = (deal: DealData) => {
-  const saleAmount = deal.quantitySold * deal.saleRate
-  const purchaseAmount = (deal.quantityPurchased || 0) * (deal.purchaseRate || 0)
-  const grossProfit = saleAmount - purchaseAmount
-  const profitMargin = saleAmount > 0 ? (grossProfit / saleAmount) * 100 : 0
+const getChargesBreakdown = (metrics: DealCosting): string => {
+  const { sale, purchase } = metrics
+  let breakdown = `Sale Invoice (incl. GST ${metrics.charges.sale.gstPercent}%${sale.tcsAmount > 0 ? ` + TCS ${metrics.charges.sale.tcsPercent}%` : ''}): ${formatCurrency(sale.invoiceAmount)}`
+
+  // Stock taken from inventory has a cost but no purchase invoice
+  if (purchase.baseAmount > 0) {
+    breakdown += `
+Purchase Invoice (incl. GST ${metrics.charges.purchase.gstPercent}%${purchase.tcsAmount > 0 ? ` + TCS ${metrics.charges.purchase.tcsPercent}%` : ''}): ${formatCurrency(purchase.invoiceAmount)}`
+  }
 
-  return {
-    saleAmount,
-    purchaseAmount,
-    grossProfit,
-    profitMargin: Math.round(profitMargin * 100) / 100 // Round to 2 decimal places
+  if (!hasAdditionalCharges(metrics)) {
+    return breakdown
   }
+
+  const lines: Array<[string, number]> = [
+    ['Sale Freight', sale.freightAmount],
+    ['Sale Loading/Unloading', sale.loadingUnloadingAmount],
+    ['Sale Commission', sale.commissionAmount],
+    ['Purchase Freight', purchase.freightAmount],
+    ['Purchase Loading/Unloading', purchase.loadingUnloadingAmount],
+    ['Purchase Commission', purchase.commissionAmount]
+  ]
+
+  breakdown += `
+
+🧾 CHARGES:`
+  lines
+    .filter(([, amount]) => amount > 0)
+    .forEach(([label, amount]) => {
+      breakdown += `
+${label}: ${formatCurrency(amount)}`
+    })
+
+  return breakdown
 }
 
 /**
- * Get product display string
+ * One line per source of a split purchase, with its quantity (and rate and amount when priced)
  */
-const getProductDisplay = (deal: DealData): string => {
-  if (deal.product && deal.grade && deal.company) {
-    return `${deal.product} - ${deal.grade} (${deal.company})`
+const getPurchaseLinesBreakdown = (deal: DealData, withAmounts: boolean): string => {
+  return (deal.purchaseLines || [])
+    .map(line => {
+      const label = line.source === 'stock' ? 'From stock' : line.purchaseParty || 'Supplier'
+      const quantity = `${formatNumber(line.quantity)}kg`
+      return withAmounts
+        ? `- ${label}: ${quantity} × ${formatCurrency(line.rate)}/kg = ${formatCurrency(line.quantity * line.rate)}`
+        : `- ${label}: ${quantity}`
+    })
+    .join('\n')
+}
+
+/**
+ * A changed field's value as shown in the amendment message
+ */
+const formatChangeValue = (change: DealFieldChange, value: DealFieldChange['before']): string => {
+  if (value === null || value === '') return '—'
+
+  switch (change.field) {
+    case 'date':
+      return formatDate(new Date(value))
+    case 'quantitySold':
+    case 'quantityPurchased':
+      return `${formatNumber(Number(value))}kg`
+    case 'saleRate':
+    case 'purchaseRate':
+      return `${formatCurrency(Number(value))}/kg`
+    case 'deliveryTerms':
+      return value === 'delivered' ? 'Delivered' : 'Ex-Warehouse (Pickup)'
+    default:
+      return String(value)
   }
-  return deal.productCode || 'Product details pending'
 }
 
 /**
- * ACCOUNTS TEAM MESSAGE
- * Focus: Financial details, payment terms, cost breakdown
+ * One line per changed field: "Sale Rate: before → after"
  */
-const accountsTemplate: MessageTemplate = {
-  role: 'accounts',
-  generateMessage: (deal: DealData): string => {
-    const metrics = calculateDealMetrics(deal)
-    const product = getProductDisplay(deal)
+const getChangesList = (changes: DealFieldChange[]): string => {
+  return changes
+    .map(change => `- ${AMENDABLE_DEAL_FIELD_LABELS[change.field]}: ${formatChangeValue(change, change.before)} → ${formatChangeValue(change, change.after)}`)
+    .join('\n')
+}
 
-    let message = `🏦 NEW DEAL REGISTERED
+/**
+ * Variables a template can use, with the description shown in the template editor
+ */
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  dealNumber: 'Deal number (SrNo), or the record ID before one is allocated',
+  date: 'Deal date',
+  saleParty: 'Customer name',
+  product: 'Product - grade (company), or the product code',
+  productCode: 'Product code',
+  quantitySold: 'Quantity sold (kg)',
+  saleRate: 'Sale rate per kg',
+  saleAmount: 'Quantity sold × sale rate',
+  purchaseParty: 'Supplier name (new material only); all suppliers of a split purchase',
+  quantityPurchased: 'Quantity purchased (kg) from suppliers',
+  purchaseRate: 'Purchase rate per kg; blended across suppliers of a split purchase',
+  purchaseAmount: 'Quantity purchased × purchase rate (less any surplus put into stock) plus any stock taken at its cost, or quantity sold × stock cost for inventory',
+  purchaseLinesBreakdown: 'Each supplier (and stock) of a split purchase with quantity, rate and amount',
+  purchaseLinesQuantities: 'Each supplier (and stock) of a split purchase with its quantity',
+  grossProfit: 'Sale amount - purchase amount',
+  profitMargin: 'Gross margin %',
+  landedCost: 'Purchase amount plus purchase-side charges (the surplus put into stock takes its share), or the stock cost for inventory',
+  netProfit: 'Profit after freight, loading and commission on both sides',
+  netMarginPercent: 'Net margin %',
+  netMarginPerKg: 'Net margin per kg sold',
+  marginBand: 'Net margin traffic light (🟢 🟡 🔴)',
+  chargesBreakdown: 'Invoice totals with GST/TCS and any additional charge lines',
+  warehouseLocation: 'Warehouse location',
+  inventoryCostPerKg: 'Cost per kg of the stock an inventory deal took',
+  inventoryCostMethod: 'How the stock was costed (Weighted average or FIFO)',
+  saleComments: 'Sale notes',
+  purchaseComments: 'Purchase notes',
+  finalComments: 'Special instructions',
+  dealStatus: 'Lifecycle status (Registered, Confirmed, Dispatched, ...)',
+  isNewMaterial: 'True when the material is a new purchase',
+  isInventory: 'True when the material comes from inventory',
+  isDelivered: 'True for delivered terms, false for ex-warehouse pickup',
+  hasSupplier: 'True for new material with a supplier',
+  hasPurchaseDetails: 'True for new material with supplier, purchase quantity and rate',
+  hasSplitPurchase: 'True for new material from more than one supplier or partly from stock',
+  hasInventoryCost: 'True for inventory deals with a stock cost',
+  hasPurchaseCost: 'True when the deal has a purchase amount or stock cost (net profit is meaningful)'
+}
 
-Deal ID: ${deal.id}
-Date: ${formatDate(deal.date)}
-Customer: ${deal.saleParty}
+/**
+ * Values for every template variable, computed from a deal
+ */
+export const buildTemplateContext = (deal: DealData): TemplateContext => {
+  const metrics = calculateDealMetrics(deal)
+  const isNewMaterial = deal.materialSource === 'new-material'
+  const hasInventoryCost = !isNewMaterial && deal.inventoryCostPerKg !== undefined
+  const hasPurchaseCost = metrics.purchaseAmount > 0
+  const hasSplitPurchase = isNewMaterial && (deal.purchaseLines?.length ?? 0) > 1
 
-💰 FINANCIAL DETAILS:
-Sale: ${formatNumber(deal.quantitySold)}kg × ${formatCurrency(deal.saleRate)}/kg = ${formatCurrency(metrics.saleAmount)}`
+  return {
+    dealNumber: getDealNumber(deal),
+    date: deal.date,
+    saleParty: deal.saleParty,
+    product: getProductDisplay(deal),
+    productCode: deal.productCode,
+    quantitySold: deal.quantitySold,
+    saleRate: deal.saleRate,
+    saleAmount: metrics.saleAmount,
+    purchaseParty: deal.purchaseParty,
+    quantityPurchased: deal.quantityPurchased ?? 0,
+    purchaseRate: deal.purchaseRate,
+    purchaseAmount: metrics.purchaseAmount,
+    grossProfit: metrics.grossProfit,
+    profitMargin: metrics.profitMargin,
+    landedCost: metrics.landedCost,
+    netProfit: metrics.netProfit,
+    netMarginPercent: metrics.netMarginPercent,
+    netMarginPerKg: metrics.netMarginPerKg,
+    marginBand: hasPurchaseCost ? getMarginBand(metrics.netMarginPercent) : '',
+    chargesBreakdown: getChargesBreakdown(metrics),
+    purchaseLinesBreakdown: hasSplitPurchase ? getPurchaseLinesBreakdown(deal, true) : '',
+    purchaseLinesQuantities: hasSplitPurchase ? getPurchaseLinesBreakdown(deal, false) : '',
+    warehouseLocation: deal.warehouseLocation,
+    inventoryCostPerKg: deal.inventoryCostPerKg,
+    inventoryCostMethod: deal.inventoryCostMethod ? INVENTORY_COST_METHOD_LABELS[deal.inventoryCostMethod] : undefined,
+    saleComments: deal.saleComments,
+    purchaseComments: deal.purchaseComments,
+    finalComments: deal.finalComments,
+    dealStatus: DEAL_STATUS_LABELS[deal.status || 'registered'],
+    isNewMaterial,
+    isInventory: !isNewMaterial,
+    isDelivered: deal.deliveryTerms === 'delivered',
+    hasSupplier: isNewMaterial && !!deal.purchaseParty,
+    hasPurchaseDetails: isNewMaterial && !!deal.purchaseParty && !!deal.quantityPurchased && !!deal.purchaseRate,
+    hasSplitPurchase,
+    hasInventoryCost,
+    hasPurchaseCost
+  }
+}
 
-    // Add purchase details if available
-    if (deal.materialSource === 'new-material' && deal.purchaseParty && deal.quantityPurchased && deal.purchaseRate) {
-      message += `
-Purchase: ${formatNumber(deal.quantityPurchased)}kg × ${formatCurrency(deal.purchaseRate)}/kg = ${formatCurrency(metrics.purchaseAmount)}
-Gross Profit: ${formatCurrency(metrics.grossProfit)} (${metrics.profitMargin}%)`
-    }
+/**
+ * ACCOUNTS TEAM MESSAGE
+ * Focus: Financial details, payment terms, cost breakdown
+ */
+const ACCOUNTS_TEMPLATE = `🏦 NEW DEAL REGISTERED
 
-    message += `
+Deal No: {{dealNumber}}
+Date: {{formatDate date}}
+Customer: {{saleParty}}
 
-📦 PRODUCT DETAILS:
-${product}
-Delivery: ${deal.deliveryTerms === 'delivered' ? 'Delivered' : 'Ex-Warehouse (Pickup)'}
-Source: ${deal.materialSource === 'new-material' ? 'New Purchase' : 'From Inventory'}`
-
-    // Add supplier info if applicable
-    if (deal.purchaseParty) {
-      message += `
-Supplier: ${deal.purchaseParty}`
-    }
+💰 FINANCIAL DETAILS:
+Sale: {{formatNumber quantitySold}}kg × {{formatCurrency saleRate}}/kg = {{formatCurrency saleAmount}}
+{{#if hasPurchaseDetails}}
+{{#if hasSplitPurchase}}
+Purchase:
+{{purchaseLinesBreakdown}}
+Total: {{formatCurrency purchaseAmount}}
+{{else}}
+Purchase: {{formatNumber quantityPurchased}}kg × {{formatCurrency purchaseRate}}/kg = {{formatCurrency purchaseAmount}}
+{{/if}}
+Gross Profit: {{formatCurrency grossProfit}} ({{profitMargin}}%)
+{{/if}}
+{{chargesBreakdown}}
+{{#if hasPurchaseCost}}
+Net Profit: {{formatCurrency netProfit}} ({{netMarginPercent}}%, ₹{{formatDecimal netMarginPerKg}}/kg)
+{{/if}}
 
-    // Add comments if available
-    if (deal.saleComments) {
-      message += `
+📦 PRODUCT DETAILS:
+{{product}}
+Delivery: {{#if isDelivered}}Delivered{{else}}Ex-Warehouse (Pickup){{/if}}
+Source: {{#if isNewMaterial}}New Purchase{{else}}From Inventory{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
+{{#if saleComments}}
 
 💬 SALE NOTES:
-${deal.saleComments}`
-    }
-
-    if (deal.purchaseComments) {
-      message += `
+{{saleComments}}
+{{/if}}
+{{#if purchaseComments}}
 
 💬 PURCHASE NOTES:
-${deal.purchaseComments}`
-    }
-
-    message += `
+{{purchaseComments}}
+{{/if}}
 
 📋 ACTION REQUIRED:
 - Verify payment terms with customer
@@ -126,67 +276,50 @@ ${deal.purchaseComments}`
 ---
 Polymer Trading System`
 
-    return message
-  }
-}
-
 /**
  * LOGISTICS TEAM MESSAGE
  * Focus: Delivery coordination, supplier details, warehouse operations
  */
-const logisticsTemplate: MessageTemplate = {
-  role: 'logistics',
-  generateMessage: (deal: DealData): string => {
-    const product = getProductDisplay(deal)
-
-    let message = `🚚 DELIVERY COORDINATION REQUIRED
+const LOGISTICS_TEMPLATE = `🚚 DELIVERY COORDINATION REQUIRED
 
-Deal ID: ${deal.id}
-Customer: ${deal.saleParty}
-Date: ${formatDate(deal.date)}
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
+Date: {{formatDate date}}
 
 📦 LOGISTICS DETAILS:
-Quantity: ${formatNumber(deal.quantitySold)}kg
-Product: ${product}
-Delivery: ${deal.deliveryTerms === 'delivered' ? 'DELIVERY REQUIRED' : 'CUSTOMER PICKUP'}
-Source: ${deal.materialSource === 'new-material' ? 'New Purchase' : 'Warehouse Stock'}`
-
-    if (deal.warehouseLocation) {
-      message += `
-Warehouse: ${deal.warehouseLocation}`
-    }
-
-    // Coordination requirements based on material source
-    if (deal.materialSource === 'new-material' && deal.purchaseParty) {
-      message += `
-
+Quantity: {{formatNumber quantitySold}}kg
+Product: {{product}}
+Delivery: {{#if isDelivered}}DELIVERY REQUIRED{{else}}CUSTOMER PICKUP{{/if}}
+Source: {{#if isNewMaterial}}New Purchase{{else}}Warehouse Stock{{/if}}
+{{#if warehouseLocation}}
+Warehouse: {{warehouseLocation}}
+{{/if}}
+
+{{#if hasSupplier}}
 🔄 COORDINATION NEEDED:
-Supplier: ${deal.purchaseParty}
-Purchase Qty: ${formatNumber(deal.quantityPurchased || 0)}kg
+{{#if hasSplitPurchase}}
+{{purchaseLinesQuantities}}
+{{else}}
+Supplier: {{purchaseParty}}
+Purchase Qty: {{formatNumber quantityPurchased}}kg
+{{/if}}
 
 TASKS:
 - Coordinate supplier pickup/delivery
 - Schedule customer delivery
 - Ensure quantity matching
-- Quality check on receipt`
-    } else {
-      message += `
-
+- Quality check on receipt
+{{else}}
 📋 INVENTORY DISPATCH:
 - Verify stock availability
 - Prepare material for dispatch
-- ${deal.deliveryTerms === 'delivered' ? 'Schedule delivery to customer' : 'Notify customer for pickup'}`
-    }
-
-    // Add special notes
-    if (deal.finalComments) {
-      message += `
+- {{#if isDelivered}}Schedule delivery to customer{{else}}Notify customer for pickup{{/if}}
+{{/if}}
+{{#if finalComments}}
 
 ⚠️ SPECIAL INSTRUCTIONS:
-${deal.finalComments}`
-    }
-
-    message += `
+{{finalComments}}
+{{/if}}
 
 📞 CONTACTS:
 - Customer coordination required
@@ -195,49 +328,42 @@ ${deal.finalComments}`
 ---
 Polymer Trading System`
 
-    return message
-  }
-}
-
 /**
  * BOSS 1 MESSAGE
  * Focus: Executive summary, profit analysis, key metrics
  */
-const boss1Template: MessageTemplate = {
-  role: 'boss1',
-  generateMessage: (deal: DealData): string => {
-    const metrics = calculateDealMetrics(deal)
-    const product = getProductDisplay(deal)
-
-    let message = `📊 DEAL SUMMARY - BOSS 1
+const BOSS1_TEMPLATE = `📊 DEAL SUMMARY - BOSS 1
 
-Deal ID: ${deal.id}
-Customer: ${deal.saleParty}
-Product: ${product}
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
+Product: {{product}}
 
 💵 PROFIT ANALYSIS:
-Revenue: ${formatCurrency(metrics.saleAmount)}
-${deal.materialSource === 'new-material' && metrics.purchaseAmount > 0
-  ? `Cost: ${formatCurrency(metrics.purchaseAmount)}
-Profit: ${formatCurrency(metrics.grossProfit)} (${metrics.profitMargin}%)`
-  : 'Cost: From inventory (TBD)'}
+Revenue: {{formatCurrency saleAmount}}
+{{#if hasPurchaseCost}}
+{{#if hasInventoryCost}}
+Stock Cost: {{formatCurrency landedCost}} (₹{{formatDecimal inventoryCostPerKg}}/kg, {{inventoryCostMethod}})
+{{else}}
+Landed Cost: {{formatCurrency landedCost}}
+{{/if}}
+Net Profit: {{formatCurrency netProfit}} ({{netMarginPercent}}%)
+Per kg: ₹{{formatDecimal netMarginPerKg}}
+{{else}}
+Cost: Not recorded
+{{/if}}
 
 📈 DEAL METRICS:
-Volume: ${formatNumber(deal.quantitySold)}kg
-Rate: ${formatCurrency(deal.saleRate)}/kg
-Source: ${deal.materialSource === 'new-material' ? 'New Purchase' : 'Inventory'}`
-
-    if (deal.purchaseParty) {
-      message += `
-Supplier: ${deal.purchaseParty}`
-    }
-
-    message += `
+Volume: {{formatNumber quantitySold}}kg
+Rate: {{formatCurrency saleRate}}/kg
+Source: {{#if isNewMaterial}}New Purchase{{else}}Inventory{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
 
 🎯 STATUS:
-Date: ${formatDate(deal.date)}
-Delivery: ${deal.deliveryTerms === 'delivered' ? 'Delivery' : 'Pickup'}
-Processing: In progress
+Date: {{formatDate date}}
+Delivery: {{#if isDelivered}}Delivery{{else}}Pickup{{/if}}
+Status: {{dealStatus}}
 
 📞 TEAMS NOTIFIED:
 - Accounts team (financial processing)
@@ -246,50 +372,30 @@ Processing: In progress
 ---
 Polymer Trading System`
 
-    return message
-  }
-}
-
 /**
  * BOSS OG MESSAGE
  * Focus: High-level overview, strategic insights
  */
-const bossOGTemplate: MessageTemplate = {
-  role: 'bossog',
-  generateMessage: (deal: DealData): string => {
-    const metrics = calculateDealMetrics(deal)
-    const product = getProductDisplay(deal)
-
-    let message = `👑 DEAL ALERT - BOSS OG
+const BOSSOG_TEMPLATE = `👑 DEAL ALERT - BOSS OG
 
-Deal ID: ${deal.id}
-Customer: ${deal.saleParty}
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
 
 💰 QUICK OVERVIEW:
-Volume: ${formatNumber(deal.quantitySold)}kg
-Revenue: ${formatCurrency(metrics.saleAmount)}`
-
-    if (deal.materialSource === 'new-material' && metrics.purchaseAmount > 0) {
-      const marginStatus = metrics.profitMargin >= 15 ? '🟢' : metrics.profitMargin >= 10 ? '🟡' : '🔴'
-      message += `
-Profit: ${formatCurrency(metrics.grossProfit)} ${marginStatus}
-Margin: ${metrics.profitMargin}%`
-    }
-
-    message += `
+Volume: {{formatNumber quantitySold}}kg
+Revenue: {{formatCurrency saleAmount}}
+{{#if hasPurchaseCost}}
+Net Profit: {{formatCurrency netProfit}} {{marginBand}}
+Margin: {{netMarginPercent}}%
+{{/if}}
 
 📋 DETAILS:
-Product: ${product}
-Date: ${formatDate(deal.date)}
-Source: ${deal.materialSource === 'new-material' ? 'Purchase' : 'Stock'}`
-
-    if (deal.purchaseParty) {
-      message += `
-Supplier: ${deal.purchaseParty}`
-    }
-
-    // Strategic notes
-    message += `
+Product: {{product}}
+Date: {{formatDate date}}
+Source: {{#if isNewMaterial}}Purchase{{else}}Stock{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
 
 ⚡ STATUS: Processing
 📱 Teams coordinating delivery
@@ -297,14 +403,149 @@ Supplier: ${deal.purchaseParty}`
 ---
 Polymer Trading System`
 
-    return message
-  }
+/**
+ * GENERIC MESSAGE
+ * For roles added in notification settings that have no template of their own
+ */
+export const DEFAULT_DEAL_TEMPLATE = `📋 NEW DEAL REGISTERED
+
+Deal No: {{dealNumber}}
+Date: {{formatDate date}}
+Customer: {{saleParty}}
+Product: {{product}}
+
+Volume: {{formatNumber quantitySold}}kg
+Rate: {{formatCurrency saleRate}}/kg
+Revenue: {{formatCurrency saleAmount}}
+Source: {{#if isNewMaterial}}New Purchase{{else}}Inventory{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
+Delivery: {{#if isDelivered}}Delivered{{else}}Ex-Warehouse (Pickup){{/if}}
+
+---
+Polymer Trading System`
+
+/**
+ * STATUS CHANGE MESSAGE
+ * Sent to the roles that act on a deal's new status (see DealService.transitionDealStatus)
+ */
+const DEAL_STATUS_TEMPLATE = `🔄 DEAL STATUS UPDATE
+
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
+Product: {{product}}
+Volume: {{formatNumber quantitySold}}kg
+
+Status: {{previousStatus}} → {{dealStatus}}
+Updated by: {{performedBy}}
+{{#if statusNote}}
+Note: {{statusNote}}
+{{/if}}
+
+---
+Polymer Trading System`
+
+/**
+ * AMENDMENT MESSAGE
+ * Sent when a deal is corrected, listing only the changed fields the recipient's role sees
+ * (see DealService.amendDeal)
+ */
+const DEAL_AMENDED_TEMPLATE = `✏️ DEAL AMENDED
+
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
+Product: {{product}}
+
+CHANGES:
+{{changesList}}
+
+Updated by: {{performedBy}}
+{{#if amendmentNote}}
+Note: {{amendmentNote}}
+{{/if}}
+
+---
+Polymer Trading System`
+
+/**
+ * Seed template text per built-in role
+ */
+export const DEFAULT_TEMPLATES: Record<BuiltInRecipientRole, string> = {
+  accounts: ACCOUNTS_TEMPLATE,
+  logistics: LOGISTICS_TEMPLATE,
+  boss1: BOSS1_TEMPLATE,
+  bossog: BOSSOG_TEMPLATE
+}
+
+/**
+ * message_templates.name of a role's deal notification
+ */
+export const getTemplateName = (role: RecipientRole): string => `deal_registered_${role}`
+
+/**
+ * message_templates.name of the template for roles without their own
+ */
+export const DEFAULT_TEMPLATE_NAME = 'deal_registered_default'
+
+/**
+ * Seed text for a role: its own default, or the generic template for configured roles
+ */
+export const getDefaultTemplateText = (role: RecipientRole): string => {
+  return isBuiltInRecipientRole(role) ? DEFAULT_TEMPLATES[role] : DEFAULT_DEAL_TEMPLATE
 }
 
 /**
- * Template registry
+ * Render template text for a deal
  */
-const templates: Record<RecipientRole, MessageTemplate> = {
+export const renderDealMessage = (templateText: string, deal: DealData): string => {
+  return renderTemplate(templateText, buildTemplateContext(deal))
+}
+
+/**
+ * Render the status change message of a deal (deal.status is the new status)
+ */
+export const renderDealStatusMessage = (
+  deal: DealData,
+  change: { previousStatus: DealStatus; performedBy: string; note?: string }
+): string => {
+  return renderTemplate(DEAL_STATUS_TEMPLATE, {
+    ...buildTemplateContext(deal),
+    previousStatus: DEAL_STATUS_LABELS[change.previousStatus],
+    performedBy: change.performedBy,
+    statusNote: change.note
+  })
+}
+
+/**
+ * Render the amendment message of a deal (the deal as amended)
+ */
+export const renderDealAmendmentMessage = (
+  deal: DealData,
+  amendment: { changes: DealFieldChange[]; performedBy: string; note?: string }
+): string => {
+  return renderTemplate(DEAL_AMENDED_TEMPLATE, {
+    ...buildTemplateContext(deal),
+    changesList: getChangesList(amendment.changes),
+    performedBy: amendment.performedBy,
+    amendmentNote: amendment.note
+  })
+}
+
+const createDefaultTemplate = (role: RecipientRole): MessageTemplate => ({
+  role,
+  generateMessage: (deal: DealData): string => renderDealMessage(getDefaultTemplateText(role), deal)
+})
+
+const accountsTemplate = createDefaultTemplate('accounts')
+const logisticsTemplate = createDefaultTemplate('logistics')
+const boss1Template = createDefaultTemplate('boss1')
+const bossOGTemplate = createDefaultTemplate('bossog')
+
+/**
+ * Template registry (seed defaults)
+ */
+export const messageTemplates: Record<BuiltInRecipientRole, MessageTemplate> = {
   accounts: accountsTemplate,
   logistics: logisticsTemplate,
   boss1: boss1Template,
@@ -312,18 +553,15 @@ const templates: Record<RecipientRole, MessageTemplate> = {
 }
 
 /**
- * Get message template for a specific role
+ * Get message template for a specific role (roles without their own use the generic template)
  */
 export const getMessageTemplate = (role: RecipientRole): MessageTemplate => {
-  const template = templates[role]
-  if (!template) {
-    throw new Error(`No message template found for role: ${role}`)
-  }
-  return template
+  return isBuiltInRecipientRole(role) ? messageTemplates[role] : createDefaultTemplate(role)
 }
 
 /**
- * Generate message for a specific role and deal
+ * Generate message for a specific role and deal from the seed default
+ * (use MessageTemplateService to render the operator-edited copy)
  */
 export const generateMessage = (role: RecipientRole, deal: DealData): string => {
   const template = getMessageTemplate(role)
@@ -333,7 +571,7 @@ export const generateMessage = (role: RecipientRole, deal: DealData): string =>
 /**
  * Generate all messages for a deal
  */
-export const generateAllMessages = (deal: DealData): Record<RecipientRole, string> => {
+export const generateAllMessages = (deal: DealData): Record<BuiltInRecipientRole, string> => {
   return {
     accounts: generateMessage('accounts', deal),
     logistics: generateMessage('logistics', deal),
@@ -387,6 +625,7 @@ export const getMessagePreviews = (deal: DealData) => {
   return {
     deal: {
       id: deal.id,
+      srNo: deal.srNo,
       customer: deal.saleParty,
       amount: formatCurrency(deal.quantitySold * deal.saleRate)
     },
@@ -402,4 +641,4 @@ export const getMessagePreviews = (deal: DealData) => {
 
 // Export template functions for testing
 export { accountsTemplate, logisticsTemplate, boss1Template, bossOGTemplate }
-export { formatCurrency, formatNumber, formatDate, calculateDealMetrics }
\ No newline at end of file
+export { formatCurrency, formatNumber, formatDate, calculateDealMetrics, getDealNumber }
\ No newline at end of file
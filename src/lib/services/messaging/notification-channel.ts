@@ -0,0 +1,60 @@
+/**
+ * Notification Channel
+ * Common interface for the services that deliver outbox messages (WhatsApp, Telegram),
+ * and which of them are switched on.
+ * Errors use the shared WhatsAppServiceError taxonomy so retry decisions work for every channel.
+ */
+
+import { RecipientRole, SendMessageOptions, SendMessageResult } from './whatsapp.types'
+import { isWhatsAppEnabled } from './whatsapp.config'
+import { isTelegramEnabled } from './telegram.config'
+
+export type ChannelPlatform = 'whatsapp' | 'telegram'
+
+export const CHANNEL_PLATFORMS: ChannelPlatform[] = ['whatsapp', 'telegram']
+
+export const isChannelPlatform = (value: string): value is ChannelPlatform =>
+  (CHANNEL_PLATFORMS as string[]).includes(value)
+
+/**
+ * Whether a channel's feature flag is on
+ */
+export const isChannelEnabled = (platform: ChannelPlatform): boolean => {
+  return platform === 'telegram' ? isTelegramEnabled() : isWhatsAppEnabled()
+}
+
+export const getEnabledChannels = (): ChannelPlatform[] => CHANNEL_PLATFORMS.filter(isChannelEnabled)
+
+export const isAnyChannelEnabled = (): boolean => getEnabledChannels().length > 0
+
+export interface ChannelConnectionResult {
+  success: boolean
+  error?: string
+  responseTime: number
+}
+
+export interface NotificationChannel {
+  readonly platform: ChannelPlatform
+
+  /**
+   * Send one message; failures are returned, not thrown
+   * `recipient` is a phone number for WhatsApp and a chat ID for Telegram;
+   * channels ignore options that don't apply to them
+   */
+  sendMessage(
+    recipient: string,
+    message: string,
+    dealId?: string,
+    role?: RecipientRole,
+    options?: SendMessageOptions
+  ): Promise<SendMessageResult>
+
+  testConnection(): Promise<ChannelConnectionResult>
+
+  /**
+   * Whether the channel's circuit breaker is blocking sends (outbox rows then wait in pending)
+   */
+  isCircuitOpen(): Promise<boolean>
+
+  getMetrics(): Record<string, unknown>
+}
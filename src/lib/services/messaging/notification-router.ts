@@ -0,0 +1,210 @@
+/**
+ * Notification Router
+ * Narrows the recipient directory to the people a particular deal should reach, using the
+ * routing rules in notification_routing_rules, and explains the decision for dry runs.
+ */
+
+import type { RoutingDecision, RoutingDryRunResult, RoutingRule, RoutingRuleEvaluation } from '@/types/notification-routing'
+import {
+  NotificationRoutingRuleRepository,
+  getNotificationRoutingRuleRepository
+} from '@/lib/repositories/notification-routing-rule.repository'
+import {
+  NotificationRecipientRepository,
+  getNotificationRecipientRepository
+} from '@/lib/repositories/notification-recipient.repository'
+import { DealData, WhatsAppLogger } from './whatsapp.types'
+import { NotificationTarget, getNotificationTargets } from './recipient-directory'
+import { buildRoutingFacts, evaluateRule, toRoutingRule } from './routing-rules'
+
+interface RoutedTarget {
+  target: NotificationTarget
+  decision: RoutingDecision
+}
+
+export class NotificationRouter {
+  private readonly ruleRepository: NotificationRoutingRuleRepository
+  private readonly recipientRepository: NotificationRecipientRepository
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    ruleRepository?: NotificationRoutingRuleRepository,
+    recipientRepository?: NotificationRecipientRepository,
+    logger?: WhatsAppLogger
+  ) {
+    this.ruleRepository = ruleRepository || getNotificationRoutingRuleRepository()
+    this.recipientRepository = recipientRepository || getNotificationRecipientRepository()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[Routing] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[Routing] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[Routing] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[Routing] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Targets a deal notification should go to
+   * If the rules can't be loaded everyone (except digest-only recipients) is notified:
+   * an extra message beats a missed deal
+   */
+  async resolveTargets(deal: DealData): Promise<NotificationTarget[]> {
+    const targets = await getNotificationTargets(this.recipientRepository)
+
+    let rules: RoutingRule[]
+    try {
+      rules = await this.loadActiveRules()
+    } catch (error) {
+      this.logger.warn('Could not load routing rules, notifying every recipient', {
+        dealId: deal.id,
+        error: error instanceof Error ? error.message : error
+      })
+      return targets.filter(target => target.deliveryMode !== 'digest_only')
+    }
+
+    const routed = this.route(targets, rules, deal)
+    const skipped = routed.filter(({ decision }) => !decision.notified)
+    if (skipped.length > 0) {
+      this.logger.info('Recipients skipped by routing rules', {
+        dealId: deal.id,
+        skipped: skipped.map(({ decision }) => `${decision.name ?? decision.role} (${decision.platform}): ${decision.reason}`)
+      })
+    }
+
+    return routed.filter(({ decision }) => decision.notified).map(({ target }) => target)
+  }
+
+  /**
+   * Who a deal would reach under the active rules, with the reason for each recipient
+   * With a rule ID, also reports how that rule (active or not) evaluates for the deal
+   */
+  async dryRun(deal: DealData, ruleId?: string): Promise<RoutingDryRunResult | null> {
+    let rule: RoutingRuleEvaluation | undefined
+    const facts = buildRoutingFacts(deal)
+
+    if (ruleId) {
+      const stored = await this.ruleRepository.getById(ruleId)
+      if (!stored) {
+        return null
+      }
+      rule = evaluateRule(toRoutingRule(stored), facts)
+    }
+
+    const [targets, rules] = await Promise.all([
+      getNotificationTargets(this.recipientRepository),
+      this.loadActiveRules()
+    ])
+    const decisions = this.route(targets, rules, deal).map(({ decision }) => decision)
+
+    return {
+      facts,
+      decisions,
+      notifiedCount: decisions.filter(decision => decision.notified).length,
+      skippedCount: decisions.filter(decision => !decision.notified).length,
+      rule
+    }
+  }
+
+  /**
+   * Apply role rules and recipient rules; a target must pass both
+   * Digest-only recipients are never notified per deal
+   */
+  private route(targets: NotificationTarget[], rules: RoutingRule[], deal: DealData): RoutedTarget[] {
+    const facts = buildRoutingFacts(deal)
+    const evaluations = new Map(rules.map(rule => [rule.id, evaluateRule(rule, facts)]))
+
+    return targets.map(target => {
+      if (target.deliveryMode === 'digest_only') {
+        return {
+          target,
+          decision: {
+            role: target.role,
+            platform: target.platform,
+            recipient: target.recipient,
+            recipientId: target.recipientId,
+            name: target.name,
+            notified: false,
+            reason: 'Digest only; gets the daily and weekly digests instead',
+            rules: []
+          }
+        }
+      }
+
+      const roleRules = rules.filter(rule => rule.role === target.role)
+      const recipientRules = target.recipientId
+        ? rules.filter(rule => rule.recipient_id === target.recipientId)
+        : []
+      const roleResults = roleRules.map(rule => evaluations.get(rule.id)!)
+      const recipientResults = recipientRules.map(rule => evaluations.get(rule.id)!)
+
+      const rolePasses = roleResults.length === 0 || roleResults.some(result => result.matched)
+      const recipientPasses = recipientResults.length === 0 || recipientResults.some(result => result.matched)
+
+      return {
+        target,
+        decision: {
+          role: target.role,
+          platform: target.platform,
+          recipient: target.recipient,
+          recipientId: target.recipientId,
+          name: target.name,
+          notified: rolePasses && recipientPasses,
+          reason: this.describeDecision(roleResults, recipientResults, rolePasses, recipientPasses),
+          rules: [...roleResults, ...recipientResults]
+        }
+      }
+    })
+  }
+
+  private describeDecision(
+    roleResults: RoutingRuleEvaluation[],
+    recipientResults: RoutingRuleEvaluation[],
+    rolePasses: boolean,
+    recipientPasses: boolean
+  ): string {
+    if (roleResults.length === 0 && recipientResults.length === 0) {
+      return 'No routing rules; notified for every deal'
+    }
+    if (!rolePasses) {
+      return `No role rule matched (${roleResults.map(result => result.name).join(', ')})`
+    }
+    if (!recipientPasses) {
+      return `No recipient rule matched (${recipientResults.map(result => result.name).join(', ')})`
+    }
+
+    const matched = [...roleResults, ...recipientResults].filter(result => result.matched)
+    return `Matched ${matched.map(result => result.name).join(', ')}`
+  }
+
+  /**
+   * Active rules with parsed conditions; a rule with unreadable conditions is skipped (and logged)
+   */
+  private async loadActiveRules(): Promise<RoutingRule[]> {
+    const stored = await this.ruleRepository.listActive()
+
+    return stored.flatMap(rule => {
+      try {
+        return [toRoutingRule(rule)]
+      } catch (error) {
+        this.logger.error('Skipping routing rule with invalid conditions', {
+          ruleId: rule.id,
+          name: rule.name,
+          error: error instanceof Error ? error.message : error
+        })
+        return []
+      }
+    })
+  }
+}
+
+/**
+ * Singleton notification router instance
+ */
+let globalNotificationRouter: NotificationRouter | null = null
+
+export const getNotificationRouter = (): NotificationRouter => {
+  if (!globalNotificationRouter) {
+    globalNotificationRouter = new NotificationRouter()
+  }
+  return globalNotificationRouter
+}
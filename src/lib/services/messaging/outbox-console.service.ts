@@ -0,0 +1,136 @@
+/**
+ * Outbox Console Service
+ * Operator view of messages that need attention, with bulk retry, edit-and-resend and
+ * dead-lettering. Each action is audited by the database function that performs it.
+ */
+
+import type { MessageOutbox } from '@/types'
+import type {
+  OutboxBulkActionRequest,
+  OutboxBulkActionResult,
+  OutboxConsoleFilters,
+  OutboxConsolePage,
+  OutboxResendRequest
+} from '@/types/outbox-console'
+import { OUTBOX_CONSOLE_PAGE_SIZE } from '@/types/outbox-console'
+import { MessageOutboxRepository, getMessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import { MessageOutboxAuditRepository, getMessageOutboxAuditRepository } from '@/lib/repositories/message-outbox-audit.repository'
+import { RetryPolicy, createRetryPolicy } from './retry-policy'
+
+export interface ResendMessageResult {
+  success: boolean
+  message?: MessageOutbox
+  error?: string
+  validationErrors?: string[]
+  notFound?: boolean
+}
+
+const RESENDABLE_STATUSES = ['failed', 'dead_letter']
+
+// Recipient formats by platform
+const RECIPIENT_FORMATS: Record<string, { pattern: RegExp; description: string }> = {
+  whatsapp: { pattern: /^\+\d{10,15}$/, description: 'Phone number must be + followed by 10-15 digits' },
+  telegram: { pattern: /^(-?\d{5,20}|@[A-Za-z][A-Za-z0-9_]{4,31})$/, description: 'Chat ID must be numeric or an @channelname of 5-32 characters' }
+}
+const RECENT_ACTIONS_LIMIT = 50
+
+export class OutboxConsoleService {
+  private readonly outboxRepository: MessageOutboxRepository
+  private readonly auditRepository: MessageOutboxAuditRepository
+  private readonly retryPolicy: RetryPolicy
+
+  constructor(
+    outboxRepository?: MessageOutboxRepository,
+    auditRepository?: MessageOutboxAuditRepository,
+    retryPolicy?: RetryPolicy
+  ) {
+    this.outboxRepository = outboxRepository || getMessageOutboxRepository()
+    this.auditRepository = auditRepository || getMessageOutboxAuditRepository()
+    this.retryPolicy = retryPolicy || createRetryPolicy()
+  }
+
+  /**
+   * Messages needing attention plus the latest operator actions
+   */
+  async listMessages(filters: OutboxConsoleFilters, limit: number = OUTBOX_CONSOLE_PAGE_SIZE): Promise<OutboxConsolePage> {
+    const [messages, actions] = await Promise.all([
+      this.outboxRepository.listNeedingAttention(filters, limit),
+      this.auditRepository.listRecent(RECENT_ACTIONS_LIMIT)
+    ])
+
+    return { messages, actions }
+  }
+
+  /**
+   * Retry or dead-letter a selection of messages
+   * Messages not in a state the action applies to are skipped, not failed
+   */
+  async performBulkAction(request: OutboxBulkActionRequest): Promise<OutboxBulkActionResult> {
+    const ids = Array.from(new Set(request.ids))
+    const options = { performedBy: request.performedBy, note: request.note }
+
+    // A manual retry starts a fresh retry cycle on top of the attempts already made
+    const updated = request.action === 'retry'
+      ? await this.outboxRepository.requeue(ids, this.retryPolicy.maxAttempts, options)
+      : await this.outboxRepository.deadLetter(ids, options)
+
+    const updatedIds = new Set(updated.map(message => message.id))
+
+    return {
+      action: request.action,
+      requested: ids.length,
+      updated: updated.length,
+      skipped: ids.filter(id => !updatedIds.has(id))
+    }
+  }
+
+  /**
+   * Correct the recipient number and/or text of a failed message and queue it again
+   */
+  async resendMessage(id: string, request: OutboxResendRequest): Promise<ResendMessageResult> {
+    const current = await this.outboxRepository.getById(id)
+    if (!current) {
+      return { success: false, notFound: true, error: `Message ${id} not found` }
+    }
+
+    if (!RESENDABLE_STATUSES.includes(current.status ?? '')) {
+      return {
+        success: false,
+        error: `Only failed or dead-lettered messages can be resent (status: ${current.status ?? 'pending'})`
+      }
+    }
+
+    const recipientFormat = RECIPIENT_FORMATS[current.platform]
+    if (request.recipientPhone && recipientFormat && !recipientFormat.pattern.test(request.recipientPhone)) {
+      return {
+        success: false,
+        error: 'Validation failed',
+        validationErrors: [`recipientPhone: ${recipientFormat.description}`]
+      }
+    }
+
+    const message = await this.outboxRepository.resend(
+      id,
+      {
+        recipientPhone: request.recipientPhone !== current.recipient_phone ? request.recipientPhone : undefined,
+        messageText: request.messageText !== current.message_text ? request.messageText : undefined
+      },
+      this.retryPolicy.maxAttempts,
+      { performedBy: request.performedBy, note: request.note }
+    )
+
+    return { success: true, message }
+  }
+}
+
+/**
+ * Singleton outbox console service instance
+ */
+let globalOutboxConsoleService: OutboxConsoleService | null = null
+
+export const getOutboxConsoleService = (): OutboxConsoleService => {
+  if (!globalOutboxConsoleService) {
+    globalOutboxConsoleService = new OutboxConsoleService()
+  }
+  return globalOutboxConsoleService
+}
@@ -0,0 +1,248 @@
+/**
+ * Outbox Dispatcher
+ * Sends messages queued in message_outbox. Deal registration only enqueues rows;
+ * this claims pending rows, sends them through the row's channel (WhatsApp, Telegram) and
+ * records the outcome.
+ */
+
+import type { MessageOutbox } from '@/types'
+import type { Json } from '@/types/database.types'
+import { MessageOutboxRepository, getMessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import { ChannelPlatform, NotificationChannel, getEnabledChannels } from './notification-channel'
+import { getNotificationChannel } from './channel-routing'
+import { RetryPolicy, createRetryPolicy } from './retry-policy'
+import { RecipientRole, SendMessageResult, WhatsAppLogger, WhatsAppServiceError, WhatsAppTemplate } from './whatsapp.types'
+
+export interface OutboxDispatchOptions {
+  limit?: number // Per channel
+  staleAfterSeconds?: number
+  platforms?: ChannelPlatform[] // Defaults to every enabled channel
+}
+
+export interface OutboxDispatchResult {
+  claimed: number
+  sent: number
+  failed: number
+  durationMs: number
+}
+
+const DEFAULT_BATCH_SIZE = 20
+
+export class OutboxDispatcher {
+  private readonly repository: MessageOutboxRepository
+  private readonly channels: Partial<Record<ChannelPlatform, NotificationChannel>>
+  private readonly retryPolicy: RetryPolicy
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    repository?: MessageOutboxRepository,
+    channels: Partial<Record<ChannelPlatform, NotificationChannel>> = {},
+    retryPolicy?: RetryPolicy,
+    logger?: WhatsAppLogger
+  ) {
+    this.repository = repository || getMessageOutboxRepository()
+    this.channels = channels
+    this.retryPolicy = retryPolicy || createRetryPolicy()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[Outbox] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[Outbox] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[Outbox] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[Outbox] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Claim and send one batch of pending messages for each channel
+   * Channels run side by side so a throttled channel does not hold up the others
+   */
+  async dispatchPending(options: OutboxDispatchOptions = {}): Promise<OutboxDispatchResult> {
+    const startTime = Date.now()
+    const platforms = options.platforms ?? getEnabledChannels()
+
+    const batches = await Promise.all(platforms.map(platform => this.dispatchPlatform(platform, options)))
+
+    const result = {
+      claimed: batches.reduce((sum, batch) => sum + batch.claimed, 0),
+      sent: batches.reduce((sum, batch) => sum + batch.sent, 0),
+      failed: batches.reduce((sum, batch) => sum + batch.failed, 0),
+      durationMs: Date.now() - startTime
+    }
+
+    if (result.claimed > 0) {
+      this.logger.info('Outbox batch dispatched', { ...result, platforms })
+    }
+
+    return result
+  }
+
+  private async dispatchPlatform(
+    platform: ChannelPlatform,
+    options: OutboxDispatchOptions
+  ): Promise<Omit<OutboxDispatchResult, 'durationMs'>> {
+    // Leave the channel's rows pending until its circuit breaker lets sends through again
+    if (await this.isCircuitOpen(platform)) {
+      this.logger.debug('Circuit breaker open, leaving messages pending', { platform })
+      return { claimed: 0, sent: 0, failed: 0 }
+    }
+
+    const messages = await this.repository.claimPending({
+      platform,
+      limit: options.limit ?? DEFAULT_BATCH_SIZE,
+      staleAfterSeconds: options.staleAfterSeconds
+    })
+
+    let sent = 0
+    let failed = 0
+
+    // Send one at a time so the channel's rate limiter paces the batch
+    for (const message of messages) {
+      if (await this.sendClaimedMessage(message)) {
+        sent++
+      } else {
+        failed++
+      }
+    }
+
+    return { claimed: messages.length, sent, failed }
+  }
+
+  /**
+   * Send a message already claimed (status 'sending') and record the outcome
+   * Returns true when the message was sent
+   */
+  async sendClaimedMessage(message: MessageOutbox): Promise<boolean> {
+    try {
+      return await this.dispatchMessage(message)
+    } catch (error) {
+      // Recording the outcome failed; the row stays 'sending' and is reclaimed once stale
+      this.logger.error('Failed to record outbox message outcome', {
+        messageId: message.id,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return false
+    }
+  }
+
+  private async dispatchMessage(message: MessageOutbox): Promise<boolean> {
+    let result: SendMessageResult
+
+    try {
+      result = await this.getChannel(message.platform).sendMessage(
+        message.recipient_phone,
+        message.message_text,
+        message.deal_id,
+        message.recipient_role as RecipientRole,
+        {
+          fallbackTemplate: message.whatsapp_template as WhatsAppTemplate | null,
+          // The text was rejected outside the session window (see the WhatsApp webhook)
+          skipText: message.error_type === 'SESSION_WINDOW_CLOSED'
+        }
+      )
+    } catch (error) {
+      // Configuration errors are thrown before a send is attempted
+      await this.recordFailure(message, {
+        success: false,
+        recipient: message.recipient_phone,
+        role: message.recipient_role as RecipientRole,
+        error: error instanceof WhatsAppServiceError
+          ? error
+          : new WhatsAppServiceError(error instanceof Error ? error.message : 'Unknown channel error', 'UNKNOWN_ERROR')
+      })
+      return false
+    }
+
+    if (result.success) {
+      await this.recordSuccess(message, result)
+      return true
+    }
+
+    // The breaker opened mid-batch; nothing was sent, so the message waits in the queue
+    if (result.error?.type === 'CIRCUIT_OPEN') {
+      await this.repository.releaseClaim(message)
+      this.logger.info('Circuit breaker open, message returned to pending', {
+        messageId: message.id,
+        platform: message.platform
+      })
+      return false
+    }
+
+    await this.recordFailure(message, result)
+    return false
+  }
+
+  private async recordSuccess(message: MessageOutbox, result: SendMessageResult): Promise<void> {
+    await this.repository.updateMessage(message.id, {
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+      external_message_id: result.externalMessageId ?? null,
+      api_response: (result.apiResponse ?? null) as unknown as Json,
+      response_time_ms: result.responseTimeMs ?? null,
+      wait_time_ms: result.waitTimeMs ?? null,
+      sent_as_template: result.sentAsTemplate ?? false,
+      error_type: null,
+      error_message: null,
+      error_details: null,
+      next_retry_at: null
+    })
+  }
+
+  private async recordFailure(message: MessageOutbox, result: SendMessageResult): Promise<void> {
+    const error = result.error
+    const attempts = message.attempts ?? 1
+    const decision = this.retryPolicy.decide(error, attempts, message.max_attempts ?? this.retryPolicy.maxAttempts)
+
+    this.logger.warn(decision.status === 'dead_letter' ? 'Outbox message dead-lettered' : 'Outbox message failed', {
+      messageId: message.id,
+      dealId: message.deal_id,
+      role: message.recipient_role,
+      attempts,
+      errorType: error?.type,
+      error: error?.message,
+      nextRetryAt: decision.nextRetryAt?.toISOString(),
+      reason: decision.reason
+    })
+
+    await this.repository.updateMessage(message.id, {
+      status: decision.status,
+      error_type: error?.type ?? 'UNKNOWN_ERROR',
+      error_message: error?.message ?? 'Unknown error',
+      error_details: {
+        httpStatus: error?.httpStatus ?? null,
+        providerCode: error?.providerCode ?? null,
+        retryAfter: error?.retryAfter ?? null,
+        attempt: attempts,
+        deadLetterReason: decision.reason ?? null
+      },
+      response_time_ms: result.responseTimeMs ?? null,
+      wait_time_ms: result.waitTimeMs ?? null,
+      next_retry_at: decision.nextRetryAt?.toISOString() ?? null
+    })
+  }
+
+  private async isCircuitOpen(platform: ChannelPlatform): Promise<boolean> {
+    try {
+      return await this.getChannel(platform).isCircuitOpen()
+    } catch {
+      // An invalid configuration is reported by the sends themselves
+      return false
+    }
+  }
+
+  // Resolved lazily so an invalid channel configuration fails the send, not the dispatcher
+  private getChannel(platform: string): NotificationChannel {
+    return this.channels[platform as ChannelPlatform] || getNotificationChannel(platform)
+  }
+}
+
+/**
+ * Singleton outbox dispatcher instance
+ */
+let globalOutboxDispatcher: OutboxDispatcher | null = null
+
+export const getOutboxDispatcher = (): OutboxDispatcher => {
+  if (!globalOutboxDispatcher) {
+    globalOutboxDispatcher = new OutboxDispatcher()
+  }
+  return globalOutboxDispatcher
+}
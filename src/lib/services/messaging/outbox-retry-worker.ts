@@ -0,0 +1,106 @@
+/**
+ * Outbox Retry Worker
+ * Re-sends failed message_outbox rows once their next_retry_at has passed
+ * (get_messages_pending_retry) and dead-letters rows that cannot be retried.
+ * Run from the /api/messaging/retry cron route or the tools/outbox-worker.js poller.
+ */
+
+import { MessageOutboxRepository, getMessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import { OutboxDispatcher, getOutboxDispatcher } from './outbox-dispatcher'
+import { NON_RETRYABLE_ERROR_TYPES } from './retry-policy'
+import { WhatsAppLogger } from './whatsapp.types'
+
+export interface OutboxRetryOptions {
+  limit?: number
+}
+
+export interface OutboxRetryResult {
+  due: number
+  retried: number
+  sent: number
+  failed: number
+  deadLettered: number
+  durationMs: number
+}
+
+const DEFAULT_BATCH_SIZE = 20
+
+export class OutboxRetryWorker {
+  private readonly repository: MessageOutboxRepository
+  private readonly dispatcher: OutboxDispatcher
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    repository?: MessageOutboxRepository,
+    dispatcher?: OutboxDispatcher,
+    logger?: WhatsAppLogger
+  ) {
+    this.repository = repository || getMessageOutboxRepository()
+    this.dispatcher = dispatcher || getOutboxDispatcher()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[OutboxRetry] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[OutboxRetry] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[OutboxRetry] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[OutboxRetry] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Retry one batch of due messages
+   */
+  async runOnce(options: OutboxRetryOptions = {}): Promise<OutboxRetryResult> {
+    const startTime = Date.now()
+
+    // Rows failed before the retry policy existed (or with a since-lowered max) are never due
+    const deadLettered = await this.repository.deadLetterExhausted(NON_RETRYABLE_ERROR_TYPES)
+
+    const due = await this.repository.listPendingRetry(options.limit ?? DEFAULT_BATCH_SIZE)
+
+    let retried = 0
+    let sent = 0
+    let failed = 0
+
+    for (const candidate of due) {
+      const message = await this.repository.claimForRetry(candidate)
+      if (!message) {
+        // Another worker got there first
+        continue
+      }
+
+      retried++
+      if (await this.dispatcher.sendClaimedMessage(message)) {
+        sent++
+      } else {
+        failed++
+      }
+    }
+
+    const result = {
+      due: due.length,
+      retried,
+      sent,
+      failed,
+      deadLettered,
+      durationMs: Date.now() - startTime
+    }
+
+    if (due.length > 0 || deadLettered > 0) {
+      this.logger.info('Outbox retry batch completed', { ...result })
+    }
+
+    return result
+  }
+}
+
+/**
+ * Singleton outbox retry worker instance
+ */
+let globalOutboxRetryWorker: OutboxRetryWorker | null = null
+
+export const getOutboxRetryWorker = (): OutboxRetryWorker => {
+  if (!globalOutboxRetryWorker) {
+    globalOutboxRetryWorker = new OutboxRetryWorker()
+  }
+  return globalOutboxRetryWorker
+}
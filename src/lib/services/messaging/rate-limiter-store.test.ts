@@ -0,0 +1,194 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { RateLimitRepository, RateLimitTokenResult } from '@/lib/repositories/rate-limit.repository'
+import { MemoryRateLimiterStore, RateLimiterStore, SupabaseRateLimiterStore } from './rate-limiter-store'
+import { WhatsAppRateLimiter } from './rate-limiter'
+import { OutboxDispatcher } from './outbox-dispatcher'
+import { RetryPolicy } from './retry-policy'
+import type { MessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import type { NotificationChannel } from './notification-channel'
+import type { WhatsAppLogger } from './whatsapp.types'
+import type { MessageOutbox } from '@/types'
+
+const silentLogger: WhatsAppLogger = { error: () => {}, warn: () => {}, info: () => {}, debug: () => {} }
+
+/**
+ * The shared store's repository, calling acquire_rate_limit_token in an in-process Postgres
+ * (PGlite) loaded with the migration instead of going through Supabase
+ */
+class PGliteRateLimitRepository extends RateLimitRepository {
+  constructor(private readonly db: PGlite) {
+    super()
+  }
+
+  async acquireToken(key: string, capacity: number, windowMs: number): Promise<RateLimitTokenResult> {
+    const { rows } = await this.db.query<{ allowed: boolean; remaining: number; wait_ms: number }>(
+      'SELECT * FROM acquire_rate_limit_token($1, $2, $3)',
+      [key, capacity, windowMs]
+    )
+    return { allowed: rows[0].allowed, remaining: rows[0].remaining, waitMs: rows[0].wait_ms }
+  }
+
+  async resetBucket(key: string): Promise<void> {
+    await this.db.query('DELETE FROM rate_limit_buckets WHERE key = $1', [key])
+  }
+}
+
+/**
+ * Run callers side by side, recording when each was let through
+ */
+const runLimiters = async (limiters: WhatsAppRateLimiter[]) => {
+  const start = Date.now()
+  return await Promise.all(limiters.map(async limiter => {
+    const waitedMs = await limiter.waitIfNeeded()
+    return { waitedMs, grantedAt: Date.now() - start }
+  }))
+}
+
+/**
+ * Whether the grants stayed within limit per windowMs: after the first limit (a full
+ * allowance), each grant came no sooner than the rate allows (with a little timer slack).
+ * A sliding window meets this as well as a token bucket does.
+ */
+const keptRate = (grantedAt: number[], limit: number, windowMs: number): boolean => {
+  const sorted = [...grantedAt].sort((a, b) => a - b)
+  const slackMs = 20
+  return sorted.every((time, index) => time >= ((index + 1 - limit) * windowMs) / limit - slackMs)
+}
+
+const describeStore = (name: string, createStore: () => RateLimiterStore, setup?: { before: () => Promise<void>; after: () => Promise<void> }) => {
+  describe(name, () => {
+    let store: RateLimiterStore
+
+    if (setup) {
+      beforeAll(setup.before)
+      afterAll(setup.after)
+    }
+
+    beforeEach(() => {
+      store = createStore()
+    })
+
+    it('never grants more than the limit to concurrent callers', async () => {
+      const decisions = await Promise.all(
+        Array.from({ length: 25 }, () => store.acquire('concurrent', 10, 60000))
+      )
+
+      const granted = decisions.filter(decision => decision.allowed)
+      expect(granted).toHaveLength(10)
+      expect(granted.map(decision => decision.remaining).sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+
+      for (const denied of decisions.filter(decision => !decision.allowed)) {
+        expect(denied.remaining).toBe(0)
+        expect(denied.waitMs).toBeGreaterThan(0)
+        expect(denied.waitMs).toBeLessThanOrEqual(60000)
+      }
+    })
+
+    it('keeps separate allowances per key', async () => {
+      const [whatsapp, telegram] = await Promise.all([
+        Promise.all(Array.from({ length: 4 }, () => store.acquire('whatsapp-key', 3, 60000))),
+        Promise.all(Array.from({ length: 4 }, () => store.acquire('telegram-key', 3, 60000)))
+      ])
+
+      expect(whatsapp.filter(decision => decision.allowed)).toHaveLength(3)
+      expect(telegram.filter(decision => decision.allowed)).toHaveLength(3)
+    })
+
+    it('makes limiters sharing the store wait, recording the time waited', async () => {
+      const windowMs = 400
+      const limiters = Array.from({ length: 3 }, () =>
+        new WhatsAppRateLimiter({ maxRequestsPerMinute: 2, windowMs, jitter: false, key: 'shared' }, silentLogger, store)
+      )
+
+      // Two senders on each of three instances, all at once
+      const results = await runLimiters([...limiters, ...limiters])
+
+      const immediate = results.filter(result => result.waitedMs === 0)
+      const delayed = results.filter(result => result.waitedMs > 0)
+      expect(immediate).toHaveLength(2)
+      expect(delayed).toHaveLength(4)
+      expect(keptRate(results.map(result => result.grantedAt), 2, windowMs)).toBe(true)
+
+      const metrics = limiters.map(limiter => limiter.getMetrics())
+      expect(metrics.reduce((sum, m) => sum + m.throttledRequests, 0)).toBe(4)
+      expect(metrics.reduce((sum, m) => sum + m.totalWaitMs, 0))
+        .toBe(delayed.reduce((sum, result) => sum + result.waitedMs, 0))
+    })
+  })
+}
+
+describeStore('MemoryRateLimiterStore', () => new MemoryRateLimiterStore())
+
+// PGlite runs one statement at a time, so this checks the bucket arithmetic under parallel
+// callers; the row lock that serializes separate connections is Postgres's own
+let db: PGlite
+describeStore(
+  'SupabaseRateLimiterStore (acquire_rate_limit_token)',
+  () => new SupabaseRateLimiterStore(new PGliteRateLimitRepository(db)),
+  {
+    before: async () => {
+      db = new PGlite()
+      await db.exec(readFileSync(join(process.cwd(), 'supabase/migrations/20241023_rate_limit_buckets.sql'), 'utf8'))
+    },
+    after: async () => {
+      await db.close()
+    }
+  }
+)
+
+describe('OutboxDispatcher', () => {
+  it('records the time a throttled send waited as wait_time_ms', async () => {
+    const messages = ['message-1', 'message-2', 'message-3'].map(id => ({
+      id,
+      deal_id: 'deal-1',
+      platform: 'whatsapp',
+      recipient_phone: '+919876543210',
+      recipient_role: 'accounts',
+      message_text: 'Deal registered',
+      whatsapp_template: null,
+      error_type: null,
+      attempts: 1,
+      max_attempts: 4,
+      status: 'sending'
+    }) as MessageOutbox)
+
+    const updates = new Map<string, Record<string, unknown>>()
+    const repository = {
+      claimPending: async () => messages,
+      updateMessage: async (id: string, update: Record<string, unknown>) => {
+        updates.set(id, update)
+      }
+    } as unknown as MessageOutboxRepository
+
+    // Paced like WhatsAppService: two sends per 300ms
+    const limiter = new WhatsAppRateLimiter(
+      { maxRequestsPerMinute: 2, windowMs: 300, jitter: false, key: 'dispatch' },
+      silentLogger,
+      new MemoryRateLimiterStore()
+    )
+    const channel = {
+      platform: 'whatsapp',
+      isCircuitOpen: async () => false,
+      sendMessage: async (recipient: string) => ({
+        success: true,
+        recipient,
+        role: 'accounts',
+        externalMessageId: 'wamid.1',
+        waitTimeMs: await limiter.waitIfNeeded()
+      })
+    } as unknown as NotificationChannel
+
+    const dispatcher = new OutboxDispatcher(repository, { whatsapp: channel }, new RetryPolicy(), silentLogger)
+    const result = await dispatcher.dispatchPending({ platforms: ['whatsapp'] })
+
+    expect(result.sent).toBe(3)
+    expect(updates.get('message-1')).toMatchObject({ status: 'sent', wait_time_ms: 0 })
+    expect(updates.get('message-2')).toMatchObject({ status: 'sent', wait_time_ms: 0 })
+    expect(updates.get('message-3')?.status).toBe('sent')
+    expect(updates.get('message-3')?.wait_time_ms).toBeGreaterThan(0)
+    expect(updates.get('message-3')?.wait_time_ms).toBe(limiter.getMetrics().totalWaitMs)
+  })
+})
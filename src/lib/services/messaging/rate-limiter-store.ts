@@ -0,0 +1,112 @@
+/**
+ * Rate Limiter Storage
+ * Where the rate limiters keep their allowance. In memory (the default) each process limits
+ * itself; with RATE_LIMIT_STORE=supabase every instance takes tokens from one shared bucket
+ * per channel, so the limit holds across serverless instances.
+ */
+
+import { RateLimitRepository, getRateLimitRepository } from '@/lib/repositories/rate-limit.repository'
+
+export type RateLimiterStoreKind = 'memory' | 'supabase'
+
+export interface RateLimitDecision {
+  allowed: boolean
+  remaining: number
+  // How long until a request would be allowed (0 when allowed)
+  waitMs: number
+}
+
+export interface RateLimiterStore {
+  readonly kind: RateLimiterStoreKind
+  /**
+   * Take one request from the allowance of key (limit requests per windowMs)
+   * Taking and checking happen atomically, so concurrent callers never share a slot
+   */
+  acquire(key: string, limit: number, windowMs: number): Promise<RateLimitDecision>
+  reset(key: string): Promise<void>
+}
+
+/**
+ * Sliding window per key, local to this process
+ */
+export class MemoryRateLimiterStore implements RateLimiterStore {
+  readonly kind = 'memory' as const
+  private windows = new Map<string, number[]>()
+
+  async acquire(key: string, limit: number, windowMs: number): Promise<RateLimitDecision> {
+    // No await before the request is recorded: callers in this process can't interleave
+    const now = Date.now()
+    const requests = (this.windows.get(key) ?? []).filter(time => time > now - windowMs)
+    this.windows.set(key, requests)
+
+    if (requests.length >= limit) {
+      return {
+        allowed: false,
+        remaining: 0,
+        waitMs: Math.max(0, requests[0] + windowMs - now)
+      }
+    }
+
+    requests.push(now)
+    return { allowed: true, remaining: limit - requests.length, waitMs: 0 }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key)
+  }
+
+  /**
+   * Force add requests (for testing)
+   */
+  simulateRequests(key: string, count: number): void {
+    const now = Date.now()
+    const requests = this.windows.get(key) ?? []
+    for (let i = 0; i < count; i++) {
+      requests.push(now - (i * 1000))
+    }
+    this.windows.set(key, requests.sort((a, b) => a - b))
+  }
+}
+
+/**
+ * Token bucket per key in rate_limit_buckets, shared by every instance
+ */
+export class SupabaseRateLimiterStore implements RateLimiterStore {
+  readonly kind = 'supabase' as const
+  private readonly repository: RateLimitRepository
+
+  constructor(repository?: RateLimitRepository) {
+    this.repository = repository || getRateLimitRepository()
+  }
+
+  async acquire(key: string, limit: number, windowMs: number): Promise<RateLimitDecision> {
+    return await this.repository.acquireToken(key, limit, windowMs)
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.repository.resetBucket(key)
+  }
+}
+
+/**
+ * Storage selected with RATE_LIMIT_STORE (memory unless set to supabase)
+ */
+export const getRateLimiterStoreKind = (): RateLimiterStoreKind => {
+  return process.env.RATE_LIMIT_STORE === 'supabase' ? 'supabase' : 'memory'
+}
+
+export const createRateLimiterStore = (kind: RateLimiterStoreKind = getRateLimiterStoreKind()): RateLimiterStore => {
+  return kind === 'supabase' ? new SupabaseRateLimiterStore() : new MemoryRateLimiterStore()
+}
+
+/**
+ * Singleton store: limiters with the same key share one allowance within a process too
+ */
+let globalRateLimiterStore: RateLimiterStore | null = null
+
+export const getGlobalRateLimiterStore = (): RateLimiterStore => {
+  if (!globalRateLimiterStore) {
+    globalRateLimiterStore = createRateLimiterStore()
+  }
+  return globalRateLimiterStore
+}
@@ -1,165 +1,135 @@
 /**
  * WhatsApp Rate Limiter
  * Protects against Meta API rate limits (100 requests/minute, we use 80 for safety)
+ * The allowance lives in a RateLimiterStore, so instances can share one limit (RATE_LIMIT_STORE)
  */
 
 import { WhatsAppLogger } from './whatsapp.types'
+import {
+  MemoryRateLimiterStore,
+  RateLimitDecision,
+  RateLimiterStore,
+  getGlobalRateLimiterStore
+} from './rate-limiter-store'
 
 export interface RateLimiterConfig {
   maxRequestsPerMinute: number
   windowMs: number
   jitter: boolean
+  // Allowance name in the store; limiters with the same key share one limit
+  key: string
 }
 
-export interface RateLimitStatus {
-  current: 'ok' | 'warning' | 'limited'
-  remaining: number
-  resetTime: Date
-  waitTime?: number
-}
+const WARNING_THRESHOLD = 5
 
 export class WhatsAppRateLimiter {
-  private requests: Date[] = []
   private readonly config: RateLimiterConfig
   private readonly logger: WhatsAppLogger
+  private readonly store: RateLimiterStore
+  // Used while the shared store is unreachable, so sends are still paced per instance
+  private readonly fallbackStore = new MemoryRateLimiterStore()
+  private lastDecision: RateLimitDecision | null = null
+  private throttledRequests = 0
+  private totalWaitMs = 0
 
   constructor(
     config: Partial<RateLimiterConfig> = {},
-    logger: WhatsAppLogger
+    logger: WhatsAppLogger,
+    store?: RateLimiterStore
   ) {
     this.config = {
       maxRequestsPerMinute: 80, // Conservative limit (Meta allows 100)
       windowMs: 60000, // 1 minute window
       jitter: true, // Add randomness to prevent thundering herd
+      key: 'whatsapp',
       ...config
     }
     this.logger = logger
+    this.store = store || getGlobalRateLimiterStore()
   }
 
   /**
-   * Check if a request can be made and wait if necessary
-   * Returns the time waited (for metrics)
+   * Take a slot in the rate limit, waiting until one is free
+   * Returns the time waited in ms (for metrics, recorded as wait_time_ms)
    */
   async waitIfNeeded(): Promise<number> {
-    const status = this.getStatus()
-
-    if (status.current === 'limited') {
-      const waitTime = status.waitTime || 0
+    let waited = 0
+
+    for (;;) {
+      const decision = await this.acquire()
+      this.lastDecision = decision
+
+      if (decision.allowed) {
+        if (decision.remaining <= WARNING_THRESHOLD) {
+          this.logger.debug('Rate limit warning', {
+            key: this.config.key,
+            remaining: decision.remaining
+          })
+        }
+
+        if (waited > 0) {
+          this.throttledRequests++
+          this.totalWaitMs += waited
+        }
+        return waited
+      }
 
       this.logger.warn('Rate limit protection activated', {
-        waitTime,
-        requestsInWindow: this.requests.length,
-        maxRequests: this.config.maxRequestsPerMinute,
-        resetTime: status.resetTime
-      })
-
-      await this.wait(waitTime)
-      return waitTime
-    }
-
-    if (status.current === 'warning') {
-      this.logger.debug('Rate limit warning', {
-        remaining: status.remaining,
-        requestsInWindow: this.requests.length
+        key: this.config.key,
+        store: this.store.kind,
+        waitTime: decision.waitMs,
+        maxRequests: this.config.maxRequestsPerMinute
       })
-    }
-
-    // Record this request
-    this.recordRequest()
-    return 0
-  }
-
-  /**
-   * Get current rate limit status
-   */
-  getStatus(): RateLimitStatus {
-    this.cleanOldRequests()
-
-    const now = new Date()
-    const remaining = this.config.maxRequestsPerMinute - this.requests.length
-    const resetTime = new Date(now.getTime() + this.config.windowMs)
-
-    if (remaining <= 0) {
-      // Rate limited - calculate wait time
-      const oldestRequest = this.requests[0]
-      const waitTime = oldestRequest
-        ? this.config.windowMs - (now.getTime() - oldestRequest.getTime())
-        : this.config.windowMs
-
-      return {
-        current: 'limited',
-        remaining: 0,
-        resetTime,
-        waitTime: Math.max(0, waitTime)
-      }
-    }
 
-    if (remaining <= 5) {
-      // Warning threshold
-      return {
-        current: 'warning',
-        remaining,
-        resetTime
-      }
-    }
-
-    return {
-      current: 'ok',
-      remaining,
-      resetTime
+      waited += await this.wait(decision.waitMs)
     }
   }
 
   /**
-   * Get metrics for monitoring
+   * Get metrics for monitoring (as of this instance's last request)
    */
   getMetrics() {
-    this.cleanOldRequests()
+    const remaining = this.lastDecision?.remaining ?? this.config.maxRequestsPerMinute
+    const used = this.config.maxRequestsPerMinute - remaining
 
     return {
-      requestsInWindow: this.requests.length,
+      key: this.config.key,
+      store: this.store.kind,
+      requestsInWindow: used,
       maxRequests: this.config.maxRequestsPerMinute,
-      utilization: (this.requests.length / this.config.maxRequestsPerMinute) * 100,
-      oldestRequest: this.requests[0]?.toISOString(),
-      newestRequest: this.requests[this.requests.length - 1]?.toISOString()
+      remaining,
+      utilization: (used / this.config.maxRequestsPerMinute) * 100,
+      throttledRequests: this.throttledRequests,
+      totalWaitMs: this.totalWaitMs
     }
   }
 
   /**
    * Reset rate limiter (for testing)
    */
-  reset(): void {
-    this.requests = []
-    this.logger.debug('Rate limiter reset')
+  async reset(): Promise<void> {
+    await this.store.reset(this.config.key)
+    await this.fallbackStore.reset(this.config.key)
+    this.lastDecision = null
+    this.throttledRequests = 0
+    this.totalWaitMs = 0
+    this.logger.debug('Rate limiter reset', { key: this.config.key })
   }
 
-  /**
-   * Force add requests (for testing)
-   */
-  simulateRequests(count: number): void {
-    const now = new Date()
-    for (let i = 0; i < count; i++) {
-      this.requests.push(new Date(now.getTime() - (i * 1000)))
-    }
-    this.logger.debug('Simulated requests added', { count })
-  }
-
-  private recordRequest(): void {
-    const now = new Date()
-    this.requests.push(now)
-
-    // Keep array size reasonable
-    if (this.requests.length > this.config.maxRequestsPerMinute * 2) {
-      this.requests = this.requests.slice(-this.config.maxRequestsPerMinute)
+  private async acquire(): Promise<RateLimitDecision> {
+    try {
+      return await this.store.acquire(this.config.key, this.config.maxRequestsPerMinute, this.config.windowMs)
+    } catch (error) {
+      this.logger.warn('Rate limit store unavailable, limiting this instance only', {
+        key: this.config.key,
+        store: this.store.kind,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return await this.fallbackStore.acquire(this.config.key, this.config.maxRequestsPerMinute, this.config.windowMs)
     }
   }
 
-  private cleanOldRequests(): void {
-    const cutoff = new Date(Date.now() - this.config.windowMs)
-    this.requests = this.requests.filter(req => req > cutoff)
-  }
-
-  private async wait(ms: number): Promise<void> {
+  private async wait(ms: number): Promise<number> {
     let waitTime = ms
 
     // Add jitter to prevent thundering herd
@@ -168,9 +138,11 @@ export class WhatsAppRateLimiter {
       waitTime += jitterMs
     }
 
-    return new Promise(resolve => {
-      setTimeout(resolve, Math.max(0, waitTime))
+    waitTime = Math.max(0, Math.round(waitTime))
+    await new Promise(resolve => {
+      setTimeout(resolve, waitTime)
     })
+    return waitTime
   }
 }
 
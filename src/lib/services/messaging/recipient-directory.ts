@@ -0,0 +1,126 @@
+/**
+ * Recipient Directory
+ * Resolves who a deal notification goes to: every active recipient of every active role
+ * in notification_recipients, on each channel they chose that is switched on.
+ *
+ * Until the first recipient is added, the legacy environment configuration is used:
+ * one recipient per role from WHATSAPP_PHONE_<ROLE> / TELEGRAM_CHAT_<ROLE>, on the
+ * channels listed in NOTIFICATION_CHANNEL_<ROLE> (default whatsapp), e.g.
+ *   NOTIFICATION_CHANNEL_BOSS1=telegram
+ *   NOTIFICATION_CHANNEL_ACCOUNTS=whatsapp,telegram
+ */
+
+import type { NotificationRecipient } from '@/types'
+import type { RecipientDeliveryMode } from '@/types/notification-recipients'
+import {
+  NotificationRecipientRepository,
+  getNotificationRecipientRepository
+} from '@/lib/repositories/notification-recipient.repository'
+import { BUILT_IN_RECIPIENT_ROLES, BuiltInRecipientRole, RecipientRole } from './whatsapp.types'
+import { ChannelPlatform, isChannelEnabled, isChannelPlatform } from './notification-channel'
+import { getWhatsAppRecipients } from './whatsapp.config'
+import { getTelegramRecipients } from './telegram.config'
+
+export interface NotificationTarget {
+  role: RecipientRole
+  platform: ChannelPlatform
+  recipient: string
+  // Set for recipients from notification_recipients
+  recipientId?: string
+  name?: string
+  // Recipients from the environment always get every deal
+  deliveryMode?: RecipientDeliveryMode
+}
+
+const DEFAULT_CHANNELS: ChannelPlatform[] = ['whatsapp']
+
+/**
+ * Channels configured for each role in the environment (unknown channel names are ignored with a warning)
+ */
+export const getChannelRouting = (): Record<BuiltInRecipientRole, ChannelPlatform[]> => {
+  return Object.fromEntries(BUILT_IN_RECIPIENT_ROLES.map(role => {
+    const setting = process.env[`NOTIFICATION_CHANNEL_${role.toUpperCase()}`]
+    if (!setting) {
+      return [role, DEFAULT_CHANNELS]
+    }
+
+    const names = setting.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    const unknown = names.filter(name => !isChannelPlatform(name))
+    if (unknown.length > 0) {
+      console.warn(`Ignoring unknown notification channel(s) for ${role}: ${unknown.join(', ')}`)
+    }
+
+    return [role, Array.from(new Set(names.filter(isChannelPlatform)))]
+  })) as Record<BuiltInRecipientRole, ChannelPlatform[]>
+}
+
+/**
+ * Address of a recipient on a channel ('' when they have none)
+ */
+export const getRecipientAddress = (recipient: Pick<NotificationRecipient, 'whatsapp_phone' | 'telegram_chat_id'>, platform: ChannelPlatform): string => {
+  return (platform === 'telegram' ? recipient.telegram_chat_id : recipient.whatsapp_phone) ?? ''
+}
+
+/**
+ * One target per role and routed channel from the environment, regardless of feature flags
+ * Roles without an address on a channel are skipped
+ */
+export const getEnvironmentTargets = (): NotificationTarget[] => {
+  const routing = getChannelRouting()
+  const whatsappRecipients = getWhatsAppRecipients()
+  const telegramRecipients = getTelegramRecipients()
+
+  return BUILT_IN_RECIPIENT_ROLES.flatMap(role =>
+    routing[role]
+      .map(platform => ({
+        role,
+        platform,
+        recipient: platform === 'telegram' ? telegramRecipients[role] : whatsappRecipients[role]
+      }))
+      .filter(target => !!target.recipient)
+  )
+}
+
+/**
+ * Every (recipient, channel) a deal notification goes to, including digest-only recipients
+ * (the router skips them)
+ * Channels that are disabled and recipients without an address on a channel are skipped
+ */
+export const getNotificationTargets = async (
+  repository: NotificationRecipientRepository = getNotificationRecipientRepository()
+): Promise<NotificationTarget[]> => {
+  if (!(await repository.hasAny())) {
+    return getEnvironmentTargets().filter(target => isChannelEnabled(target.platform))
+  }
+
+  const recipients = await repository.listActive()
+  return recipients.flatMap(toTargets)
+}
+
+/**
+ * Every (recipient, channel) the daily and weekly digests go to: recipients who opted in
+ * Digests are opt-in, so the environment fallback has no digest targets
+ */
+export const getDigestTargets = async (
+  repository: NotificationRecipientRepository = getNotificationRecipientRepository()
+): Promise<NotificationTarget[]> => {
+  const recipients = await repository.listActive()
+
+  return recipients
+    .filter(recipient => recipient.delivery_mode === 'per_deal_and_digest' || recipient.delivery_mode === 'digest_only')
+    .flatMap(toTargets)
+}
+
+const toTargets = (recipient: NotificationRecipient): NotificationTarget[] =>
+  recipient.channels
+    .filter(isChannelPlatform)
+    .filter(isChannelEnabled)
+    .map(platform => ({
+      role: recipient.role,
+      platform,
+      recipient: getRecipientAddress(recipient, platform),
+      recipientId: recipient.id,
+      name: recipient.name,
+      deliveryMode: recipient.delivery_mode as RecipientDeliveryMode
+    }))
+    .filter(target => !!target.recipient)
@@ -0,0 +1,255 @@
+/**
+ * Recipient Settings Service
+ * Manages the roles and people in notification_recipients for the settings page,
+ * checking that every channel a person is notified on has an address for it.
+ */
+
+import type { NotificationRecipient, NotificationRecipientInsert, NotificationRole } from '@/types'
+import type {
+  RecipientCreateRequest,
+  RecipientSettings,
+  RecipientUpdateRequest,
+  RoleCreateRequest,
+  RoleUpdateRequest
+} from '@/types/notification-recipients'
+import {
+  NotificationRecipientRepository,
+  getNotificationRecipientRepository
+} from '@/lib/repositories/notification-recipient.repository'
+import { NotificationRoleRepository, getNotificationRoleRepository } from '@/lib/repositories/notification-role.repository'
+import { WhatsAppLogger } from './whatsapp.types'
+import { CHANNEL_PLATFORMS, isChannelEnabled } from './notification-channel'
+import { getEnvironmentTargets, getRecipientAddress } from './recipient-directory'
+
+export interface RecipientResult {
+  success: boolean
+  recipient?: NotificationRecipient
+  error?: string
+  validationErrors?: string[]
+  notFound?: boolean
+}
+
+export interface RoleResult {
+  success: boolean
+  role?: NotificationRole
+  error?: string
+  validationErrors?: string[]
+  notFound?: boolean
+}
+
+const CHANNEL_ADDRESS_LABELS = {
+  whatsapp: 'a WhatsApp phone number',
+  telegram: 'a Telegram chat ID'
+}
+
+export class RecipientSettingsService {
+  private readonly recipientRepository: NotificationRecipientRepository
+  private readonly roleRepository: NotificationRoleRepository
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    recipientRepository?: NotificationRecipientRepository,
+    roleRepository?: NotificationRoleRepository,
+    logger?: WhatsAppLogger
+  ) {
+    this.recipientRepository = recipientRepository || getNotificationRecipientRepository()
+    this.roleRepository = roleRepository || getNotificationRoleRepository()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[Recipients] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[Recipients] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[Recipients] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[Recipients] ${msg}`, meta)
+    }
+  }
+
+  async getSettings(): Promise<RecipientSettings> {
+    const [roles, recipients] = await Promise.all([
+      this.roleRepository.listAll(),
+      this.recipientRepository.listAll()
+    ])
+
+    return {
+      roles,
+      recipients,
+      channels: Object.fromEntries(
+        CHANNEL_PLATFORMS.map(platform => [platform, isChannelEnabled(platform)])
+      ) as RecipientSettings['channels'],
+      usingEnvironmentFallback: recipients.length === 0
+    }
+  }
+
+  async createRecipient(request: RecipientCreateRequest): Promise<RecipientResult> {
+    const validationErrors = await this.validateRecipient({
+      role: request.role,
+      whatsapp_phone: request.whatsappPhone ?? null,
+      telegram_chat_id: request.telegramChatId ?? null,
+      channels: request.channels
+    })
+    if (validationErrors.length > 0) {
+      return { success: false, error: 'Validation failed', validationErrors }
+    }
+
+    const [recipient] = await this.recipientRepository.create([{
+      role: request.role,
+      name: request.name,
+      whatsapp_phone: request.whatsappPhone || null,
+      telegram_chat_id: request.telegramChatId || null,
+      channels: request.channels,
+      delivery_mode: request.deliveryMode ?? 'per_deal',
+      is_active: request.isActive ?? true,
+      updated_by: request.updatedBy ?? 'operator'
+    }])
+
+    this.logger.info('Recipient added', { id: recipient.id, role: recipient.role })
+    return { success: true, recipient }
+  }
+
+  /**
+   * Apply a partial edit; the edited recipient as a whole must still be valid
+   */
+  async updateRecipient(id: string, request: RecipientUpdateRequest): Promise<RecipientResult> {
+    const current = await this.recipientRepository.getById(id)
+    if (!current) {
+      return { success: false, notFound: true, error: `Recipient ${id} not found` }
+    }
+
+    const validationErrors = await this.validateRecipient({
+      role: request.role ?? current.role,
+      whatsapp_phone: request.whatsappPhone !== undefined ? request.whatsappPhone : current.whatsapp_phone,
+      telegram_chat_id: request.telegramChatId !== undefined ? request.telegramChatId : current.telegram_chat_id,
+      channels: request.channels ?? current.channels
+    })
+    if (validationErrors.length > 0) {
+      return { success: false, error: 'Validation failed', validationErrors }
+    }
+
+    const recipient = await this.recipientRepository.update(id, {
+      role: request.role,
+      name: request.name,
+      whatsapp_phone: request.whatsappPhone !== undefined ? request.whatsappPhone || null : undefined,
+      telegram_chat_id: request.telegramChatId !== undefined ? request.telegramChatId || null : undefined,
+      channels: request.channels,
+      delivery_mode: request.deliveryMode,
+      is_active: request.isActive,
+      updated_by: request.updatedBy ?? 'operator'
+    })
+
+    this.logger.info('Recipient updated', { id, role: recipient.role, isActive: recipient.is_active })
+    return { success: true, recipient }
+  }
+
+  async deleteRecipient(id: string): Promise<RecipientResult> {
+    const deleted = await this.recipientRepository.delete(id)
+    if (!deleted) {
+      return { success: false, notFound: true, error: `Recipient ${id} not found` }
+    }
+
+    this.logger.info('Recipient deleted', { id })
+    return { success: true }
+  }
+
+  /**
+   * Copy the WHATSAPP_PHONE_* / TELEGRAM_CHAT_* recipients into the table, one person per role
+   * Numbers that are already configured for the role are skipped, so importing twice is harmless
+   */
+  async importFromEnvironment(updatedBy?: string): Promise<NotificationRecipient[]> {
+    const [roles, existing] = await Promise.all([
+      this.roleRepository.listAll(),
+      this.recipientRepository.listAll()
+    ])
+
+    const byRole = new Map<string, NotificationRecipientInsert>()
+    for (const target of getEnvironmentTargets()) {
+      const alreadyConfigured = existing.some(recipient =>
+        recipient.role === target.role && getRecipientAddress(recipient, target.platform) === target.recipient
+      )
+      if (alreadyConfigured) continue
+
+      const recipient = byRole.get(target.role) ?? {
+        role: target.role,
+        name: roles.find(role => role.key === target.role)?.label ?? target.role,
+        channels: [],
+        updated_by: updatedBy ?? 'operator'
+      }
+      recipient.channels = [...(recipient.channels ?? []), target.platform]
+      if (target.platform === 'telegram') {
+        recipient.telegram_chat_id = target.recipient
+      } else {
+        recipient.whatsapp_phone = target.recipient
+      }
+      byRole.set(target.role, recipient)
+    }
+
+    if (byRole.size === 0) {
+      return []
+    }
+
+    const imported = await this.recipientRepository.create(Array.from(byRole.values()))
+    this.logger.info('Recipients imported from environment', { count: imported.length })
+    return imported
+  }
+
+  async createRole(request: RoleCreateRequest): Promise<RoleResult> {
+    if (await this.roleRepository.getByKey(request.key)) {
+      return { success: false, error: 'Validation failed', validationErrors: [`Role ${request.key} already exists`] }
+    }
+
+    const role = await this.roleRepository.create({
+      key: request.key,
+      label: request.label,
+      description: request.description ?? null
+    })
+
+    this.logger.info('Role added', { key: role.key })
+    return { success: true, role }
+  }
+
+  /**
+   * Edit a role's label or description, or switch all of its recipients off at once
+   */
+  async updateRole(key: string, request: RoleUpdateRequest): Promise<RoleResult> {
+    if (!(await this.roleRepository.getByKey(key))) {
+      return { success: false, notFound: true, error: `Role ${key} not found` }
+    }
+
+    const role = await this.roleRepository.update(key, {
+      label: request.label,
+      description: request.description,
+      is_active: request.isActive
+    })
+
+    this.logger.info('Role updated', { key, isActive: role.is_active })
+    return { success: true, role }
+  }
+
+  private async validateRecipient(
+    recipient: Pick<NotificationRecipient, 'role' | 'whatsapp_phone' | 'telegram_chat_id' | 'channels'>
+  ): Promise<string[]> {
+    const errors: string[] = []
+
+    if (!(await this.roleRepository.getByKey(recipient.role))) {
+      errors.push(`role: Unknown role ${recipient.role}`)
+    }
+
+    for (const platform of CHANNEL_PLATFORMS) {
+      if (recipient.channels.includes(platform) && !getRecipientAddress(recipient, platform)) {
+        errors.push(`channels: Notifying on ${platform} needs ${CHANNEL_ADDRESS_LABELS[platform]}`)
+      }
+    }
+
+    return errors
+  }
+}
+
+/**
+ * Singleton recipient settings service instance
+ */
+let globalRecipientSettingsService: RecipientSettingsService | null = null
+
+export const getRecipientSettingsService = (): RecipientSettingsService => {
+  if (!globalRecipientSettingsService) {
+    globalRecipientSettingsService = new RecipientSettingsService()
+  }
+  return globalRecipientSettingsService
+}
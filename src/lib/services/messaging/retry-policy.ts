@@ -0,0 +1,103 @@
+/**
+ * Retry Policy for outbox messages
+ * Decides whether a failed send is retried (and when) or moved to dead_letter
+ */
+
+import { RetryConfiguration, WhatsAppError, WhatsAppErrorType } from './whatsapp.types'
+import { getWhatsAppRetrySettings } from './whatsapp.config'
+
+// Retrying these cannot succeed without someone fixing the token or the number, or (for a
+// closed session window) the recipient messaging us or a fallback template being configured
+export const NON_RETRYABLE_ERROR_TYPES: WhatsAppErrorType[] = ['AUTH_ERROR', 'INVALID_RECIPIENT', 'SESSION_WINDOW_CLOSED']
+
+export interface RetryDecision {
+  status: 'failed' | 'dead_letter'
+  nextRetryAt: Date | null
+  reason?: string
+}
+
+export interface RetryPolicyConfig extends RetryConfiguration {
+  enabled: boolean
+}
+
+const JITTER_RATIO = 0.2 // ±20%
+
+export class RetryPolicy {
+  private readonly config: RetryPolicyConfig
+
+  constructor(config: Partial<RetryPolicyConfig> = {}) {
+    this.config = {
+      enabled: true,
+      maxAttempts: 4,
+      delays: [1000, 5000, 15000],
+      backoffMultiplier: 2,
+      jitter: true,
+      ...config
+    }
+  }
+
+  /**
+   * Total attempts (first send + retries) to store on new outbox rows
+   */
+  get maxAttempts(): number {
+    return this.config.enabled ? this.config.maxAttempts : 1
+  }
+
+  isRetryable(errorType?: string | null): boolean {
+    return !NON_RETRYABLE_ERROR_TYPES.includes(errorType as WhatsAppErrorType)
+  }
+
+  /**
+   * Decide what happens to a message after a failed attempt
+   */
+  decide(error: WhatsAppError | undefined, attempts: number, maxAttempts: number): RetryDecision {
+    if (!this.config.enabled) {
+      return { status: 'dead_letter', nextRetryAt: null, reason: 'Retries are disabled' }
+    }
+
+    if (!this.isRetryable(error?.type)) {
+      return { status: 'dead_letter', nextRetryAt: null, reason: `${error?.type} is not retryable` }
+    }
+
+    if (attempts >= maxAttempts) {
+      return { status: 'dead_letter', nextRetryAt: null, reason: `Gave up after ${attempts} attempts` }
+    }
+
+    return {
+      status: 'failed',
+      nextRetryAt: new Date(Date.now() + this.getDelay(attempts, error?.retryAfter))
+    }
+  }
+
+  /**
+   * Delay before the next attempt (ms). The nth retry uses delays[n - 1]; past the end of
+   * the list the last delay grows by backoffMultiplier. A rate limit's retryAfter is a floor.
+   */
+  getDelay(attempt: number, retryAfterSeconds?: number): number {
+    const { delays, backoffMultiplier } = this.config
+    const index = Math.max(attempt - 1, 0)
+    const lastDelay = delays[delays.length - 1] ?? 60000
+    const baseDelay = index < delays.length
+      ? delays[index]
+      : lastDelay * Math.pow(backoffMultiplier, index - delays.length + 1)
+
+    const delay = this.config.jitter
+      ? baseDelay * (1 + (Math.random() * 2 - 1) * JITTER_RATIO)
+      : baseDelay
+
+    const retryAfterMs = (retryAfterSeconds ?? 0) * 1000
+    return Math.round(Math.max(delay, retryAfterMs))
+  }
+}
+
+/**
+ * Retry policy from WHATSAPP_RETRY_ENABLED / WHATSAPP_MAX_RETRIES / WHATSAPP_RETRY_DELAYS
+ */
+export const createRetryPolicy = (): RetryPolicy => {
+  const settings = getWhatsAppRetrySettings()
+  return new RetryPolicy({
+    enabled: settings.enabled,
+    maxAttempts: settings.maxRetries + 1,
+    delays: settings.retryDelays
+  })
+}
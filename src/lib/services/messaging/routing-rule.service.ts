@@ -0,0 +1,159 @@
+/**
+ * Routing Rule Service
+ * Manages the notification routing rules for the settings page; each rule must target
+ * a role or recipient that exists.
+ */
+
+import type {
+  RoutingRule,
+  RoutingRuleCatalog,
+  RoutingRuleCreateRequest,
+  RoutingRuleUpdateRequest
+} from '@/types/notification-routing'
+import {
+  NotificationRoutingRuleRepository,
+  getNotificationRoutingRuleRepository
+} from '@/lib/repositories/notification-routing-rule.repository'
+import {
+  NotificationRecipientRepository,
+  getNotificationRecipientRepository
+} from '@/lib/repositories/notification-recipient.repository'
+import { NotificationRoleRepository, getNotificationRoleRepository } from '@/lib/repositories/notification-role.repository'
+import { WhatsAppLogger } from './whatsapp.types'
+import { ROUTING_FIELDS, ROUTING_OPERATORS, toRoutingRule } from './routing-rules'
+
+export interface RoutingRuleResult {
+  success: boolean
+  rule?: RoutingRule
+  error?: string
+  validationErrors?: string[]
+  notFound?: boolean
+}
+
+export class RoutingRuleService {
+  private readonly ruleRepository: NotificationRoutingRuleRepository
+  private readonly roleRepository: NotificationRoleRepository
+  private readonly recipientRepository: NotificationRecipientRepository
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    ruleRepository?: NotificationRoutingRuleRepository,
+    roleRepository?: NotificationRoleRepository,
+    recipientRepository?: NotificationRecipientRepository,
+    logger?: WhatsAppLogger
+  ) {
+    this.ruleRepository = ruleRepository || getNotificationRoutingRuleRepository()
+    this.roleRepository = roleRepository || getNotificationRoleRepository()
+    this.recipientRepository = recipientRepository || getNotificationRecipientRepository()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[Routing] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[Routing] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[Routing] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[Routing] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Rules with the fields and operators conditions can use
+   */
+  async getCatalog(): Promise<RoutingRuleCatalog> {
+    const stored = await this.ruleRepository.listAll()
+
+    return {
+      rules: stored.map(toRoutingRule),
+      fields: ROUTING_FIELDS,
+      operators: ROUTING_OPERATORS
+    }
+  }
+
+  async createRule(request: RoutingRuleCreateRequest): Promise<RoutingRuleResult> {
+    const validationErrors = await this.validateTarget(request.role ?? null, request.recipientId ?? null)
+    if (validationErrors.length > 0) {
+      return { success: false, error: 'Validation failed', validationErrors }
+    }
+
+    const stored = await this.ruleRepository.create({
+      name: request.name,
+      description: request.description ?? null,
+      role: request.role || null,
+      recipient_id: request.recipientId || null,
+      conditions: request.conditions,
+      is_active: request.isActive ?? true,
+      updated_by: request.updatedBy ?? 'operator'
+    })
+
+    this.logger.info('Routing rule added', { id: stored.id, name: stored.name })
+    return { success: true, rule: toRoutingRule(stored) }
+  }
+
+  /**
+   * Apply a partial edit; setting a role clears the recipient and vice versa
+   */
+  async updateRule(id: string, request: RoutingRuleUpdateRequest): Promise<RoutingRuleResult> {
+    const current = await this.ruleRepository.getById(id)
+    if (!current) {
+      return { success: false, notFound: true, error: `Routing rule ${id} not found` }
+    }
+
+    const retarget = request.role !== undefined || request.recipientId !== undefined
+    const role = retarget ? request.role || null : current.role
+    const recipientId = retarget ? request.recipientId || null : current.recipient_id
+
+    const validationErrors = await this.validateTarget(role, recipientId)
+    if (validationErrors.length > 0) {
+      return { success: false, error: 'Validation failed', validationErrors }
+    }
+
+    const stored = await this.ruleRepository.update(id, {
+      name: request.name,
+      description: request.description,
+      role: retarget ? role : undefined,
+      recipient_id: retarget ? recipientId : undefined,
+      conditions: request.conditions,
+      is_active: request.isActive,
+      updated_by: request.updatedBy ?? 'operator'
+    })
+
+    this.logger.info('Routing rule updated', { id, name: stored.name, isActive: stored.is_active })
+    return { success: true, rule: toRoutingRule(stored) }
+  }
+
+  async deleteRule(id: string): Promise<RoutingRuleResult> {
+    const deleted = await this.ruleRepository.delete(id)
+    if (!deleted) {
+      return { success: false, notFound: true, error: `Routing rule ${id} not found` }
+    }
+
+    this.logger.info('Routing rule deleted', { id })
+    return { success: true }
+  }
+
+  private async validateTarget(role: string | null, recipientId: string | null): Promise<string[]> {
+    if (!role === !recipientId) {
+      return ['role: A rule applies to either a role or a recipient']
+    }
+
+    if (role && !(await this.roleRepository.getByKey(role))) {
+      return [`role: Unknown role ${role}`]
+    }
+
+    if (recipientId && !(await this.recipientRepository.getById(recipientId))) {
+      return [`recipientId: Unknown recipient ${recipientId}`]
+    }
+
+    return []
+  }
+}
+
+/**
+ * Singleton routing rule service instance
+ */
+let globalRoutingRuleService: RoutingRuleService | null = null
+
+export const getRoutingRuleService = (): RoutingRuleService => {
+  if (!globalRoutingRuleService) {
+    globalRoutingRuleService = new RoutingRuleService()
+  }
+  return globalRoutingRuleService
+}
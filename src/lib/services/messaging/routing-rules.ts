@@ -0,0 +1,162 @@
+/**
+ * Routing Rules
+ * Evaluates notification routing conditions against a deal. A rule targets a role or a
+ * single recipient; all of its conditions must hold for it to match. A role or recipient
+ * with active rules is notified only when at least one of them matches.
+ */
+
+import type { Json } from '@/types/database.types'
+import type { NotificationRoutingRule } from '@/types'
+import type {
+  RoutingCondition,
+  RoutingConditionResult,
+  RoutingFactValue,
+  RoutingField,
+  RoutingFieldDefinition,
+  RoutingOperator,
+  RoutingRule,
+  RoutingRuleEvaluation
+} from '@/types/notification-routing'
+import { RoutingConditionsSchema } from '@/lib/schemas/notification-routing'
+import { calculateDealCosting } from '@/lib/costing/deal-costing'
+import { DealData } from './whatsapp.types'
+
+export const ROUTING_FIELDS: Record<RoutingField, RoutingFieldDefinition> = {
+  saleAmount: { label: 'Deal value (₹, quantity × sale rate)', type: 'number' },
+  quantitySold: { label: 'Quantity sold (kg)', type: 'number' },
+  saleRate: { label: 'Sale rate (₹/kg)', type: 'number' },
+  grossMarginPercent: { label: 'Gross margin % (new material only)', type: 'number' },
+  netMarginPercent: { label: 'Net margin % after charges (new material only)', type: 'number' },
+  netProfit: { label: 'Net profit (₹, new material only)', type: 'number' },
+  deliveryTerms: { label: 'Delivery terms', type: 'text', options: ['delivered', 'ex-warehouse'] },
+  materialSource: { label: 'Material source', type: 'text', options: ['new-material', 'from-inventory'] },
+  saleParty: { label: 'Customer', type: 'text' },
+  purchaseParty: { label: 'Supplier', type: 'text' },
+  productCode: { label: 'Product code', type: 'text' },
+  product: { label: 'Product', type: 'text' },
+  grade: { label: 'Grade', type: 'text' },
+  company: { label: 'Company', type: 'text' },
+  specificGrade: { label: 'Specific grade', type: 'text' },
+  warehouseLocation: { label: 'Warehouse location', type: 'text' }
+}
+
+export const ROUTING_OPERATORS: Record<RoutingOperator, string> = {
+  eq: 'is',
+  neq: 'is not',
+  gt: 'is greater than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  in: 'is one of',
+  not_in: 'is none of',
+  contains: 'contains'
+}
+
+/**
+ * The deal facts conditions are tested against
+ * Margins and profit are null for deals without a cost (inventory deals with no stock cost)
+ */
+export const buildRoutingFacts = (deal: DealData): Record<RoutingField, RoutingFactValue> => {
+  const costing = calculateDealCosting(deal)
+  const hasPurchaseCost = costing.purchaseAmount > 0
+
+  return {
+    saleAmount: costing.saleAmount,
+    quantitySold: deal.quantitySold,
+    saleRate: deal.saleRate,
+    grossMarginPercent: hasPurchaseCost ? costing.profitMargin : null,
+    netMarginPercent: hasPurchaseCost ? costing.netMarginPercent : null,
+    netProfit: hasPurchaseCost ? costing.netProfit : null,
+    deliveryTerms: deal.deliveryTerms,
+    materialSource: deal.materialSource,
+    saleParty: deal.saleParty || null,
+    purchaseParty: deal.purchaseParty || null,
+    productCode: deal.productCode || null,
+    product: deal.product || null,
+    grade: deal.grade || null,
+    company: deal.company || null,
+    specificGrade: deal.specificGrade || null,
+    warehouseLocation: deal.warehouseLocation || null
+  }
+}
+
+// Text comparisons ignore case and surrounding spaces
+const normalize = (value: string | number): string => String(value).trim().toLowerCase()
+
+/**
+ * Whether one condition holds; a missing fact only satisfies neq and not_in
+ */
+export const evaluateCondition = (condition: RoutingCondition, actual: RoutingFactValue): boolean => {
+  const { operator, value } = condition
+
+  if (actual === null) {
+    return operator === 'neq' || operator === 'not_in'
+  }
+
+  switch (operator) {
+    case 'eq':
+      return normalize(actual) === normalize(value as string | number)
+    case 'neq':
+      return normalize(actual) !== normalize(value as string | number)
+    case 'gt':
+      return typeof actual === 'number' && actual > Number(value)
+    case 'gte':
+      return typeof actual === 'number' && actual >= Number(value)
+    case 'lt':
+      return typeof actual === 'number' && actual < Number(value)
+    case 'lte':
+      return typeof actual === 'number' && actual <= Number(value)
+    case 'in':
+      return (value as string[]).some(option => normalize(option) === normalize(actual))
+    case 'not_in':
+      return !(value as string[]).some(option => normalize(option) === normalize(actual))
+    case 'contains':
+      return normalize(actual).includes(normalize(value as string))
+  }
+}
+
+/**
+ * Evaluate every condition of a rule (a rule without conditions always matches)
+ */
+export const evaluateRule = (
+  rule: RoutingRule,
+  facts: Record<RoutingField, RoutingFactValue>
+): RoutingRuleEvaluation => {
+  const conditions: RoutingConditionResult[] = rule.conditions.map(condition => ({
+    condition,
+    actual: facts[condition.field],
+    matched: evaluateCondition(condition, facts[condition.field])
+  }))
+
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    matched: conditions.every(result => result.matched),
+    conditions
+  }
+}
+
+/**
+ * Parse a stored rule's conditions
+ * Throws if the JSON doesn't describe valid conditions (it is validated on save, so only hand edits get here)
+ */
+export const parseRoutingConditions = (conditions: Json): RoutingCondition[] => {
+  const parsed = RoutingConditionsSchema.safeParse(conditions)
+  if (!parsed.success) {
+    throw new Error(`Invalid routing conditions: ${parsed.error.errors.map(issue => issue.message).join(', ')}`)
+  }
+  return parsed.data
+}
+
+export const toRoutingRule = (rule: NotificationRoutingRule): RoutingRule => ({
+  ...rule,
+  conditions: parseRoutingConditions(rule.conditions)
+})
+
+/**
+ * Describe a condition for logs and the dry-run, e.g. "saleAmount is greater than 1000000"
+ */
+export const describeCondition = (condition: RoutingCondition): string => {
+  const value = Array.isArray(condition.value) ? condition.value.join(', ') : condition.value
+  return `${condition.field} ${ROUTING_OPERATORS[condition.operator]} ${value}`
+}
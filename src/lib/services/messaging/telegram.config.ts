@@ -0,0 +1,127 @@
+/**
+ * Telegram Configuration
+ * Loads and validates the Telegram bot settings from the environment
+ */
+
+import { TelegramConfig } from './telegram.types'
+import { RecipientRole, WhatsAppValidationError } from './whatsapp.types'
+
+class TelegramConfigManager {
+  private config: TelegramConfig | null = null
+
+  /**
+   * Get validated Telegram configuration
+   * Throws error if configuration is invalid
+   */
+  getConfig(): TelegramConfig {
+    if (!this.config) {
+      this.config = this.loadAndValidateConfig()
+    }
+    return this.config
+  }
+
+  /**
+   * Reload configuration from environment
+   */
+  reloadConfig(): TelegramConfig {
+    this.config = null
+    return this.getConfig()
+  }
+
+  /**
+   * Chat IDs by role, without validating the bot token
+   * Used when enqueueing messages; sending validates the full configuration
+   */
+  getRecipients(): TelegramConfig['recipients'] {
+    return this.loadConfigFromEnv().recipients
+  }
+
+  /**
+   * Check if Telegram messaging is enabled
+   */
+  isEnabled(): boolean {
+    return process.env.FEATURE_TELEGRAM_MESSAGING === 'true'
+  }
+
+  private loadAndValidateConfig(): TelegramConfig {
+    const config = this.loadConfigFromEnv()
+    this.validateConfigOrThrow(config)
+    return config
+  }
+
+  private loadConfigFromEnv(): TelegramConfig {
+    return {
+      botToken: process.env.TELEGRAM_BOT_TOKEN || '',
+      apiUrl: process.env.TELEGRAM_API_URL || 'https://api.telegram.org',
+      recipients: {
+        accounts: process.env.TELEGRAM_CHAT_ACCOUNTS || '',
+        logistics: process.env.TELEGRAM_CHAT_LOGISTICS || '',
+        boss1: process.env.TELEGRAM_CHAT_BOSS1 || '',
+        bossog: process.env.TELEGRAM_CHAT_BOSSOG || ''
+      },
+      features: {
+        messagingEnabled: process.env.FEATURE_TELEGRAM_MESSAGING === 'true',
+        rateLimitEnabled: process.env.TELEGRAM_RATE_LIMIT_ENABLED !== 'false'
+      },
+      settings: {
+        // Telegram allows about 20 messages per minute into the same group
+        maxMessagesPerMinute: parseInt(process.env.TELEGRAM_MAX_MESSAGES_PER_MINUTE || '20'),
+        circuitBreakerThreshold: parseInt(process.env.TELEGRAM_CIRCUIT_BREAKER_THRESHOLD || '10')
+      }
+    }
+  }
+
+  private validateConfigOrThrow(config: TelegramConfig): void {
+    const errors: string[] = []
+
+    if (!config.features.messagingEnabled) {
+      throw new WhatsAppValidationError('Telegram messaging is disabled (FEATURE_TELEGRAM_MESSAGING=false)')
+    }
+
+    if (!config.botToken) {
+      errors.push('TELEGRAM_BOT_TOKEN is required')
+    } else if (!this.validateBotToken(config.botToken)) {
+      errors.push('TELEGRAM_BOT_TOKEN format is invalid (expected <bot id>:<secret> from @BotFather)')
+    }
+
+    Object.entries(config.recipients).forEach(([role, chatId]) => {
+      if (chatId && !this.validateChatId(chatId)) {
+        errors.push(`TELEGRAM_CHAT_${role.toUpperCase()}: must be a numeric chat ID or an @channelname of 5-32 characters`)
+      }
+    })
+
+    if (config.settings.maxMessagesPerMinute < 1) {
+      errors.push('TELEGRAM_MAX_MESSAGES_PER_MINUTE must be at least 1')
+    }
+
+    if (config.settings.circuitBreakerThreshold < 1) {
+      errors.push('TELEGRAM_CIRCUIT_BREAKER_THRESHOLD must be at least 1')
+    }
+
+    if (errors.length > 0) {
+      throw new WhatsAppValidationError(`Telegram configuration errors: ${errors.join(', ')}`)
+    }
+  }
+
+  private validateBotToken(token: string): boolean {
+    return /^\d+:[A-Za-z0-9_-]{30,}$/.test(token)
+  }
+
+  private validateChatId(chatId: string): boolean {
+    // Numeric IDs (groups are negative) or a public @channelname of 5-32 characters; both fit
+    // the outbox's recipient_phone column
+    return /^-?\d{5,20}$/.test(chatId) || /^@[A-Za-z][A-Za-z0-9_]{4,31}$/.test(chatId)
+  }
+}
+
+// Export singleton instance
+export const telegramConfig = new TelegramConfigManager()
+
+// Export helper functions
+export const getTelegramConfig = () => telegramConfig.getConfig()
+export const isTelegramEnabled = () => telegramConfig.isEnabled()
+export const getTelegramRecipients = (): Record<RecipientRole, string> => telegramConfig.getRecipients()
+export const reloadTelegramConfig = () => telegramConfig.reloadConfig()
+
+// Export for testing
+export { TelegramConfigManager }
@@ -0,0 +1,303 @@
+/**
+ * Telegram Service - Telegram Bot API Integration
+ * Sends notification messages to Telegram chats; the second channel next to WhatsApp
+ */
+
+import {
+  SendMessageResult,
+  RecipientRole,
+  WhatsAppError,
+  WhatsAppLogger,
+  WhatsAppServiceError,
+  WhatsAppAuthError,
+  WhatsAppRateLimitError,
+  WhatsAppNetworkError,
+  WhatsAppValidationError
+} from './whatsapp.types'
+import {
+  TelegramConfig,
+  TelegramMessage,
+  TelegramSendMessageRequest,
+  TelegramSendMessageResponse
+} from './telegram.types'
+import { getTelegramConfig } from './telegram.config'
+import { WhatsAppRateLimiter } from './rate-limiter'
+import { WhatsAppCircuitBreaker, CircuitBreakerOpenError } from './circuit-breaker'
+import { ChannelConnectionResult, NotificationChannel } from './notification-channel'
+
+const MAX_MESSAGE_LENGTH = 4096
+
+export class TelegramService implements NotificationChannel {
+  readonly platform = 'telegram' as const
+  private readonly config: TelegramConfig
+  private readonly logger: WhatsAppLogger
+  private readonly rateLimiter: WhatsAppRateLimiter
+  private readonly circuitBreaker: WhatsAppCircuitBreaker
+
+  constructor(
+    config?: TelegramConfig,
+    logger?: WhatsAppLogger,
+    rateLimiter?: WhatsAppRateLimiter,
+    circuitBreaker?: WhatsAppCircuitBreaker
+  ) {
+    this.config = config || getTelegramConfig()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[Telegram] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[Telegram] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[Telegram] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[Telegram] ${msg}`, meta)
+    }
+
+    // Separate limits from WhatsApp: a Telegram outage or throttle must not hold up WhatsApp sends
+    this.rateLimiter = rateLimiter || new WhatsAppRateLimiter(
+      { maxRequestsPerMinute: this.config.settings.maxMessagesPerMinute, key: 'telegram' },
+      this.logger
+    )
+    this.circuitBreaker = circuitBreaker || new WhatsAppCircuitBreaker(
+      { serviceName: 'Telegram', failureThreshold: this.config.settings.circuitBreakerThreshold },
+      this.logger
+    )
+  }
+
+  /**
+   * Send a single Telegram message
+   */
+  async sendMessage(
+    chatId: string,
+    message: string,
+    dealId?: string,
+    role?: RecipientRole
+  ): Promise<SendMessageResult> {
+    const startTime = Date.now()
+    let waitTime = 0
+
+    try {
+      if (!this.config.features.messagingEnabled) {
+        throw new WhatsAppValidationError('Telegram messaging is disabled', dealId, chatId)
+      }
+
+      this.validateInputs(chatId, message)
+
+      if (this.config.features.rateLimitEnabled) {
+        waitTime = await this.rateLimiter.waitIfNeeded()
+      }
+
+      const callStartTime = Date.now()
+      const response = await this.circuitBreaker.execute(async () => {
+        return await this.makeApiCall(chatId, message)
+      })
+
+      const responseTime = Date.now() - callStartTime
+      const sentMessage = response.result as TelegramMessage
+
+      this.logger.info('Telegram message sent successfully', {
+        dealId,
+        recipient: chatId,
+        role,
+        messageId: sentMessage.message_id,
+        responseTime,
+        waitTime
+      })
+
+      return {
+        success: true,
+        messageId: `telegram-${Date.now()}`, // Internal ID
+        externalMessageId: String(sentMessage.message_id),
+        recipient: chatId,
+        role: role || 'accounts',
+        responseTimeMs: responseTime,
+        waitTimeMs: waitTime,
+        apiResponse: response
+      }
+
+    } catch (error) {
+      const responseTime = Date.now() - startTime - waitTime
+      const telegramError = this.handleError(error, dealId, chatId)
+
+      this.logger.error('Telegram message failed', {
+        dealId,
+        recipient: chatId,
+        role,
+        error: telegramError.message,
+        errorType: telegramError.type,
+        responseTime
+      })
+
+      return {
+        success: false,
+        error: telegramError,
+        recipient: chatId,
+        role: role || 'accounts',
+        responseTimeMs: responseTime,
+        waitTimeMs: waitTime
+      }
+    }
+  }
+
+  /**
+   * Test connectivity to the Bot API (getMe)
+   */
+  async testConnection(): Promise<ChannelConnectionResult> {
+    const startTime = Date.now()
+
+    try {
+      const response = await fetch(`${this.config.apiUrl}/bot${this.config.botToken}/getMe`)
+      const responseTime = Date.now() - startTime
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      return { success: true, responseTime }
+    } catch (error) {
+      const responseTime = Date.now() - startTime
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        responseTime
+      }
+    }
+  }
+
+  /**
+   * Whether the circuit breaker is blocking sends
+   */
+  async isCircuitOpen(): Promise<boolean> {
+    return await this.circuitBreaker.isOpen()
+  }
+
+  /**
+   * Get service metrics
+   */
+  getMetrics() {
+    return {
+      rateLimiter: this.rateLimiter.getMetrics(),
+      circuitBreaker: this.circuitBreaker.getMetrics(),
+      config: {
+        messagingEnabled: this.config.features.messagingEnabled,
+        rateLimitEnabled: this.config.features.rateLimitEnabled
+      }
+    }
+  }
+
+  private async makeApiCall(chatId: string, message: string): Promise<TelegramSendMessageResponse> {
+    // Templates use WhatsApp's *bold* markup, which is not valid Telegram MarkdownV2,
+    // so messages go out as plain text rather than risk "can't parse entities" rejections
+    const request: TelegramSendMessageRequest = {
+      chat_id: chatId,
+      text: message,
+      disable_web_page_preview: true
+    }
+
+    const response = await fetch(`${this.config.apiUrl}/bot${this.config.botToken}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    })
+
+    const body = await response.json().catch(() => ({ ok: false })) as TelegramSendMessageResponse
+
+    if (!response.ok || !body.ok) {
+      this.throwApiError(response.status, body)
+    }
+
+    return body
+  }
+
+  private throwApiError(statusCode: number, body: TelegramSendMessageResponse): never {
+    const description = body.description || `HTTP ${statusCode}`
+
+    switch (body.error_code ?? statusCode) {
+      case 401:
+        throw new WhatsAppAuthError('Invalid Telegram bot token')
+      case 429:
+        throw new WhatsAppRateLimitError(body.parameters?.retry_after ?? 30)
+      case 400:
+        if (/chat not found|chat_id is empty|user not found/i.test(description)) {
+          throw new WhatsAppServiceError(`Invalid recipient: ${description}`, 'INVALID_RECIPIENT', undefined, 400)
+        }
+        throw new WhatsAppValidationError(`Bad request: ${description}`)
+      case 403:
+        // Bot was blocked, kicked from the group or never started by the user
+        throw new WhatsAppServiceError(`Recipient unavailable: ${description}`, 'INVALID_RECIPIENT', undefined, 403)
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        throw new WhatsAppNetworkError(`Server error: ${statusCode} ${description}`)
+      default:
+        throw new WhatsAppServiceError(`API error: ${statusCode} ${description}`, 'UNKNOWN_ERROR', undefined, statusCode)
+    }
+  }
+
+  private handleError(error: unknown, dealId?: string, recipient?: string): WhatsAppError {
+    if (error instanceof WhatsAppServiceError) {
+      return error
+    }
+
+    if (error instanceof CircuitBreakerOpenError) {
+      return new WhatsAppServiceError(
+        'Service temporarily unavailable (circuit breaker open)',
+        'CIRCUIT_OPEN',
+        error.nextAttemptTime ? Math.max(1, Math.ceil((error.nextAttemptTime.getTime() - Date.now()) / 1000)) : undefined,
+        503,
+        dealId,
+        recipient
+      )
+    }
+
+    if ((error as { code?: string }).code === 'ECONNREFUSED' || (error as { code?: string }).code === 'ETIMEDOUT') {
+      return new WhatsAppNetworkError('Cannot reach Telegram Bot API', dealId)
+    }
+
+    return new WhatsAppServiceError(
+      (error as Error).message || 'Unknown Telegram error',
+      'UNKNOWN_ERROR',
+      undefined,
+      undefined,
+      dealId,
+      recipient
+    )
+  }
+
+  private validateInputs(chatId: string, message: string): void {
+    if (!chatId || typeof chatId !== 'string') {
+      throw new WhatsAppValidationError('Chat ID is required')
+    }
+
+    if (!message || typeof message !== 'string') {
+      throw new WhatsAppValidationError('Message text is required')
+    }
+
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      throw new WhatsAppValidationError(`Message text too long (max ${MAX_MESSAGE_LENGTH} characters)`)
+    }
+  }
+}
+
+/**
+ * Singleton Telegram service instance
+ */
+let globalTelegramService: TelegramService | null = null
+
+export const createTelegramService = (
+  config?: TelegramConfig,
+  logger?: WhatsAppLogger
+): TelegramService => {
+  return new TelegramService(config, logger)
+}
+
+export const getGlobalTelegramService = (
+  config?: TelegramConfig,
+  logger?: WhatsAppLogger
+): TelegramService => {
+  if (!globalTelegramService) {
+    globalTelegramService = createTelegramService(config, logger)
+  }
+  return globalTelegramService
+}
+
+export const resetGlobalTelegramService = (): void => {
+  globalTelegramService = null
+}
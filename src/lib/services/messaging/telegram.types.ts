@@ -0,0 +1,52 @@
+/**
+ * Telegram Bot API Types
+ * Configuration and Bot API payloads for the Telegram notification channel
+ */
+
+import { RecipientRole } from './whatsapp.types'
+
+export interface TelegramConfig {
+  botToken: string
+  apiUrl: string
+  // Chat IDs by role (a user, group or channel the bot can post to)
+  recipients: Record<RecipientRole, string>
+  features: {
+    messagingEnabled: boolean
+    rateLimitEnabled: boolean
+  }
+  settings: {
+    maxMessagesPerMinute: number
+    circuitBreakerThreshold: number
+  }
+}
+
+export interface TelegramSendMessageRequest {
+  chat_id: string
+  text: string
+  disable_web_page_preview?: boolean
+}
+
+export interface TelegramMessage {
+  message_id: number
+  date: number
+  chat: {
+    id: number
+    type: 'private' | 'group' | 'supergroup' | 'channel'
+    title?: string
+    username?: string
+  }
+  text?: string
+}
+
+export interface TelegramApiResponse<T> {
+  ok: boolean
+  result?: T
+  error_code?: number
+  description?: string
+  parameters?: {
+    retry_after?: number
+    migrate_to_chat_id?: number
+  }
+}
+
+export type TelegramSendMessageResponse = TelegramApiResponse<TelegramMessage>
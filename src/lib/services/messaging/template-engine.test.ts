@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { TemplateSyntaxError, extractTemplateVariables, renderTemplate, validateTemplate } from './template-engine'
+
+describe('renderTemplate', () => {
+  it('substitutes variables and applies helpers', () => {
+    const text = 'Deal {{dealNumber}}: {{formatNumber quantitySold}} kg for {{ formatCurrency saleAmount }}'
+
+    expect(renderTemplate(text, { dealNumber: 'D-7', quantitySold: 12500, saleAmount: 1250000 }))
+      .toBe('Deal D-7: 12,500 kg for ₹12,50,000')
+  })
+
+  it('renders missing and null variables as empty text', () => {
+    expect(renderTemplate('[{{purchaseParty}}] [{{saleComments}}]', { saleComments: null })).toBe('[] []')
+    expect(renderTemplate('{{formatCurrency purchaseAmount}}', {})).toBe('₹0')
+  })
+
+  it('formats a calendar date as that day', () => {
+    expect(renderTemplate('{{formatDate date}}', { date: '2025-04-01' })).toBe('01 Apr 2025')
+  })
+
+  it('renders the else branch of a false #if and the body of a false #unless', () => {
+    const text = '{{#if isNewMaterial}}new{{else}}stock{{/if}} / {{#unless purchaseParty}}no supplier{{else}}{{purchaseParty}}{{/unless}}'
+
+    expect(renderTemplate(text, { isNewMaterial: false, purchaseParty: '' })).toBe('stock / no supplier')
+    expect(renderTemplate(text, { isNewMaterial: true, purchaseParty: 'Reliance' })).toBe('new / Reliance')
+  })
+
+  it('treats zero and empty text as false', () => {
+    const text = '{{#if value}}yes{{else}}no{{/if}}'
+
+    expect(renderTemplate(text, { value: 0 })).toBe('no')
+    expect(renderTemplate(text, { value: '' })).toBe('no')
+    expect(renderTemplate(text, { value: '0' })).toBe('yes')
+  })
+
+  it('renders nested blocks by their own conditions', () => {
+    const text = '{{#if isNewMaterial}}buy{{#if hasSplitPurchase}} split{{else}} single{{/if}}{{else}}stock{{#unless hasInventoryCost}} uncosted{{/unless}}{{/if}}'
+
+    expect(renderTemplate(text, { isNewMaterial: true, hasSplitPurchase: true })).toBe('buy split')
+    expect(renderTemplate(text, { isNewMaterial: true, hasSplitPurchase: false })).toBe('buy single')
+    expect(renderTemplate(text, { isNewMaterial: false, hasInventoryCost: false })).toBe('stock uncosted')
+    expect(renderTemplate(text, { isNewMaterial: false, hasInventoryCost: true })).toBe('stock')
+  })
+
+  it('drops the lines of block tags that stand alone, leaving no blank lines', () => {
+    const text = [
+      'Sale: {{saleParty}}',
+      '{{#if isNewMaterial}}',
+      '  {{#if purchaseParty}}',
+      'Purchase: {{purchaseParty}}',
+      '  {{/if}}',
+      '{{else}}',
+      'From stock',
+      '{{/if}}',
+      'End'
+    ].join('\n')
+
+    expect(renderTemplate(text, { saleParty: 'Acme', isNewMaterial: true, purchaseParty: 'Reliance' }))
+      .toBe('Sale: Acme\nPurchase: Reliance\nEnd')
+    expect(renderTemplate(text, { saleParty: 'Acme', isNewMaterial: true }))
+      .toBe('Sale: Acme\nEnd')
+    expect(renderTemplate(text, { saleParty: 'Acme', isNewMaterial: false }))
+      .toBe('Sale: Acme\nFrom stock\nEnd')
+  })
+
+  it('keeps the line of a block tag that shares it with text', () => {
+    const text = 'Margin: {{#if hasPurchaseCost}}{{profitMargin}}%{{else}}n/a{{/if}}\nEnd'
+
+    expect(renderTemplate(text, { hasPurchaseCost: true, profitMargin: 12.5 })).toBe('Margin: 12.5%\nEnd')
+    expect(renderTemplate(text, {})).toBe('Margin: n/a\nEnd')
+  })
+
+  it('keeps a variable alone on its line', () => {
+    expect(renderTemplate('A\n{{saleComments}}\nB', { saleComments: '' })).toBe('A\n\nB')
+  })
+
+  it.each([
+    ['{{#if isNewMaterial}}open', '{{#if isNewMaterial}} is never closed'],
+    ['text{{/if}}', '{{/if}} without a matching {{#if}}'],
+    ['{{#if a}}x{{/unless}}', '{{/unless}} closes {{#if a}}'],
+    ['{{else}}', '{{else}} outside of an #if or #unless block'],
+    ['{{#if a}}x{{else}}y{{else}}z{{/if}}', 'Second {{else}} in {{#if a}}'],
+    ['{{#each lines}}{{/each}}', 'Unknown block "#each" (use #if or #unless)'],
+    ['{{#if}}x{{/if}}', '{{#if}} needs exactly one variable name'],
+    ['{{#if a b}}x{{/if}}', '{{#if}} needs exactly one variable name'],
+    ['{{#if a}}x{{/if a}}', 'Unexpected text in {{/if a}}'],
+    ['{{shout saleParty}}', 'Unknown helper "shout"'],
+    ['{{sale-party}}', 'Invalid tag {{sale-party}}'],
+    ['{{formatNumber a b}}', 'Invalid tag {{formatNumber a b}}']
+  ])('rejects %s', (text, message) => {
+    expect(() => renderTemplate(text, {})).toThrow(new TemplateSyntaxError(message))
+  })
+
+  it('leaves an unterminated tag as text', () => {
+    expect(renderTemplate('Deal {{dealNumber', { dealNumber: 'D-7' })).toBe('Deal {{dealNumber')
+  })
+})
+
+describe('extractTemplateVariables', () => {
+  it('lists variables and block conditions in order of first use, including nested ones', () => {
+    const text = '{{saleParty}} {{#if isNewMaterial}}{{formatCurrency purchaseAmount}}{{#unless hasSplitPurchase}}{{purchaseParty}}{{/unless}}{{else}}{{saleParty}}{{/if}}'
+
+    expect(extractTemplateVariables(text))
+      .toEqual(['saleParty', 'isNewMaterial', 'purchaseAmount', 'hasSplitPurchase', 'purchaseParty'])
+  })
+})
+
+describe('validateTemplate', () => {
+  it('reports unknown variables', () => {
+    expect(validateTemplate('{{saleParty}} {{#if margin}}x{{/if}}', ['saleParty']))
+      .toEqual(['Unknown variable "margin"'])
+  })
+
+  it('reports a syntax error instead of throwing', () => {
+    expect(validateTemplate('{{#if isNewMaterial}}', ['isNewMaterial']))
+      .toEqual(['{{#if isNewMaterial}} is never closed'])
+  })
+})
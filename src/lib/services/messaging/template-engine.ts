@@ -0,0 +1,322 @@
+/**
+ * Message Template Engine
+ * Renders editable message templates stored in message_templates.
+ *
+ * Syntax:
+ *   {{saleParty}}                          variable
+ *   {{formatCurrency saleAmount}}          helper applied to a variable
+ *   {{#if isNewMaterial}} ... {{else}} ... {{/if}}
+ *   {{#unless purchaseParty}} ... {{/unless}}
+ *
+ * A block tag alone on its line takes the whole line with it, so conditional sections
+ * can be written one tag per line without leaving blank lines in the message.
+ */
+
+export type TemplateValue = string | number | boolean | Date | null | undefined
+export type TemplateContext = Record<string, TemplateValue>
+
+type BlockKind = 'if' | 'unless'
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; name: string; helper?: string }
+  | { type: 'block'; kind: BlockKind; name: string; body: TemplateNode[]; elseBody: TemplateNode[] }
+
+type Tag =
+  | { type: 'open'; kind: BlockKind; name: string }
+  | { type: 'else' }
+  | { type: 'close'; kind: BlockKind }
+  | { type: 'value'; name: string; helper?: string }
+
+type Token = { type: 'text'; value: string } | { type: 'tag'; tag: Tag; raw: string }
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const formatCurrency = (value: TemplateValue): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(Number(value) || 0)
+}
+
+const formatNumber = (value: TemplateValue): string => {
+  return new Intl.NumberFormat('en-IN').format(Number(value) || 0)
+}
+
+const formatDecimal = (value: TemplateValue): string => {
+  return (Number(value) || 0).toFixed(2)
+}
+
+const formatDate = (value: TemplateValue): string => {
+  if (value === null || value === undefined || value === '') return ''
+  const date = value instanceof Date ? value : new Date(String(value))
+  if (isNaN(date.getTime())) return String(value)
+
+  // A calendar date (YYYY-MM-DD) parses as midnight UTC; format it in UTC so it stays that day
+  const isCalendarDate = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+  return new Intl.DateTimeFormat('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: isCalendarDate ? 'UTC' : undefined
+  }).format(date)
+}
+
+/**
+ * Helpers available as {{helperName variable}}
+ */
+export const TEMPLATE_HELPERS: Record<string, (value: TemplateValue) => string> = {
+  formatCurrency,
+  formatNumber,
+  formatDecimal,
+  formatDate
+}
+
+const parseTag = (content: string): Tag => {
+  const parts = content.split(/\s+/).filter(Boolean)
+
+  if (parts.length === 1 && parts[0] === 'else') {
+    return { type: 'else' }
+  }
+
+  const [head, argument] = parts
+  if (head?.startsWith('#') || head?.startsWith('/')) {
+    const kind = head.slice(1)
+    if (kind !== 'if' && kind !== 'unless') {
+      throw new TemplateSyntaxError(`Unknown block "${head}" (use #if or #unless)`)
+    }
+    if (head.startsWith('/')) {
+      if (parts.length !== 1) throw new TemplateSyntaxError(`Unexpected text in {{${content}}}`)
+      return { type: 'close', kind }
+    }
+    if (parts.length !== 2 || !NAME_PATTERN.test(argument)) {
+      throw new TemplateSyntaxError(`{{${head}}} needs exactly one variable name`)
+    }
+    return { type: 'open', kind, name: argument }
+  }
+
+  if (parts.length === 1 && NAME_PATTERN.test(head)) {
+    return { type: 'value', name: head }
+  }
+
+  if (parts.length === 2 && NAME_PATTERN.test(argument)) {
+    if (!TEMPLATE_HELPERS[head]) {
+      throw new TemplateSyntaxError(`Unknown helper "${head}"`)
+    }
+    return { type: 'value', name: argument, helper: head }
+  }
+
+  throw new TemplateSyntaxError(`Invalid tag {{${content}}}`)
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      tokens.push({ type: 'text', value: text.slice(lastIndex, index) })
+    }
+    tokens.push({ type: 'tag', tag: parseTag(match[1]), raw: match[0] })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    tokens.push({ type: 'text', value: text.slice(lastIndex) })
+  }
+
+  return stripStandaloneLines(tokens)
+}
+
+/**
+ * Remove the line of any block tag that is alone on its line
+ * Decided on the original text first, then applied, so adjacent tag lines are all removed
+ */
+const stripStandaloneLines = (tokens: Token[]): Token[] => {
+  const trimStart = new Set<number>()
+  const trimEnd = new Set<number>()
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'tag' || token.tag.type === 'value') return
+
+    const previous = tokens[index - 1]
+    const next = tokens[index + 1]
+
+    const startsLine = !previous || (previous.type === 'text' && (
+      previous.value.includes('\n')
+        ? /^[ \t]*$/.test(previous.value.slice(previous.value.lastIndexOf('\n') + 1))
+        : index === 1 && /^[ \t]*$/.test(previous.value)
+    ))
+    const endsLine = !next || (next.type === 'text' && (
+      next.value.includes('\n')
+        ? /^[ \t]*\r?$/.test(next.value.slice(0, next.value.indexOf('\n')))
+        : index === tokens.length - 2 && /^[ \t]*$/.test(next.value)
+    ))
+
+    if (startsLine && endsLine) {
+      if (previous) trimEnd.add(index - 1)
+      if (next) trimStart.add(index + 1)
+    }
+  })
+
+  return tokens.map((token, index): Token => {
+    if (token.type !== 'text' || (!trimStart.has(index) && !trimEnd.has(index))) return token
+
+    const { value } = token
+    const start = trimStart.has(index)
+      ? (value.includes('\n') ? value.indexOf('\n') + 1 : value.length)
+      : 0
+    const end = trimEnd.has(index)
+      ? (value.includes('\n') ? value.lastIndexOf('\n') + 1 : 0)
+      : value.length
+
+    return { type: 'text', value: start < end ? value.slice(start, end) : '' }
+  })
+}
+
+/**
+ * Parse template text into a node tree
+ * Throws TemplateSyntaxError for malformed tags and unbalanced blocks
+ */
+const parse = (text: string): TemplateNode[] => {
+  const root: TemplateNode[] = []
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'block' }>; inElse: boolean }> = []
+
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1]
+    if (!top) return root
+    return top.inElse ? top.node.elseBody : top.node.body
+  }
+
+  for (const token of tokenize(text)) {
+    if (token.type === 'text') {
+      if (token.value) current().push({ type: 'text', value: token.value })
+      continue
+    }
+
+    const { tag } = token
+    switch (tag.type) {
+      case 'value':
+        current().push({ type: 'value', name: tag.name, helper: tag.helper })
+        break
+      case 'open': {
+        const node: Extract<TemplateNode, { type: 'block' }> = {
+          type: 'block',
+          kind: tag.kind,
+          name: tag.name,
+          body: [],
+          elseBody: []
+        }
+        current().push(node)
+        stack.push({ node, inElse: false })
+        break
+      }
+      case 'else': {
+        const top = stack[stack.length - 1]
+        if (!top) throw new TemplateSyntaxError('{{else}} outside of an #if or #unless block')
+        if (top.inElse) throw new TemplateSyntaxError(`Second {{else}} in {{#${top.node.kind} ${top.node.name}}}`)
+        top.inElse = true
+        break
+      }
+      case 'close': {
+        const top = stack.pop()
+        if (!top) throw new TemplateSyntaxError(`${token.raw} without a matching {{#${tag.kind}}}`)
+        if (top.node.kind !== tag.kind) {
+          throw new TemplateSyntaxError(`${token.raw} closes {{#${top.node.kind} ${top.node.name}}}`)
+        }
+        break
+      }
+    }
+  }
+
+  const unclosed = stack[stack.length - 1]
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{{#${unclosed.node.kind} ${unclosed.node.name}}} is never closed`)
+  }
+
+  return root
+}
+
+const isTruthy = (value: TemplateValue): boolean => {
+  return value !== null && value !== undefined && value !== false && value !== '' && value !== 0
+}
+
+const formatValue = (value: TemplateValue): string => {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return formatDate(value)
+  return String(value)
+}
+
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext): string => {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value
+      case 'value': {
+        const value = context[node.name]
+        return node.helper ? TEMPLATE_HELPERS[node.helper](value) : formatValue(value)
+      }
+      case 'block': {
+        const condition = isTruthy(context[node.name])
+        const branch = (node.kind === 'if' ? condition : !condition) ? node.body : node.elseBody
+        return renderNodes(branch, context)
+      }
+    }
+  }).join('')
+}
+
+const collectNames = (nodes: TemplateNode[], names: Set<string>): Set<string> => {
+  nodes.forEach(node => {
+    if (node.type === 'value') names.add(node.name)
+    if (node.type === 'block') {
+      names.add(node.name)
+      collectNames(node.body, names)
+      collectNames(node.elseBody, names)
+    }
+  })
+  return names
+}
+
+/**
+ * Render template text with a context
+ * Unknown variables render as empty text; syntax errors throw TemplateSyntaxError
+ */
+export const renderTemplate = (text: string, context: TemplateContext): string => {
+  return renderNodes(parse(text), context)
+}
+
+/**
+ * Variable names a template refers to, in order of first use
+ */
+export const extractTemplateVariables = (text: string): string[] => {
+  return Array.from(collectNames(parse(text), new Set()))
+}
+
+/**
+ * Syntax and variable errors for template text (empty when the template is valid)
+ */
+export const validateTemplate = (text: string, knownVariables: string[]): string[] => {
+  try {
+    const known = new Set(knownVariables)
+    return extractTemplateVariables(text)
+      .filter(name => !known.has(name))
+      .map(name => `Unknown variable "${name}"`)
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return [error.message]
+    }
+    throw error
+  }
+}
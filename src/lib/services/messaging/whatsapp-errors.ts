@@ -0,0 +1,151 @@
+/**
+ * WhatsApp API Errors
+ * Maps the error codes in Meta's Graph API error responses to WhatsAppErrorTypes, so retry
+ * decisions follow what went wrong rather than the HTTP status (Meta answers most failures,
+ * from a closed session window to an expired token, with a plain 400).
+ */
+
+import { WhatsAppErrorType, WhatsAppServiceError } from './whatsapp.types'
+
+// Error response body of the Cloud API
+export interface MetaApiErrorBody {
+  error?: {
+    message?: string
+    type?: string
+    code?: number
+    error_subcode?: number
+    error_data?: { messaging_product?: string; details?: string }
+    fbtrace_id?: string
+  }
+}
+
+// Free-form text sent more than 24 hours after the recipient's last message ("Re-engagement message")
+export const SESSION_WINDOW_ERROR_CODE = 131047
+
+const DEFAULT_RETRY_AFTER_SECONDS = 60
+
+// https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+const META_ERROR_TYPES: Record<number, WhatsAppErrorType> = {
+  // Authorization: expired or revoked token, missing permission, locked or unregistered number
+  0: 'AUTH_ERROR',
+  3: 'AUTH_ERROR',
+  10: 'AUTH_ERROR',
+  190: 'AUTH_ERROR',
+  131005: 'AUTH_ERROR',
+  131031: 'AUTH_ERROR',
+  133010: 'AUTH_ERROR',
+
+  // Throttling: app, account, throughput and per-recipient limits
+  4: 'RATE_LIMIT',
+  80007: 'RATE_LIMIT',
+  130429: 'RATE_LIMIT',
+  131048: 'RATE_LIMIT',
+  131056: 'RATE_LIMIT',
+
+  // The number can't receive messages from this business
+  131021: 'INVALID_RECIPIENT',
+  131026: 'INVALID_RECIPIENT',
+  131030: 'INVALID_RECIPIENT',
+  2018001: 'INVALID_RECIPIENT',
+
+  [SESSION_WINDOW_ERROR_CODE]: 'SESSION_WINDOW_CLOSED',
+
+  // Malformed request or template that is missing, paused or given the wrong parameters
+  100: 'VALIDATION_ERROR',
+  131008: 'VALIDATION_ERROR',
+  131009: 'VALIDATION_ERROR',
+  131051: 'VALIDATION_ERROR',
+  132000: 'VALIDATION_ERROR',
+  132001: 'VALIDATION_ERROR',
+  132005: 'VALIDATION_ERROR',
+  132007: 'VALIDATION_ERROR',
+  132012: 'VALIDATION_ERROR',
+  132015: 'VALIDATION_ERROR',
+  132016: 'VALIDATION_ERROR',
+  132018: 'VALIDATION_ERROR',
+
+  // Payment or messaging limit problems on the WhatsApp Business Account
+  131042: 'QUOTA_EXCEEDED',
+
+  // Meta chose not to deliver (marketing limits, user opted out)
+  131049: 'DELIVERY_FAILED',
+  131050: 'DELIVERY_FAILED',
+
+  // Transient failures on Meta's side
+  1: 'NETWORK_ERROR',
+  2: 'NETWORK_ERROR',
+  131000: 'NETWORK_ERROR',
+  131016: 'NETWORK_ERROR',
+  133004: 'NETWORK_ERROR'
+}
+
+/**
+ * Error type for a Meta error: a known subcode wins over the code, and the HTTP status is
+ * used when neither is known
+ */
+export const classifyMetaError = (httpStatus: number, code?: number, subcode?: number): WhatsAppErrorType => {
+  const mapped = (subcode !== undefined ? META_ERROR_TYPES[subcode] : undefined)
+    ?? (code !== undefined ? META_ERROR_TYPES[code] : undefined)
+  if (mapped) return mapped
+
+  switch (httpStatus) {
+    case 401:
+    case 403:
+      return 'AUTH_ERROR'
+    case 429:
+      return 'RATE_LIMIT'
+    case 400:
+      return 'VALIDATION_ERROR'
+    case 500:
+    case 502:
+    case 503:
+    case 504:
+      return 'NETWORK_ERROR'
+    default:
+      return 'UNKNOWN_ERROR'
+  }
+}
+
+/**
+ * Error type for the error in a failed status callback (the send itself was accepted)
+ */
+export const classifyStatusError = (code?: number): WhatsAppErrorType => {
+  return (code !== undefined ? META_ERROR_TYPES[code] : undefined) ?? 'DELIVERY_FAILED'
+}
+
+/**
+ * Parse an error response body; null when it isn't Meta's JSON error shape
+ */
+export const parseMetaErrorBody = (bodyText: string): MetaApiErrorBody['error'] | null => {
+  try {
+    const body = JSON.parse(bodyText) as MetaApiErrorBody
+    return body && typeof body.error === 'object' ? body.error ?? null : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Error to throw for a non-2xx Cloud API response
+ */
+export const createWhatsAppApiError = (
+  httpStatus: number,
+  bodyText: string,
+  retryAfterHeader: string | null
+): WhatsAppServiceError => {
+  const metaError = parseMetaErrorBody(bodyText)
+  const type = classifyMetaError(httpStatus, metaError?.code, metaError?.error_subcode)
+
+  const description = metaError
+    ? [metaError.message, metaError.error_data?.details].filter(Boolean).join(': ')
+    : bodyText || `HTTP ${httpStatus}`
+  const message = metaError?.code !== undefined
+    ? `Meta error ${metaError.code}${metaError.error_subcode ? `/${metaError.error_subcode}` : ''}: ${description}`
+    : `API error: ${httpStatus} ${description}`
+
+  const retryAfter = type === 'RATE_LIMIT'
+    ? parseInt(retryAfterHeader || '', 10) || DEFAULT_RETRY_AFTER_SECONDS
+    : undefined
+
+  return new WhatsAppServiceError(message, type, retryAfter, httpStatus, undefined, undefined, metaError?.code)
+}
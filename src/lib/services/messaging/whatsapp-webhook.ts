@@ -0,0 +1,205 @@
+/**
+ * WhatsApp Webhook Handler
+ * Verifies Meta's X-Hub-Signature-256 and applies message status callbacks
+ * (sent, delivered, read, failed) to the matching message_outbox rows. A message reported
+ * failed is retried or dead-lettered by the same retry policy as a failed send.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { MessageOutbox } from '@/types'
+import type { Json } from '@/types/database.types'
+import { MessageOutboxRepository, getMessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import { RetryPolicy, createRetryPolicy } from './retry-policy'
+import { classifyStatusError } from './whatsapp-errors'
+import {
+  WhatsAppErrorType,
+  WhatsAppLogger,
+  WhatsAppServiceError,
+  WhatsAppStatusUpdate,
+  WhatsAppWebhookPayload
+} from './whatsapp.types'
+
+export interface WebhookProcessResult {
+  received: number
+  applied: number
+  unmatched: number
+}
+
+const SIGNATURE_PREFIX = 'sha256='
+
+/**
+ * Check the X-Hub-Signature-256 header: HMAC-SHA256 of the raw body keyed with the app secret
+ */
+export const verifyWebhookSignature = (rawBody: string, signatureHeader: string | null, appSecret: string): boolean => {
+  if (!signatureHeader || !signatureHeader.startsWith(SIGNATURE_PREFIX)) {
+    return false
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody, 'utf8').digest()
+  const received = Buffer.from(signatureHeader.slice(SIGNATURE_PREFIX.length), 'hex')
+
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+/**
+ * Status callbacks in a webhook payload (message and other change types are ignored)
+ * Anything that isn't a WhatsApp Business payload, down to a JSON null, has none
+ */
+export const extractStatusUpdates = (payload: unknown): WhatsAppStatusUpdate[] => {
+  if (typeof payload !== 'object' || payload === null) {
+    return []
+  }
+
+  const { object, entry } = payload as WhatsAppWebhookPayload
+  if (object !== 'whatsapp_business_account') {
+    return []
+  }
+
+  return asArray(entry)
+    .flatMap(item => asArray(item?.changes))
+    .filter(change => change?.field === 'messages')
+    .flatMap(change => asArray(change.value?.statuses))
+    .filter(update => typeof update?.id === 'string')
+}
+
+// A list in the payload, or none when the sender put something else there
+const asArray = <T>(value: T[] | undefined): T[] => Array.isArray(value) ? value : []
+
+export class WhatsAppWebhookHandler {
+  private readonly repository: MessageOutboxRepository
+  private readonly retryPolicy: RetryPolicy
+  private readonly logger: WhatsAppLogger
+
+  constructor(repository?: MessageOutboxRepository, retryPolicy?: RetryPolicy, logger?: WhatsAppLogger) {
+    this.repository = repository || getMessageOutboxRepository()
+    this.retryPolicy = retryPolicy || createRetryPolicy()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[WhatsAppWebhook] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[WhatsAppWebhook] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[WhatsAppWebhook] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[WhatsAppWebhook] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Apply every status callback in the payload
+   */
+  async handlePayload(payload: unknown): Promise<WebhookProcessResult> {
+    const updates = extractStatusUpdates(payload)
+    let applied = 0
+    let unmatched = 0
+
+    for (const update of updates) {
+      const matched = await this.applyStatusUpdate(update)
+      if (matched) {
+        applied++
+      } else {
+        unmatched++
+      }
+    }
+
+    if (updates.length > 0) {
+      this.logger.debug('Status callbacks processed', { received: updates.length, applied, unmatched })
+    }
+
+    return { received: updates.length, applied, unmatched }
+  }
+
+  private async applyStatusUpdate(update: WhatsAppStatusUpdate): Promise<boolean> {
+    const seconds = parseInt(update.timestamp, 10)
+    const statusAt = Number.isNaN(seconds) ? new Date() : new Date(seconds * 1000)
+    const error = update.errors?.[0]
+    const errorType = classifyStatusError(error?.code)
+
+    const message = await this.repository.applyDeliveryStatus(
+      update.id,
+      update.status,
+      statusAt,
+      error
+        ? { code: String(error.code), message: error.error_data?.details || error.message || error.title, type: errorType }
+        : { type: errorType }
+    )
+
+    if (!message) {
+      // Messages sent outside the outbox (e.g. /api/messaging/test) have no row
+      this.logger.debug('No outbox message for status callback', { externalMessageId: update.id, status: update.status })
+      return false
+    }
+
+    if (update.status === 'failed') {
+      this.logger.warn('Message reported undeliverable', {
+        externalMessageId: update.id,
+        code: error?.code,
+        error: error?.title
+      })
+      await this.handleReportedFailure(message)
+    }
+
+    return true
+  }
+
+  /**
+   * Retry a message reported failed, or dead-letter it, as the dispatcher does for a failed
+   * send. Only a message this callback (or an earlier delivery of it) failed is still unscheduled.
+   * Text that Meta accepted but then rejected because the session window was closed (131047
+   * mostly arrives here rather than from the send) is queued again as its fallback template.
+   */
+  private async handleReportedFailure(message: MessageOutbox): Promise<void> {
+    if (message.status !== 'failed' || message.next_retry_at !== null) {
+      return
+    }
+
+    if (message.error_type === 'SESSION_WINDOW_CLOSED' && message.whatsapp_template && !message.sent_as_template) {
+      this.logger.info('Session window closed, template queued instead', { messageId: message.id })
+
+      // The dispatcher sends the template alone while error_type is SESSION_WINDOW_CLOSED
+      await this.repository.scheduleReportedFailure(message.id, {
+        status: 'pending',
+        next_retry_at: null,
+        error_details: {
+          ...(message.error_details as Record<string, Json> | null),
+          templateResend: true
+        }
+      })
+      return
+    }
+
+    const attempts = message.attempts ?? 1
+    const error = new WhatsAppServiceError(
+      message.error_message ?? 'Delivery failed',
+      (message.error_type ?? 'DELIVERY_FAILED') as WhatsAppErrorType
+    )
+    const decision = this.retryPolicy.decide(error, attempts, message.max_attempts ?? this.retryPolicy.maxAttempts)
+
+    this.logger.info(decision.status === 'dead_letter' ? 'Reported failure dead-lettered' : 'Reported failure scheduled for retry', {
+      messageId: message.id,
+      attempts,
+      errorType: error.type,
+      nextRetryAt: decision.nextRetryAt?.toISOString(),
+      reason: decision.reason
+    })
+
+    await this.repository.scheduleReportedFailure(message.id, {
+      status: decision.status,
+      next_retry_at: decision.nextRetryAt?.toISOString() ?? null,
+      error_details: {
+        ...(message.error_details as Record<string, Json> | null),
+        attempt: attempts,
+        deadLetterReason: decision.reason ?? null
+      }
+    })
+  }
+}
+
+/**
+ * Singleton webhook handler instance
+ */
+let globalWhatsAppWebhookHandler: WhatsAppWebhookHandler | null = null
+
+export const getWhatsAppWebhookHandler = (): WhatsAppWebhookHandler => {
+  if (!globalWhatsAppWebhookHandler) {
+    globalWhatsAppWebhookHandler = new WhatsAppWebhookHandler()
+  }
+  return globalWhatsAppWebhookHandler
+}
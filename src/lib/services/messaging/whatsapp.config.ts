@@ -51,6 +51,38 @@ class WhatsAppConfigManager {
     return this.getConfig()
   }
 
+  /**
+   * Recipient phone numbers by role, without validating API credentials
+   * Used when enqueueing messages; sending validates the full configuration
+   */
+  getRecipients(): WhatsAppConfig['recipients'] {
+    return this.loadConfigFromEnv().recipients
+  }
+
+  /**
+   * Retry settings, without validating API credentials
+   * Used to schedule retries even when sending fails because of configuration
+   */
+  getRetrySettings(): { enabled: boolean; maxRetries: number; retryDelays: number[] } {
+    const config = this.loadConfigFromEnv()
+    return {
+      enabled: config.features.retryEnabled,
+      maxRetries: config.settings.maxRetries,
+      retryDelays: config.settings.retryDelays
+    }
+  }
+
+  /**
+   * Webhook verification settings (Meta dashboard > WhatsApp > Configuration > Webhook)
+   * verifyToken answers the hub.challenge handshake; appSecret signs each callback
+   */
+  getWebhookSettings(): { verifyToken: string; appSecret: string } {
+    return {
+      verifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
+      appSecret: process.env.WHATSAPP_APP_SECRET || ''
+    }
+  }
+
   /**
    * Check if WhatsApp messaging is enabled
    */
@@ -254,6 +286,9 @@ export const whatsAppConfig = new WhatsAppConfigManager()
 export const getWhatsAppConfig = () => whatsAppConfig.getConfig()
 export const validateWhatsAppConfig = () => whatsAppConfig.validateConfig()
 export const isWhatsAppEnabled = () => whatsAppConfig.isEnabled()
+export const getWhatsAppRecipients = () => whatsAppConfig.getRecipients()
+export const getWhatsAppRetrySettings = () => whatsAppConfig.getRetrySettings()
+export const getWhatsAppWebhookSettings = () => whatsAppConfig.getWebhookSettings()
 export const reloadWhatsAppConfig = () => whatsAppConfig.reloadConfig()
 
 // Export for testing
@@ -8,11 +8,12 @@ import {
   WhatsAppMessage,
   WhatsAppResponse,
   WhatsAppError,
-  WhatsAppErrorType,
+  WhatsAppTemplate,
   DealData,
   SendMessageResult,
   BulkSendResult,
   RecipientRole,
+  SendMessageOptions,
   WhatsAppLogger,
   WhatsAppServiceError,
   WhatsAppAuthError,
@@ -21,11 +22,15 @@ import {
   WhatsAppValidationError
 } from './whatsapp.types'
 import { getWhatsAppConfig } from './whatsapp.config'
-import { generateMessage } from './message-templates'
+import { createWhatsAppApiError } from './whatsapp-errors'
+import { getMessageTemplateService } from './message-template.service'
+import { getNotificationRouter } from './notification-router'
 import { WhatsAppRateLimiter } from './rate-limiter'
 import { WhatsAppCircuitBreaker, CircuitBreakerOpenError } from './circuit-breaker'
+import { NotificationChannel } from './notification-channel'
 
-export class WhatsAppService {
+export class WhatsAppService implements NotificationChannel {
+  readonly platform = 'whatsapp' as const
   private readonly config: WhatsAppConfig
   private readonly logger: WhatsAppLogger
   private readonly rateLimiter: WhatsAppRateLimiter
@@ -48,19 +53,27 @@ export class WhatsAppService {
     }
 
     this.rateLimiter = rateLimiter || new WhatsAppRateLimiter({}, this.logger)
-    this.circuitBreaker = circuitBreaker || new WhatsAppCircuitBreaker({}, this.logger)
+    this.circuitBreaker = circuitBreaker || new WhatsAppCircuitBreaker({
+      // Meta answered; the recipient just hasn't messaged us in the last 24 hours
+      isFailure: error => !isSessionWindowError(error)
+    }, this.logger)
   }
 
   /**
    * Send a single WhatsApp message
+   * When the text is rejected because the recipient's 24-hour session window is closed,
+   * options.fallbackTemplate (an approved template) is sent instead; with options.skipText
+   * the template is sent straight away
    */
   async sendMessage(
     phoneNumber: string,
     message: string,
     dealId?: string,
-    role?: RecipientRole
+    role?: RecipientRole,
+    options: SendMessageOptions = {}
   ): Promise<SendMessageResult> {
     const startTime = Date.now()
+    let waitTime = 0
 
     try {
       // Check if feature is enabled
@@ -72,20 +85,52 @@ export class WhatsAppService {
       this.validateInputs(phoneNumber, message)
 
       // Rate limiting protection
-      const waitTime = await this.rateLimiter.waitIfNeeded()
+      waitTime = await this.rateLimiter.waitIfNeeded()
+
+      // Circuit breaker protection (response time excludes the rate limit wait)
+      const callStartTime = Date.now()
+      const fallbackTemplate = options.fallbackTemplate
+      let sentAsTemplate = false
+      let response: WhatsAppResponse
+
+      try {
+        if (fallbackTemplate && options.skipText) {
+          sentAsTemplate = true
+          response = await this.circuitBreaker.execute(async () => {
+            return await this.makeApiCall(buildTemplateMessage(phoneNumber, fallbackTemplate))
+          })
+        } else {
+          response = await this.circuitBreaker.execute(async () => {
+            return await this.makeApiCall(buildTextMessage(phoneNumber, message))
+          })
+        }
+      } catch (error) {
+        if (!fallbackTemplate || sentAsTemplate || !isSessionWindowError(error)) {
+          throw error
+        }
 
-      // Circuit breaker protection
-      const response = await this.circuitBreaker.execute(async () => {
-        return await this.makeApiCall(phoneNumber, message)
-      })
+        this.logger.info('Session window closed, sending template instead', {
+          dealId,
+          recipient: phoneNumber,
+          role,
+          template: fallbackTemplate.name
+        })
+
+        waitTime += await this.rateLimiter.waitIfNeeded()
+        response = await this.circuitBreaker.execute(async () => {
+          return await this.makeApiCall(buildTemplateMessage(phoneNumber, fallbackTemplate))
+        })
+        sentAsTemplate = true
+      }
 
-      const responseTime = Date.now() - startTime
+      const responseTime = Date.now() - callStartTime
 
       this.logger.info('WhatsApp message sent successfully', {
         dealId,
         recipient: phoneNumber,
         role,
         messageId: response.messages[0]?.id,
+        sentAsTemplate,
         responseTime,
         waitTime
       })
@@ -95,11 +140,15 @@ export class WhatsAppService {
         messageId: `whatsapp-${Date.now()}`, // Internal ID
         externalMessageId: response.messages[0]?.id,
         recipient: phoneNumber,
-        role: role || 'accounts'
+        role: role || 'accounts',
+        responseTimeMs: responseTime,
+        waitTimeMs: waitTime,
+        sentAsTemplate,
+        apiResponse: response
       }
 
     } catch (error) {
-      const responseTime = Date.now() - startTime
+      const responseTime = Date.now() - startTime - waitTime
       const whatsappError = this.handleError(error, dealId, phoneNumber)
 
       this.logger.error('WhatsApp message failed', {
@@ -115,34 +164,42 @@ export class WhatsAppService {
         success: false,
         error: whatsappError,
         recipient: phoneNumber,
-        role: role || 'accounts'
+        role: role || 'accounts',
+        responseTimeMs: responseTime,
+        waitTimeMs: waitTime
       }
     }
   }
 
   /**
-   * Send messages to all recipients for a deal
+   * Send messages to every configured WhatsApp recipient for a deal
+   * (each active recipient who chose WhatsApp and whom the routing rules send this deal to)
    */
   async sendDealNotifications(deal: DealData): Promise<BulkSendResult> {
     const results: SendMessageResult[] = []
     const errors: WhatsAppError[] = []
 
+    const targets = (await getNotificationRouter().resolveTargets(deal)).filter(target => target.platform === 'whatsapp')
+
     this.logger.info('Starting deal notifications', {
       dealId: deal.id,
       customer: deal.saleParty,
-      recipients: Object.keys(this.config.recipients)
+      recipients: targets.map(target => target.name ?? target.role)
     })
 
     // Send to all recipients in parallel
-    const sendPromises = Object.entries(this.config.recipients).map(
-      async ([role, phoneNumber]) => {
+    const sendPromises = targets.map(
+      async ({ role, recipient: phoneNumber }) => {
         try {
-          const message = generateMessage(role as RecipientRole, deal)
+          const templateService = getMessageTemplateService()
+          const message = await templateService.renderMessage(role, deal)
+          const fallbackTemplate = await templateService.renderWhatsAppTemplate(role, deal)
           const result = await this.sendMessage(
             phoneNumber,
             message,
             deal.id,
-            role as RecipientRole
+            role,
+            { fallbackTemplate }
           )
           results.push(result)
 
@@ -156,7 +213,7 @@ export class WhatsAppService {
             success: false,
             error: whatsappError,
             recipient: phoneNumber,
-            role: role as RecipientRole
+            role
           })
         }
       }
@@ -173,7 +230,7 @@ export class WhatsAppService {
       total: results.length,
       success: successCount,
       failed: failureCount,
-      successRate: Math.round((successCount / results.length) * 100)
+      successRate: results.length > 0 ? Math.round((successCount / results.length) * 100) : 0
     })
 
     return {
@@ -218,6 +275,13 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Whether the circuit breaker is blocking sends
+   */
+  async isCircuitOpen(): Promise<boolean> {
+    return await this.circuitBreaker.isOpen()
+  }
+
   /**
    * Get service metrics
    */
@@ -233,21 +297,12 @@ export class WhatsAppService {
     }
   }
 
-  private async makeApiCall(phoneNumber: string, message: string): Promise<WhatsAppResponse> {
+  private async makeApiCall(whatsappMessage: WhatsAppMessage): Promise<WhatsAppResponse> {
     // Simulate errors in development if enabled
     if (process.env.WHATSAPP_SIMULATE_ERRORS === 'true') {
       this.simulateRandomError()
     }
 
-    const whatsappMessage: WhatsAppMessage = {
-      messaging_product: 'whatsapp',
-      to: phoneNumber,
-      type: 'text',
-      text: {
-        body: message
-      }
-    }
-
     const response = await fetch(
       `${this.config.apiUrl}/${this.config.phoneNumberId}/messages`,
       {
@@ -267,26 +322,13 @@ export class WhatsAppService {
     return await response.json() as WhatsAppResponse
   }
 
+  /**
+   * Throw the error for a failed call, typed from Meta's error code (the HTTP status alone
+   * can't tell a closed session window from a bad token: both can come back as 400)
+   */
   private async handleApiError(response: Response): Promise<never> {
-    const statusCode = response.status
     const errorText = await response.text()
-
-    switch (statusCode) {
-      case 401:
-        throw new WhatsAppAuthError('Invalid or expired access token')
-      case 429:
-        const retryAfter = parseInt(response.headers.get('Retry-After') || '60')
-        throw new WhatsAppRateLimitError(retryAfter)
-      case 400:
-        throw new WhatsAppValidationError(`Bad request: ${errorText}`)
-      case 500:
-      case 502:
-      case 503:
-      case 504:
-        throw new WhatsAppNetworkError(`Server error: ${statusCode} ${errorText}`)
-      default:
-        throw new WhatsAppServiceError(`API error: ${statusCode} ${errorText}`, 'UNKNOWN_ERROR', undefined, statusCode)
-    }
+    throw createWhatsAppApiError(response.status, errorText, response.headers.get('Retry-After'))
   }
 
   private handleError(error: unknown, dealId?: string, recipient?: string): WhatsAppError {
@@ -297,8 +339,8 @@ export class WhatsAppService {
     if (error instanceof CircuitBreakerOpenError) {
       return new WhatsAppServiceError(
         'Service temporarily unavailable (circuit breaker open)',
-        'NETWORK_ERROR',
-        undefined,
+        'CIRCUIT_OPEN',
+        error.nextAttemptTime ? Math.max(1, Math.ceil((error.nextAttemptTime.getTime() - Date.now()) / 1000)) : undefined,
         503,
         dealId,
         recipient
@@ -358,6 +400,25 @@ export class WhatsAppService {
   }
 }
 
+const buildTextMessage = (phoneNumber: string, message: string): WhatsAppMessage => ({
+  messaging_product: 'whatsapp',
+  to: phoneNumber,
+  type: 'text',
+  text: {
+    body: message
+  }
+})
+
+const buildTemplateMessage = (phoneNumber: string, template: WhatsAppTemplate): WhatsAppMessage => ({
+  messaging_product: 'whatsapp',
+  to: phoneNumber,
+  type: 'template',
+  template
+})
+
+const isSessionWindowError = (error: unknown): boolean =>
+  error instanceof WhatsAppServiceError && error.type === 'SESSION_WINDOW_CLOSED'
+
 /**
  * Singleton WhatsApp service instance
  */
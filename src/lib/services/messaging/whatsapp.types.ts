@@ -1,5 +1,10 @@
 // WhatsApp integration type definitions
 
+import type { DealChargesInput, PurchaseLineCost } from '@/lib/costing/deal-costing'
+import type { InventoryCostMethod } from '@/lib/costing/inventory-costing'
+import type { DealStatus } from '@/types/deal-status'
+import type { TelegramSendMessageResponse } from './telegram.types'
+
 export interface WhatsAppConfig {
   apiToken: string
   apiUrl: string
@@ -22,7 +27,7 @@ export interface WhatsAppConfig {
   }
 }
 
-export interface WhatsAppMessage {
+export interface WhatsAppTextMessage {
   messaging_product: 'whatsapp'
   to: string
   type: 'text'
@@ -31,6 +36,39 @@ export interface WhatsAppMessage {
   }
 }
 
+// Approved (HSM) templates are the only messages Meta delivers outside the 24-hour session window
+export interface WhatsAppTemplateMessage {
+  messaging_product: 'whatsapp'
+  to: string
+  type: 'template'
+  template: WhatsAppTemplate
+}
+
+export type WhatsAppMessage = WhatsAppTextMessage | WhatsAppTemplateMessage
+
+// Type aliases (not interfaces) so a rendered template can be stored in a JSONB column
+export type WhatsAppTemplate = {
+  name: string
+  language: { code: string }
+  components?: WhatsAppTemplateComponent[]
+}
+
+export type WhatsAppTemplateComponent =
+  | { type: 'header' | 'body'; parameters: WhatsAppTemplateParameter[] }
+  | { type: 'button'; sub_type: 'quick_reply' | 'url'; index: string; parameters: WhatsAppTemplateParameter[] }
+
+export type WhatsAppTemplateParameter =
+  | { type: 'text'; text: string }
+  | { type: 'currency'; currency: { fallback_value: string; code: string; amount_1000: number } }
+  | { type: 'date_time'; date_time: { fallback_value: string } }
+
+export interface SendMessageOptions {
+  // WhatsApp only: sent instead when the text is rejected because the session window is closed
+  fallbackTemplate?: WhatsAppTemplate | null
+  // WhatsApp only: send fallbackTemplate without trying the text (the window was already found closed)
+  skipText?: boolean
+}
+
 export interface WhatsAppResponse {
   messaging_product: 'whatsapp'
   contacts: Array<{
@@ -43,12 +81,41 @@ export interface WhatsAppResponse {
   }>
 }
 
+// Webhook payloads Meta POSTs to /api/messaging/webhook (only the parts we read)
+export interface WhatsAppWebhookPayload {
+  object: string
+  entry?: Array<{
+    id: string
+    changes?: Array<{
+      field: string
+      value: {
+        messaging_product?: 'whatsapp'
+        statuses?: WhatsAppStatusUpdate[]
+      }
+    }>
+  }>
+}
+
+export interface WhatsAppStatusUpdate {
+  id: string // external_message_id returned when the message was sent
+  status: 'sent' | 'delivered' | 'read' | 'failed'
+  timestamp: string // Unix seconds
+  recipient_id: string
+  errors?: Array<{
+    code: number
+    title: string
+    message?: string
+    error_data?: { details?: string }
+  }>
+}
+
 export interface WhatsAppError extends Error {
   type: WhatsAppErrorType
   retryAfter?: number
   httpStatus?: number
   dealId?: string
   recipient?: string
+  providerCode?: number
 }
 
 export type WhatsAppErrorType =
@@ -58,18 +125,38 @@ export type WhatsAppErrorType =
   | 'NETWORK_ERROR'
   | 'VALIDATION_ERROR'
   | 'QUOTA_EXCEEDED'
+  | 'DELIVERY_FAILED' // Accepted by Meta, then reported undeliverable via webhook
+  | 'SESSION_WINDOW_CLOSED' // Free-form text outside the 24-hour window and no template to fall back to
+  | 'CIRCUIT_OPEN' // Not sent: the channel's circuit breaker is open (the outbox row goes back to pending)
   | 'UNKNOWN_ERROR'
 
-export type RecipientRole = 'accounts' | 'logistics' | 'boss1' | 'bossog'
+// Roles are configured in notification_roles (any lowercase key); these four ship with the app
+export type BuiltInRecipientRole = 'accounts' | 'logistics' | 'boss1' | 'bossog'
+export type RecipientRole = string
+
+export const BUILT_IN_RECIPIENT_ROLES: BuiltInRecipientRole[] = ['accounts', 'logistics', 'boss1', 'bossog']
+
+export const isBuiltInRecipientRole = (role: RecipientRole): role is BuiltInRecipientRole =>
+  (BUILT_IN_RECIPIENT_ROLES as string[]).includes(role)
 
 export interface MessageTemplate {
   role: RecipientRole
   generateMessage: (deal: DealData) => string
 }
 
+// One source of a registered deal, as stored in deals_unified.purchase_lines
+// Type alias (not an interface) so it can be stored as JSON
+export type DealPurchaseLine = PurchaseLineCost & {
+  // Supplier name and ID; unset for stock
+  purchaseParty?: string
+  supplierId?: string
+}
+
 export interface DealData {
   id: string
-  date: Date
+  srNo?: string
+  // Calendar date (YYYY-MM-DD)
+  date: string
   saleParty: string
   quantitySold: number
   saleRate: number
@@ -81,12 +168,21 @@ export interface DealData {
   company?: string
   specificGrade?: string
   materialSource: 'new-material' | 'from-inventory'
+  // Supplier names, total quantity bought and blended rate of all purchase lines
   purchaseParty?: string
   quantityPurchased?: number
   purchaseRate?: number
+  // Every source of a new-material deal; a single supplier deal has one line
+  purchaseLines?: DealPurchaseLine[]
   warehouseLocation?: string
+  // Cost per kg of the stock the deal took, and how it was valued
+  inventoryCostPerKg?: number
+  inventoryCostMethod?: InventoryCostMethod
   purchaseComments?: string
   finalComments?: string
+  charges?: DealChargesInput
+  // Lifecycle status; unset before the deal is saved (registered)
+  status?: DealStatus
 }
 
 export interface MessageOutbox {
@@ -126,6 +222,10 @@ export interface SendMessageResult {
   error?: WhatsAppError
   recipient: string
   role: RecipientRole
+  responseTimeMs?: number
+  waitTimeMs?: number
+  sentAsTemplate?: boolean
+  apiResponse?: WhatsAppResponse | TelegramSendMessageResponse
 }
 
 export interface BulkSendResult {
@@ -214,7 +314,8 @@ export class WhatsAppServiceError extends Error {
     public retryAfter?: number,
     public httpStatus?: number,
     public dealId?: string,
-    public recipient?: string
+    public recipient?: string,
+    public providerCode?: number // Meta's error code, when the API returned one
   ) {
     super(message)
     this.name = 'WhatsAppServiceError'
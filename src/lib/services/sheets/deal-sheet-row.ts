@@ -0,0 +1,64 @@
+/**
+ * Deal Sheet Row
+ * The columns of the deals spreadsheet and how a deal fills them. Column A holds the deal ID,
+ * which is how the sync finds the row to update; the rest follow the order of the deal form.
+ */
+
+import type { Deal } from '@/types'
+import { calculateDealCosting, type DealChargesInput, type PurchaseLineCost } from '@/lib/costing/deal-costing'
+import type { SheetCellValue } from './sheet-backend'
+
+interface DealSheetColumn {
+  header: string
+  value: (deal: Deal) => SheetCellValue
+}
+
+const isFromInventory = (deal: Deal): boolean => deal.material_source === 'from-inventory'
+
+// Inventory deals registered before stock costing have no cost, so their profit is left blank
+const isUncosted = (deal: Deal): boolean => isFromInventory(deal) && deal.inventory_cost_per_kg === null
+
+const costDeal = (deal: Deal) => calculateDealCosting({
+  quantitySold: deal['Quantity Sold'] ?? 0,
+  saleRate: deal['Sale Rate'] ?? 0,
+  materialSource: isFromInventory(deal) ? 'from-inventory' : 'new-material',
+  quantityPurchased: deal['Quantity Purchased'] ?? 0,
+  purchaseRate: deal['Purchase Rate'] ?? 0,
+  purchaseLines: (deal.purchase_lines as PurchaseLineCost[] | null) ?? undefined,
+  inventoryCostPerKg: deal.inventory_cost_per_kg,
+  charges: (deal.charges as DealChargesInput | null) ?? undefined
+})
+
+export const DEAL_SHEET_COLUMNS: DealSheetColumn[] = [
+  { header: 'Deal ID', value: deal => deal.id },
+  { header: 'Sr No', value: deal => deal.SrNo },
+  { header: 'Date', value: deal => deal.Date },
+  { header: 'Company', value: deal => deal.Company },
+  { header: 'Sale Party', value: deal => deal['Sale Party'] },
+  { header: 'Product', value: deal => deal.Product },
+  { header: 'Grade', value: deal => deal.Grade },
+  { header: 'Specific Grade', value: deal => deal['Specific Grade'] },
+  { header: 'Quantity Sold (kg)', value: deal => deal['Quantity Sold'] },
+  { header: 'Sale Rate', value: deal => deal['Sale Rate'] },
+  { header: 'Delivery Terms', value: deal => deal.delivery_terms },
+  { header: 'Material Source', value: deal => deal.material_source },
+  { header: 'Purchase Party', value: deal => deal['Purchase Party'] },
+  { header: 'Quantity Purchased (kg)', value: deal => deal['Quantity Purchased'] },
+  { header: 'Purchase Rate', value: deal => deal['Purchase Rate'] },
+  { header: 'Warehouse', value: deal => deal.warehouse_location },
+  { header: 'Sale Amount', value: deal => costDeal(deal).saleAmount },
+  { header: 'Net Profit', value: deal => (isUncosted(deal) ? null : costDeal(deal).netProfit) },
+  { header: 'Net Margin %', value: deal => (isUncosted(deal) ? null : costDeal(deal).netMarginPercent) },
+  { header: 'Sale Comments', value: deal => deal.sale_comments },
+  { header: 'Purchase Comments', value: deal => deal.purchase_comments },
+  { header: 'Final Comments', value: deal => deal.final_comments },
+  { header: 'Updated At', value: deal => deal.updated_at },
+  // Added after the other columns so sheets written before it keep their layout
+  { header: 'Status', value: deal => deal.status }
+]
+
+export const DEAL_SHEET_HEADER: SheetCellValue[] = DEAL_SHEET_COLUMNS.map(column => column.header)
+
+export const toDealSheetRow = (deal: Deal): SheetCellValue[] => {
+  return DEAL_SHEET_COLUMNS.map(column => column.value(deal))
+}
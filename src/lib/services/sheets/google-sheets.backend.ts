@@ -0,0 +1,140 @@
+/**
+ * Google Sheets Backend
+ * Writes rows with the Sheets REST API (v4), authenticated as a service account: a JWT signed
+ * with the account's private key is exchanged for an access token, cached until it expires.
+ * Share the spreadsheet with the service account's email (Editor) for writes to succeed.
+ */
+
+import { createSign } from 'crypto'
+import type { SheetsConfig } from './sheets.types'
+import { SheetsSyncError } from './sheets.types'
+import type { SheetBackend, SheetCellValue } from './sheet-backend'
+
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets'
+const TOKEN_LIFETIME_SECONDS = 3600
+const REQUEST_TIMEOUT_MS = 15000
+
+interface GoogleApiErrorBody {
+  error?: { message?: string } | string
+  error_description?: string
+}
+
+const base64Url = (value: string | Buffer): string => {
+  return Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+export class GoogleSheetsBackend implements SheetBackend {
+  readonly kind = 'google' as const
+  readonly sheetId: string
+  private readonly config: SheetsConfig['google']
+  private accessToken: { token: string; expiresAt: number } | null = null
+
+  constructor(config: SheetsConfig['google']) {
+    this.config = config
+    this.sheetId = config.spreadsheetId
+  }
+
+  async readKeyColumn(): Promise<string[]> {
+    const data = await this.request<{ values?: string[][] }>('GET', `values/${this.range('A:A')}`)
+    return (data.values ?? []).map(row => row[0] ?? '')
+  }
+
+  async appendRow(values: SheetCellValue[]): Promise<number> {
+    // RAW so comments starting with "=" are stored as text, not evaluated as formulas
+    const data = await this.request<{ updates?: { updatedRange?: string } }>(
+      'POST',
+      `values/${this.range('A1')}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`,
+      { values: [values] }
+    )
+
+    // updatedRange looks like Deals!A42:U42
+    const match = data.updates?.updatedRange?.match(/![A-Z]+(\d+)/)
+    if (!match) {
+      throw new SheetsSyncError(`Unexpected append response: ${JSON.stringify(data.updates ?? {})}`)
+    }
+    return parseInt(match[1], 10)
+  }
+
+  async updateRow(rowNumber: number, values: SheetCellValue[]): Promise<void> {
+    await this.request('PUT', `values/${this.range(`A${rowNumber}`)}?valueInputOption=RAW`, {
+      values: [values]
+    })
+  }
+
+  private range(cells: string): string {
+    return encodeURIComponent(`'${this.config.tabName.replace(/'/g, "''")}'!${cells}`)
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.config.apiUrl}/spreadsheets/${this.config.spreadsheetId}/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        this.accessToken = null
+      }
+      throw new SheetsSyncError(
+        `Google Sheets API error ${response.status}: ${describeError(data as GoogleApiErrorBody, response.statusText)}`,
+        response.status
+      )
+    }
+
+    return data as T
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60000) {
+      return this.accessToken.token
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))
+    const claims = base64Url(JSON.stringify({
+      iss: this.config.serviceAccountEmail,
+      scope: SHEETS_SCOPE,
+      aud: this.config.tokenUrl,
+      iat: now,
+      exp: now + TOKEN_LIFETIME_SECONDS
+    }))
+    const signature = base64Url(createSign('RSA-SHA256').update(`${header}.${claims}`).sign(this.config.privateKey))
+
+    const response = await fetch(this.config.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${header}.${claims}.${signature}`
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok || !data.access_token) {
+      throw new SheetsSyncError(
+        `Google authentication failed: ${describeError(data as GoogleApiErrorBody, response.statusText)}`,
+        response.status
+      )
+    }
+
+    this.accessToken = {
+      token: data.access_token,
+      expiresAt: Date.now() + (data.expires_in ?? TOKEN_LIFETIME_SECONDS) * 1000
+    }
+    return this.accessToken.token
+  }
+}
+
+const describeError = (body: GoogleApiErrorBody, fallback: string): string => {
+  if (typeof body.error === 'object' && body.error?.message) return body.error.message
+  return body.error_description || (typeof body.error === 'string' ? body.error : '') || fallback
+}
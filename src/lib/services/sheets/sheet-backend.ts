@@ -0,0 +1,196 @@
+/**
+ * Sheet Backends
+ * The spreadsheet the deals are written to. Google Sheets in production; a CSV file or an
+ * in-memory sheet stand in for it locally and in tests. The sync service only needs the
+ * first column (deal IDs) to find a deal's row, and can append or overwrite whole rows.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import type { SheetBackendKind, SheetsConfig } from './sheets.types'
+import { GoogleSheetsBackend } from './google-sheets.backend'
+
+export type SheetCellValue = string | number | null
+
+export interface SheetBackend {
+  readonly kind: SheetBackendKind
+  // Recorded as sheets_sync_log.sheet_id
+  readonly sheetId: string
+  /**
+   * Value of the first column of every row, starting with row 1 (the header)
+   */
+  readKeyColumn(): Promise<string[]>
+  /**
+   * Add a row after the last one and return its row number (1-based)
+   */
+  appendRow(values: SheetCellValue[]): Promise<number>
+  /**
+   * Overwrite a row (1-based)
+   */
+  updateRow(rowNumber: number, values: SheetCellValue[]): Promise<void>
+}
+
+const toCell = (value: SheetCellValue): string => String(value ?? '')
+
+/**
+ * Rows held by this process
+ */
+export class MemorySheetBackend implements SheetBackend {
+  readonly kind = 'memory' as const
+  readonly sheetId: string
+  private rows: string[][]
+
+  constructor(sheetId = 'memory', rows: string[][] = []) {
+    this.sheetId = sheetId
+    this.rows = rows.map(row => [...row])
+  }
+
+  async readKeyColumn(): Promise<string[]> {
+    return this.rows.map(row => row[0] ?? '')
+  }
+
+  async appendRow(values: SheetCellValue[]): Promise<number> {
+    this.rows.push(values.map(toCell))
+    return this.rows.length
+  }
+
+  async updateRow(rowNumber: number, values: SheetCellValue[]): Promise<void> {
+    if (rowNumber < 1 || rowNumber > this.rows.length) {
+      throw new Error(`Row ${rowNumber} does not exist`)
+    }
+    this.rows[rowNumber - 1] = values.map(toCell)
+  }
+
+  /**
+   * Current rows (for testing)
+   */
+  getRows(): string[][] {
+    return this.rows.map(row => [...row])
+  }
+}
+
+/**
+ * Rows in a local CSV file, rewritten on every change
+ * Changes from this process are applied one at a time so concurrent syncs don't lose rows
+ */
+export class CsvFileSheetBackend implements SheetBackend {
+  readonly kind = 'csv' as const
+  readonly sheetId: string
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly path: string) {
+    this.sheetId = path
+  }
+
+  async readKeyColumn(): Promise<string[]> {
+    const rows = await this.readRows()
+    return rows.map(row => row[0] ?? '')
+  }
+
+  async appendRow(values: SheetCellValue[]): Promise<number> {
+    return this.exclusive(async () => {
+      const rows = await this.readRows()
+      rows.push(values.map(toCell))
+      await this.writeRows(rows)
+      return rows.length
+    })
+  }
+
+  async updateRow(rowNumber: number, values: SheetCellValue[]): Promise<void> {
+    await this.exclusive(async () => {
+      const rows = await this.readRows()
+      if (rowNumber < 1 || rowNumber > rows.length) {
+        throw new Error(`Row ${rowNumber} does not exist in ${this.path}`)
+      }
+      rows[rowNumber - 1] = values.map(toCell)
+      await this.writeRows(rows)
+    })
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task)
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  private async readRows(): Promise<string[][]> {
+    try {
+      return parseCsv(await readFile(this.path, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+  }
+
+  private async writeRows(rows: string[][]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true })
+    await writeFile(this.path, rows.map(formatCsvRow).join('\n') + '\n', 'utf8')
+  }
+}
+
+const formatCsvRow = (row: string[]): string => {
+  return row
+    .map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+    .join(',')
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted cells may contain commas, quotes and newlines)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Backend selected with SHEETS_BACKEND (google unless set to csv or memory)
+ */
+export const createSheetBackend = (config: SheetsConfig): SheetBackend => {
+  switch (config.backend) {
+    case 'csv':
+      return new CsvFileSheetBackend(config.csv.path)
+    case 'memory':
+      return new MemorySheetBackend()
+    default:
+      return new GoogleSheetsBackend(config.google)
+  }
+}
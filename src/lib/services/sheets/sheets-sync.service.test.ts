@@ -0,0 +1,221 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { Deal } from '@/types'
+import type { DealRepository } from '@/lib/repositories/deal.repository'
+import type { SheetsSyncLogRepository } from '@/lib/repositories/sheets-sync-log.repository'
+import type { WhatsAppLogger } from '@/lib/services/messaging/whatsapp.types'
+import { CsvFileSheetBackend, MemorySheetBackend, SheetBackend, parseCsv } from './sheet-backend'
+import { DEAL_SHEET_HEADER } from './deal-sheet-row'
+import { SheetsSyncService } from './sheets-sync.service'
+
+const silentLogger: WhatsAppLogger = { error: () => {}, warn: () => {}, info: () => {}, debug: () => {} }
+
+const createDeal = (id: string, srNo: number, overrides: Partial<Deal> = {}): Deal => ({
+  id,
+  SrNo: srNo,
+  Date: '2024-10-01',
+  Company: 'Group Polymers',
+  'Sale Party': 'Acme Plastics',
+  Product: 'PP',
+  Grade: 'H110MA',
+  'Specific Grade': null,
+  'Quantity Sold': 1000,
+  'Sale Rate': 100,
+  delivery_terms: 'delivered',
+  material_source: 'new-material',
+  'Purchase Party': 'Reliance',
+  'Quantity Purchased': 1000,
+  'Purchase Rate': 90,
+  purchase_lines: null,
+  inventory_cost_per_kg: null,
+  charges: null,
+  warehouse_location: null,
+  sale_comments: null,
+  purchase_comments: null,
+  final_comments: null,
+  status: 'registered',
+  updated_at: '2024-10-01T10:00:00Z',
+  ...overrides
+}) as Deal
+
+/**
+ * A sync service over the given sheet, with the deals and sync log held in memory
+ */
+const createService = (backend: SheetBackend, deals: Deal[]) => {
+  const byId = new Map(deals.map(deal => [deal.id, deal]))
+  const log: { deal_id: string; status: string; row_number: number | null }[] = []
+
+  const dealRepository = {
+    getDealById: async (id: string) => byId.get(id) ?? null,
+    listDealsBetween: async () => [...byId.values()]
+  } as unknown as DealRepository
+
+  const logRepository = {
+    record: async (entry: { deal_id: string; status: string; row_number: number | null }) => {
+      log.push(entry)
+      return entry
+    },
+    listRetryCandidates: async () => []
+  } as unknown as SheetsSyncLogRepository
+
+  const service = new SheetsSyncService(
+    backend,
+    dealRepository,
+    logRepository,
+    { maxAttempts: 5, replayLimit: 100 },
+    silentLogger
+  )
+
+  return { service, log, setDeal: (deal: Deal) => byId.set(deal.id, deal) }
+}
+
+const replayAll = { dateFrom: '2024-10-01', dateTo: '2024-10-31' }
+
+describe('SheetsSyncService with MemorySheetBackend', () => {
+  it('writes the header and appends a new deal', async () => {
+    const backend = new MemorySheetBackend()
+    const { service, log } = createService(backend, [createDeal('deal-1', 1)])
+
+    const result = await service.syncDeal('deal-1')
+
+    expect(result).toMatchObject({ dealId: 'deal-1', success: true, action: 'appended', rowNumber: 2 })
+    const rows = backend.getRows()
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toEqual(DEAL_SHEET_HEADER)
+    expect(rows[1].slice(0, 4)).toEqual(['deal-1', '1', '2024-10-01', 'Group Polymers'])
+    expect(log).toEqual([expect.objectContaining({ deal_id: 'deal-1', status: 'synced', row_number: 2 })])
+  })
+
+  it('overwrites the row with the deal ID instead of adding another', async () => {
+    const backend = new MemorySheetBackend('memory', [
+      DEAL_SHEET_HEADER.map(String),
+      ['deal-1', '1', 'stale'],
+      ['deal-2', '2', 'stale']
+    ])
+    const { service } = createService(backend, [createDeal('deal-1', 1), createDeal('deal-2', 2, { 'Sale Rate': 110 })])
+
+    const result = await service.syncDeal('deal-2')
+
+    expect(result).toMatchObject({ success: true, action: 'updated', rowNumber: 3 })
+    const rows = backend.getRows()
+    expect(rows).toHaveLength(3)
+    expect(rows[1]).toEqual(['deal-1', '1', 'stale'])
+    expect(rows[2][0]).toBe('deal-2')
+    expect(rows[2][DEAL_SHEET_HEADER.indexOf('Sale Rate')]).toBe('110')
+  })
+
+  it('leaves the sheet unchanged when the same deals are synced again', async () => {
+    const backend = new MemorySheetBackend()
+    const { service } = createService(backend, [createDeal('deal-1', 1), createDeal('deal-2', 2)])
+
+    const first = await service.replay(replayAll)
+    const rowsAfterFirst = backend.getRows()
+    const second = await service.replay(replayAll)
+
+    expect(first.results.map(result => result.action)).toEqual(['appended', 'appended'])
+    expect(second.results.map(result => result.action)).toEqual(['updated', 'updated'])
+    expect(second.results.map(result => result.rowNumber)).toEqual([2, 3])
+    expect(backend.getRows()).toEqual(rowsAfterFirst)
+  })
+
+  it('writes a changed deal to its existing row on resync', async () => {
+    const backend = new MemorySheetBackend()
+    const { service, setDeal } = createService(backend, [createDeal('deal-1', 1), createDeal('deal-2', 2)])
+
+    await service.replay(replayAll)
+    setDeal(createDeal('deal-1', 1, { 'Quantity Sold': 750, status: 'confirmed', updated_at: '2024-10-02T09:00:00Z' }))
+    await service.replay(replayAll)
+
+    const rows = backend.getRows()
+    expect(rows.map(row => row[0])).toEqual(['Deal ID', 'deal-1', 'deal-2'])
+    expect(rows[1][DEAL_SHEET_HEADER.indexOf('Quantity Sold (kg)')]).toBe('750')
+    expect(rows[1][DEAL_SHEET_HEADER.indexOf('Updated At')]).toBe('2024-10-02T09:00:00Z')
+    expect(rows[1][DEAL_SHEET_HEADER.indexOf('Status')]).toBe('confirmed')
+  })
+
+  it('gives a deal synced twice at once a single row', async () => {
+    const backend = new MemorySheetBackend()
+    const { service } = createService(backend, [createDeal('deal-1', 1)])
+
+    const results = await Promise.all([service.syncDeal('deal-1'), service.syncDeal('deal-1')])
+
+    expect(results.map(result => result.action)).toEqual(['appended', 'updated'])
+    expect(backend.getRows().map(row => row[0])).toEqual(['Deal ID', 'deal-1'])
+  })
+
+  it('writes one header when different deals are first synced at once', async () => {
+    const backend = new MemorySheetBackend()
+    const { service } = createService(backend, [createDeal('deal-1', 1), createDeal('deal-2', 2)])
+
+    await Promise.all([service.syncDeal('deal-1'), service.syncDeal('deal-2')])
+
+    expect(backend.getRows().map(row => row[0])).toEqual(['Deal ID', 'deal-1', 'deal-2'])
+  })
+
+  it('updates a deal another writer appended after the sheet was read', async () => {
+    const backend = new MemorySheetBackend('memory', [DEAL_SHEET_HEADER.map(String)])
+    const { service } = createService(backend, [createDeal('deal-1', 1)])
+    const readKeyColumn = backend.readKeyColumn.bind(backend)
+    let reads = 0
+    backend.readKeyColumn = async () => {
+      const keys = await readKeyColumn()
+      if (++reads === 1) await backend.appendRow(['deal-1', '1', 'stale'])
+      return keys
+    }
+
+    const result = await service.syncDeal('deal-1')
+
+    expect(result).toMatchObject({ success: true, action: 'updated', rowNumber: 2 })
+    expect(backend.getRows().map(row => row[0])).toEqual(['Deal ID', 'deal-1'])
+  })
+})
+
+describe('SheetsSyncService with CsvFileSheetBackend', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'sheets-sync-'))
+    path = join(dir, 'deals.csv')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('appends, updates by deal ID and resyncs idempotently in the file', async () => {
+    const backend = new CsvFileSheetBackend(path)
+    const { service, setDeal } = createService(backend, [
+      createDeal('deal-1', 1, { sale_comments: 'Urgent, "priority" dispatch\nCall before delivery' }),
+      createDeal('deal-2', 2)
+    ])
+
+    await service.replay(replayAll)
+    const contentAfterFirst = await readFile(path, 'utf8')
+    await service.replay(replayAll)
+    expect(await readFile(path, 'utf8')).toBe(contentAfterFirst)
+
+    setDeal(createDeal('deal-2', 2, { 'Sale Rate': 105 }))
+    const result = await service.syncDeal('deal-2')
+    expect(result).toMatchObject({ success: true, action: 'updated', rowNumber: 3 })
+
+    const rows = parseCsv(await readFile(path, 'utf8'))
+    expect(rows.map(row => row[0])).toEqual(['Deal ID', 'deal-1', 'deal-2'])
+    expect(rows[1][DEAL_SHEET_HEADER.indexOf('Sale Comments')]).toBe('Urgent, "priority" dispatch\nCall before delivery')
+    expect(rows[2][DEAL_SHEET_HEADER.indexOf('Sale Rate')]).toBe('105')
+  })
+
+  it('keeps every row when deals are synced concurrently', async () => {
+    const backend = new CsvFileSheetBackend(path)
+    const deals = Array.from({ length: 5 }, (_, index) => createDeal(`deal-${index + 1}`, index + 1))
+    const { service } = createService(backend, deals)
+
+    await service.syncDeal('deal-1')
+    await Promise.all(deals.slice(1).map(deal => service.syncDeal(deal.id)))
+
+    const rows = parseCsv(await readFile(path, 'utf8'))
+    expect(rows.map(row => row[0]).sort()).toEqual(['Deal ID', 'deal-1', 'deal-2', 'deal-3', 'deal-4', 'deal-5'])
+  })
+})
@@ -0,0 +1,265 @@
+/**
+ * Sheets Sync Service
+ * Keeps one spreadsheet row per deal: the deal's row is found by its ID in column A and
+ * overwritten, or appended when the deal is new. Syncs run one at a time, so a deal synced
+ * twice at once (on creation and on its first status change) can't get two rows. Every
+ * attempt is recorded in sheets_sync_log; failed deals are retried by the cron job until
+ * they run out of attempts, and a date range (or a single deal) can be replayed by hand.
+ */
+
+import type { Deal } from '@/types'
+import type {
+  SheetsReplayRequest,
+  SheetsReplayResult,
+  SheetsSyncResult,
+  SheetsSyncRunResult
+} from '@/types/sheets-sync'
+import { DealRepository, getDealRepository } from '@/lib/repositories/deal.repository'
+import { SheetsSyncLogRepository, getSheetsSyncLogRepository } from '@/lib/repositories/sheets-sync-log.repository'
+import type { WhatsAppLogger } from '@/lib/services/messaging/whatsapp.types'
+import { SheetBackend, createSheetBackend } from './sheet-backend'
+import { DEAL_SHEET_HEADER, toDealSheetRow } from './deal-sheet-row'
+import { getSheetsConfig } from './sheets.config'
+import type { SheetsConfig } from './sheets.types'
+
+const DEFAULT_RETRY_BATCH_SIZE = 25
+// checkStatus counts failed deals up to this many
+const STATUS_FAILED_DEALS_LIMIT = 100
+
+export class SheetsSyncService {
+  private readonly dealRepository: DealRepository
+  private readonly logRepository: SheetsSyncLogRepository
+  private readonly logger: WhatsAppLogger
+  private backend: SheetBackend | null
+  private readonly settings: SheetsConfig['settings'] | null
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    backend?: SheetBackend,
+    dealRepository?: DealRepository,
+    logRepository?: SheetsSyncLogRepository,
+    settings?: SheetsConfig['settings'],
+    logger?: WhatsAppLogger
+  ) {
+    this.backend = backend || null
+    this.dealRepository = dealRepository || getDealRepository()
+    this.logRepository = logRepository || getSheetsSyncLogRepository()
+    this.settings = settings || null
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[SheetsSync] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[SheetsSync] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[SheetsSync] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[SheetsSync] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Write one deal to its row
+   */
+  async syncDeal(dealId: string): Promise<SheetsSyncResult> {
+    const deal = await this.dealRepository.getDealById(dealId)
+    if (!deal) {
+      return { dealId, success: false, error: 'Deal not found' }
+    }
+
+    const run = await this.syncDeals([deal])
+    return run.results[0]
+  }
+
+  /**
+   * Retry deals whose latest sync failed, oldest failure first
+   */
+  async retryFailed(options: { limit?: number } = {}): Promise<SheetsSyncRunResult> {
+    const startedAt = Date.now()
+    const candidates = await this.logRepository.listRetryCandidates(
+      this.getSettings().maxAttempts,
+      options.limit ?? DEFAULT_RETRY_BATCH_SIZE
+    )
+
+    const deals: Deal[] = []
+    const missing: SheetsSyncResult[] = []
+    for (const candidate of candidates) {
+      const deal = await this.dealRepository.getDealById(candidate.dealId)
+      if (deal) {
+        deals.push(deal)
+      } else {
+        // Recorded so a deleted deal uses up its attempts instead of blocking the queue
+        const result = { dealId: candidate.dealId, success: false, error: 'Deal not found' }
+        missing.push(result)
+        await this.recordOutcome(candidate.dealId, result)
+      }
+    }
+
+    const run = await this.syncDeals(deals)
+    const results = [...run.results, ...missing]
+
+    return summarize(results, startedAt)
+  }
+
+  /**
+   * Write a single deal, or every deal dated in a range (up to the replay limit)
+   * Rows already in the sheet are overwritten, so replaying is safe to repeat
+   */
+  async replay(request: SheetsReplayRequest): Promise<SheetsReplayResult> {
+    if (request.dealId) {
+      const startedAt = Date.now()
+      const result = await this.syncDeal(request.dealId)
+      return { ...summarize([result], startedAt), truncated: false }
+    }
+
+    if (!request.dateFrom || !request.dateTo) {
+      throw new Error('Replay needs a dealId or both dateFrom and dateTo')
+    }
+
+    const limit = this.getSettings().replayLimit
+    const deals = await this.dealRepository.listDealsBetween(request.dateFrom, request.dateTo)
+    const run = await this.syncDeals(deals.slice(0, limit))
+
+    return { ...run, truncated: deals.length > limit }
+  }
+
+  /**
+   * Read the sheet (confirms it can be reached) and count the deals waiting for a retry
+   */
+  async checkStatus(): Promise<{ sheetId: string; rows: number; failedDeals: number }> {
+    const backend = this.getBackend()
+    const [keys, candidates] = await Promise.all([
+      backend.readKeyColumn(),
+      this.logRepository.listRetryCandidates(this.getSettings().maxAttempts, STATUS_FAILED_DEALS_LIMIT)
+    ])
+
+    return { sheetId: backend.sheetId, rows: keys.length, failedDeals: candidates.length }
+  }
+
+  /**
+   * Write deals in order, reading the sheet's deal IDs once for the whole batch (and again
+   * before appending a deal that isn't there); runs after any sync already in progress
+   */
+  private syncDeals(deals: Deal[]): Promise<SheetsSyncRunResult> {
+    return this.exclusive(() => this.writeDeals(deals))
+  }
+
+  private async writeDeals(deals: Deal[]): Promise<SheetsSyncRunResult> {
+    const startedAt = Date.now()
+    const results: SheetsSyncResult[] = []
+
+    if (deals.length === 0) {
+      return summarize(results, startedAt)
+    }
+
+    let backend: SheetBackend
+    let keys: string[]
+    try {
+      backend = this.getBackend()
+      keys = await backend.readKeyColumn()
+      if (keys.length === 0) {
+        await backend.appendRow(DEAL_SHEET_HEADER)
+        keys.push(String(DEAL_SHEET_HEADER[0]))
+      }
+    } catch (error) {
+      // Nothing can be written; record every deal as failed so the retry job picks them up
+      const message = errorMessage(error)
+      this.logger.error('Sheet unavailable', { error: message, deals: deals.length })
+      for (const deal of deals) {
+        results.push({ dealId: deal.id, success: false, error: message })
+        await this.recordOutcome(deal.id, { success: false, error: message })
+      }
+      return summarize(results, startedAt)
+    }
+
+    for (const deal of deals) {
+      const result = await this.writeDeal(backend, keys, deal)
+      results.push(result)
+      await this.recordOutcome(deal.id, result)
+    }
+
+    const run = summarize(results, startedAt)
+    this.logger.info('Sync completed', { synced: run.synced, failed: run.failed, durationMs: run.durationMs })
+    return run
+  }
+
+  private async writeDeal(backend: SheetBackend, keys: string[], deal: Deal): Promise<SheetsSyncResult> {
+    try {
+      const values = toDealSheetRow(deal)
+      let existingIndex = keys.indexOf(deal.id)
+      if (existingIndex < 0) {
+        // Another instance may have appended the deal since the batch read the sheet
+        keys.splice(0, keys.length, ...await backend.readKeyColumn())
+        existingIndex = keys.indexOf(deal.id)
+      }
+
+      if (existingIndex >= 0) {
+        await backend.updateRow(existingIndex + 1, values)
+        return { dealId: deal.id, success: true, action: 'updated', rowNumber: existingIndex + 1 }
+      }
+
+      const rowNumber = await backend.appendRow(values)
+      keys[rowNumber - 1] = deal.id
+      return { dealId: deal.id, success: true, action: 'appended', rowNumber }
+
+    } catch (error) {
+      const message = errorMessage(error)
+      this.logger.warn('Deal sync failed', { dealId: deal.id, error: message })
+      return { dealId: deal.id, success: false, error: message }
+    }
+  }
+
+  private async recordOutcome(dealId: string, result: Pick<SheetsSyncResult, 'success' | 'rowNumber' | 'error'>) {
+    try {
+      await this.logRepository.record({
+        deal_id: dealId,
+        sheet_id: this.backend?.sheetId ?? 'unconfigured',
+        row_number: result.rowNumber ?? null,
+        status: result.success ? 'synced' : 'failed',
+        error_message: result.error ?? null,
+        synced_at: result.success ? new Date().toISOString() : null
+      })
+    } catch (error) {
+      // The sheet is already written; a missing log entry only hides this attempt
+      this.logger.error('Failed to record sync outcome', { dealId, error: errorMessage(error) })
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task)
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  private getBackend(): SheetBackend {
+    if (!this.backend) {
+      this.backend = createSheetBackend(getSheetsConfig())
+    }
+    return this.backend
+  }
+
+  private getSettings(): SheetsConfig['settings'] {
+    return this.settings ?? getSheetsConfig().settings
+  }
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error))
+
+const summarize = (results: SheetsSyncResult[], startedAt: number): SheetsSyncRunResult => {
+  const synced = results.filter(result => result.success).length
+  return {
+    requested: results.length,
+    synced,
+    failed: results.length - synced,
+    results,
+    durationMs: Date.now() - startedAt
+  }
+}
+
+/**
+ * Singleton sheets sync service instance
+ */
+let globalSheetsSyncService: SheetsSyncService | null = null
+
+export const getSheetsSyncService = (): SheetsSyncService => {
+  if (!globalSheetsSyncService) {
+    globalSheetsSyncService = new SheetsSyncService()
+  }
+  return globalSheetsSyncService
+}
@@ -0,0 +1,123 @@
+/**
+ * Google Sheets Configuration
+ * Loads and validates the spreadsheet sync settings from the environment
+ */
+
+import { SheetBackendKind, SheetsConfig, SheetsSyncError } from './sheets.types'
+
+const SHEET_BACKENDS: SheetBackendKind[] = ['google', 'csv', 'memory']
+
+class SheetsConfigManager {
+  private config: SheetsConfig | null = null
+
+  /**
+   * Get validated sheets configuration
+   * Throws error if configuration is invalid
+   */
+  getConfig(): SheetsConfig {
+    if (!this.config) {
+      this.config = this.loadAndValidateConfig()
+    }
+    return this.config
+  }
+
+  /**
+   * Reload configuration from environment
+   */
+  reloadConfig(): SheetsConfig {
+    this.config = null
+    return this.getConfig()
+  }
+
+  /**
+   * Check if deals are synced to the spreadsheet
+   */
+  isEnabled(): boolean {
+    return process.env.FEATURE_SHEETS_SYNC === 'true'
+  }
+
+  private loadAndValidateConfig(): SheetsConfig {
+    const config = this.loadConfigFromEnv()
+    this.validateConfigOrThrow(config)
+    return config
+  }
+
+  private loadConfigFromEnv(): SheetsConfig {
+    return {
+      backend: (process.env.SHEETS_BACKEND || 'google') as SheetBackendKind,
+      google: {
+        spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID || '',
+        tabName: process.env.GOOGLE_SHEETS_TAB || 'Deals',
+        serviceAccountEmail: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL || '',
+        // Env files usually hold the PEM on one line with escaped newlines
+        privateKey: (process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+        apiUrl: process.env.GOOGLE_SHEETS_API_URL || 'https://sheets.googleapis.com/v4',
+        tokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token'
+      },
+      csv: {
+        path: process.env.SHEETS_CSV_PATH || 'data/deals-sheet.csv'
+      },
+      features: {
+        syncEnabled: process.env.FEATURE_SHEETS_SYNC === 'true'
+      },
+      settings: {
+        maxAttempts: parseInt(process.env.SHEETS_SYNC_MAX_ATTEMPTS || '5'),
+        replayLimit: parseInt(process.env.SHEETS_REPLAY_LIMIT || '200')
+      }
+    }
+  }
+
+  private validateConfigOrThrow(config: SheetsConfig): void {
+    const errors: string[] = []
+
+    if (!config.features.syncEnabled) {
+      throw new SheetsSyncError('Google Sheets sync is disabled (FEATURE_SHEETS_SYNC=false)')
+    }
+
+    if (!SHEET_BACKENDS.includes(config.backend)) {
+      errors.push(`SHEETS_BACKEND must be one of ${SHEET_BACKENDS.join(', ')}`)
+    }
+
+    if (config.backend === 'google') {
+      if (!config.google.spreadsheetId) {
+        errors.push('GOOGLE_SHEETS_SPREADSHEET_ID is required')
+      }
+      if (!config.google.tabName) {
+        errors.push('GOOGLE_SHEETS_TAB is required')
+      }
+      if (!config.google.serviceAccountEmail) {
+        errors.push('GOOGLE_SERVICE_ACCOUNT_EMAIL is required')
+      }
+      if (!config.google.privateKey.includes('PRIVATE KEY')) {
+        errors.push('GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY must be the service account\'s PEM private key')
+      }
+    }
+
+    if (config.backend === 'csv' && !config.csv.path) {
+      errors.push('SHEETS_CSV_PATH is required')
+    }
+
+    if (!(config.settings.maxAttempts >= 1)) {
+      errors.push('SHEETS_SYNC_MAX_ATTEMPTS must be at least 1')
+    }
+
+    if (!(config.settings.replayLimit >= 1)) {
+      errors.push('SHEETS_REPLAY_LIMIT must be at least 1')
+    }
+
+    if (errors.length > 0) {
+      throw new SheetsSyncError(`Google Sheets configuration errors: ${errors.join(', ')}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const sheetsConfig = new SheetsConfigManager()
+
+// Export helper functions
+export const getSheetsConfig = () => sheetsConfig.getConfig()
+export const isSheetsSyncEnabled = () => sheetsConfig.isEnabled()
+export const reloadSheetsConfig = () => sheetsConfig.reloadConfig()
+
+// Export for testing
+export { SheetsConfigManager }
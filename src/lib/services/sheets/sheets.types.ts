@@ -0,0 +1,40 @@
+/**
+ * Google Sheets Sync Types
+ */
+
+export type SheetBackendKind = 'google' | 'csv' | 'memory'
+
+export interface SheetsConfig {
+  backend: SheetBackendKind
+  google: {
+    spreadsheetId: string
+    // Tab (sheet) the deals are written to
+    tabName: string
+    serviceAccountEmail: string
+    privateKey: string
+    apiUrl: string
+    tokenUrl: string
+  }
+  csv: {
+    path: string
+  }
+  features: {
+    syncEnabled: boolean
+  }
+  settings: {
+    // Failed syncs are retried until a deal has failed this many times in a row
+    maxAttempts: number
+    // Most deals written by one replay request
+    replayLimit: number
+  }
+}
+
+export class SheetsSyncError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number
+  ) {
+    super(message)
+    this.name = 'SheetsSyncError'
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * System Health Service
+ * Runs one probe per component (database, WhatsApp, Telegram, Google Sheets, message delivery,
+ * chatbot), stores each result in health_checks with its response time, and reports the
+ * latest results with their history. Components switched off by their feature flag are
+ * reported as disabled and not probed.
+ */
+
+import type { HealthCheck } from '@/types'
+import type {
+  ComponentHealth,
+  HealthComponent,
+  HealthProbeResult,
+  HealthStatus,
+  MessageStatistics,
+  SystemHealthReport
+} from '@/types/system-health'
+import { HEALTH_COMPONENTS, HEALTH_COMPONENT_LABELS } from '@/types/system-health'
+import { HealthCheckRepository, getHealthCheckRepository } from '@/lib/repositories/health-check.repository'
+import { MessageOutboxRepository, getMessageOutboxRepository } from '@/lib/repositories/message-outbox.repository'
+import { validateChatbotConfig } from '@/lib/schemas/chatbot'
+import type { WhatsAppLogger } from '@/lib/services/messaging/whatsapp.types'
+import { ChannelPlatform, isChannelEnabled } from '@/lib/services/messaging/notification-channel'
+import { getNotificationChannel } from '@/lib/services/messaging/channel-routing'
+import { getSheetsSyncService } from '@/lib/services/sheets/sheets-sync.service'
+import { isSheetsSyncEnabled } from '@/lib/services/sheets/sheets.config'
+
+const PROBE_TIMEOUT_MS = 10000
+const HISTORY_LENGTH = 30
+const STATISTICS_HOURS_BACK = 24
+// A database answering slower than this is reported as degraded
+const SLOW_DATABASE_MS = 1000
+// Delivery success rate (last 24h) below these is degraded / down
+const DEGRADED_SUCCESS_RATE = 90
+const DOWN_SUCCESS_RATE = 50
+
+const STATUS_SEVERITY: Record<HealthStatus, number> = {
+  disabled: 0,
+  healthy: 1,
+  degraded: 2,
+  down: 3
+}
+
+type ProbeOutcome = Omit<HealthProbeResult, 'component' | 'responseTimeMs'>
+
+export class SystemHealthService {
+  private readonly healthCheckRepository: HealthCheckRepository
+  private readonly outboxRepository: MessageOutboxRepository
+  private readonly logger: WhatsAppLogger
+
+  constructor(
+    healthCheckRepository?: HealthCheckRepository,
+    outboxRepository?: MessageOutboxRepository,
+    logger?: WhatsAppLogger
+  ) {
+    this.healthCheckRepository = healthCheckRepository || getHealthCheckRepository()
+    this.outboxRepository = outboxRepository || getMessageOutboxRepository()
+
+    this.logger = logger || {
+      error: (msg, meta) => console.error(`[SystemHealth] ${msg}`, meta),
+      warn: (msg, meta) => console.warn(`[SystemHealth] ${msg}`, meta),
+      info: (msg, meta) => console.info(`[SystemHealth] ${msg}`, meta),
+      debug: (msg, meta) => console.debug(`[SystemHealth] ${msg}`, meta)
+    }
+  }
+
+  /**
+   * Probe every enabled component, store the results and report them with their history
+   */
+  async runChecks(): Promise<SystemHealthReport> {
+    const results = await Promise.all(HEALTH_COMPONENTS.map(component => this.probe(component)))
+
+    const stored = results.filter(result => result.status !== 'disabled')
+    try {
+      await this.healthCheckRepository.recordMany(stored.map(result => ({
+        check_type: result.component,
+        status: result.status,
+        response_time_ms: result.responseTimeMs,
+        error_message: result.message,
+        details: result.details ?? null
+      })))
+    } catch (error) {
+      // The report still shows this run; only its history entry is missing
+      this.logger.error('Failed to store health checks', { error: error instanceof Error ? error.message : error })
+    }
+
+    const down = results.filter(result => result.status === 'down').map(result => result.component)
+    if (down.length > 0) {
+      this.logger.warn('Components down', { components: down })
+    }
+
+    return await this.getReport(results)
+  }
+
+  /**
+   * Latest result and history of every component, with fresh delivery statistics
+   * Results of a run that just happened take the place of the stored ones
+   */
+  async getReport(freshResults: HealthProbeResult[] = []): Promise<SystemHealthReport> {
+    const runAt = new Date().toISOString()
+    const [components, messageStatistics] = await Promise.all([
+      Promise.all(HEALTH_COMPONENTS.map(component => this.getComponentHealth(
+        component,
+        freshResults.find(result => result.component === component),
+        runAt
+      ))),
+      this.getMessageStatistics()
+    ])
+
+    return {
+      status: worstStatus(components.map(component => component.latest?.status ?? 'disabled')),
+      checkedAt: components
+        .map(component => component.latest?.checkedAt)
+        .filter((value): value is string => !!value)
+        .sort()
+        .pop() ?? null,
+      components,
+      messageStatistics
+    }
+  }
+
+  private async getComponentHealth(
+    component: HealthComponent,
+    fresh: HealthProbeResult | undefined,
+    now: string
+  ): Promise<ComponentHealth> {
+    const entries = await this.getHistory(component)
+    const stored = entries[0]
+    const disabledReason = getDisabledReason(component)
+
+    let latest: ComponentHealth['latest'] = null
+    if (disabledReason) {
+      latest = { status: 'disabled', responseTimeMs: null, message: disabledReason, checkedAt: null }
+    } else if (fresh) {
+      latest = { status: fresh.status, responseTimeMs: fresh.responseTimeMs, message: fresh.message, checkedAt: now }
+    } else if (stored) {
+      latest = {
+        status: stored.status as HealthStatus,
+        responseTimeMs: stored.response_time_ms,
+        message: stored.error_message,
+        checkedAt: stored.checked_at
+      }
+    }
+
+    return {
+      component,
+      label: HEALTH_COMPONENT_LABELS[component],
+      latest,
+      history: entries
+        .map(entry => ({
+          checkedAt: entry.checked_at ?? '',
+          status: entry.status,
+          responseTimeMs: entry.response_time_ms
+        }))
+        .reverse()
+    }
+  }
+
+  /**
+   * Stored checks, newest first; empty when the database can't be read (the database probe
+   * reports that), so the rest of the report still comes through
+   */
+  private async getHistory(component: HealthComponent): Promise<HealthCheck[]> {
+    try {
+      return await this.healthCheckRepository.listHistory(component, HISTORY_LENGTH)
+    } catch (error) {
+      this.logger.error('Failed to load health check history', { component, error: error instanceof Error ? error.message : error })
+      return []
+    }
+  }
+
+  private async getMessageStatistics(): Promise<MessageStatistics | null> {
+    try {
+      return await this.outboxRepository.getStatistics(STATISTICS_HOURS_BACK)
+    } catch (error) {
+      this.logger.error('Failed to load message statistics', { error: error instanceof Error ? error.message : error })
+      return null
+    }
+  }
+
+  /**
+   * Run one component's probe, timing it; a probe that throws or times out reports down
+   */
+  private async probe(component: HealthComponent): Promise<HealthProbeResult> {
+    const disabledReason = getDisabledReason(component)
+    if (disabledReason) {
+      return { component, status: 'disabled', responseTimeMs: 0, message: disabledReason }
+    }
+
+    const startedAt = Date.now()
+    try {
+      const outcome = await withTimeout(this.runProbe(component), PROBE_TIMEOUT_MS)
+      return { component, responseTimeMs: Date.now() - startedAt, ...outcome }
+    } catch (error) {
+      return {
+        component,
+        status: 'down',
+        responseTimeMs: Date.now() - startedAt,
+        message: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
+  private async runProbe(component: HealthComponent): Promise<ProbeOutcome> {
+    switch (component) {
+      case 'database':
+        return await this.probeDatabase()
+      case 'whatsapp':
+      case 'telegram':
+        return await this.probeChannel(component)
+      case 'sheets':
+        return await this.probeSheets()
+      case 'message_delivery':
+        return await this.probeMessageDelivery()
+      case 'chatbot':
+        validateChatbotConfig()
+        return { status: 'healthy', message: null }
+    }
+  }
+
+  private async probeDatabase(): Promise<ProbeOutcome> {
+    const startedAt = Date.now()
+    await this.healthCheckRepository.pingDatabase()
+    const elapsed = Date.now() - startedAt
+
+    return elapsed > SLOW_DATABASE_MS
+      ? { status: 'degraded', message: `Slow response (${elapsed}ms)` }
+      : { status: 'healthy', message: null }
+  }
+
+  private async probeChannel(platform: ChannelPlatform): Promise<ProbeOutcome> {
+    const channel = getNotificationChannel(platform)
+    const [connection, circuitOpen] = await Promise.all([channel.testConnection(), channel.isCircuitOpen()])
+
+    if (!connection.success) {
+      return { status: 'down', message: connection.error || 'API connectivity failed', details: { circuitOpen } }
+    }
+    if (circuitOpen) {
+      return { status: 'degraded', message: 'Circuit breaker is open; messages wait in pending', details: { circuitOpen } }
+    }
+    return { status: 'healthy', message: null, details: { circuitOpen } }
+  }
+
+  private async probeSheets(): Promise<ProbeOutcome> {
+    const status = await getSheetsSyncService().checkStatus()
+
+    if (status.failedDeals > 0) {
+      return {
+        status: 'degraded',
+        message: `${status.failedDeals} deal${status.failedDeals === 1 ? '' : 's'} waiting for a sync retry`,
+        details: status
+      }
+    }
+    return { status: 'healthy', message: null, details: status }
+  }
+
+  private async probeMessageDelivery(): Promise<ProbeOutcome> {
+    const statistics = await this.outboxRepository.getStatistics(STATISTICS_HOURS_BACK)
+    const details = {
+      successRate: statistics.successRate,
+      totalMessages: statistics.totalMessages,
+      failedMessages: statistics.failedMessages,
+      deadLetterMessages: statistics.deadLetterMessages
+    }
+
+    if (statistics.totalMessages === 0) {
+      return { status: 'healthy', message: null, details }
+    }
+    if (statistics.successRate < DOWN_SUCCESS_RATE) {
+      return { status: 'down', message: `Success rate ${statistics.successRate}% in the last 24h`, details }
+    }
+    if (statistics.successRate < DEGRADED_SUCCESS_RATE) {
+      return { status: 'degraded', message: `Success rate ${statistics.successRate}% in the last 24h`, details }
+    }
+    return { status: 'healthy', message: null, details }
+  }
+}
+
+/**
+ * Why a component is not probed, or null when it is switched on
+ */
+const getDisabledReason = (component: HealthComponent): string | null => {
+  switch (component) {
+    case 'whatsapp':
+    case 'telegram':
+      return isChannelEnabled(component)
+        ? null
+        : `Disabled (FEATURE_${component.toUpperCase()}_MESSAGING=false)`
+    case 'sheets':
+      return isSheetsSyncEnabled() ? null : 'Disabled (FEATURE_SHEETS_SYNC=false)'
+    case 'chatbot':
+      return process.env.FEATURE_CHATBOT === 'true' ? null : 'Disabled (FEATURE_CHATBOT=false)'
+    default:
+      return null
+  }
+}
+
+const worstStatus = (statuses: HealthStatus[]): HealthStatus => {
+  return statuses.reduce<HealthStatus>(
+    (worst, status) => (STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst),
+    'disabled'
+  )
+}
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs / 1000}s`)), timeoutMs)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Singleton system health service instance
+ */
+let globalSystemHealthService: SystemHealthService | null = null
+
+export const getSystemHealthService = (): SystemHealthService => {
+  if (!globalSystemHealthService) {
+    globalSystemHealthService = new SystemHealthService()
+  }
+  return globalSystemHealthService
+}
@@ -103,6 +103,7 @@ export interface DealData {
   sale_comments?: string;
   purchase_comments?: string;
   warehouse_location?: string;
+  status?: string;
   created_at: Date;
 }
 
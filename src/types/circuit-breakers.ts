@@ -0,0 +1,35 @@
+import type { HealthCheck } from './index'
+
+export type CircuitBreakerAction = "force_open" | "force_close"
+
+export type CircuitBreakerStateName = "CLOSED" | "OPEN" | "HALF_OPEN"
+
+// POST /api/messaging/circuit-breakers/[platform]
+export interface CircuitBreakerActionRequest {
+  action: CircuitBreakerAction
+  performedBy?: string
+  note?: string
+}
+
+export interface CircuitBreakerFailureEntry {
+  at: string
+  error: string
+}
+
+// One channel's breaker as shown on the message console
+export interface ChannelCircuitBreakerStatus {
+  platform: string
+  label: string
+  enabled: boolean
+  state: CircuitBreakerStateName
+  // Forced open by an operator (maintenance); stays open until forced closed
+  forced: boolean
+  recentFailures: CircuitBreakerFailureEntry[]
+  monitoringWindowMs: number
+  openedAt: string | null
+  nextAttemptAt: string | null
+  stateChangedAt: string
+  updatedBy: string | null
+  // Latest state transitions (health_checks), newest first
+  transitions: HealthCheck[]
+}
@@ -14,6 +14,39 @@ export type Database = {
   }
   public: {
     Tables: {
+      circuit_breakers: {
+        Row: {
+          forced: boolean
+          opened_at: string | null
+          recent_failures: Json
+          service: string
+          state: string
+          state_changed_at: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          forced?: boolean
+          opened_at?: string | null
+          recent_failures?: Json
+          service: string
+          state?: string
+          state_changed_at?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          forced?: boolean
+          opened_at?: string | null
+          recent_failures?: Json
+          service?: string
+          state?: string
+          state_changed_at?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       customers: {
         Row: {
           created_at: string | null
@@ -32,6 +65,97 @@ export type Database = {
         }
         Relationships: []
       }
+      deal_amendments: {
+        Row: {
+          changes: Json
+          created_at: string | null
+          deal_id: string
+          id: string
+          note: string | null
+          performed_by: string
+        }
+        Insert: {
+          changes: Json
+          created_at?: string | null
+          deal_id: string
+          id?: string
+          note?: string | null
+          performed_by?: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string | null
+          deal_id?: string
+          id?: string
+          note?: string | null
+          performed_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_amendments_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals_unified"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_srno_sequences: {
+        Row: {
+          last_value: number
+          scope: string
+          updated_at: string | null
+        }
+        Insert: {
+          last_value: number
+          scope: string
+          updated_at?: string | null
+        }
+        Update: {
+          last_value?: number
+          scope?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      deal_status_transitions: {
+        Row: {
+          created_at: string | null
+          deal_id: string
+          from_status: string
+          id: string
+          note: string | null
+          performed_by: string
+          to_status: string
+        }
+        Insert: {
+          created_at?: string | null
+          deal_id: string
+          from_status: string
+          id?: string
+          note?: string | null
+          performed_by?: string
+          to_status: string
+        }
+        Update: {
+          created_at?: string | null
+          deal_id?: string
+          from_status?: string
+          id?: string
+          note?: string | null
+          performed_by?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_status_transitions_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals_unified"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deals_1: {
         Row: {
           Company: string
@@ -196,55 +320,103 @@ export type Database = {
       }
       deals_unified: {
         Row: {
+          charges: Json | null
           Company: string | null
           created_at: string | null
+          customer_id: string | null
           Date: string | null
+          delivery_terms: string | null
+          final_comments: string | null
           Grade: string | null
           id: string
+          inventory_cost_method: string | null
+          inventory_cost_per_kg: number | null
+          material_source: string | null
           Product: string | null
+          product_id: string | null
           "Purchase Party": string | null
           "Purchase Rate": number | null
+          purchase_comments: string | null
+          purchase_lines: Json | null
           "Quantity Purchased": number | null
           "Quantity Sold": number | null
           "Sale Party": string | null
           "Sale Rate": number | null
+          sale_comments: string | null
           "Specific Grade": string | null
           SrNo: string | null
+          status: string
+          status_changed_at: string | null
+          supplier_id: string | null
           updated_at: string | null
+          warehouse_id: string | null
+          warehouse_location: string | null
         }
         Insert: {
+          charges?: Json | null
           Company?: string | null
           created_at?: string | null
+          customer_id?: string | null
           Date?: string | null
+          delivery_terms?: string | null
+          final_comments?: string | null
           Grade?: string | null
-          id: string
+          id?: string
+          inventory_cost_method?: string | null
+          inventory_cost_per_kg?: number | null
+          material_source?: string | null
           Product?: string | null
+          product_id?: string | null
           "Purchase Party"?: string | null
           "Purchase Rate"?: number | null
+          purchase_comments?: string | null
+          purchase_lines?: Json | null
           "Quantity Purchased"?: number | null
           "Quantity Sold"?: number | null
           "Sale Party"?: string | null
           "Sale Rate"?: number | null
+          sale_comments?: string | null
           "Specific Grade"?: string | null
           SrNo?: string | null
+          status?: string
+          status_changed_at?: string | null
+          supplier_id?: string | null
           updated_at?: string | null
+          warehouse_id?: string | null
+          warehouse_location?: string | null
         }
         Update: {
+          charges?: Json | null
           Company?: string | null
           created_at?: string | null
+          customer_id?: string | null
           Date?: string | null
+          delivery_terms?: string | null
+          final_comments?: string | null
           Grade?: string | null
           id?: string
+          inventory_cost_method?: string | null
+          inventory_cost_per_kg?: number | null
+          material_source?: string | null
           Product?: string | null
+          product_id?: string | null
           "Purchase Party"?: string | null
           "Purchase Rate"?: number | null
+          purchase_comments?: string | null
+          purchase_lines?: Json | null
           "Quantity Purchased"?: number | null
           "Quantity Sold"?: number | null
           "Sale Party"?: string | null
           "Sale Rate"?: number | null
+          sale_comments?: string | null
           "Specific Grade"?: string | null
           SrNo?: string | null
+          status?: string
+          status_changed_at?: string | null
+          supplier_id?: string | null
           updated_at?: string | null
+          warehouse_id?: string | null
+          warehouse_location?: string | null
         }
         Relationships: []
       }
@@ -252,6 +424,7 @@ export type Database = {
         Row: {
           check_type: string
           checked_at: string | null
+          details: Json | null
           error_message: string | null
           id: string
           response_time_ms: number | null
@@ -260,6 +433,7 @@ export type Database = {
         Insert: {
           check_type: string
           checked_at?: string | null
+          details?: Json | null
           error_message?: string | null
           id?: string
           response_time_ms?: number | null
@@ -268,6 +442,7 @@ export type Database = {
         Update: {
           check_type?: string
           checked_at?: string | null
+          details?: Json | null
           error_message?: string | null
           id?: string
           response_time_ms?: number | null
@@ -277,51 +452,139 @@ export type Database = {
       }
       message_outbox: {
         Row: {
+          api_response: Json | null
           attempts: number | null
           created_at: string | null
+          created_by: string | null
           deal_id: string
+          delivered_at: string | null
+          error_details: Json | null
           error_message: string | null
+          error_type: string | null
           external_message_id: string | null
           id: string
           max_attempts: number | null
           message_text: string
+          next_retry_at: string | null
           platform: string
+          read_at: string | null
+          recipient_id: string | null
           recipient_phone: string
+          recipient_role: string
+          response_time_ms: number | null
+          sent_as_template: boolean
           sent_at: string | null
           status: string | null
           updated_at: string | null
+          wait_time_ms: number | null
+          whatsapp_template: Json | null
         }
         Insert: {
+          api_response?: Json | null
           attempts?: number | null
           created_at?: string | null
+          created_by?: string | null
           deal_id: string
+          delivered_at?: string | null
+          error_details?: Json | null
           error_message?: string | null
+          error_type?: string | null
           external_message_id?: string | null
           id?: string
           max_attempts?: number | null
           message_text: string
+          next_retry_at?: string | null
           platform: string
+          read_at?: string | null
+          recipient_id?: string | null
           recipient_phone: string
+          recipient_role: string
+          response_time_ms?: number | null
+          sent_as_template?: boolean
           sent_at?: string | null
           status?: string | null
           updated_at?: string | null
+          wait_time_ms?: number | null
+          whatsapp_template?: Json | null
         }
         Update: {
+          api_response?: Json | null
           attempts?: number | null
           created_at?: string | null
+          created_by?: string | null
           deal_id?: string
+          delivered_at?: string | null
+          error_details?: Json | null
           error_message?: string | null
+          error_type?: string | null
           external_message_id?: string | null
           id?: string
           max_attempts?: number | null
           message_text?: string
+          next_retry_at?: string | null
           platform?: string
+          read_at?: string | null
+          recipient_id?: string | null
           recipient_phone?: string
+          recipient_role?: string
+          response_time_ms?: number | null
+          sent_as_template?: boolean
           sent_at?: string | null
           status?: string | null
           updated_at?: string | null
+          wait_time_ms?: number | null
+          whatsapp_template?: Json | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "message_outbox_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "notification_recipients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_outbox_audit: {
+        Row: {
+          action: string
+          created_at: string | null
+          id: string
+          message_id: string
+          new_values: Json | null
+          note: string | null
+          performed_by: string
+          previous_values: Json | null
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          id?: string
+          message_id: string
+          new_values?: Json | null
+          note?: string | null
+          performed_by?: string
+          previous_values?: Json | null
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          id?: string
+          message_id?: string
+          new_values?: Json | null
+          note?: string | null
+          performed_by?: string
+          previous_values?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_outbox_audit_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "message_outbox"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       message_templates: {
         Row: {
@@ -331,8 +594,12 @@ export type Database = {
           name: string
           platform: string
           template_text: string
+          updated_at: string | null
+          updated_by: string | null
           variables: Json | null
           whatsapp_template_id: string | null
+          whatsapp_template_language: string
+          whatsapp_template_params: Json
         }
         Insert: {
           created_at?: string | null
@@ -341,8 +608,12 @@ export type Database = {
           name: string
           platform: string
           template_text: string
+          updated_at?: string | null
+          updated_by?: string | null
           variables?: Json | null
           whatsapp_template_id?: string | null
+          whatsapp_template_language?: string
+          whatsapp_template_params?: Json
         }
         Update: {
           created_at?: string | null
@@ -351,11 +622,214 @@ export type Database = {
           name?: string
           platform?: string
           template_text?: string
+          updated_at?: string | null
+          updated_by?: string | null
           variables?: Json | null
           whatsapp_template_id?: string | null
+          whatsapp_template_language?: string
+          whatsapp_template_params?: Json
         }
         Relationships: []
       }
+      notification_digests: {
+        Row: {
+          created_at: string | null
+          error_message: string | null
+          error_type: string | null
+          external_message_id: string | null
+          id: string
+          message_text: string
+          period: string
+          period_end: string
+          period_start: string
+          platform: string
+          recipient_address: string
+          recipient_id: string
+          role: string
+          sent_at: string | null
+          status: string
+          summary: Json
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          error_message?: string | null
+          error_type?: string | null
+          external_message_id?: string | null
+          id?: string
+          message_text: string
+          period: string
+          period_end: string
+          period_start: string
+          platform: string
+          recipient_address: string
+          recipient_id: string
+          role: string
+          sent_at?: string | null
+          status: string
+          summary: Json
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          error_message?: string | null
+          error_type?: string | null
+          external_message_id?: string | null
+          id?: string
+          message_text?: string
+          period?: string
+          period_end?: string
+          period_start?: string
+          platform?: string
+          recipient_address?: string
+          recipient_id?: string
+          role?: string
+          sent_at?: string | null
+          status?: string
+          summary?: Json
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_digests_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "notification_recipients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_recipients: {
+        Row: {
+          channels: string[]
+          created_at: string | null
+          delivery_mode: string
+          id: string
+          is_active: boolean
+          name: string
+          role: string
+          telegram_chat_id: string | null
+          updated_at: string | null
+          updated_by: string | null
+          whatsapp_phone: string | null
+        }
+        Insert: {
+          channels?: string[]
+          created_at?: string | null
+          delivery_mode?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          role: string
+          telegram_chat_id?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+          whatsapp_phone?: string | null
+        }
+        Update: {
+          channels?: string[]
+          created_at?: string | null
+          delivery_mode?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          role?: string
+          telegram_chat_id?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+          whatsapp_phone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_recipients_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "notification_roles"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      notification_roles: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          is_active: boolean
+          key: string
+          label: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          is_active?: boolean
+          key: string
+          label: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          is_active?: boolean
+          key?: string
+          label?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      notification_routing_rules: {
+        Row: {
+          conditions: Json
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          recipient_id: string | null
+          role: string | null
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          conditions?: Json
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          recipient_id?: string | null
+          role?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          conditions?: Json
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          recipient_id?: string | null
+          role?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_routing_rules_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "notification_recipients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_routing_rules_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "notification_roles"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
       products: {
         Row: {
           Company: string
@@ -383,6 +857,24 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_buckets: {
+        Row: {
+          key: string
+          refilled_at: string
+          tokens: number
+        }
+        Insert: {
+          key: string
+          refilled_at?: string
+          tokens: number
+        }
+        Update: {
+          key?: string
+          refilled_at?: string
+          tokens?: number
+        }
+        Relationships: []
+      }
       sheets_sync_log: {
         Row: {
           created_at: string | null
@@ -416,6 +908,124 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_lots: {
+        Row: {
+          cost_per_kg: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          notes: string | null
+          product_id: string
+          quantity_available: number
+          quantity_received: number
+          received_at: string
+          source: string
+          source_deal_id: string | null
+          updated_at: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          cost_per_kg: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          product_id: string
+          quantity_available: number
+          quantity_received: number
+          received_at?: string
+          source?: string
+          source_deal_id?: string | null
+          updated_at?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          cost_per_kg?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          product_id?: string
+          quantity_available?: number
+          quantity_received?: number
+          received_at?: string
+          source?: string
+          source_deal_id?: string | null
+          updated_at?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lots_source_deal_id_fkey"
+            columns: ["source_deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals_unified"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_lots_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          cost_per_kg: number
+          created_at: string | null
+          created_by: string | null
+          deal_id: string | null
+          id: string
+          lot_id: string
+          movement_type: string
+          quantity: number
+        }
+        Insert: {
+          cost_per_kg: number
+          created_at?: string | null
+          created_by?: string | null
+          deal_id?: string | null
+          id?: string
+          lot_id: string
+          movement_type: string
+          quantity: number
+        }
+        Update: {
+          cost_per_kg?: number
+          created_at?: string | null
+          created_by?: string | null
+          deal_id?: string | null
+          id?: string
+          lot_id?: string
+          movement_type?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals_unified"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "stock_lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suppliers: {
         Row: {
           created_at: string | null
@@ -434,12 +1044,591 @@ export type Database = {
         }
         Relationships: []
       }
+      warehouses: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_active: boolean
+          location: string | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      message_outbox_monitoring: {
+        Row: {
+          attempts: number | null
+          created_at: string | null
+          deal_id: string | null
+          delivered_at: string | null
+          error_message: string | null
+          error_type: string | null
+          id: string | null
+          max_attempts: number | null
+          message_text: string | null
+          next_retry_at: string | null
+          platform: string | null
+          recipient_phone: string | null
+          recipient_role: string | null
+          response_time_ms: number | null
+          seconds_since_created: number | null
+          seconds_until_retry: number | null
+          sent_at: string | null
+          status: string | null
+          updated_at: string | null
+          urgency: string | null
+          wait_time_ms: number | null
+        }
+        Relationships: []
+      }
+      stock_levels: {
+        Row: {
+          average_cost_per_kg: number | null
+          company: string | null
+          grade: string | null
+          lot_count: number | null
+          product: string | null
+          product_id: string | null
+          quantity_available: number | null
+          warehouse_id: string | null
+          warehouse_name: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      acquire_rate_limit_token: {
+        Args: { p_capacity: number; p_key: string; p_window_ms?: number }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          wait_ms: number
+        }[]
+      }
+      allocate_deal_srno: {
+        Args: { p_deal_date?: string; p_reset_per_financial_year?: boolean }
+        Returns: string
+      }
+      amend_deal: {
+        Args: {
+          p_changes: Json
+          p_deal_id: string
+          p_expected_updated_at?: string
+          p_messages?: Json
+          p_note?: string
+          p_patch: Json
+          p_performed_by?: string
+          p_stock?: Json
+        }
+        Returns: {
+          charges: Json | null
+          Company: string | null
+          created_at: string | null
+          customer_id: string | null
+          Date: string | null
+          delivery_terms: string | null
+          final_comments: string | null
+          Grade: string | null
+          id: string
+          inventory_cost_method: string | null
+          inventory_cost_per_kg: number | null
+          material_source: string | null
+          Product: string | null
+          product_id: string | null
+          "Purchase Party": string | null
+          "Purchase Rate": number | null
+          purchase_comments: string | null
+          purchase_lines: Json | null
+          "Quantity Purchased": number | null
+          "Quantity Sold": number | null
+          "Sale Party": string | null
+          "Sale Rate": number | null
+          sale_comments: string | null
+          "Specific Grade": string | null
+          SrNo: string | null
+          status: string
+          status_changed_at: string | null
+          supplier_id: string | null
+          updated_at: string | null
+          warehouse_id: string | null
+          warehouse_location: string | null
+        }
+      }
+      apply_outbox_delivery_status: {
+        Args: {
+          p_error_code?: string
+          p_error_message?: string
+          p_error_type?: string
+          p_external_message_id: string
+          p_status: string
+          p_status_at?: string
+        }
+        Returns: {
+          api_response: Json | null
+          attempts: number | null
+          created_at: string | null
+          created_by: string | null
+          deal_id: string
+          delivered_at: string | null
+          error_details: Json | null
+          error_message: string | null
+          error_type: string | null
+          external_message_id: string | null
+          id: string
+          max_attempts: number | null
+          message_text: string
+          next_retry_at: string | null
+          platform: string
+          read_at: string | null
+          recipient_id: string | null
+          recipient_phone: string
+          recipient_role: string
+          response_time_ms: number | null
+          sent_as_template: boolean
+          sent_at: string | null
+          status: string | null
+          updated_at: string | null
+          wait_time_ms: number | null
+          whatsapp_template: Json | null
+        }[]
+      }
+      claim_outbox_messages: {
+        Args: {
+          p_limit?: number
+          p_platform?: string
+          p_stale_after_seconds?: number
+        }
+        Returns: {
+          api_response: Json | null
+          attempts: number | null
+          created_at: string | null
+          created_by: string | null
+          deal_id: string
+          delivered_at: string | null
+          error_details: Json | null
+          error_message: string | null
+          error_type: string | null
+          external_message_id: string | null
+          id: string
+          max_attempts: number | null
+          message_text: string
+          next_retry_at: string | null
+          platform: string
+          read_at: string | null
+          recipient_id: string | null
+          recipient_phone: string
+          recipient_role: string
+          response_time_ms: number | null
+          sent_as_template: boolean
+          sent_at: string | null
+          status: string | null
+          updated_at: string | null
+          wait_time_ms: number | null
+          whatsapp_template: Json | null
+        }[]
+      }
+      consume_deal_stock: {
+        Args: {
+          p_cost_method?: string
+          p_created_by?: string
+          p_deal_id: string
+          p_product_id: string
+          p_quantity: number
+          p_warehouse_id: string | null
+        }
+        Returns: {
+          cost_per_kg: number
+          created_at: string | null
+          created_by: string | null
+          deal_id: string | null
+          id: string
+          lot_id: string
+          movement_type: string
+          quantity: number
+        }[]
+      }
+      create_deal_with_notifications: {
+        Args: { p_deal: Json; p_messages?: Json; p_stock?: Json }
+        Returns: {
+          charges: Json | null
+          Company: string | null
+          created_at: string | null
+          customer_id: string | null
+          Date: string | null
+          delivery_terms: string | null
+          final_comments: string | null
+          Grade: string | null
+          id: string
+          inventory_cost_method: string | null
+          inventory_cost_per_kg: number | null
+          material_source: string | null
+          Product: string | null
+          product_id: string | null
+          "Purchase Party": string | null
+          "Purchase Rate": number | null
+          purchase_comments: string | null
+          purchase_lines: Json | null
+          "Quantity Purchased": number | null
+          "Quantity Sold": number | null
+          "Sale Party": string | null
+          "Sale Rate": number | null
+          sale_comments: string | null
+          "Specific Grade": string | null
+          SrNo: string | null
+          status: string
+          status_changed_at: string | null
+          supplier_id: string | null
+          updated_at: string | null
+          warehouse_id: string | null
+          warehouse_location: string | null
+        }
+      }
+      dead_letter_exhausted_messages: {
+        Args: { p_non_retryable_error_types?: string[] }
+        Returns: number
+      }
+      dead_letter_outbox_messages: {
+        Args: { p_ids: string[]; p_note?: string; p_performed_by?: string }
+        Returns: {
+          api_response: Json | null
+          attempts: number | null
+          created_at: string | null
+          created_by: string | null
+          deal_id: string
+          delivered_at: string | null
+          error_details: Json | null
+          error_message: string | null
+          error_type: string | null
+          external_message_id: string | null
+          id: string
+          max_attempts: number | null
+          message_text: string
+          next_retry_at: string | null
+          platform: string
+          read_at: string | null
+          recipient_id: string | null
+          recipient_phone: string
+          recipient_role: string
+          response_time_ms: number | null
+          sent_as_template: boolean
+          sent_at: string | null
+          status: string | null
+          updated_at: string | null
+          wait_time_ms: number | null
+          whatsapp_template: Json | null
+        }[]
+      }
+      deal_financial_year: {
+        Args: { p_date: string }
+        Returns: string
+      }
+      get_circuit_breaker: {
+        Args: { p_service: string; p_timeout_ms?: number }
+        Returns: {
+          forced: boolean
+          opened_at: string | null
+          recent_failures: Json
+          service: string
+          state: string
+          state_changed_at: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      get_message_statistics: {
+        Args: { p_hours_back?: number }
+        Returns: {
+          avg_response_time_ms: number | null
+          dead_letter_messages: number
+          error_breakdown: Json
+          failed_messages: number
+          pending_messages: number
+          success_rate: number
+          successful_messages: number
+          total_messages: number
+          total_wait_time_ms: number
+        }[]
+      }
+      get_messages_pending_retry: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          attempts: number
+          deal_id: string
+          error_message: string
+          error_type: string
+          id: string
+          message_text: string
+          next_retry_at: string
+          recipient_phone: string
+          recipient_role: string
+        }[]
+      }
+      get_sheets_sync_retry_candidates: {
+        Args: { p_limit?: number; p_max_attempts?: number }
+        Returns: {
+          deal_id: string
+          failed_attempts: number
+          last_attempt_at: string
+          last_error: string | null
+        }[]
+      }
+      lock_circuit_breaker: {
+        Args: { p_service: string }
+        Returns: {
+          forced: boolean
+          opened_at: string | null
+          recent_failures: Json
+          service: string
+          state: string
+          state_changed_at: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      receive_stock_lot: {
+        Args: {
+          p_cost_per_kg: number
+          p_created_by?: string
+          p_notes?: string
+          p_product_id: string
+          p_quantity: number
+          p_received_at?: string
+          p_source?: string
+          p_source_deal_id?: string
+          p_warehouse_id: string
+        }
+        Returns: {
+          cost_per_kg: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          notes: string | null
+          product_id: string
+          quantity_available: number
+          quantity_received: number
+          received_at: string
+          source: string
+          source_deal_id: string | null
+          updated_at: string | null
+          warehouse_id: string
+        }
+      }
+      record_circuit_breaker_failure: {
+        Args: {
+          p_error: string
+          p_failure_threshold?: number
+          p_service: string
+          p_window_ms?: number
+        }
+        Returns: {
+          forced: boolean
+          opened_at: string | null
+          recent_failures: Json
+          service: string
+          state: string
+          state_changed_at: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      record_circuit_breaker_success: {
+        Args: { p_service: string }
+        Returns: {
+          forced: boolean
+          opened_at: string | null
+          recent_failures: Json
+          service: string
+          state: string
+          state_changed_at: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      requeue_outbox_messages: {
+        Args: {
+          p_extra_attempts?: number
+          p_ids: string[]
+          p_note?: string
+          p_performed_by?: string
+        }
+        Returns: {
+          api_response: Json | null
+          attempts: number | null
+          created_at: string | null
+          created_by: string | null
+          deal_id: string
+          delivered_at: string | null
+          error_details: Json | null
+          error_message: string | null
+          error_type: string | null
+          external_message_id: string | null
+          id: string
+          max_attempts: number | null
+          message_text: string
+          next_retry_at: string | null
+          platform: string
+          read_at: string | null
+          recipient_id: string | null
+          recipient_phone: string
+          recipient_role: string
+          response_time_ms: number | null
+          sent_as_template: boolean
+          sent_at: string | null
+          status: string | null
+          updated_at: string | null
+          wait_time_ms: number | null
+          whatsapp_template: Json | null
+        }[]
+      }
+      resend_outbox_message: {
+        Args: {
+          p_extra_attempts?: number
+          p_id: string
+          p_message_text?: string
+          p_note?: string
+          p_performed_by?: string
+          p_recipient_phone?: string
+        }
+        Returns: {
+          api_response: Json | null
+          attempts: number | null
+          created_at: string | null
+          created_by: string | null
+          deal_id: string
+          delivered_at: string | null
+          error_details: Json | null
+          error_message: string | null
+          error_type: string | null
+          external_message_id: string | null
+          id: string
+          max_attempts: number | null
+          message_text: string
+          next_retry_at: string | null
+          platform: string
+          read_at: string | null
+          recipient_id: string | null
+          recipient_phone: string
+          recipient_role: string
+          response_time_ms: number | null
+          sent_as_template: boolean
+          sent_at: string | null
+          status: string | null
+          updated_at: string | null
+          wait_time_ms: number | null
+          whatsapp_template: Json | null
+        }
+      }
+      return_deal_stock: {
+        Args: { p_created_by?: string; p_deal_id: string; p_quantity?: number }
+        Returns: {
+          cost_per_kg: number
+          created_at: string | null
+          created_by: string | null
+          deal_id: string | null
+          id: string
+          lot_id: string
+          movement_type: string
+          quantity: number
+        }[]
+      }
+      set_circuit_breaker_state: {
+        Args: {
+          p_note?: string
+          p_performed_by?: string
+          p_service: string
+          p_state: string
+        }
+        Returns: {
+          forced: boolean
+          opened_at: string | null
+          recent_failures: Json
+          service: string
+          state: string
+          state_changed_at: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      transition_circuit_breaker: {
+        Args: {
+          p_breaker: Database["public"]["Tables"]["circuit_breakers"]["Row"]
+          p_forced: boolean
+          p_performed_by?: string
+          p_reason: string
+          p_state: string
+        }
+        Returns: {
+          forced: boolean
+          opened_at: string | null
+          recent_failures: Json
+          service: string
+          state: string
+          state_changed_at: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+      }
+      transition_deal_status: {
+        Args: {
+          p_deal_id: string
+          p_from_status: string
+          p_messages?: Json
+          p_note?: string
+          p_performed_by?: string
+          p_to_status: string
+        }
+        Returns: {
+          charges: Json | null
+          Company: string | null
+          created_at: string | null
+          customer_id: string | null
+          Date: string | null
+          delivery_terms: string | null
+          final_comments: string | null
+          Grade: string | null
+          id: string
+          inventory_cost_method: string | null
+          inventory_cost_per_kg: number | null
+          material_source: string | null
+          Product: string | null
+          product_id: string | null
+          "Purchase Party": string | null
+          "Purchase Rate": number | null
+          purchase_comments: string | null
+          purchase_lines: Json | null
+          "Quantity Purchased": number | null
+          "Quantity Sold": number | null
+          "Sale Party": string | null
+          "Sale Rate": number | null
+          sale_comments: string | null
+          "Specific Grade": string | null
+          SrNo: string | null
+          status: string
+          status_changed_at: string | null
+          supplier_id: string | null
+          updated_at: string | null
+          warehouse_id: string | null
+          warehouse_location: string | null
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,64 @@
+import type { Deal } from './index'
+
+// Fields of a registered deal that can be corrected (PATCH /api/deals/[id])
+export type AmendableDealField =
+  | "date"
+  | "quantitySold"
+  | "saleRate"
+  | "deliveryTerms"
+  | "quantityPurchased"
+  | "purchaseRate"
+  | "saleComments"
+  | "purchaseComments"
+  | "finalComments"
+
+export const AMENDABLE_DEAL_FIELD_LABELS: Record<AmendableDealField, string> = {
+  date: "Date",
+  quantitySold: "Quantity Sold",
+  saleRate: "Sale Rate",
+  deliveryTerms: "Delivery Terms",
+  quantityPurchased: "Quantity Purchased",
+  purchaseRate: "Purchase Rate",
+  saleComments: "Sale Notes",
+  purchaseComments: "Purchase Notes",
+  finalComments: "Special Instructions",
+}
+
+// One changed field, as stored in deal_amendments.changes
+// Type alias (not an interface) so it can be stored as JSON
+export type DealFieldChange = {
+  field: AmendableDealField
+  before: string | number | null
+  after: string | number | null
+}
+
+// PATCH /api/deals/[id]: only the fields sent are changed; null clears a note
+export interface DealAmendmentRequest {
+  date?: string  // YYYY-MM-DD
+  quantitySold?: number
+  saleRate?: number
+  deliveryTerms?: "delivered" | "ex-warehouse"
+  // Only for a deal bought from a single supplier
+  quantityPurchased?: number
+  purchaseRate?: number
+  saleComments?: string | null
+  purchaseComments?: string | null
+  finalComments?: string | null
+  performedBy?: string
+  note?: string
+  // Send "DEAL AMENDED" to the roles whose message showed a changed field (default true)
+  notify?: boolean
+}
+
+export interface DealAmendmentResult {
+  deal: Deal
+  changes: DealFieldChange[]
+  queuedNotifications: number
+}
+
+// POST /api/deals/[id]/cancel
+export interface DealCancelRequest {
+  reason: string
+  performedBy?: string
+  notify?: boolean
+}
@@ -1,4 +1,5 @@
 import type { Database } from './database.types'
+import type { DealChargesInput } from '@/lib/costing/deal-costing'
 
 // Base types from database
 export type DealUnified = Database['public']['Tables']['deals_unified']['Row']
@@ -30,6 +31,19 @@ export type DeliveryTerms = "delivered" | "ex-warehouse"
 // Material source options
 export type MaterialSource = "new-material" | "from-inventory"
 
+// Where part of a new-material sale comes from
+export type PurchaseLineSource = "supplier" | "stock"
+
+// One source of a new-material sale: a supplier purchase, or stock already held
+export interface PurchaseLine {
+  source: PurchaseLineSource
+  // Supplier ID (the form) or name (API clients); empty for stock
+  purchaseParty: string
+  quantity: number
+  // ₹/kg; stock is costed from its lots when the deal is saved
+  rate: number
+}
+
 // Form state interface
 export interface DealFormState {
   // Basic Deal Information
@@ -47,15 +61,16 @@ export interface DealFormState {
   // Material Source
   materialSource: MaterialSource
 
-  // Purchase Details
-  purchaseParty: string
-  quantityPurchased: number
-  purchaseRate: number
+  // Purchase Details: one line per supplier, plus at most one from stock
+  purchaseLines: PurchaseLine[]
   warehouseLocation: string
 
   // Comments
   purchaseComments: string
   finalComments: string
+
+  // Landed cost charges (defaults apply to anything left out)
+  charges?: DealChargesInput
 }
 
 // Form errors interface
@@ -68,9 +83,7 @@ export interface DealFormErrors {
   saleComments?: string
   productCode?: string
   materialSource?: string
-  purchaseParty?: string
-  quantityPurchased?: string
-  purchaseRate?: string
+  purchaseLines?: string
   warehouseLocation?: string
   purchaseComments?: string
   finalComments?: string
@@ -138,14 +151,6 @@ export interface FormSectionProps {
   className?: string
 }
 
-// Deal calculation interface for cost calculations
-export interface DealCalculation {
-  saleAmount: number
-  purchaseAmount: number
-  grossProfit: number
-  profitMargin: number
-}
-
 // API response types
 export interface CreateDealResponse {
   success: boolean
@@ -186,17 +191,12 @@ export interface UseDropdownDataReturn {
   refetch: () => Promise<void>
 }
 
-// WhatsApp result types
+// Notifications queued with the deal (sent afterwards by the outbox dispatcher)
 export interface WhatsAppResult {
   enabled: boolean
-  success: boolean
-  successCount: number
-  failureCount: number
-  errors: Array<{
-    recipient: string
-    role: string
-    error: string
-  }>
+  queuedCount: number
+  roles: string[]
+  channels: Record<string, number> // Queued messages per platform, e.g. { whatsapp: 2, telegram: 2 }
 }
 
 // Form component props
@@ -0,0 +1,52 @@
+import type { Deal } from './index'
+import type { DealStatus } from './deal-status'
+
+// Sortable columns exposed by GET /api/deals
+export type DealListSortField =
+  | "date"
+  | "saleParty"
+  | "purchaseParty"
+  | "product"
+  | "quantitySold"
+  | "saleRate"
+  | "createdAt"
+
+export type SortDirection = "asc" | "desc"
+
+// Filters applied server-side (text filters are case-insensitive "contains")
+export interface DealListFilters {
+  search?: string
+  saleParty?: string
+  purchaseParty?: string
+  product?: string
+  grade?: string
+  company?: string
+  dateFrom?: string  // YYYY-MM-DD, inclusive
+  dateTo?: string    // YYYY-MM-DD, inclusive
+  minRate?: number
+  maxRate?: number
+  status?: DealStatus
+}
+
+export interface DealListQuery extends DealListFilters {
+  sortBy: DealListSortField
+  sortDirection: SortDirection
+  limit: number
+  cursor?: string
+}
+
+// Keyset position: sort column value + id of the last row on the previous page
+export interface DealListCursor {
+  value: string | number | null
+  id: string
+}
+
+export interface DealListPage {
+  deals: Deal[]
+  nextCursor: string | null
+  hasMore: boolean
+  totalEstimate: number | null  // Only computed for the first page
+}
+
+export const DEAL_LIST_PAGE_SIZE = 50
+export const DEAL_LIST_MAX_PAGE_SIZE = 200
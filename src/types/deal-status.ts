@@ -0,0 +1,63 @@
+import type { Deal } from './index'
+
+// Where a registered deal is, from registration to payment
+export type DealStatus =
+  | "registered"
+  | "confirmed"
+  | "dispatched"
+  | "delivered"
+  | "invoiced"
+  | "paid"
+  | "cancelled"
+
+export const DEAL_STATUSES: DealStatus[] = [
+  "registered",
+  "confirmed",
+  "dispatched",
+  "delivered",
+  "invoiced",
+  "paid",
+  "cancelled",
+]
+
+export const DEAL_STATUS_LABELS: Record<DealStatus, string> = {
+  registered: "Registered",
+  confirmed: "Confirmed",
+  dispatched: "Dispatched",
+  delivered: "Delivered",
+  invoiced: "Invoiced",
+  paid: "Paid",
+  cancelled: "Cancelled",
+}
+
+// Statuses a deal can move to from each status; a deal can be cancelled until it is
+// dispatched, and paid and cancelled deals don't move again
+export const DEAL_STATUS_TRANSITIONS: Record<DealStatus, DealStatus[]> = {
+  registered: ["confirmed", "cancelled"],
+  confirmed: ["dispatched", "cancelled"],
+  dispatched: ["delivered"],
+  delivered: ["invoiced"],
+  invoiced: ["paid"],
+  paid: [],
+  cancelled: [],
+}
+
+export const isDealStatus = (value: string): value is DealStatus => {
+  return (DEAL_STATUSES as string[]).includes(value)
+}
+
+// POST /api/deals/[id]/status
+export interface DealStatusChangeRequest {
+  status: DealStatus
+  performedBy?: string
+  // Required when cancelling
+  note?: string
+  // Notify the roles that act on the new status (default true)
+  notify?: boolean
+}
+
+export interface DealStatusChangeResult {
+  deal: Deal
+  previousStatus: DealStatus
+  queuedNotifications: number
+}
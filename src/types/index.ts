@@ -5,14 +5,41 @@ import type { Tables, TablesInsert, TablesUpdate } from './database.types'
 export type Deal = Tables<'deals_unified'>
 export type DealInsert = TablesInsert<'deals_unified'>
 export type DealUpdate = TablesUpdate<'deals_unified'>
+export type DealStatusTransition = Tables<'deal_status_transitions'>
+export type DealAmendment = Tables<'deal_amendments'>
 
 export type Customer = Tables<'customers'>
 export type Supplier = Tables<'suppliers'>
 export type Product = Tables<'products'>
 
+export type CircuitBreaker = Tables<'circuit_breakers'>
 export type HealthCheck = Tables<'health_checks'>
+export type HealthCheckInsert = TablesInsert<'health_checks'>
 export type MessageOutbox = Tables<'message_outbox'>
+export type MessageOutboxInsert = TablesInsert<'message_outbox'>
+export type MessageOutboxUpdate = TablesUpdate<'message_outbox'>
+export type MessageOutboxAudit = Tables<'message_outbox_audit'>
+export type MessageOutboxMonitoring = Tables<'message_outbox_monitoring'>
 export type MessageTemplate = Tables<'message_templates'>
+export type MessageTemplateUpdate = TablesUpdate<'message_templates'>
+export type NotificationDigest = Tables<'notification_digests'>
+export type NotificationDigestInsert = TablesInsert<'notification_digests'>
+export type NotificationRecipient = Tables<'notification_recipients'>
+export type NotificationRecipientInsert = TablesInsert<'notification_recipients'>
+export type NotificationRecipientUpdate = TablesUpdate<'notification_recipients'>
+export type NotificationRole = Tables<'notification_roles'>
+export type NotificationRoleInsert = TablesInsert<'notification_roles'>
+export type NotificationRoleUpdate = TablesUpdate<'notification_roles'>
+export type NotificationRoutingRule = Tables<'notification_routing_rules'>
+export type NotificationRoutingRuleInsert = TablesInsert<'notification_routing_rules'>
+export type NotificationRoutingRuleUpdate = TablesUpdate<'notification_routing_rules'>
+export type SheetsSyncLog = Tables<'sheets_sync_log'>
+export type SheetsSyncLogInsert = TablesInsert<'sheets_sync_log'>
+export type StockLevel = Tables<'stock_levels'>
+export type StockLot = Tables<'stock_lots'>
+export type StockMovement = Tables<'stock_movements'>
+export type Warehouse = Tables<'warehouses'>
+export type WarehouseInsert = TablesInsert<'warehouses'>
 
 // Custom interfaces for the application
 export interface User {
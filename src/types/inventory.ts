@@ -0,0 +1,43 @@
+import type { StockLevel, Warehouse } from "@/types"
+import type { CostedLot, InventoryCostMethod } from "@/lib/costing/inventory-costing"
+
+export interface AvailableLot extends CostedLot {
+  id: string
+  warehouseId: string
+  receivedAt: string
+}
+
+// GET /api/inventory/stock: stock on hand for one product, in total and per warehouse
+export interface StockAvailability {
+  productId: string
+  quantityAvailable: number
+  // Weighted by the quantity left in each lot; null when there is no stock
+  averageCostPerKg: number | null
+  warehouses: StockLevel[]
+  // Lots with stock left, oldest first, and how a sale from them is costed
+  lots: AvailableLot[]
+  costMethod: InventoryCostMethod
+}
+
+// GET /api/inventory
+export interface InventoryOverview {
+  warehouses: Warehouse[]
+  levels: StockLevel[]
+}
+
+// POST /api/inventory/warehouses
+export interface CreateWarehouseRequest {
+  name: string
+  location?: string
+}
+
+// POST /api/inventory/lots: stock bought outside a deal, or opening stock
+export interface ReceiveStockRequest {
+  productId: string
+  warehouseId: string
+  quantity: number
+  costPerKg: number
+  // Business date (YYYY-MM-DD); defaults to today
+  receivedAt?: string
+  notes?: string
+}
@@ -0,0 +1,35 @@
+import type { MessageTemplate } from './index'
+
+// Everything the template editor needs in one response (GET /api/messaging/templates)
+export interface MessageTemplateCatalog {
+  templates: MessageTemplate[]
+  // Seed text by template name, for "reset to default"
+  defaults: Record<string, string>
+  // Variable name -> description
+  variables: Record<string, string>
+  helpers: string[]
+}
+
+export interface MessageTemplateUpdateRequest {
+  templateText?: string
+  isActive?: boolean
+  // Approved WhatsApp template sent when the 24-hour session window is closed (null to stop)
+  whatsappTemplateId?: string | null
+  whatsappTemplateLanguage?: string
+  // Template expressions for the body parameters {{1}}..{{n}}, e.g. "formatCurrency saleAmount"
+  whatsappTemplateParams?: string[]
+  updatedBy?: string
+}
+
+// Sample deal options for the editor's live preview
+export interface TemplatePreviewRequest {
+  templateText: string
+  materialSource?: "new-material" | "from-inventory"
+  deliveryTerms?: "delivered" | "ex-warehouse"
+}
+
+export interface TemplatePreviewResult {
+  message: string
+  messageLength: number
+  validationErrors: string[]
+}
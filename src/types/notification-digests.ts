@@ -0,0 +1,72 @@
+import type { RecipientChannel } from './notification-recipients'
+
+export type DigestPeriod = "daily" | "weekly"
+
+export const DIGEST_PERIODS: DigestPeriod[] = ["daily", "weekly"]
+
+// Type aliases (not interfaces) so a summary can be stored in a JSONB column
+export type DigestCustomer = {
+  name: string
+  dealCount: number
+  quantityKg: number
+  revenue: number
+}
+
+export type DigestDeal = {
+  id: string
+  srNo: string | null
+  date: string | null
+  saleParty: string
+  product: string | null
+  quantityKg: number
+  netMarginPercent: number
+  netProfit: number
+}
+
+export type DigestSummary = {
+  period: DigestPeriod
+  // Business dates (YYYY-MM-DD, India time), inclusive
+  periodStart: string
+  periodEnd: string
+  dealCount: number
+  quantityKg: number
+  revenue: number
+  // Profit is only known for new-material deals and inventory deals that recorded their stock cost
+  costedDealCount: number
+  grossProfit: number
+  grossMarginPercent: number | null
+  topCustomers: DigestCustomer[]
+  worstMarginDeals: DigestDeal[]
+  failedNotifications: {
+    count: number
+    byErrorType: Record<string, number>
+  }
+}
+
+// POST /api/messaging/digest (and GET from the cron schedule)
+export interface DigestRunRequest {
+  period: DigestPeriod
+  // Last day covered; defaults to today in India time
+  date?: string
+  // Build the messages without sending or recording anything
+  dryRun?: boolean
+}
+
+export interface DigestDelivery {
+  role: string
+  platform: RecipientChannel
+  recipientId: string
+  name: string
+  status: "sent" | "failed" | "already_sent" | "dry_run"
+  error?: string
+}
+
+export interface DigestRunResult {
+  summary: DigestSummary
+  // Message text by role
+  messages: Record<string, string>
+  deliveries: DigestDelivery[]
+  sent: number
+  failed: number
+  dryRun: boolean
+}
@@ -0,0 +1,46 @@
+import type { NotificationRecipient, NotificationRole } from './index'
+
+export type RecipientChannel = "whatsapp" | "telegram"
+
+// per_deal: a message for every deal; digest_only: the daily and weekly digests instead
+export type RecipientDeliveryMode = "per_deal" | "per_deal_and_digest" | "digest_only"
+
+// Everything the recipients settings page needs in one response (GET /api/messaging/recipients)
+export interface RecipientSettings {
+  roles: NotificationRole[]
+  recipients: NotificationRecipient[]
+  // Which channels are switched on (recipients on a switched-off channel are skipped)
+  channels: Record<RecipientChannel, boolean>
+  // No recipient has been added yet, so deals still go to the WHATSAPP_PHONE_* / TELEGRAM_CHAT_* numbers
+  usingEnvironmentFallback: boolean
+}
+
+export interface RecipientCreateRequest {
+  role: string
+  name: string
+  whatsappPhone?: string | null
+  telegramChatId?: string | null
+  channels: RecipientChannel[]
+  deliveryMode?: RecipientDeliveryMode
+  isActive?: boolean
+  updatedBy?: string
+}
+
+export type RecipientUpdateRequest = Partial<RecipientCreateRequest>
+
+export interface RoleCreateRequest {
+  key: string
+  label: string
+  description?: string | null
+}
+
+export interface RoleUpdateRequest {
+  label?: string
+  description?: string | null
+  isActive?: boolean
+}
+
+// POST /api/messaging/recipients/import
+export interface RecipientImportResult {
+  imported: NotificationRecipient[]
+}
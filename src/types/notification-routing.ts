@@ -0,0 +1,126 @@
+import type { NotificationRoutingRule } from './index'
+
+// Deal facts a routing condition can test
+export const ROUTING_FIELD_NAMES = [
+  "saleAmount",
+  "quantitySold",
+  "saleRate",
+  "grossMarginPercent",
+  "netMarginPercent",
+  "netProfit",
+  "deliveryTerms",
+  "materialSource",
+  "saleParty",
+  "purchaseParty",
+  "productCode",
+  "product",
+  "grade",
+  "company",
+  "specificGrade",
+  "warehouseLocation",
+] as const
+
+export type RoutingField = typeof ROUTING_FIELD_NAMES[number]
+
+export const ROUTING_OPERATOR_NAMES = ["eq", "neq", "gt", "gte", "lt", "lte", "in", "not_in", "contains"] as const
+
+export type RoutingOperator = typeof ROUTING_OPERATOR_NAMES[number]
+
+// A type alias (not an interface) so conditions can be stored in a JSONB column
+export type RoutingCondition = {
+  field: RoutingField
+  operator: RoutingOperator
+  // A number for gt/gte/lt/lte, a list for in/not_in, otherwise text (or a number for eq/neq)
+  value: string | number | string[]
+}
+
+export type RoutingFactValue = string | number | null
+
+export interface RoutingFieldDefinition {
+  label: string
+  type: "number" | "text"
+  // Known values for fields with a fixed set (delivery terms, material source)
+  options?: string[]
+}
+
+// A stored rule with its conditions parsed
+export interface RoutingRule extends Omit<NotificationRoutingRule, "conditions"> {
+  conditions: RoutingCondition[]
+}
+
+// Everything the routing settings page needs in one response (GET /api/messaging/routing-rules)
+export interface RoutingRuleCatalog {
+  rules: RoutingRule[]
+  fields: Record<RoutingField, RoutingFieldDefinition>
+  operators: Record<RoutingOperator, string>
+}
+
+export interface RoutingRuleCreateRequest {
+  name: string
+  description?: string | null
+  // Exactly one of role and recipientId
+  role?: string | null
+  recipientId?: string | null
+  conditions: RoutingCondition[]
+  isActive?: boolean
+  updatedBy?: string
+}
+
+export type RoutingRuleUpdateRequest = Partial<RoutingRuleCreateRequest>
+
+export interface RoutingConditionResult {
+  condition: RoutingCondition
+  actual: RoutingFactValue
+  matched: boolean
+}
+
+export interface RoutingRuleEvaluation {
+  ruleId: string
+  name: string
+  matched: boolean
+  conditions: RoutingConditionResult[]
+}
+
+// Whether one recipient on one channel would be notified, and which rules decided it
+export interface RoutingDecision {
+  role: string
+  platform: "whatsapp" | "telegram"
+  recipient: string
+  recipientId?: string
+  name?: string
+  notified: boolean
+  reason: string
+  rules: RoutingRuleEvaluation[]
+}
+
+// The deal a dry run routes (the fields routing rules can test)
+export interface RoutingDryRunRequest {
+  dealData: {
+    quantitySold: number
+    saleRate: number
+    deliveryTerms: "delivered" | "ex-warehouse"
+    materialSource: "new-material" | "from-inventory"
+    saleParty?: string
+    productCode?: string
+    product?: string
+    grade?: string
+    company?: string
+    specificGrade?: string
+    purchaseParty?: string
+    quantityPurchased?: number
+    purchaseRate?: number
+    warehouseLocation?: string
+    // Stock cost of an inventory deal
+    inventoryCostPerKg?: number
+  }
+}
+
+// POST /api/messaging/routing-rules/dry-run and /api/messaging/routing-rules/[id]/dry-run
+export interface RoutingDryRunResult {
+  facts: Record<RoutingField, RoutingFactValue>
+  decisions: RoutingDecision[]
+  notifiedCount: number
+  skippedCount: number
+  // Set when dry-running a single rule
+  rule?: RoutingRuleEvaluation
+}
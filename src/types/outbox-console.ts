@@ -0,0 +1,45 @@
+import type { MessageOutboxAudit, MessageOutboxMonitoring } from './index'
+
+// Urgency flags computed by the message_outbox_monitoring view
+export type OutboxUrgency = "DEAD_LETTER" | "RETRY_NOW" | "STUCK" | "TIMEOUT" | "NORMAL"
+
+export type OutboxConsoleAction = "retry" | "dead_letter"
+
+export const OUTBOX_CONSOLE_PAGE_SIZE = 100
+export const OUTBOX_CONSOLE_MAX_PAGE_SIZE = 200
+
+// Filters for GET /api/messaging/outbox (all exact matches)
+export interface OutboxConsoleFilters {
+  role?: string
+  errorType?: string
+  dealId?: string
+  urgency?: OutboxUrgency
+  status?: string
+}
+
+export interface OutboxConsolePage {
+  messages: MessageOutboxMonitoring[]
+  actions: MessageOutboxAudit[]
+}
+
+export interface OutboxBulkActionRequest {
+  action: OutboxConsoleAction
+  ids: string[]
+  performedBy?: string
+  note?: string
+}
+
+export interface OutboxBulkActionResult {
+  action: OutboxConsoleAction
+  requested: number
+  updated: number
+  // Ids that were not in a state the action applies to (e.g. already sent)
+  skipped: string[]
+}
+
+export interface OutboxResendRequest {
+  recipientPhone?: string
+  messageText?: string
+  performedBy?: string
+  note?: string
+}
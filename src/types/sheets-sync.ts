@@ -0,0 +1,31 @@
+export type SheetsSyncAction = "appended" | "updated"
+
+export interface SheetsSyncResult {
+  dealId: string
+  success: boolean
+  action?: SheetsSyncAction
+  // Spreadsheet row (1-based; row 1 is the header)
+  rowNumber?: number
+  error?: string
+}
+
+export interface SheetsSyncRunResult {
+  requested: number
+  synced: number
+  failed: number
+  results: SheetsSyncResult[]
+  durationMs: number
+}
+
+// POST /api/sheets/replay: a single deal, or every deal dated in a range
+export interface SheetsReplayRequest {
+  dealId?: string
+  // Business dates (YYYY-MM-DD), inclusive
+  dateFrom?: string
+  dateTo?: string
+}
+
+export interface SheetsReplayResult extends SheetsSyncRunResult {
+  // Deals in the range beyond the replay limit were not written; replay a narrower range
+  truncated: boolean
+}
@@ -0,0 +1,75 @@
+export type HealthStatus = "healthy" | "degraded" | "down" | "disabled"
+
+export type HealthComponent = "database" | "whatsapp" | "telegram" | "sheets" | "message_delivery" | "chatbot"
+
+export const HEALTH_COMPONENTS: HealthComponent[] = [
+  "database",
+  "whatsapp",
+  "telegram",
+  "sheets",
+  "message_delivery",
+  "chatbot",
+]
+
+export const HEALTH_COMPONENT_LABELS: Record<HealthComponent, string> = {
+  database: "Database",
+  whatsapp: "WhatsApp",
+  telegram: "Telegram",
+  sheets: "Google Sheets",
+  message_delivery: "Message Delivery",
+  chatbot: "Chatbot",
+}
+
+// Type alias (not an interface) so it can be stored in health_checks.details
+export type HealthCheckDetails = Record<string, string | number | boolean | null>
+
+export interface HealthProbeResult {
+  component: HealthComponent
+  status: HealthStatus
+  responseTimeMs: number
+  // What is wrong (or why the component is disabled); null when healthy
+  message: string | null
+  details?: HealthCheckDetails
+}
+
+// Outbox delivery over the last hoursBack hours, from get_message_statistics()
+export interface MessageStatistics {
+  hoursBack: number
+  totalMessages: number
+  successfulMessages: number
+  failedMessages: number
+  pendingMessages: number
+  deadLetterMessages: number
+  successRate: number
+  avgResponseTimeMs: number | null
+  // Messages by error type; SUCCESS counts the delivered ones
+  errorBreakdown: Record<string, number>
+}
+
+export interface HealthHistoryPoint {
+  checkedAt: string
+  status: string
+  responseTimeMs: number | null
+}
+
+export interface ComponentHealth {
+  component: HealthComponent
+  label: string
+  // Latest stored check; null when the component has never been checked
+  latest: {
+    status: HealthStatus
+    responseTimeMs: number | null
+    message: string | null
+    checkedAt: string | null
+  } | null
+  // Stored checks, oldest first
+  history: HealthHistoryPoint[]
+}
+
+// GET /api/health (latest stored checks) and POST /api/health (runs every probe first)
+export interface SystemHealthReport {
+  status: HealthStatus
+  checkedAt: string | null
+  components: ComponentHealth[]
+  messageStatistics: MessageStatistics | null
+}
@@ -0,0 +1,71 @@
+-- Deal Registration Columns for deals_unified
+-- Registered deals are written to deals_unified alongside the imported history.
+-- The historical columns only carry names, so this migration adds the fields the
+-- registration form collects (references, delivery terms, material source, notes)
+-- as nullable columns so the 34,200 imported rows remain valid.
+
+-- Let the database generate IDs when the caller does not supply one
+ALTER TABLE deals_unified ALTER COLUMN id SET DEFAULT gen_random_uuid();
+
+DO $$
+BEGIN
+  -- Source record references (names are denormalised into Sale Party / Purchase Party / Product)
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'customer_id') THEN
+    ALTER TABLE deals_unified ADD COLUMN customer_id UUID REFERENCES customers(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'supplier_id') THEN
+    ALTER TABLE deals_unified ADD COLUMN supplier_id UUID REFERENCES suppliers(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'product_id') THEN
+    ALTER TABLE deals_unified ADD COLUMN product_id UUID REFERENCES products(id);
+  END IF;
+
+  -- Registration details
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'delivery_terms') THEN
+    ALTER TABLE deals_unified ADD COLUMN delivery_terms VARCHAR(20) CHECK (delivery_terms IN ('delivered', 'ex-warehouse'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'material_source') THEN
+    ALTER TABLE deals_unified ADD COLUMN material_source VARCHAR(20) CHECK (material_source IN ('new-material', 'from-inventory'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'warehouse_location') THEN
+    ALTER TABLE deals_unified ADD COLUMN warehouse_location TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'sale_comments') THEN
+    ALTER TABLE deals_unified ADD COLUMN sale_comments TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'purchase_comments') THEN
+    ALTER TABLE deals_unified ADD COLUMN purchase_comments TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'deals_unified' AND column_name = 'final_comments') THEN
+    ALTER TABLE deals_unified ADD COLUMN final_comments TEXT;
+  END IF;
+END $$;
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION update_deals_unified_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_deals_unified_updated_at ON deals_unified;
+
+CREATE TRIGGER trigger_deals_unified_updated_at
+  BEFORE UPDATE ON deals_unified
+  FOR EACH ROW
+  EXECUTE FUNCTION update_deals_unified_updated_at();
+
+COMMENT ON COLUMN deals_unified.customer_id IS 'Customer selected on the registration form (NULL for imported deals)';
+COMMENT ON COLUMN deals_unified.supplier_id IS 'Supplier selected on the registration form (NULL for imported deals and inventory sales)';
+COMMENT ON COLUMN deals_unified.product_id IS 'Product selected on the registration form (NULL for imported deals)';
+
+SELECT 'deals_unified registration columns migration completed successfully' as result;
@@ -0,0 +1,78 @@
+-- Sequential Deal Serial Numbers (SrNo)
+-- Registered deals continue the SrNo series of the imported history. Numbers are
+-- handed out by allocate_deal_srno(), which increments a counter row with an
+-- upsert so concurrent requests never receive the same number.
+--
+-- Two numbering schemes are supported:
+--   continuous      - '26273', '26274', ... continuing MAX(SrNo) of the history
+--   financial year  - 'FY25-26/0001', resetting every 1st of April
+
+CREATE TABLE IF NOT EXISTS deal_srno_sequences (
+  scope VARCHAR(20) PRIMARY KEY, -- 'continuous' or a financial year label such as 'FY25-26'
+  last_value INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Lookups by SrNo (deal list search, messaging)
+CREATE INDEX IF NOT EXISTS idx_deals_unified_srno ON deals_unified("SrNo");
+
+-- Financial year label for a date (Indian FY: April to March)
+CREATE OR REPLACE FUNCTION deal_financial_year(p_date DATE)
+RETURNS TEXT AS $$
+DECLARE
+  start_year INTEGER;
+BEGIN
+  start_year := EXTRACT(YEAR FROM p_date)::INTEGER;
+  IF EXTRACT(MONTH FROM p_date) < 4 THEN
+    start_year := start_year - 1;
+  END IF;
+
+  RETURN 'FY' || LPAD((start_year % 100)::TEXT, 2, '0') || '-' || LPAD(((start_year + 1) % 100)::TEXT, 2, '0');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Allocate the next SrNo
+CREATE OR REPLACE FUNCTION allocate_deal_srno(
+  p_deal_date DATE DEFAULT CURRENT_DATE,
+  p_reset_per_financial_year BOOLEAN DEFAULT false
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_scope TEXT;
+  v_seed INTEGER := 0;
+  v_next INTEGER;
+BEGIN
+  IF p_reset_per_financial_year THEN
+    v_scope := deal_financial_year(p_deal_date);
+  ELSE
+    v_scope := 'continuous';
+  END IF;
+
+  -- Seed the continuous series from the imported history on first use
+  IF NOT p_reset_per_financial_year AND NOT EXISTS (SELECT 1 FROM deal_srno_sequences WHERE scope = v_scope) THEN
+    SELECT COALESCE(MAX("SrNo"::INTEGER), 0)
+      INTO v_seed
+      FROM deals_unified
+     WHERE "SrNo" ~ '^\d+$';
+  END IF;
+
+  -- Concurrent first calls race on the INSERT; the loser takes the UPDATE path
+  INSERT INTO deal_srno_sequences (scope, last_value)
+  VALUES (v_scope, v_seed + 1)
+  ON CONFLICT (scope) DO UPDATE
+    SET last_value = deal_srno_sequences.last_value + 1,
+        updated_at = NOW()
+  RETURNING last_value INTO v_next;
+
+  IF p_reset_per_financial_year THEN
+    RETURN v_scope || '/' || LPAD(v_next::TEXT, 4, '0');
+  END IF;
+
+  RETURN v_next::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE deal_srno_sequences IS 'Last allocated SrNo per numbering scope, used by allocate_deal_srno()';
+COMMENT ON FUNCTION allocate_deal_srno(DATE, BOOLEAN) IS 'Atomically allocate the next deal SrNo (continuous or per financial year)';
+
+SELECT 'Deal SrNo sequence migration completed successfully' as result;
@@ -0,0 +1,26 @@
+-- Deal List Indexes
+-- Supports GET /api/deals over 34,200+ rows: keyset pagination on every sortable
+-- column (column, id) and trigram indexes for case-insensitive "contains" filters.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Keyset pagination: ORDER BY <column>, id
+CREATE INDEX IF NOT EXISTS idx_deals_unified_date_id ON deals_unified("Date", id);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_created_at_id ON deals_unified(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_sale_party_id ON deals_unified("Sale Party", id);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_purchase_party_id ON deals_unified("Purchase Party", id);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_product_id_sort ON deals_unified("Product", id);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_quantity_sold_id ON deals_unified("Quantity Sold", id);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_sale_rate_id ON deals_unified("Sale Rate", id);
+
+-- ILIKE '%term%' filters and free-text search
+CREATE INDEX IF NOT EXISTS idx_deals_unified_sale_party_trgm ON deals_unified USING GIN ("Sale Party" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_purchase_party_trgm ON deals_unified USING GIN ("Purchase Party" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_product_trgm ON deals_unified USING GIN ("Product" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_grade_trgm ON deals_unified USING GIN ("Grade" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_company_trgm ON deals_unified USING GIN ("Company" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_deals_unified_srno_trgm ON deals_unified USING GIN ("SrNo" gin_trgm_ops);
+
+ANALYZE deals_unified;
+
+SELECT 'deals_unified list indexes migration completed successfully' as result;
@@ -0,0 +1,19 @@
+-- Deal Charges
+-- Stores the GST/TCS rates, freight, loading/unloading and commission a deal was
+-- registered with, so its landed cost and net margin can be recalculated exactly
+-- (see src/lib/costing/deal-costing.ts). Imported rows keep NULL and use the defaults.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deals_unified' AND column_name = 'charges'
+  ) THEN
+    ALTER TABLE deals_unified ADD COLUMN charges JSONB;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN deals_unified.charges IS
+  'Charge rates per side: {"sale": {gstPercent, tcsPercent, freightPerKg, loadingUnloadingPerKg, commissionPercent}, "purchase": {...}, "taxesCreditable": bool}';
+
+SELECT 'deals_unified charges migration completed successfully' as result;
@@ -0,0 +1,90 @@
+-- Durable Message Outbox
+-- Deal registration no longer calls the WhatsApp API in the request path. Instead the
+-- deal and one message_outbox row per recipient are written in a single transaction
+-- (create_deal_with_notifications), and a dispatcher claims pending rows
+-- (claim_outbox_messages) and sends them out of band.
+
+-- Claiming scans pending rows oldest first
+CREATE INDEX IF NOT EXISTS idx_message_outbox_pending ON message_outbox(platform, created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_message_outbox_sending ON message_outbox(platform, updated_at) WHERE status = 'sending';
+
+-- Insert a deal and its outbox messages atomically.
+-- p_deal is a deals_unified row as JSON (column names as keys); omitted id/timestamps are generated.
+-- p_messages is an array of {platform, recipient_phone, recipient_role, message_text, max_attempts?, created_by?}.
+CREATE OR REPLACE FUNCTION create_deal_with_notifications(
+  p_deal JSONB,
+  p_messages JSONB DEFAULT '[]'::JSONB
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  -- Seed generated values so jsonb_populate_record only overrides what the caller sent
+  v_deal.id := gen_random_uuid();
+  v_deal.created_at := NOW();
+  v_deal.updated_at := NOW();
+  v_deal := jsonb_populate_record(v_deal, p_deal);
+
+  INSERT INTO deals_unified SELECT (v_deal).* RETURNING * INTO v_deal;
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    message_text,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    m->>'message_text',
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim a batch of pending messages for sending.
+-- Rows move to 'sending' with attempts incremented; SKIP LOCKED lets several dispatchers
+-- run side by side without sending the same message twice. Rows left in 'sending' longer
+-- than p_stale_after_seconds (a dispatcher crashed mid-send) are claimed again.
+CREATE OR REPLACE FUNCTION claim_outbox_messages(
+  p_platform VARCHAR DEFAULT 'whatsapp',
+  p_limit INTEGER DEFAULT 20,
+  p_stale_after_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF message_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE message_outbox mo
+  SET status = 'sending',
+      attempts = COALESCE(mo.attempts, 0) + 1,
+      updated_at = NOW()
+  WHERE mo.id IN (
+    SELECT candidate.id
+    FROM message_outbox candidate
+    WHERE candidate.platform = p_platform
+      AND (
+        candidate.status = 'pending'
+        OR (candidate.status = 'sending' AND candidate.updated_at < NOW() - make_interval(secs => p_stale_after_seconds))
+      )
+    ORDER BY candidate.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING mo.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_deal_with_notifications(JSONB, JSONB) IS 'Insert a deals_unified row and its pending message_outbox rows in one transaction';
+COMMENT ON FUNCTION claim_outbox_messages(VARCHAR, INTEGER, INTEGER) IS 'Move a batch of pending (or stale sending) messages to sending and return them';
+
+SELECT 'message_outbox dispatch migration completed successfully' as result;
@@ -0,0 +1,30 @@
+-- Message Outbox Retry Support
+-- The retry worker reads get_messages_pending_retry() (20241009). Failed rows that can
+-- never be retried - out of attempts, or an error type retrying cannot fix - are moved
+-- to dead_letter here so they stop showing up as pending work.
+
+CREATE OR REPLACE FUNCTION dead_letter_exhausted_messages(
+  p_non_retryable_error_types TEXT[] DEFAULT ARRAY['AUTH_ERROR', 'INVALID_RECIPIENT']
+)
+RETURNS INTEGER AS $$
+DECLARE
+  moved_count INTEGER;
+BEGIN
+  UPDATE message_outbox
+  SET status = 'dead_letter',
+      next_retry_at = NULL,
+      updated_at = NOW()
+  WHERE status = 'failed'
+    AND (
+      attempts >= max_attempts
+      OR error_type = ANY(p_non_retryable_error_types)
+    );
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  RETURN moved_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION dead_letter_exhausted_messages(TEXT[]) IS 'Move failed messages that are out of attempts or not retryable to dead_letter; returns the number moved';
+
+SELECT 'message_outbox retry migration completed successfully' as result;
@@ -0,0 +1,231 @@
+-- Failed Message Console
+-- Operators review failed/dead-lettered outbox rows, retry them in bulk, correct the
+-- recipient number or text before resending, or give up on them. Every manual action is
+-- written to message_outbox_audit in the same transaction as the change it records.
+
+CREATE TABLE IF NOT EXISTS message_outbox_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES message_outbox(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('retry', 'edit_resend', 'dead_letter')),
+  performed_by VARCHAR(100) NOT NULL DEFAULT 'operator',
+  note TEXT,
+  previous_values JSONB,
+  new_values JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_outbox_audit_message ON message_outbox_audit(message_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_outbox_audit_created ON message_outbox_audit(created_at DESC);
+
+COMMENT ON TABLE message_outbox_audit IS 'Manual operator actions on outbox messages (retry, edit and resend, dead-letter)';
+
+-- The console needs the recipient, text and error of each row, and rows moved to
+-- status dead_letter by the retry worker must show up as DEAD_LETTER. Failed and
+-- dead-lettered rows stay visible past the 7-day window until someone handles them.
+DROP VIEW IF EXISTS message_outbox_monitoring;
+
+CREATE VIEW message_outbox_monitoring AS
+SELECT
+  mo.id,
+  mo.deal_id,
+  mo.platform,
+  mo.recipient_role,
+  mo.status,
+  mo.attempts,
+  mo.max_attempts,
+  mo.error_type,
+  mo.created_at,
+  mo.sent_at,
+  mo.delivered_at,
+  mo.response_time_ms,
+  mo.wait_time_ms,
+  -- Calculate time since creation
+  EXTRACT(EPOCH FROM (NOW() - mo.created_at))::INTEGER as seconds_since_created,
+  -- Calculate next retry countdown
+  CASE
+    WHEN mo.status = 'failed' AND mo.next_retry_at > NOW() THEN
+      EXTRACT(EPOCH FROM (mo.next_retry_at - NOW()))::INTEGER
+    ELSE 0
+  END as seconds_until_retry,
+  -- Add urgency flag
+  CASE
+    WHEN mo.status = 'dead_letter' THEN 'DEAD_LETTER'
+    WHEN mo.status = 'failed' AND mo.attempts >= mo.max_attempts THEN 'DEAD_LETTER'
+    WHEN mo.status = 'failed' AND mo.next_retry_at <= NOW() THEN 'RETRY_NOW'
+    WHEN mo.status = 'pending' AND mo.created_at < NOW() - INTERVAL '5 minutes' THEN 'STUCK'
+    WHEN mo.status = 'sending' AND mo.created_at < NOW() - INTERVAL '2 minutes' THEN 'TIMEOUT'
+    ELSE 'NORMAL'
+  END as urgency,
+  mo.recipient_phone,
+  mo.message_text,
+  mo.error_message,
+  mo.next_retry_at,
+  mo.updated_at
+FROM message_outbox mo
+WHERE mo.created_at >= NOW() - INTERVAL '7 days'
+   OR mo.status IN ('failed', 'dead_letter')
+ORDER BY mo.created_at DESC;
+
+-- Put failed/dead-lettered messages back in the pending queue.
+-- Each message gets p_extra_attempts more attempts on top of those already made.
+CREATE OR REPLACE FUNCTION requeue_outbox_messages(
+  p_ids UUID[],
+  p_extra_attempts INTEGER DEFAULT 4,
+  p_performed_by TEXT DEFAULT 'operator',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS SETOF message_outbox AS $$
+BEGIN
+  RETURN QUERY
+  WITH previous AS (
+    SELECT candidate.id, candidate.status, candidate.attempts, candidate.max_attempts,
+           candidate.error_type, candidate.error_message
+    FROM message_outbox candidate
+    WHERE candidate.id = ANY(p_ids)
+      AND candidate.status IN ('failed', 'dead_letter')
+    FOR UPDATE
+  ),
+  requeued AS (
+    UPDATE message_outbox mo
+    SET status = 'pending',
+        max_attempts = COALESCE(mo.attempts, 0) + p_extra_attempts,
+        next_retry_at = NULL,
+        updated_at = NOW()
+    FROM previous
+    WHERE mo.id = previous.id
+    RETURNING mo.*
+  ),
+  audit AS (
+    INSERT INTO message_outbox_audit (message_id, action, performed_by, note, previous_values, new_values)
+    SELECT
+      previous.id,
+      'retry',
+      p_performed_by,
+      p_note,
+      jsonb_build_object(
+        'status', previous.status,
+        'attempts', previous.attempts,
+        'max_attempts', previous.max_attempts,
+        'error_type', previous.error_type,
+        'error_message', previous.error_message
+      ),
+      jsonb_build_object(
+        'status', 'pending',
+        'max_attempts', COALESCE(previous.attempts, 0) + p_extra_attempts
+      )
+    FROM previous
+  )
+  SELECT * FROM requeued;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Correct the recipient number and/or text of a failed/dead-lettered message and requeue it
+CREATE OR REPLACE FUNCTION resend_outbox_message(
+  p_id UUID,
+  p_recipient_phone TEXT DEFAULT NULL,
+  p_message_text TEXT DEFAULT NULL,
+  p_extra_attempts INTEGER DEFAULT 4,
+  p_performed_by TEXT DEFAULT 'operator',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS message_outbox AS $$
+DECLARE
+  v_previous message_outbox;
+  v_message message_outbox;
+BEGIN
+  SELECT * INTO v_previous
+  FROM message_outbox
+  WHERE id = p_id
+    AND status IN ('failed', 'dead_letter')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message % is not failed or dead-lettered', p_id;
+  END IF;
+
+  UPDATE message_outbox
+  SET recipient_phone = COALESCE(p_recipient_phone, recipient_phone),
+      message_text = COALESCE(p_message_text, message_text),
+      status = 'pending',
+      max_attempts = COALESCE(attempts, 0) + p_extra_attempts,
+      next_retry_at = NULL,
+      updated_at = NOW()
+  WHERE id = p_id
+  RETURNING * INTO v_message;
+
+  INSERT INTO message_outbox_audit (message_id, action, performed_by, note, previous_values, new_values)
+  VALUES (
+    p_id,
+    'edit_resend',
+    p_performed_by,
+    p_note,
+    jsonb_build_object(
+      'recipient_phone', v_previous.recipient_phone,
+      'message_text', v_previous.message_text,
+      'status', v_previous.status,
+      'attempts', v_previous.attempts,
+      'max_attempts', v_previous.max_attempts,
+      'error_type', v_previous.error_type,
+      'error_message', v_previous.error_message
+    ),
+    jsonb_build_object(
+      'recipient_phone', v_message.recipient_phone,
+      'message_text', v_message.message_text,
+      'status', v_message.status,
+      'max_attempts', v_message.max_attempts
+    )
+  );
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give up on failed (or stuck pending) messages
+CREATE OR REPLACE FUNCTION dead_letter_outbox_messages(
+  p_ids UUID[],
+  p_performed_by TEXT DEFAULT 'operator',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS SETOF message_outbox AS $$
+BEGIN
+  RETURN QUERY
+  WITH previous AS (
+    SELECT candidate.id, candidate.status, candidate.attempts, candidate.error_type
+    FROM message_outbox candidate
+    WHERE candidate.id = ANY(p_ids)
+      AND candidate.status IN ('pending', 'failed')
+    FOR UPDATE
+  ),
+  discarded AS (
+    UPDATE message_outbox mo
+    SET status = 'dead_letter',
+        next_retry_at = NULL,
+        updated_at = NOW()
+    FROM previous
+    WHERE mo.id = previous.id
+    RETURNING mo.*
+  ),
+  audit AS (
+    INSERT INTO message_outbox_audit (message_id, action, performed_by, note, previous_values, new_values)
+    SELECT
+      previous.id,
+      'dead_letter',
+      p_performed_by,
+      p_note,
+      jsonb_build_object(
+        'status', previous.status,
+        'attempts', previous.attempts,
+        'error_type', previous.error_type
+      ),
+      jsonb_build_object('status', 'dead_letter')
+    FROM previous
+  )
+  SELECT * FROM discarded;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION requeue_outbox_messages(UUID[], INTEGER, TEXT, TEXT) IS 'Operator retry: failed/dead_letter -> pending with more attempts, audited';
+COMMENT ON FUNCTION resend_outbox_message(UUID, TEXT, TEXT, INTEGER, TEXT, TEXT) IS 'Operator edit and resend: correct recipient/text, requeue, audited';
+COMMENT ON FUNCTION dead_letter_outbox_messages(UUID[], TEXT, TEXT) IS 'Operator give-up: pending/failed -> dead_letter, audited';
+
+SELECT 'message_outbox console migration completed successfully' as result;
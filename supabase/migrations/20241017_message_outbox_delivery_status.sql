@@ -0,0 +1,65 @@
+-- WhatsApp Delivery and Read Receipts
+-- Meta reports sent/delivered/read/failed for each message through the webhook
+-- (/api/messaging/webhook). Callbacks can arrive out of order and more than once, so
+-- timestamps are only filled once and status never moves backwards (read > delivered > sent).
+-- A failure reported this way is left with next_retry_at NULL; the webhook handler then schedules
+-- the retry from the retry policy or dead-letters the message, as the dispatcher does for a
+-- failed send.
+
+DROP FUNCTION IF EXISTS apply_outbox_delivery_status(TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION apply_outbox_delivery_status(
+  p_external_message_id TEXT,
+  p_status TEXT,
+  p_status_at TIMESTAMPTZ DEFAULT NOW(),
+  p_error_code TEXT DEFAULT NULL,
+  p_error_message TEXT DEFAULT NULL,
+  p_error_type TEXT DEFAULT 'DELIVERY_FAILED'
+)
+RETURNS SETOF message_outbox AS $$
+BEGIN
+  -- SET expressions see the row as it was before this update
+  RETURN QUERY
+  UPDATE message_outbox
+  SET sent_at = COALESCE(sent_at, p_status_at),
+      delivered_at = CASE
+        WHEN p_status IN ('delivered', 'read') THEN COALESCE(delivered_at, p_status_at)
+        ELSE delivered_at
+      END,
+      read_at = CASE
+        WHEN p_status = 'read' THEN COALESCE(read_at, p_status_at)
+        ELSE read_at
+      END,
+      status = CASE
+        WHEN p_status = 'read' THEN 'read'
+        WHEN p_status = 'delivered' AND status <> 'read' THEN 'delivered'
+        WHEN p_status = 'failed' AND status IN ('sending', 'sent') THEN 'failed'
+        ELSE status
+      END,
+      -- A receipt proves the message arrived; do not resend it
+      next_retry_at = CASE
+        WHEN p_status IN ('delivered', 'read') THEN NULL
+        ELSE next_retry_at
+      END,
+      error_type = CASE
+        WHEN p_status = 'failed' AND status IN ('sending', 'sent') THEN COALESCE(p_error_type, 'DELIVERY_FAILED')
+        ELSE error_type
+      END,
+      error_message = CASE
+        WHEN p_status = 'failed' AND status IN ('sending', 'sent') THEN p_error_message
+        ELSE error_message
+      END,
+      error_details = CASE
+        WHEN p_status = 'failed' AND status IN ('sending', 'sent') THEN
+          jsonb_build_object('source', 'webhook', 'code', p_error_code, 'reportedAt', p_status_at)
+        ELSE error_details
+      END,
+      updated_at = NOW()
+  WHERE external_message_id = p_external_message_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_outbox_delivery_status(TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT) IS 'Apply a WhatsApp status callback to the outbox row with this external_message_id; returns the updated row, none if nothing matched';
+
+SELECT 'message_outbox delivery status migration completed successfully' as result;
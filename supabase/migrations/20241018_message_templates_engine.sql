@@ -0,0 +1,207 @@
+-- Editable Message Templates
+-- Deal notifications are rendered from message_templates instead of hard-coded builders.
+-- One row per recipient role (deal_registered_<role>); platform 'both' applies to every
+-- channel, and a row for a single platform takes precedence on that channel. The seed
+-- rows are the templates the application shipped with, which it also falls back to when
+-- a role has no active row.
+--
+-- Syntax: {{variable}}, {{formatCurrency variable}} (also formatNumber, formatDecimal,
+-- formatDate) and {{#if variable}} ... {{else}} ... {{/if}} / {{#unless variable}}.
+
+ALTER TABLE message_templates ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE message_templates ADD COLUMN IF NOT EXISTS updated_by VARCHAR(100);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_templates_name ON message_templates(name);
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION update_message_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_message_templates_updated_at ON message_templates;
+
+CREATE TRIGGER trigger_message_templates_updated_at
+  BEFORE UPDATE ON message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_message_templates_updated_at();
+
+-- Seed defaults; existing rows (and any edits made to them) are left alone
+INSERT INTO message_templates (name, platform, template_text, variables)
+VALUES
+  (
+    'deal_registered_accounts',
+    'both',
+    $template$🏦 NEW DEAL REGISTERED
+
+Deal No: {{dealNumber}}
+Date: {{formatDate date}}
+Customer: {{saleParty}}
+
+💰 FINANCIAL DETAILS:
+Sale: {{formatNumber quantitySold}}kg × {{formatCurrency saleRate}}/kg = {{formatCurrency saleAmount}}
+{{#if hasPurchaseDetails}}
+Purchase: {{formatNumber quantityPurchased}}kg × {{formatCurrency purchaseRate}}/kg = {{formatCurrency purchaseAmount}}
+Gross Profit: {{formatCurrency grossProfit}} ({{profitMargin}}%)
+{{/if}}
+{{chargesBreakdown}}
+{{#if hasPurchaseCost}}
+Net Profit: {{formatCurrency netProfit}} ({{netMarginPercent}}%, ₹{{formatDecimal netMarginPerKg}}/kg)
+{{/if}}
+
+📦 PRODUCT DETAILS:
+{{product}}
+Delivery: {{#if isDelivered}}Delivered{{else}}Ex-Warehouse (Pickup){{/if}}
+Source: {{#if isNewMaterial}}New Purchase{{else}}From Inventory{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
+{{#if saleComments}}
+
+💬 SALE NOTES:
+{{saleComments}}
+{{/if}}
+{{#if purchaseComments}}
+
+💬 PURCHASE NOTES:
+{{purchaseComments}}
+{{/if}}
+
+📋 ACTION REQUIRED:
+- Verify payment terms with customer
+- Coordinate with logistics for delivery
+- Update accounting records
+
+---
+Polymer Trading System$template$,
+    '["dealNumber","date","saleParty","quantitySold","saleRate","saleAmount","hasPurchaseDetails","quantityPurchased","purchaseRate","purchaseAmount","grossProfit","profitMargin","chargesBreakdown","hasPurchaseCost","netProfit","netMarginPercent","netMarginPerKg","product","isDelivered","isNewMaterial","purchaseParty","saleComments","purchaseComments"]'::jsonb
+  ),
+  (
+    'deal_registered_logistics',
+    'both',
+    $template$🚚 DELIVERY COORDINATION REQUIRED
+
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
+Date: {{formatDate date}}
+
+📦 LOGISTICS DETAILS:
+Quantity: {{formatNumber quantitySold}}kg
+Product: {{product}}
+Delivery: {{#if isDelivered}}DELIVERY REQUIRED{{else}}CUSTOMER PICKUP{{/if}}
+Source: {{#if isNewMaterial}}New Purchase{{else}}Warehouse Stock{{/if}}
+{{#if warehouseLocation}}
+Warehouse: {{warehouseLocation}}
+{{/if}}
+
+{{#if hasSupplier}}
+🔄 COORDINATION NEEDED:
+Supplier: {{purchaseParty}}
+Purchase Qty: {{formatNumber quantityPurchased}}kg
+
+TASKS:
+- Coordinate supplier pickup/delivery
+- Schedule customer delivery
+- Ensure quantity matching
+- Quality check on receipt
+{{else}}
+📋 INVENTORY DISPATCH:
+- Verify stock availability
+- Prepare material for dispatch
+- {{#if isDelivered}}Schedule delivery to customer{{else}}Notify customer for pickup{{/if}}
+{{/if}}
+{{#if finalComments}}
+
+⚠️ SPECIAL INSTRUCTIONS:
+{{finalComments}}
+{{/if}}
+
+📞 CONTACTS:
+- Customer coordination required
+- Update accounts team on delivery status
+
+---
+Polymer Trading System$template$,
+    '["dealNumber","saleParty","date","quantitySold","product","isDelivered","isNewMaterial","warehouseLocation","hasSupplier","purchaseParty","quantityPurchased","finalComments"]'::jsonb
+  ),
+  (
+    'deal_registered_boss1',
+    'both',
+    $template$📊 DEAL SUMMARY - BOSS 1
+
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
+Product: {{product}}
+
+💵 PROFIT ANALYSIS:
+Revenue: {{formatCurrency saleAmount}}
+{{#if hasPurchaseCost}}
+Landed Cost: {{formatCurrency landedCost}}
+Net Profit: {{formatCurrency netProfit}} ({{netMarginPercent}}%)
+Per kg: ₹{{formatDecimal netMarginPerKg}}
+{{else}}
+Cost: From inventory (TBD)
+{{/if}}
+
+📈 DEAL METRICS:
+Volume: {{formatNumber quantitySold}}kg
+Rate: {{formatCurrency saleRate}}/kg
+Source: {{#if isNewMaterial}}New Purchase{{else}}Inventory{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
+
+🎯 STATUS:
+Date: {{formatDate date}}
+Delivery: {{#if isDelivered}}Delivery{{else}}Pickup{{/if}}
+Processing: In progress
+
+📞 TEAMS NOTIFIED:
+- Accounts team (financial processing)
+- Logistics team (coordination)
+
+---
+Polymer Trading System$template$,
+    '["dealNumber","saleParty","product","saleAmount","hasPurchaseCost","landedCost","netProfit","netMarginPercent","netMarginPerKg","quantitySold","saleRate","isNewMaterial","purchaseParty","date","isDelivered"]'::jsonb
+  ),
+  (
+    'deal_registered_bossog',
+    'both',
+    $template$👑 DEAL ALERT - BOSS OG
+
+Deal No: {{dealNumber}}
+Customer: {{saleParty}}
+
+💰 QUICK OVERVIEW:
+Volume: {{formatNumber quantitySold}}kg
+Revenue: {{formatCurrency saleAmount}}
+{{#if hasPurchaseCost}}
+Net Profit: {{formatCurrency netProfit}} {{marginBand}}
+Margin: {{netMarginPercent}}%
+{{/if}}
+
+📋 DETAILS:
+Product: {{product}}
+Date: {{formatDate date}}
+Source: {{#if isNewMaterial}}Purchase{{else}}Stock{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
+
+⚡ STATUS: Processing
+📱 Teams coordinating delivery
+
+---
+Polymer Trading System$template$,
+    '["dealNumber","saleParty","quantitySold","saleAmount","hasPurchaseCost","netProfit","marginBand","netMarginPercent","product","date","isNewMaterial","purchaseParty"]'::jsonb
+  )
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON COLUMN message_templates.template_text IS 'Template with {{variable}}, {{helper variable}} and {{#if}}/{{#unless}} blocks';
+COMMENT ON COLUMN message_templates.variables IS 'Variable names the template uses (written by the template editor)';
+COMMENT ON COLUMN message_templates.updated_by IS 'Operator who last edited the template';
+
+SELECT 'message_templates seed migration completed successfully' as result;
@@ -0,0 +1,201 @@
+-- Configurable Notification Recipients
+-- Recipients used to be four fixed roles with one phone number each from WHATSAPP_PHONE_*
+-- env vars. Roles and the people in them now live in the database: a role can have any
+-- number of recipients, each recipient can be switched off, and each chooses the channels
+-- (whatsapp, telegram) they are notified on. Deal notifications fan out to every active
+-- recipient of every active role.
+
+CREATE TABLE IF NOT EXISTS notification_roles (
+  key VARCHAR(20) PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label VARCHAR(100) NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notification_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  role VARCHAR(20) NOT NULL REFERENCES notification_roles(key) ON UPDATE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  whatsapp_phone VARCHAR(20),
+  telegram_chat_id VARCHAR(64),
+  channels TEXT[] NOT NULL DEFAULT ARRAY['whatsapp']::TEXT[]
+    CHECK (channels <@ ARRAY['whatsapp', 'telegram']::TEXT[]),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by VARCHAR(100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_recipients_role ON notification_recipients(role) WHERE is_active;
+
+COMMENT ON TABLE notification_roles IS 'Recipient roles; each has its own deal_registered_<key> message template';
+COMMENT ON TABLE notification_recipients IS 'People notified of deals, by role, with their channel addresses and preferences';
+COMMENT ON COLUMN notification_recipients.channels IS 'Channels this person is notified on (whatsapp, telegram)';
+
+-- Outbox rows are addressed to a recipient's phone number or Telegram chat ID, so
+-- recipient_phone must hold as much as telegram_chat_id. The monitoring view (20241016) reads the
+-- column, so it is recreated around the change.
+DROP VIEW IF EXISTS message_outbox_monitoring;
+
+ALTER TABLE message_outbox ALTER COLUMN recipient_phone TYPE VARCHAR(64);
+
+CREATE VIEW message_outbox_monitoring AS
+SELECT
+  mo.id,
+  mo.deal_id,
+  mo.platform,
+  mo.recipient_role,
+  mo.status,
+  mo.attempts,
+  mo.max_attempts,
+  mo.error_type,
+  mo.created_at,
+  mo.sent_at,
+  mo.delivered_at,
+  mo.response_time_ms,
+  mo.wait_time_ms,
+  -- Calculate time since creation
+  EXTRACT(EPOCH FROM (NOW() - mo.created_at))::INTEGER as seconds_since_created,
+  -- Calculate next retry countdown
+  CASE
+    WHEN mo.status = 'failed' AND mo.next_retry_at > NOW() THEN
+      EXTRACT(EPOCH FROM (mo.next_retry_at - NOW()))::INTEGER
+    ELSE 0
+  END as seconds_until_retry,
+  -- Add urgency flag
+  CASE
+    WHEN mo.status = 'dead_letter' THEN 'DEAD_LETTER'
+    WHEN mo.status = 'failed' AND mo.attempts >= mo.max_attempts THEN 'DEAD_LETTER'
+    WHEN mo.status = 'failed' AND mo.next_retry_at <= NOW() THEN 'RETRY_NOW'
+    WHEN mo.status = 'pending' AND mo.created_at < NOW() - INTERVAL '5 minutes' THEN 'STUCK'
+    WHEN mo.status = 'sending' AND mo.created_at < NOW() - INTERVAL '2 minutes' THEN 'TIMEOUT'
+    ELSE 'NORMAL'
+  END as urgency,
+  mo.recipient_phone,
+  mo.message_text,
+  mo.error_message,
+  mo.next_retry_at,
+  mo.updated_at
+FROM message_outbox mo
+WHERE mo.created_at >= NOW() - INTERVAL '7 days'
+   OR mo.status IN ('failed', 'dead_letter')
+ORDER BY mo.created_at DESC;
+
+COMMENT ON COLUMN message_outbox.recipient_phone IS 'Phone number (WhatsApp) or chat ID / @channelname (Telegram)';
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION update_notification_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_notification_roles_updated_at ON notification_roles;
+CREATE TRIGGER trigger_notification_roles_updated_at
+  BEFORE UPDATE ON notification_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_notification_settings_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_notification_recipients_updated_at ON notification_recipients;
+CREATE TRIGGER trigger_notification_recipients_updated_at
+  BEFORE UPDATE ON notification_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION update_notification_settings_updated_at();
+
+-- The four roles the application shipped with
+INSERT INTO notification_roles (key, label, description)
+VALUES
+  ('accounts', 'Accounts', 'Financial details, payment terms and cost breakdown'),
+  ('logistics', 'Logistics', 'Delivery coordination, supplier and warehouse details'),
+  ('boss1', 'Boss 1', 'Executive summary and profit analysis'),
+  ('bossog', 'Boss OG', 'High-level overview')
+ON CONFLICT (key) DO NOTHING;
+
+-- Outbox rows may now carry any configured role, and remember which person they were for.
+-- No foreign key on recipient_role: notification history outlives role changes.
+ALTER TABLE message_outbox DROP CONSTRAINT IF EXISTS message_outbox_recipient_role_check;
+ALTER TABLE message_outbox ADD CONSTRAINT message_outbox_recipient_role_check
+  CHECK (recipient_role ~ '^[a-z][a-z0-9_]*$');
+
+ALTER TABLE message_outbox ADD COLUMN IF NOT EXISTS recipient_id UUID
+  REFERENCES notification_recipients(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN message_outbox.recipient_id IS 'Recipient the message was queued for (NULL for env-configured recipients and deleted recipients)';
+
+-- Template used for roles without their own deal_registered_<role> row
+INSERT INTO message_templates (name, platform, template_text, variables)
+VALUES (
+  'deal_registered_default',
+  'both',
+  $template$📋 NEW DEAL REGISTERED
+
+Deal No: {{dealNumber}}
+Date: {{formatDate date}}
+Customer: {{saleParty}}
+Product: {{product}}
+
+Volume: {{formatNumber quantitySold}}kg
+Rate: {{formatCurrency saleRate}}/kg
+Revenue: {{formatCurrency saleAmount}}
+Source: {{#if isNewMaterial}}New Purchase{{else}}Inventory{{/if}}
+{{#if purchaseParty}}
+Supplier: {{purchaseParty}}
+{{/if}}
+Delivery: {{#if isDelivered}}Delivered{{else}}Ex-Warehouse (Pickup){{/if}}
+
+---
+Polymer Trading System$template$,
+  '["dealNumber","date","saleParty","product","quantitySold","saleRate","saleAmount","isNewMaterial","purchaseParty","isDelivered"]'::jsonb
+)
+ON CONFLICT (name) DO NOTHING;
+
+-- Record which recipient each queued message is for
+-- p_messages is an array of {platform, recipient_phone, recipient_role, recipient_id?, message_text, max_attempts?, created_by?}.
+CREATE OR REPLACE FUNCTION create_deal_with_notifications(
+  p_deal JSONB,
+  p_messages JSONB DEFAULT '[]'::JSONB
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  -- Seed generated values so jsonb_populate_record only overrides what the caller sent
+  v_deal.id := gen_random_uuid();
+  v_deal.created_at := NOW();
+  v_deal.updated_at := NOW();
+  v_deal := jsonb_populate_record(v_deal, p_deal);
+
+  INSERT INTO deals_unified SELECT (v_deal).* RETURNING * INTO v_deal;
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    recipient_id,
+    message_text,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    (m->>'recipient_id')::UUID,
+    m->>'message_text',
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'notification recipients migration completed successfully' as result;
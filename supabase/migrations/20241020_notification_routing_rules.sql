@@ -0,0 +1,37 @@
+-- Notification Routing Rules
+-- Decide which recipients hear about which deal. A rule targets a role or a single recipient
+-- and lists conditions on the deal (all must hold). A role or recipient with active rules is
+-- only notified when at least one of them matches; with no rules it gets every deal, as before.
+-- Examples:
+--   bossog only for large deals:       role=bossog, [{"field":"saleAmount","operator":"gt","value":1000000}]
+--   ...or thin margins (second rule):  role=bossog, [{"field":"netMarginPercent","operator":"lt","value":3}]
+--   logistics only for delivered deals: role=logistics, [{"field":"deliveryTerms","operator":"eq","value":"delivered"}]
+--   product-line manager (recipient):  recipient_id=..., [{"field":"company","operator":"in","value":["Reliance"]}]
+
+CREATE TABLE IF NOT EXISTS notification_routing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  role VARCHAR(20) REFERENCES notification_roles(key) ON UPDATE CASCADE ON DELETE CASCADE,
+  recipient_id UUID REFERENCES notification_recipients(id) ON DELETE CASCADE,
+  conditions JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(conditions) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by VARCHAR(100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- A rule applies to exactly one role or one recipient
+  CONSTRAINT notification_routing_rules_target_check CHECK ((role IS NULL) <> (recipient_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_routing_rules_active ON notification_routing_rules(is_active);
+
+COMMENT ON TABLE notification_routing_rules IS 'Conditions on a deal that a role or recipient must match to be notified';
+COMMENT ON COLUMN notification_routing_rules.conditions IS 'Array of {field, operator, value}; all must hold for the rule to match';
+
+DROP TRIGGER IF EXISTS trigger_notification_routing_rules_updated_at ON notification_routing_rules;
+CREATE TRIGGER trigger_notification_routing_rules_updated_at
+  BEFORE UPDATE ON notification_routing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_notification_settings_updated_at();
+
+SELECT 'notification routing rules migration completed successfully' as result;
@@ -0,0 +1,74 @@
+-- WhatsApp Template Fallback Migration
+-- WhatsApp only delivers free-form text within 24 hours of the recipient's last message.
+-- Outside that window Meta rejects the send (error 131047), so each message template can name
+-- an approved WhatsApp template (HSM) whose body parameters are rendered from the deal; the
+-- rendered template is stored on the outbox row and sent when the text is rejected.
+
+-- Approved template to fall back to (whatsapp_template_id already holds its name)
+ALTER TABLE message_templates ADD COLUMN IF NOT EXISTS whatsapp_template_language VARCHAR(15) NOT NULL DEFAULT 'en';
+ALTER TABLE message_templates ADD COLUMN IF NOT EXISTS whatsapp_template_params JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+ALTER TABLE message_templates DROP CONSTRAINT IF EXISTS message_templates_whatsapp_template_params_check;
+ALTER TABLE message_templates ADD CONSTRAINT message_templates_whatsapp_template_params_check
+  CHECK (jsonb_typeof(whatsapp_template_params) = 'array');
+
+COMMENT ON COLUMN message_templates.whatsapp_template_id IS 'Name of the approved WhatsApp template sent when the 24-hour session window is closed';
+COMMENT ON COLUMN message_templates.whatsapp_template_language IS 'Language code the WhatsApp template was approved in, e.g. en or en_US';
+COMMENT ON COLUMN message_templates.whatsapp_template_params IS 'Template expressions for the body parameters {{1}}..{{n}}, in order, e.g. ["saleParty", "formatCurrency saleAmount"]';
+
+-- The fallback rendered for each queued WhatsApp message, and whether it was used
+ALTER TABLE message_outbox ADD COLUMN IF NOT EXISTS whatsapp_template JSONB;
+ALTER TABLE message_outbox ADD COLUMN IF NOT EXISTS sent_as_template BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN message_outbox.whatsapp_template IS 'Template message (name, language, components) sent if the text is rejected outside the session window';
+COMMENT ON COLUMN message_outbox.sent_as_template IS 'True when the WhatsApp template was delivered instead of message_text';
+
+-- Store the fallback template with each queued message
+-- p_messages is an array of {platform, recipient_phone, recipient_role, recipient_id?, message_text,
+-- whatsapp_template?, max_attempts?, created_by?}.
+CREATE OR REPLACE FUNCTION create_deal_with_notifications(
+  p_deal JSONB,
+  p_messages JSONB DEFAULT '[]'::JSONB
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  -- Seed generated values so jsonb_populate_record only overrides what the caller sent
+  v_deal.id := gen_random_uuid();
+  v_deal.created_at := NOW();
+  v_deal.updated_at := NOW();
+  v_deal := jsonb_populate_record(v_deal, p_deal);
+
+  INSERT INTO deals_unified SELECT (v_deal).* RETURNING * INTO v_deal;
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    recipient_id,
+    message_text,
+    whatsapp_template,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    (m->>'recipient_id')::UUID,
+    m->>'message_text',
+    NULLIF(m->'whatsapp_template', 'null'::JSONB),
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'WhatsApp template fallback migration completed successfully' as result;
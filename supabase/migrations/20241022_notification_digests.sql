@@ -0,0 +1,49 @@
+-- Notification Digests Migration
+-- The bosses get one message per deal (15-30 a day). A scheduled job now sends a daily and
+-- weekly summary of the book instead: deal count, tonnage, revenue, gross profit, top
+-- customers, worst-margin deals and failed notifications. Each recipient chooses whether
+-- they get every deal, every deal plus the digests, or the digests only.
+
+ALTER TABLE notification_recipients ADD COLUMN IF NOT EXISTS delivery_mode VARCHAR(20) NOT NULL DEFAULT 'per_deal';
+
+ALTER TABLE notification_recipients DROP CONSTRAINT IF EXISTS notification_recipients_delivery_mode_check;
+ALTER TABLE notification_recipients ADD CONSTRAINT notification_recipients_delivery_mode_check
+  CHECK (delivery_mode IN ('per_deal', 'per_deal_and_digest', 'digest_only'));
+
+COMMENT ON COLUMN notification_recipients.delivery_mode IS 'per_deal (a message per deal), per_deal_and_digest, or digest_only (daily and weekly summaries only)';
+
+-- One row per digest sent (or attempted) to a recipient on a channel; a re-run of the job
+-- skips recipients that already have a sent row for the period
+CREATE TABLE IF NOT EXISTS notification_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period VARCHAR(10) NOT NULL CHECK (period IN ('daily', 'weekly')),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  recipient_id UUID NOT NULL REFERENCES notification_recipients(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  platform VARCHAR(20) NOT NULL,
+  recipient_address VARCHAR(64) NOT NULL,
+  message_text TEXT NOT NULL,
+  summary JSONB NOT NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('sent', 'failed')),
+  external_message_id TEXT,
+  error_type VARCHAR(50),
+  error_message TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (period, period_start, recipient_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digests_period ON notification_digests(period, period_start);
+
+COMMENT ON TABLE notification_digests IS 'Daily and weekly deal digests sent to recipients who opted in';
+COMMENT ON COLUMN notification_digests.summary IS 'The aggregated figures the message was built from';
+
+DROP TRIGGER IF EXISTS trigger_notification_digests_updated_at ON notification_digests;
+CREATE TRIGGER trigger_notification_digests_updated_at
+  BEFORE UPDATE ON notification_digests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_notification_settings_updated_at();
+
+SELECT 'notification digests migration completed successfully' as result;
@@ -0,0 +1,54 @@
+-- Shared Rate Limit Buckets Migration
+-- The WhatsApp and Telegram rate limiters kept their window in memory, so every serverless
+-- instance had its own 80/min allowance. With RATE_LIMIT_STORE=supabase the limiters take
+-- tokens from a bucket per channel here instead, shared by every instance.
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key VARCHAR(50) PRIMARY KEY, -- Channel, e.g. 'whatsapp' or 'telegram'
+  tokens DOUBLE PRECISION NOT NULL,
+  refilled_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+COMMENT ON TABLE rate_limit_buckets IS 'Token buckets for the outbound messaging rate limiters, shared across instances';
+COMMENT ON COLUMN rate_limit_buckets.tokens IS 'Tokens left as of refilled_at; refilled continuously at capacity per window';
+
+-- Take one token from a bucket
+-- The bucket holds p_capacity tokens and refills p_capacity tokens every p_window_ms. The row
+-- lock serializes concurrent callers, so two instances never take the same token. When the
+-- bucket is empty, wait_ms is how long until the next token.
+CREATE OR REPLACE FUNCTION acquire_rate_limit_token(
+  p_key TEXT,
+  p_capacity INTEGER,
+  p_window_ms INTEGER DEFAULT 60000
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, wait_ms INTEGER) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_tokens_per_ms DOUBLE PRECISION := p_capacity::DOUBLE PRECISION / p_window_ms;
+  v_bucket rate_limit_buckets;
+  v_tokens DOUBLE PRECISION;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, refilled_at)
+  VALUES (p_key, p_capacity, v_now)
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO v_bucket FROM rate_limit_buckets b WHERE b.key = p_key FOR UPDATE;
+
+  v_tokens := LEAST(
+    p_capacity,
+    v_bucket.tokens + EXTRACT(EPOCH FROM (v_now - v_bucket.refilled_at)) * 1000 * v_tokens_per_ms
+  );
+
+  IF v_tokens >= 1 THEN
+    UPDATE rate_limit_buckets b SET tokens = v_tokens - 1, refilled_at = v_now WHERE b.key = p_key;
+    RETURN QUERY SELECT true, FLOOR(v_tokens - 1)::INTEGER, 0;
+  ELSE
+    UPDATE rate_limit_buckets b SET tokens = v_tokens, refilled_at = v_now WHERE b.key = p_key;
+    RETURN QUERY SELECT false, 0, CEIL((1 - v_tokens) / v_tokens_per_ms)::INTEGER;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION acquire_rate_limit_token IS 'Take a token from a shared rate limit bucket; returns whether it was granted and otherwise how long to wait';
+
+SELECT 'rate limit buckets migration completed successfully' as result;
@@ -0,0 +1,196 @@
+-- Shared Circuit Breakers Migration
+-- Each channel's circuit breaker kept its state in process memory, so one serverless instance
+-- could keep hammering a failing API while another had opened its breaker, and nobody could
+-- open or close it by hand. Breaker state now lives here: every instance reads the same
+-- state, failures from all instances count towards one threshold, operators can force a
+-- breaker open (maintenance) or closed, and every transition is written to health_checks.
+
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+  service VARCHAR(20) PRIMARY KEY, -- Channel, e.g. 'whatsapp' or 'telegram'
+  state VARCHAR(10) NOT NULL DEFAULT 'CLOSED' CHECK (state IN ('CLOSED', 'OPEN', 'HALF_OPEN')),
+  forced BOOLEAN NOT NULL DEFAULT false,
+  recent_failures JSONB NOT NULL DEFAULT '[]'::JSONB,
+  opened_at TIMESTAMPTZ,
+  state_changed_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  updated_by TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE circuit_breakers IS 'Circuit breaker state per messaging channel, shared by every instance';
+COMMENT ON COLUMN circuit_breakers.forced IS 'Opened by an operator; stays OPEN (no recovery test) until closed by hand';
+COMMENT ON COLUMN circuit_breakers.recent_failures IS 'Failures in the monitoring window, oldest first: [{at, error}]';
+
+-- Transitions are written to health_checks with their details
+ALTER TABLE health_checks ADD COLUMN IF NOT EXISTS details JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_health_checks_type_checked_at ON health_checks(check_type, checked_at DESC);
+
+COMMENT ON COLUMN health_checks.details IS 'Check-specific data, e.g. {from, to, forced, performed_by} for circuit breaker transitions';
+
+-- Lock a breaker's row, creating it (closed) on first use
+CREATE OR REPLACE FUNCTION lock_circuit_breaker(p_service TEXT)
+RETURNS circuit_breakers AS $$
+DECLARE
+  v_breaker circuit_breakers;
+BEGIN
+  INSERT INTO circuit_breakers (service) VALUES (p_service)
+  ON CONFLICT (service) DO NOTHING;
+
+  SELECT * INTO v_breaker FROM circuit_breakers cb WHERE cb.service = p_service FOR UPDATE;
+  RETURN v_breaker;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a locked breaker to a new state and record the transition in health_checks
+CREATE OR REPLACE FUNCTION transition_circuit_breaker(
+  p_breaker circuit_breakers,
+  p_state TEXT,
+  p_forced BOOLEAN,
+  p_reason TEXT,
+  p_performed_by TEXT DEFAULT 'system'
+)
+RETURNS circuit_breakers AS $$
+DECLARE
+  v_breaker circuit_breakers;
+BEGIN
+  UPDATE circuit_breakers cb
+  SET state = p_state,
+      forced = p_forced,
+      opened_at = CASE WHEN p_state = 'OPEN' THEN clock_timestamp() ELSE cb.opened_at END,
+      recent_failures = CASE WHEN p_state = 'CLOSED' THEN '[]'::JSONB ELSE cb.recent_failures END,
+      state_changed_at = clock_timestamp(),
+      updated_by = p_performed_by,
+      updated_at = NOW()
+  WHERE cb.service = p_breaker.service
+  RETURNING * INTO v_breaker;
+
+  INSERT INTO health_checks (check_type, status, error_message, details)
+  VALUES (
+    'circuit_breaker_' || p_breaker.service,
+    CASE p_state WHEN 'CLOSED' THEN 'healthy' WHEN 'HALF_OPEN' THEN 'degraded' ELSE 'down' END,
+    p_reason,
+    jsonb_build_object('from', p_breaker.state, 'to', p_state, 'forced', p_forced, 'performed_by', p_performed_by)
+  );
+
+  RETURN v_breaker;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Current state of a breaker
+-- An OPEN breaker (not forced) moves to HALF_OPEN once p_timeout_ms has passed, so the next
+-- send tests whether the service has recovered
+CREATE OR REPLACE FUNCTION get_circuit_breaker(
+  p_service TEXT,
+  p_timeout_ms INTEGER DEFAULT 300000
+)
+RETURNS circuit_breakers AS $$
+DECLARE
+  v_breaker circuit_breakers;
+BEGIN
+  v_breaker := lock_circuit_breaker(p_service);
+
+  IF v_breaker.state = 'OPEN'
+     AND NOT v_breaker.forced
+     AND v_breaker.opened_at <= clock_timestamp() - make_interval(secs => p_timeout_ms / 1000.0) THEN
+    v_breaker := transition_circuit_breaker(v_breaker, 'HALF_OPEN', false, 'Timeout elapsed, testing recovery');
+  END IF;
+
+  RETURN v_breaker;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a failed call
+-- Failures older than p_window_ms drop out of the window. A closed breaker opens when the
+-- window holds p_failure_threshold failures; a failed recovery test reopens it.
+CREATE OR REPLACE FUNCTION record_circuit_breaker_failure(
+  p_service TEXT,
+  p_error TEXT,
+  p_failure_threshold INTEGER DEFAULT 10,
+  p_window_ms INTEGER DEFAULT 60000
+)
+RETURNS circuit_breakers AS $$
+DECLARE
+  v_breaker circuit_breakers;
+  v_failures JSONB;
+  v_count INTEGER;
+BEGIN
+  v_breaker := lock_circuit_breaker(p_service);
+
+  SELECT COALESCE(jsonb_agg(f ORDER BY f->>'at'), '[]'::JSONB)
+    INTO v_failures
+    FROM jsonb_array_elements(v_breaker.recent_failures) AS f
+   WHERE (f->>'at')::TIMESTAMPTZ > clock_timestamp() - make_interval(secs => p_window_ms / 1000.0);
+
+  v_failures := v_failures || jsonb_build_array(jsonb_build_object('at', clock_timestamp(), 'error', LEFT(p_error, 500)));
+  v_count := jsonb_array_length(v_failures);
+
+  UPDATE circuit_breakers cb
+  SET recent_failures = v_failures,
+      updated_at = NOW()
+  WHERE cb.service = p_service
+  RETURNING * INTO v_breaker;
+
+  IF v_breaker.state = 'HALF_OPEN' THEN
+    v_breaker := transition_circuit_breaker(v_breaker, 'OPEN', false, 'Recovery test failed: ' || LEFT(p_error, 200));
+  ELSIF v_breaker.state = 'CLOSED' AND v_count >= p_failure_threshold THEN
+    v_breaker := transition_circuit_breaker(
+      v_breaker,
+      'OPEN',
+      false,
+      v_count || ' failures in ' || (p_window_ms / 1000) || 's, last: ' || LEFT(p_error, 200)
+    );
+  END IF;
+
+  RETURN v_breaker;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a successful call; a passed recovery test closes the breaker
+CREATE OR REPLACE FUNCTION record_circuit_breaker_success(p_service TEXT)
+RETURNS circuit_breakers AS $$
+DECLARE
+  v_breaker circuit_breakers;
+BEGIN
+  v_breaker := lock_circuit_breaker(p_service);
+
+  IF v_breaker.state = 'HALF_OPEN' THEN
+    v_breaker := transition_circuit_breaker(v_breaker, 'CLOSED', false, 'Recovery test succeeded');
+  END IF;
+
+  RETURN v_breaker;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Force a breaker open (maintenance mode) or closed
+CREATE OR REPLACE FUNCTION set_circuit_breaker_state(
+  p_service TEXT,
+  p_state TEXT,
+  p_performed_by TEXT DEFAULT 'operator',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS circuit_breakers AS $$
+DECLARE
+  v_breaker circuit_breakers;
+BEGIN
+  IF p_state NOT IN ('OPEN', 'CLOSED') THEN
+    RAISE EXCEPTION 'Circuit breakers can only be forced OPEN or CLOSED, not %', p_state;
+  END IF;
+
+  v_breaker := lock_circuit_breaker(p_service);
+
+  RETURN transition_circuit_breaker(
+    v_breaker,
+    p_state,
+    p_state = 'OPEN',
+    COALESCE(p_note, CASE WHEN p_state = 'OPEN' THEN 'Forced open' ELSE 'Forced closed' END),
+    p_performed_by
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION get_circuit_breaker(TEXT, INTEGER) IS 'Current circuit breaker state; moves an expired OPEN breaker to HALF_OPEN';
+COMMENT ON FUNCTION record_circuit_breaker_failure(TEXT, TEXT, INTEGER, INTEGER) IS 'Add a failure to the window and open the breaker at the threshold';
+COMMENT ON FUNCTION record_circuit_breaker_success(TEXT) IS 'Close a HALF_OPEN breaker after a successful recovery test';
+COMMENT ON FUNCTION set_circuit_breaker_state(TEXT, TEXT, TEXT, TEXT) IS 'Force a circuit breaker OPEN (maintenance) or CLOSED, recorded in health_checks';
+
+SELECT 'circuit breakers migration completed successfully' as result;
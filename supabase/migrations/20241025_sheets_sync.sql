@@ -0,0 +1,55 @@
+-- Google Sheets Sync Migration
+-- Every deal is mirrored to one row of the deals spreadsheet and each attempt is written to
+-- sheets_sync_log. Failed attempts are retried until they succeed or run out of attempts;
+-- this adds the lookup the retry job uses and an index for reading a deal's latest attempt.
+
+CREATE INDEX IF NOT EXISTS idx_sheets_sync_log_deal_created_at ON sheets_sync_log(deal_id, created_at DESC);
+
+COMMENT ON TABLE sheets_sync_log IS 'One row per attempt to write a deal to the deals spreadsheet';
+COMMENT ON COLUMN sheets_sync_log.row_number IS 'Spreadsheet row the deal was written to (1-based, row 1 is the header)';
+
+-- Deals whose latest sync attempt failed, with the failures since their last successful sync
+-- Deals with p_max_attempts or more such failures are left for a manual replay
+CREATE OR REPLACE FUNCTION get_sheets_sync_retry_candidates(
+  p_max_attempts INTEGER DEFAULT 5,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  deal_id UUID,
+  failed_attempts INTEGER,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ
+) AS $$
+  WITH latest AS (
+    SELECT DISTINCT ON (l.deal_id) l.deal_id, l.status, l.error_message, l.created_at
+    FROM sheets_sync_log l
+    ORDER BY l.deal_id, l.created_at DESC
+  ),
+  candidates AS (
+    SELECT
+      latest.deal_id,
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM sheets_sync_log f
+        WHERE f.deal_id = latest.deal_id
+          AND f.status = 'failed'
+          AND f.created_at > COALESCE(
+            (SELECT MAX(s.created_at) FROM sheets_sync_log s WHERE s.deal_id = latest.deal_id AND s.status = 'synced'),
+            '-infinity'::TIMESTAMPTZ
+          )
+      ) AS failed_attempts,
+      latest.error_message AS last_error,
+      latest.created_at AS last_attempt_at
+    FROM latest
+    WHERE latest.status = 'failed'
+  )
+  SELECT c.deal_id, c.failed_attempts, c.last_error, c.last_attempt_at
+  FROM candidates c
+  WHERE c.failed_attempts < p_max_attempts
+  ORDER BY c.last_attempt_at
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_sheets_sync_retry_candidates(INTEGER, INTEGER) IS 'Deals whose latest sheets sync failed and that have attempts left, oldest failure first';
+
+SELECT 'sheets sync migration completed successfully' as result;
@@ -0,0 +1,70 @@
+-- System Health Migration
+-- The health dashboard runs a probe per component (database, WhatsApp, Telegram, Google Sheets,
+-- message delivery, chatbot) and stores each result in health_checks with its response time.
+-- Message delivery is judged from get_message_statistics(), whose error breakdown nested
+-- COUNT(*) inside jsonb_object_agg - Postgres rejects nested aggregates, so every call failed.
+-- The breakdown is now counted per error type first; the result columns are unchanged.
+
+CREATE OR REPLACE FUNCTION get_message_statistics(
+  p_hours_back INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  total_messages BIGINT,
+  successful_messages BIGINT,
+  failed_messages BIGINT,
+  pending_messages BIGINT,
+  dead_letter_messages BIGINT,
+  success_rate NUMERIC,
+  avg_response_time_ms NUMERIC,
+  total_wait_time_ms BIGINT,
+  error_breakdown JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH recent AS (
+    SELECT *
+    FROM message_outbox
+    WHERE created_at >= NOW() - (p_hours_back || ' hours')::INTERVAL
+  ),
+  stats AS (
+    SELECT
+      COUNT(*) as total,
+      COUNT(*) FILTER (WHERE status IN ('sent', 'delivered', 'read')) as successful,
+      COUNT(*) FILTER (WHERE status = 'failed') as failed,
+      COUNT(*) FILTER (WHERE status IN ('pending', 'sending')) as pending,
+      COUNT(*) FILTER (WHERE status = 'dead_letter') as dead_letter,
+      AVG(response_time_ms) as avg_response,
+      SUM(wait_time_ms)::BIGINT as total_wait
+    FROM recent
+  ),
+  errors AS (
+    SELECT jsonb_object_agg(e.error_key, e.error_count) as breakdown
+    FROM (
+      SELECT COALESCE(r.error_type, 'SUCCESS') as error_key, COUNT(*) as error_count
+      FROM recent r
+      WHERE r.error_type IS NOT NULL OR r.status IN ('sent', 'delivered', 'read')
+      GROUP BY COALESCE(r.error_type, 'SUCCESS')
+    ) e
+  )
+  SELECT
+    s.total,
+    s.successful,
+    s.failed,
+    s.pending,
+    s.dead_letter,
+    CASE
+      WHEN s.total > 0 THEN ROUND((s.successful::NUMERIC / s.total) * 100, 2)
+      ELSE 0
+    END,
+    ROUND(s.avg_response, 2),
+    s.total_wait,
+    COALESCE(e.breakdown, '{}'::JSONB)
+  FROM stats s, errors e;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION get_message_statistics(INTEGER) IS 'Outbox totals, success rate and message counts by error type (SUCCESS for delivered) over the last p_hours_back hours';
+
+COMMENT ON COLUMN health_checks.check_type IS 'Probed component (database, whatsapp, telegram, sheets, message_delivery, chatbot) or circuit_breaker_<channel> for breaker transitions';
+
+SELECT 'system health migration completed successfully' as result;
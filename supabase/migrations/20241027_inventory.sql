@@ -0,0 +1,251 @@
+-- Inventory Migration
+-- "from-inventory" deals had no stock behind them. This adds warehouses, stock lots (product,
+-- warehouse, quantity, cost basis) and a log of every stock movement. Saving a from-inventory
+-- deal takes its quantity from the product's lots, oldest first, in the same transaction as the
+-- deal, and is rejected when there isn't enough stock. A new-material deal that buys more than
+-- it sells puts the surplus into a new lot at its landed cost.
+
+CREATE TABLE IF NOT EXISTS warehouses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  location TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE warehouses IS 'Places stock is held; deals record the warehouse they ship from or deliver surplus to';
+
+CREATE TABLE IF NOT EXISTS stock_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id),
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  quantity_received NUMERIC(12,2) NOT NULL CHECK (quantity_received > 0),
+  quantity_available NUMERIC(12,2) NOT NULL CHECK (quantity_available >= 0),
+  cost_per_kg NUMERIC(12,2) NOT NULL CHECK (cost_per_kg >= 0),
+  source VARCHAR(20) NOT NULL DEFAULT 'receipt' CHECK (source IN ('receipt', 'deal_surplus')),
+  source_deal_id UUID REFERENCES deals_unified(id),
+  received_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (quantity_available <= quantity_received)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lots_product_fifo ON stock_lots(product_id, received_at, created_at)
+  WHERE quantity_available > 0;
+
+COMMENT ON TABLE stock_lots IS 'Stock received in one go: a purchase, opening stock, or the surplus of a new-material deal';
+COMMENT ON COLUMN stock_lots.cost_per_kg IS 'Cost basis: purchase rate plus purchase-side charges per kg';
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lot_id UUID NOT NULL REFERENCES stock_lots(id),
+  deal_id UUID REFERENCES deals_unified(id),
+  movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('receipt', 'deal_surplus', 'deal_out')),
+  quantity NUMERIC(12,2) NOT NULL, -- Positive into the lot, negative out of it
+  cost_per_kg NUMERIC(12,2) NOT NULL,
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_deal_id ON stock_movements(deal_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_lot_id ON stock_movements(lot_id, created_at);
+
+COMMENT ON TABLE stock_movements IS 'Every change to a stock lot, with the deal that caused it';
+
+ALTER TABLE deals_unified ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+
+COMMENT ON COLUMN deals_unified.warehouse_id IS 'Warehouse a from-inventory deal ships from, or a new-material surplus goes to';
+
+-- Stock on hand per product and warehouse
+CREATE OR REPLACE VIEW stock_levels AS
+SELECT
+  l.product_id,
+  p."Product" as product,
+  p."Grade" as grade,
+  p."Company" as company,
+  l.warehouse_id,
+  w.name as warehouse_name,
+  SUM(l.quantity_available) as quantity_available,
+  COUNT(*)::INTEGER as lot_count,
+  ROUND(SUM(l.quantity_available * l.cost_per_kg) / NULLIF(SUM(l.quantity_available), 0), 2) as average_cost_per_kg
+FROM stock_lots l
+JOIN products p ON p.id = l.product_id
+JOIN warehouses w ON w.id = l.warehouse_id
+WHERE l.quantity_available > 0
+GROUP BY l.product_id, p."Product", p."Grade", p."Company", l.warehouse_id, w.name;
+
+-- Add a lot and its receipt movement
+CREATE OR REPLACE FUNCTION receive_stock_lot(
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity NUMERIC,
+  p_cost_per_kg NUMERIC,
+  p_received_at DATE DEFAULT CURRENT_DATE,
+  p_source TEXT DEFAULT 'receipt',
+  p_source_deal_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_created_by TEXT DEFAULT NULL
+)
+RETURNS stock_lots AS $$
+DECLARE
+  v_lot stock_lots;
+BEGIN
+  INSERT INTO stock_lots (
+    product_id, warehouse_id, quantity_received, quantity_available, cost_per_kg,
+    source, source_deal_id, received_at, notes, created_by
+  )
+  VALUES (
+    p_product_id, p_warehouse_id, p_quantity, p_quantity, p_cost_per_kg,
+    p_source, p_source_deal_id, COALESCE(p_received_at, CURRENT_DATE), p_notes, p_created_by
+  )
+  RETURNING * INTO v_lot;
+
+  INSERT INTO stock_movements (lot_id, deal_id, movement_type, quantity, cost_per_kg, created_by)
+  VALUES (v_lot.id, p_source_deal_id, p_source, p_quantity, p_cost_per_kg, p_created_by);
+
+  RETURN v_lot;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Take a deal's quantity from a product's lots, oldest first
+-- Only lots in p_warehouse_id are used when it is given. The lots are locked before the total
+-- is checked, so two sales of the same stock can't both succeed.
+CREATE OR REPLACE FUNCTION consume_deal_stock(
+  p_deal_id UUID,
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity NUMERIC,
+  p_created_by TEXT DEFAULT NULL
+)
+RETURNS SETOF stock_movements AS $$
+DECLARE
+  v_available NUMERIC;
+  v_remaining NUMERIC := p_quantity;
+  v_take NUMERIC;
+  v_lot stock_lots;
+  v_movement stock_movements;
+BEGIN
+  SELECT COALESCE(SUM(locked.quantity_available), 0)
+    INTO v_available
+    FROM (
+      SELECT sl.quantity_available
+      FROM stock_lots sl
+      WHERE sl.product_id = p_product_id
+        AND (p_warehouse_id IS NULL OR sl.warehouse_id = p_warehouse_id)
+        AND sl.quantity_available > 0
+      FOR UPDATE
+    ) locked;
+
+  IF v_available < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: % kg available, % kg needed', v_available, p_quantity
+      USING HINT = 'insufficient_stock';
+  END IF;
+
+  FOR v_lot IN
+    SELECT *
+    FROM stock_lots sl
+    WHERE sl.product_id = p_product_id
+      AND (p_warehouse_id IS NULL OR sl.warehouse_id = p_warehouse_id)
+      AND sl.quantity_available > 0
+    ORDER BY sl.received_at, sl.created_at
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_take := LEAST(v_lot.quantity_available, v_remaining);
+
+    UPDATE stock_lots
+    SET quantity_available = quantity_available - v_take,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    INSERT INTO stock_movements (lot_id, deal_id, movement_type, quantity, cost_per_kg, created_by)
+    VALUES (v_lot.id, p_deal_id, 'deal_out', -v_take, v_lot.cost_per_kg, p_created_by)
+    RETURNING * INTO v_movement;
+
+    RETURN NEXT v_movement;
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deal registration also moves its stock, in the same transaction
+-- p_stock: {"consume": {product_id, warehouse_id, quantity}} for a from-inventory sale, or
+-- {"receive": {product_id, warehouse_id, quantity, cost_per_kg}} for a new-material surplus
+DROP FUNCTION IF EXISTS create_deal_with_notifications(JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION create_deal_with_notifications(
+  p_deal JSONB,
+  p_messages JSONB DEFAULT '[]'::JSONB,
+  p_stock JSONB DEFAULT NULL
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  -- Seed generated values so jsonb_populate_record only overrides what the caller sent
+  v_deal.id := gen_random_uuid();
+  v_deal.created_at := NOW();
+  v_deal.updated_at := NOW();
+  v_deal := jsonb_populate_record(v_deal, p_deal);
+
+  INSERT INTO deals_unified SELECT (v_deal).* RETURNING * INTO v_deal;
+
+  IF p_stock ? 'consume' THEN
+    PERFORM consume_deal_stock(
+      v_deal.id,
+      (p_stock->'consume'->>'product_id')::UUID,
+      (p_stock->'consume'->>'warehouse_id')::UUID,
+      (p_stock->'consume'->>'quantity')::NUMERIC,
+      'deal_registration'
+    );
+  END IF;
+
+  IF p_stock ? 'receive' THEN
+    PERFORM receive_stock_lot(
+      (p_stock->'receive'->>'product_id')::UUID,
+      (p_stock->'receive'->>'warehouse_id')::UUID,
+      (p_stock->'receive'->>'quantity')::NUMERIC,
+      (p_stock->'receive'->>'cost_per_kg')::NUMERIC,
+      v_deal."Date",
+      'deal_surplus',
+      v_deal.id,
+      'Surplus of deal ' || COALESCE(v_deal."SrNo", v_deal.id::TEXT),
+      'deal_registration'
+    );
+  END IF;
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    recipient_id,
+    message_text,
+    whatsapp_template,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    (m->>'recipient_id')::UUID,
+    m->>'message_text',
+    NULLIF(m->'whatsapp_template', 'null'::JSONB),
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION consume_deal_stock(UUID, UUID, UUID, NUMERIC, TEXT) IS 'Take a from-inventory deal''s quantity from its product''s lots (FIFO); raises insufficient_stock when short';
+COMMENT ON FUNCTION receive_stock_lot(UUID, UUID, NUMERIC, NUMERIC, DATE, TEXT, UUID, TEXT, TEXT) IS 'Add a stock lot and its receipt movement';
+
+SELECT 'inventory migration completed successfully' as result;
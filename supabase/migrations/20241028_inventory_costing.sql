@@ -0,0 +1,237 @@
+-- Inventory Costing Migration
+-- From-inventory deals had no cost, so their margin came out as 100% and the Boss 1 message
+-- printed "Cost: From inventory (TBD)". A from-inventory deal now records the cost per kg of
+-- the stock it takes, valued by weighted average or FIFO (INVENTORY_COST_METHOD), and the
+-- margin, messages, digest and sheet use it.
+-- The cost is read off the movements the deal makes, in the same transaction as the deal, so
+-- it is the cost of the stock actually taken even when another sale drew on the lots first.
+-- The deal's messages quote the cost the app worked out beforehand, so a deal whose stock
+-- turns out to cost anything else is refused (stock_cost_changed) and priced again.
+
+ALTER TABLE deals_unified ADD COLUMN IF NOT EXISTS inventory_cost_per_kg NUMERIC(12,2);
+ALTER TABLE deals_unified ADD COLUMN IF NOT EXISTS inventory_cost_method VARCHAR(20)
+  CHECK (inventory_cost_method IN ('weighted_average', 'fifo'));
+
+COMMENT ON COLUMN deals_unified.inventory_cost_per_kg IS 'Cost per kg of the stock a from-inventory deal took, at registration';
+COMMENT ON COLUMN deals_unified.inventory_cost_method IS 'How inventory_cost_per_kg was valued: weighted_average or fifo';
+
+-- Take a deal's quantity from a product's lots, oldest first, as before (lots received together
+-- in ID order, as the app lists them); each movement now carries what the deal pays for it: its
+-- lot's cost under FIFO, or under weighted average the average of every lot the stock could
+-- come from (read after they are locked)
+DROP FUNCTION IF EXISTS consume_deal_stock(UUID, UUID, UUID, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION consume_deal_stock(
+  p_deal_id UUID,
+  p_product_id UUID,
+  p_warehouse_id UUID,
+  p_quantity NUMERIC,
+  p_created_by TEXT DEFAULT NULL,
+  p_cost_method TEXT DEFAULT 'fifo'
+)
+RETURNS SETOF stock_movements AS $$
+DECLARE
+  v_available NUMERIC;
+  v_average_cost NUMERIC;
+  v_remaining NUMERIC := p_quantity;
+  v_take NUMERIC;
+  v_lot stock_lots;
+  v_movement stock_movements;
+BEGIN
+  SELECT
+    COALESCE(SUM(locked.quantity_available), 0),
+    ROUND(SUM(locked.quantity_available * locked.cost_per_kg) / NULLIF(SUM(locked.quantity_available), 0), 2)
+    INTO v_available, v_average_cost
+    FROM (
+      SELECT sl.quantity_available, sl.cost_per_kg
+      FROM stock_lots sl
+      WHERE sl.product_id = p_product_id
+        AND (p_warehouse_id IS NULL OR sl.warehouse_id = p_warehouse_id)
+        AND sl.quantity_available > 0
+      FOR UPDATE
+    ) locked;
+
+  IF v_available < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: % kg available, % kg needed', v_available, p_quantity
+      USING HINT = 'insufficient_stock';
+  END IF;
+
+  FOR v_lot IN
+    SELECT *
+    FROM stock_lots sl
+    WHERE sl.product_id = p_product_id
+      AND (p_warehouse_id IS NULL OR sl.warehouse_id = p_warehouse_id)
+      AND sl.quantity_available > 0
+    ORDER BY sl.received_at, sl.created_at, sl.id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_take := LEAST(v_lot.quantity_available, v_remaining);
+
+    UPDATE stock_lots
+    SET quantity_available = quantity_available - v_take,
+        updated_at = NOW()
+    WHERE id = v_lot.id;
+
+    INSERT INTO stock_movements (lot_id, deal_id, movement_type, quantity, cost_per_kg, created_by)
+    VALUES (
+      v_lot.id,
+      p_deal_id,
+      'deal_out',
+      -v_take,
+      CASE WHEN p_cost_method = 'weighted_average' THEN v_average_cost ELSE v_lot.cost_per_kg END,
+      p_created_by
+    )
+    RETURNING * INTO v_movement;
+
+    RETURN NEXT v_movement;
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cost per kg of the stock a deal has taken, from its movements
+CREATE OR REPLACE FUNCTION deal_stock_cost(p_deal_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT ROUND(SUM(-quantity * cost_per_kg) / NULLIF(SUM(-quantity), 0), 2)
+  FROM stock_movements
+  WHERE deal_id = p_deal_id
+    AND movement_type = 'deal_out'
+$$ LANGUAGE sql STABLE;
+
+-- Store that cost on the deal
+CREATE OR REPLACE FUNCTION record_deal_stock_cost(p_deal_id UUID, p_cost_method TEXT)
+RETURNS deals_unified AS $$
+  UPDATE deals_unified
+  SET inventory_cost_per_kg = deal_stock_cost(p_deal_id),
+      inventory_cost_method = p_cost_method
+  WHERE id = p_deal_id
+  RETURNING *
+$$ LANGUAGE sql;
+
+-- p_stock: {"consume": {product_id, warehouse_id, quantity, cost_method, cost_per_kg}} for a
+-- from-inventory sale, which then records what the stock cost and raises stock_cost_changed,
+-- saving nothing, if that isn't cost_per_kg (the cost its messages quote); {"receive": ...} for
+-- a surplus is unchanged
+CREATE OR REPLACE FUNCTION create_deal_with_notifications(
+  p_deal JSONB,
+  p_messages JSONB DEFAULT '[]'::JSONB,
+  p_stock JSONB DEFAULT NULL
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  -- Seed generated values so jsonb_populate_record only overrides what the caller sent
+  v_deal.id := gen_random_uuid();
+  v_deal.created_at := NOW();
+  v_deal.updated_at := NOW();
+  v_deal := jsonb_populate_record(v_deal, p_deal);
+
+  INSERT INTO deals_unified SELECT (v_deal).* RETURNING * INTO v_deal;
+
+  IF p_stock ? 'consume' THEN
+    PERFORM consume_deal_stock(
+      v_deal.id,
+      (p_stock->'consume'->>'product_id')::UUID,
+      (p_stock->'consume'->>'warehouse_id')::UUID,
+      (p_stock->'consume'->>'quantity')::NUMERIC,
+      'deal_registration',
+      COALESCE(p_stock->'consume'->>'cost_method', 'fifo')
+    );
+    v_deal := record_deal_stock_cost(v_deal.id, COALESCE(p_stock->'consume'->>'cost_method', 'fifo'));
+
+    IF p_stock->'consume' ? 'cost_per_kg'
+      AND v_deal.inventory_cost_per_kg IS DISTINCT FROM (p_stock->'consume'->>'cost_per_kg')::NUMERIC THEN
+      RAISE EXCEPTION 'The stock now costs % per kg, not the % the deal was priced at',
+        v_deal.inventory_cost_per_kg, p_stock->'consume'->>'cost_per_kg'
+        USING HINT = 'stock_cost_changed';
+    END IF;
+  END IF;
+
+  IF p_stock ? 'receive' THEN
+    PERFORM receive_stock_lot(
+      (p_stock->'receive'->>'product_id')::UUID,
+      (p_stock->'receive'->>'warehouse_id')::UUID,
+      (p_stock->'receive'->>'quantity')::NUMERIC,
+      (p_stock->'receive'->>'cost_per_kg')::NUMERIC,
+      v_deal."Date",
+      'deal_surplus',
+      v_deal.id,
+      'Surplus of deal ' || COALESCE(v_deal."SrNo", v_deal.id::TEXT),
+      'deal_registration'
+    );
+  END IF;
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    recipient_id,
+    message_text,
+    whatsapp_template,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    (m->>'recipient_id')::UUID,
+    m->>'message_text',
+    NULLIF(m->'whatsapp_template', 'null'::JSONB),
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION consume_deal_stock(UUID, UUID, UUID, NUMERIC, TEXT, TEXT) IS 'Take a from-inventory deal''s quantity from its product''s lots (oldest first), costed by p_cost_method; raises insufficient_stock when short';
+COMMENT ON FUNCTION deal_stock_cost(UUID) IS 'Cost per kg of the stock a deal has taken, from its movements';
+
+-- Deals registered since stock tracking began took their lots FIFO at the lots' cost
+UPDATE deals_unified d
+SET inventory_cost_per_kg = deal_stock_cost(d.id),
+    inventory_cost_method = 'fifo'
+WHERE d.material_source = 'from-inventory'
+  AND d.inventory_cost_per_kg IS NULL
+  AND EXISTS (
+    SELECT 1 FROM stock_movements sm
+    WHERE sm.deal_id = d.id
+      AND sm.movement_type = 'deal_out'
+  );
+
+-- Boss 1 template: show the stock cost instead of the placeholder; stored copies edited in
+-- that block are left alone
+UPDATE message_templates
+SET template_text = replace(
+      template_text,
+      $old${{#if hasPurchaseCost}}
+Landed Cost: {{formatCurrency landedCost}}
+Net Profit: {{formatCurrency netProfit}} ({{netMarginPercent}}%)
+Per kg: ₹{{formatDecimal netMarginPerKg}}
+{{else}}
+Cost: From inventory (TBD)
+{{/if}}$old$,
+      $new${{#if hasPurchaseCost}}
+{{#if hasInventoryCost}}
+Stock Cost: {{formatCurrency landedCost}} (₹{{formatDecimal inventoryCostPerKg}}/kg, {{inventoryCostMethod}})
+{{else}}
+Landed Cost: {{formatCurrency landedCost}}
+{{/if}}
+Net Profit: {{formatCurrency netProfit}} ({{netMarginPercent}}%)
+Per kg: ₹{{formatDecimal netMarginPerKg}}
+{{else}}
+Cost: Not recorded
+{{/if}}$new$
+    ),
+    variables = variables || '["hasInventoryCost","inventoryCostPerKg","inventoryCostMethod"]'::jsonb
+WHERE name = 'deal_registered_boss1'
+  AND template_text LIKE '%Cost: From inventory (TBD)%';
+
+SELECT 'inventory costing migration completed successfully' as result;
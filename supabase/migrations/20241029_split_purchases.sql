@@ -0,0 +1,81 @@
+-- Split Purchases Migration
+-- A new-material sale could only name one supplier. A deal now records purchase lines: one per
+-- supplier, plus at most one taking stock already held, which together cover the quantity sold.
+-- The single-purchase columns keep a summary (supplier names, quantity bought from suppliers and
+-- their blended rate), so reports reading them keep working, and the accounts and logistics
+-- messages list the lines of a split purchase.
+-- Earlier deals keep purchase_lines NULL and are read as one supplier line from those columns.
+
+ALTER TABLE deals_unified ADD COLUMN IF NOT EXISTS purchase_lines JSONB;
+
+COMMENT ON COLUMN deals_unified.purchase_lines IS 'Sources of a new-material deal: [{source: supplier|stock, purchaseParty, supplierId, quantity, rate}]; stock is at its cost per kg';
+COMMENT ON COLUMN deals_unified.inventory_cost_per_kg IS 'Cost per kg of the stock the deal took (a from-inventory sale or a stock purchase line), at registration';
+
+-- A stock purchase line is priced at what the stock it took cost, like a from-inventory sale
+CREATE OR REPLACE FUNCTION record_deal_stock_cost(p_deal_id UUID, p_cost_method TEXT)
+RETURNS deals_unified AS $$
+  UPDATE deals_unified d
+  SET inventory_cost_per_kg = taken.cost_per_kg,
+      inventory_cost_method = p_cost_method,
+      purchase_lines = CASE WHEN d.purchase_lines IS NULL THEN NULL ELSE COALESCE((
+        SELECT jsonb_agg(
+          CASE WHEN lines.line->>'source' = 'stock'
+            THEN jsonb_set(lines.line, '{rate}', to_jsonb(taken.cost_per_kg))
+            ELSE lines.line
+          END
+          ORDER BY lines.position
+        )
+        FROM jsonb_array_elements(d.purchase_lines) WITH ORDINALITY AS lines(line, position)
+      ), '[]'::JSONB) END
+  FROM (SELECT deal_stock_cost(p_deal_id) as cost_per_kg) taken
+  WHERE d.id = p_deal_id
+  RETURNING d.*
+$$ LANGUAGE sql;
+
+-- Accounts template: list each line of a split purchase; stored copies edited in that block are
+-- left alone
+UPDATE message_templates
+SET template_text = replace(
+      template_text,
+      $old${{#if hasPurchaseDetails}}
+Purchase: {{formatNumber quantityPurchased}}kg × {{formatCurrency purchaseRate}}/kg = {{formatCurrency purchaseAmount}}
+Gross Profit$old$,
+      $new${{#if hasPurchaseDetails}}
+{{#if hasSplitPurchase}}
+Purchase:
+{{purchaseLinesBreakdown}}
+Total: {{formatCurrency purchaseAmount}}
+{{else}}
+Purchase: {{formatNumber quantityPurchased}}kg × {{formatCurrency purchaseRate}}/kg = {{formatCurrency purchaseAmount}}
+{{/if}}
+Gross Profit$new$
+    ),
+    variables = variables || '["hasSplitPurchase","purchaseLinesBreakdown"]'::jsonb
+WHERE name = 'deal_registered_accounts'
+  AND template_text NOT LIKE '%hasSplitPurchase%'
+  AND template_text LIKE '%Purchase: {{formatNumber quantityPurchased}}kg × {{formatCurrency purchaseRate}}/kg = {{formatCurrency purchaseAmount}}%';
+
+-- Logistics template: the quantity to collect from each supplier (and stock)
+UPDATE message_templates
+SET template_text = replace(
+      template_text,
+      $old$🔄 COORDINATION NEEDED:
+Supplier: {{purchaseParty}}
+Purchase Qty: {{formatNumber quantityPurchased}}kg
+$old$,
+      $new$🔄 COORDINATION NEEDED:
+{{#if hasSplitPurchase}}
+{{purchaseLinesQuantities}}
+{{else}}
+Supplier: {{purchaseParty}}
+Purchase Qty: {{formatNumber quantityPurchased}}kg
+{{/if}}
+$new$
+    ),
+    variables = variables || '["hasSplitPurchase","purchaseLinesQuantities"]'::jsonb
+WHERE name = 'deal_registered_logistics'
+  AND template_text NOT LIKE '%hasSplitPurchase%'
+  AND template_text LIKE '%Supplier: {{purchaseParty}}
+Purchase Qty: {{formatNumber quantityPurchased}}kg%';
+
+SELECT 'split purchases migration completed successfully' as result;
@@ -0,0 +1,119 @@
+-- Deal Lifecycle Migration
+-- A deal was fire-and-forget once registered. It now moves through
+--   registered → confirmed → dispatched → delivered → invoiced → paid
+-- and can be cancelled until it is dispatched. Every move is recorded in
+-- deal_status_transitions (who, when, why), in the same transaction as the status change and
+-- the notifications it queues for the roles that act on the new status.
+-- Deals already in the table start out 'registered', except those dated more than 90 days
+-- before this migration, which are closed as 'paid' (see the backfill below).
+
+ALTER TABLE deals_unified ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'registered'
+  CHECK (status IN ('registered', 'confirmed', 'dispatched', 'delivered', 'invoiced', 'paid', 'cancelled'));
+ALTER TABLE deals_unified ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_deals_unified_status ON deals_unified(status);
+
+COMMENT ON COLUMN deals_unified.status IS 'Lifecycle status: registered, confirmed, dispatched, delivered, invoiced, paid or cancelled';
+COMMENT ON COLUMN deals_unified.status_changed_at IS 'When the deal last changed status; NULL while it is still registered';
+
+CREATE TABLE IF NOT EXISTS deal_status_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id UUID NOT NULL REFERENCES deals_unified(id) ON DELETE CASCADE,
+  from_status VARCHAR(20) NOT NULL,
+  to_status VARCHAR(20) NOT NULL,
+  performed_by VARCHAR(100) NOT NULL DEFAULT 'operator',
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_status_transitions_deal ON deal_status_transitions(deal_id, created_at);
+
+COMMENT ON TABLE deal_status_transitions IS 'Status changes of deals, with who made them and why';
+
+-- Deals registered before statuses were tracked: those more than 90 days old are taken to be
+-- settled and closed as 'paid', with the move recorded so their history says where the status
+-- came from; newer ones stay 'registered' for the team to bring up to date
+WITH settled AS (
+  UPDATE deals_unified d
+  SET status = 'paid'
+  WHERE d.status = 'registered'
+    AND COALESCE(d."Date", d.created_at::DATE) < CURRENT_DATE - INTERVAL '90 days'
+    AND NOT EXISTS (SELECT 1 FROM deal_status_transitions t WHERE t.deal_id = d.id)
+  RETURNING d.id
+)
+INSERT INTO deal_status_transitions (deal_id, from_status, to_status, performed_by, note)
+SELECT id, 'registered', 'paid', 'migration', 'Registered before deal statuses were tracked; assumed settled'
+FROM settled;
+
+-- Move a deal from p_from_status to p_to_status, record the move and queue its notifications.
+-- Raises status_conflict when the deal is no longer in p_from_status (someone else moved it).
+-- create_deal_with_notifications inserts every column, so DealService sends status 'registered'
+-- with each new deal rather than relying on the column default.
+CREATE OR REPLACE FUNCTION transition_deal_status(
+  p_deal_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_performed_by TEXT DEFAULT 'operator',
+  p_note TEXT DEFAULT NULL,
+  p_messages JSONB DEFAULT '[]'::JSONB
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  UPDATE deals_unified
+  SET status = p_to_status,
+      status_changed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_deal_id
+    AND status = p_from_status
+  RETURNING * INTO v_deal;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal % is no longer %', p_deal_id, p_from_status
+      USING HINT = 'status_conflict';
+  END IF;
+
+  INSERT INTO deal_status_transitions (deal_id, from_status, to_status, performed_by, note)
+  VALUES (p_deal_id, p_from_status, p_to_status, COALESCE(p_performed_by, 'operator'), p_note);
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    recipient_id,
+    message_text,
+    whatsapp_template,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    (m->>'recipient_id')::UUID,
+    m->>'message_text',
+    NULLIF(m->'whatsapp_template', 'null'::JSONB),
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION transition_deal_status(UUID, TEXT, TEXT, TEXT, TEXT, JSONB) IS 'Change a deal''s status, record the transition and queue its notifications; raises status_conflict when the deal has moved on';
+
+-- Boss 1 template: show the deal's status instead of a fixed "In progress"; stored copies edited
+-- in that line are left alone
+UPDATE message_templates
+SET template_text = replace(template_text, 'Processing: In progress', 'Status: {{dealStatus}}'),
+    variables = variables || '["dealStatus"]'::jsonb
+WHERE name = 'deal_registered_boss1'
+  AND template_text LIKE '%Processing: In progress%';
+
+SELECT 'deal lifecycle migration completed successfully' as result;
@@ -0,0 +1,268 @@
+-- Deal Amendments Migration
+-- A registered deal could not be corrected. Its date, quantities, rates, delivery terms and notes
+-- can now be amended: amend_deal() updates the deal, records a field-level before/after diff
+-- with who made it in deal_amendments, adjusts the stock a from-inventory deal took and queues
+-- the "DEAL AMENDED" messages, in one transaction. Audit rows (amendments and status changes)
+-- cannot be updated or deleted.
+-- Cancelling a deal (transition_deal_status to 'cancelled') now returns the stock it took.
+-- An amendment that takes more stock or gives some back re-costs the deal from its movements.
+
+-- Stock going back to its lot from an amended or cancelled deal
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_movement_type_check
+  CHECK (movement_type IN ('receipt', 'deal_surplus', 'deal_out', 'deal_return'));
+
+CREATE TABLE IF NOT EXISTS deal_amendments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id UUID NOT NULL REFERENCES deals_unified(id),
+  changes JSONB NOT NULL,
+  performed_by VARCHAR(100) NOT NULL DEFAULT 'operator',
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_amendments_deal ON deal_amendments(deal_id, created_at);
+
+COMMENT ON TABLE deal_amendments IS 'Corrections to registered deals, with who made them and why';
+COMMENT ON COLUMN deal_amendments.changes IS 'Changed fields: [{field, before, after}]';
+
+-- Audit rows are append-only (so a deal that has been amended or moved can't be deleted either)
+CREATE OR REPLACE FUNCTION prevent_audit_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% rows cannot be changed or deleted', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS deal_amendments_immutable ON deal_amendments;
+CREATE TRIGGER deal_amendments_immutable
+  BEFORE UPDATE OR DELETE ON deal_amendments
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_change();
+
+DROP TRIGGER IF EXISTS deal_status_transitions_immutable ON deal_status_transitions;
+CREATE TRIGGER deal_status_transitions_immutable
+  BEFORE UPDATE OR DELETE ON deal_status_transitions
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_change();
+
+-- Give back up to p_quantity kg (all of it when NULL) of the stock a deal took, to the lots it
+-- came from, newest lot first (the reverse of the FIFO order it was taken in). Each return is
+-- at what the deal paid for that lot's stock, so the cost of what it keeps is unchanged.
+CREATE OR REPLACE FUNCTION return_deal_stock(
+  p_deal_id UUID,
+  p_quantity NUMERIC DEFAULT NULL,
+  p_created_by TEXT DEFAULT NULL
+)
+RETURNS SETOF stock_movements AS $$
+DECLARE
+  v_remaining NUMERIC := p_quantity;
+  v_give NUMERIC;
+  v_taken RECORD;
+  v_movement stock_movements;
+BEGIN
+  FOR v_taken IN
+    SELECT
+      sl.id as lot_id,
+      ROUND(
+        SUM(-sm.quantity * sm.cost_per_kg) FILTER (WHERE sm.movement_type = 'deal_out')
+          / NULLIF(SUM(-sm.quantity) FILTER (WHERE sm.movement_type = 'deal_out'), 0),
+        2
+      ) as cost_per_kg,
+      -SUM(sm.quantity) as quantity
+    FROM stock_movements sm
+    JOIN stock_lots sl ON sl.id = sm.lot_id
+    WHERE sm.deal_id = p_deal_id
+      AND sm.movement_type IN ('deal_out', 'deal_return')
+    GROUP BY sl.id, sl.received_at, sl.created_at
+    HAVING -SUM(sm.quantity) > 0
+    ORDER BY sl.received_at DESC, sl.created_at DESC
+  LOOP
+    EXIT WHEN v_remaining IS NOT NULL AND v_remaining <= 0;
+    v_give := CASE WHEN v_remaining IS NULL THEN v_taken.quantity ELSE LEAST(v_taken.quantity, v_remaining) END;
+
+    UPDATE stock_lots
+    SET quantity_available = quantity_available + v_give,
+        updated_at = NOW()
+    WHERE id = v_taken.lot_id;
+
+    INSERT INTO stock_movements (lot_id, deal_id, movement_type, quantity, cost_per_kg, created_by)
+    VALUES (v_taken.lot_id, p_deal_id, 'deal_return', v_give, v_taken.cost_per_kg, p_created_by)
+    RETURNING * INTO v_movement;
+
+    RETURN NEXT v_movement;
+    v_remaining := v_remaining - v_give;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cost per kg of the stock a deal still holds: what it took less what it gave back
+CREATE OR REPLACE FUNCTION deal_stock_cost(p_deal_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT ROUND(SUM(-quantity * cost_per_kg) / NULLIF(SUM(-quantity), 0), 2)
+  FROM stock_movements
+  WHERE deal_id = p_deal_id
+    AND movement_type IN ('deal_out', 'deal_return')
+$$ LANGUAGE sql STABLE;
+
+-- Amend a deal: p_patch holds the new column values, p_changes the diff to record.
+-- Raises amendment_conflict when the deal changed since the app read it (p_expected_updated_at,
+-- NULL for a deal that has never been updated).
+-- p_stock: {"consume": {product_id, warehouse_id, quantity, cost_method}} when a from-inventory
+-- deal sells more, or {"return": {quantity}} when it sells less; either way the deal's stock
+-- cost is recomputed from its movements
+CREATE OR REPLACE FUNCTION amend_deal(
+  p_deal_id UUID,
+  p_patch JSONB,
+  p_changes JSONB,
+  p_expected_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_performed_by TEXT DEFAULT 'operator',
+  p_note TEXT DEFAULT NULL,
+  p_messages JSONB DEFAULT '[]'::JSONB,
+  p_stock JSONB DEFAULT NULL
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  SELECT * INTO v_deal FROM deals_unified WHERE id = p_deal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_deal.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'Deal % changed since it was read', p_deal_id
+      USING HINT = 'amendment_conflict';
+  END IF;
+
+  v_deal := jsonb_populate_record(v_deal, p_patch);
+
+  UPDATE deals_unified
+  SET "Date" = v_deal."Date",
+      "Quantity Sold" = v_deal."Quantity Sold",
+      "Sale Rate" = v_deal."Sale Rate",
+      "Quantity Purchased" = v_deal."Quantity Purchased",
+      "Purchase Rate" = v_deal."Purchase Rate",
+      purchase_lines = v_deal.purchase_lines,
+      delivery_terms = v_deal.delivery_terms,
+      sale_comments = v_deal.sale_comments,
+      purchase_comments = v_deal.purchase_comments,
+      final_comments = v_deal.final_comments,
+      updated_at = NOW()
+  WHERE id = p_deal_id
+  RETURNING * INTO v_deal;
+
+  IF p_stock ? 'consume' THEN
+    PERFORM consume_deal_stock(
+      v_deal.id,
+      (p_stock->'consume'->>'product_id')::UUID,
+      (p_stock->'consume'->>'warehouse_id')::UUID,
+      (p_stock->'consume'->>'quantity')::NUMERIC,
+      'deal_amendment',
+      COALESCE(p_stock->'consume'->>'cost_method', v_deal.inventory_cost_method, 'fifo')
+    );
+    v_deal := record_deal_stock_cost(
+      v_deal.id,
+      COALESCE(p_stock->'consume'->>'cost_method', v_deal.inventory_cost_method, 'fifo')
+    );
+  END IF;
+
+  IF p_stock ? 'return' THEN
+    PERFORM return_deal_stock(v_deal.id, (p_stock->'return'->>'quantity')::NUMERIC, 'deal_amendment');
+    v_deal := record_deal_stock_cost(v_deal.id, COALESCE(v_deal.inventory_cost_method, 'fifo'));
+  END IF;
+
+  INSERT INTO deal_amendments (deal_id, changes, performed_by, note)
+  VALUES (p_deal_id, p_changes, COALESCE(p_performed_by, 'operator'), p_note);
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    recipient_id,
+    message_text,
+    whatsapp_template,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    (m->>'recipient_id')::UUID,
+    m->>'message_text',
+    NULLIF(m->'whatsapp_template', 'null'::JSONB),
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cancelling a deal gives back the stock it took; a purchase surplus it added stays in stock
+CREATE OR REPLACE FUNCTION transition_deal_status(
+  p_deal_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_performed_by TEXT DEFAULT 'operator',
+  p_note TEXT DEFAULT NULL,
+  p_messages JSONB DEFAULT '[]'::JSONB
+)
+RETURNS deals_unified AS $$
+DECLARE
+  v_deal deals_unified;
+BEGIN
+  UPDATE deals_unified
+  SET status = p_to_status,
+      status_changed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_deal_id
+    AND status = p_from_status
+  RETURNING * INTO v_deal;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal % is no longer %', p_deal_id, p_from_status
+      USING HINT = 'status_conflict';
+  END IF;
+
+  IF p_to_status = 'cancelled' THEN
+    PERFORM return_deal_stock(p_deal_id, NULL, 'deal_cancellation');
+  END IF;
+
+  INSERT INTO deal_status_transitions (deal_id, from_status, to_status, performed_by, note)
+  VALUES (p_deal_id, p_from_status, p_to_status, COALESCE(p_performed_by, 'operator'), p_note);
+
+  INSERT INTO message_outbox (
+    deal_id,
+    platform,
+    recipient_phone,
+    recipient_role,
+    recipient_id,
+    message_text,
+    whatsapp_template,
+    status,
+    max_attempts,
+    created_by
+  )
+  SELECT
+    v_deal.id,
+    COALESCE(m->>'platform', 'whatsapp'),
+    m->>'recipient_phone',
+    m->>'recipient_role',
+    (m->>'recipient_id')::UUID,
+    m->>'message_text',
+    NULLIF(m->'whatsapp_template', 'null'::JSONB),
+    'pending',
+    COALESCE((m->>'max_attempts')::INTEGER, 3),
+    COALESCE(m->>'created_by', 'system')
+  FROM jsonb_array_elements(COALESCE(p_messages, '[]'::JSONB)) AS m;
+
+  RETURN v_deal;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION deal_stock_cost(UUID) IS 'Cost per kg of the stock a deal still holds, from its movements';
+COMMENT ON FUNCTION return_deal_stock(UUID, NUMERIC, TEXT) IS 'Give stock a deal took back to its lots, newest first; all of it when p_quantity is NULL';
+COMMENT ON FUNCTION amend_deal(UUID, JSONB, JSONB, TIMESTAMPTZ, TEXT, TEXT, JSONB, JSONB) IS 'Amend a deal, record the diff, adjust its stock and queue its notifications; raises amendment_conflict when the deal has changed';
+
+SELECT 'deal amendments migration completed successfully' as result;
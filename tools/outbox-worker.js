@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+/**
+ * Outbox Worker
+ * Long-lived alternative to a cron schedule: polls the outbox dispatch and retry
+ * endpoints of a running app so queued and failed WhatsApp messages keep moving.
+ *
+ * Environment:
+ *   OUTBOX_WORKER_URL          Base URL of the app (default http://localhost:3000)
+ *   OUTBOX_WORKER_INTERVAL_MS  Delay between polls (default 30000)
+ *   CRON_SECRET                Sent as a Bearer token when set
+ */
+
+const baseUrl = (process.env.OUTBOX_WORKER_URL || 'http://localhost:3000').replace(/\/$/, '')
+const intervalMs = parseInt(process.env.OUTBOX_WORKER_INTERVAL_MS || '30000', 10)
+const headers = process.env.CRON_SECRET
+  ? { Authorization: `Bearer ${process.env.CRON_SECRET}` }
+  : {}
+
+let stopping = false
+let timer = null
+
+async function callEndpoint(path) {
+  const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers })
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(`${path} returned ${response.status}: ${body.error || response.statusText}`)
+  }
+
+  return body.data
+}
+
+async function poll() {
+  for (const path of ['/api/messaging/dispatch', '/api/messaging/retry']) {
+    try {
+      const result = await callEndpoint(path)
+      if (result && (result.claimed || result.due || result.deadLettered)) {
+        console.log(`[${new Date().toISOString()}] ${path}`, result)
+      }
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] ${error.message}`)
+    }
+  }
+
+  if (!stopping) {
+    timer = setTimeout(poll, intervalMs)
+  }
+}
+
+function shutdown(signal) {
+  console.log(`Received ${signal}, stopping outbox worker`)
+  stopping = true
+  clearTimeout(timer)
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'))
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+console.log(`Outbox worker polling ${baseUrl} every ${intervalMs}ms`)
+poll()